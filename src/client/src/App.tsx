@@ -21,6 +21,7 @@ import {
   generateMockStatus,
   generateMockLatestPrices,
 } from './utils/mockData';
+import type { FloorPlan, PriceHistory } from '@shared/types';
 
 const createAppTheme = (mode: 'light' | 'dark') => createTheme({
   palette: {
@@ -47,27 +48,12 @@ type AvailabilityResponse = {
   message?: string;
 };
 
-type FloorPlan = {
-  id: number;
-  name: string;
-  building_name?: string;
-  bedrooms?: number;
-  bathrooms?: number;
-  bathrooms_estimated?: boolean;
-  has_den?: boolean;
-  current_price?: number | null;
-  lowest_price?: number | null;
-  is_available?: boolean;
-  square_footage?: number | null;
-  image_url?: string | null;
-};
-
 type FloorPlansResponse = {
   success: boolean;
   data?: { floorPlans: FloorPlan[] };
 };
 
-type HistoryPoint = { collection_date: string; price: number };
+type HistoryPoint = Pick<PriceHistory, 'collectionDate' | 'price'>;
 type FloorPlanHistoryResponse = {
   success: boolean;
   data?: { history: HistoryPoint[] };
@@ -132,7 +118,7 @@ function App() {
     return getFilterSummary(floorPlans.length, filteredFloorPlans.length, filters);
   }, [floorPlans.length, filteredFloorPlans.length, filters]);
   
-  const availablePlans = React.useMemo(() => filteredFloorPlans.filter(fp => !!fp.is_available), [filteredFloorPlans]);
+  const availablePlans = React.useMemo(() => filteredFloorPlans.filter(fp => !!fp.isAvailable), [filteredFloorPlans]);
   
   // Helper to extract layout group from a name string
   const getLayoutGroupFromName = (name: string): string | null => {
@@ -230,7 +216,7 @@ function App() {
         // Generate history for all floor plans
         const histories = new Map<number, HistoryPoint[]>();
         mockFloorPlans.forEach(fp => {
-          const basePrice = fp.current_price || 2500;
+          const basePrice = fp.currentPrice || 2500;
           histories.set(fp.id, generateMockHistory(basePrice, 60));
         });
         
@@ -278,7 +264,7 @@ function App() {
         // Derive available-now from floor plans (price/availability-based) and merge with scraped units
         const fpsList = fpsJson.data.floorPlans;
         const derivedNow: AvailabilityItem[] = fpsList
-          .filter(fp => !!fp.is_available)
+          .filter(fp => !!fp.isAvailable)
           .map(fp => ({ name: String(fp.name) }));
 
         const uniq = new Map<string, AvailabilityItem>();
@@ -357,9 +343,30 @@ function App() {
         throw new Error(json?.error || json?.message || 'Scrape failed');
       }
 
-      const filtered = json?.data?.totals?.filtered ?? 0;
-      const upserted = json?.data?.totals?.upserted ?? 0;
-      setScrapeMsg(`Scrape completed: ${filtered} plans processed, ${upserted} upserted.`);
+      // The scrape is queued as a job; follow it until it finishes
+      const jobId = json.data.job.id;
+      let job = json.data.job;
+      let run: any = null;
+      while (job.status === 'queued' || job.status === 'running') {
+        setScrapeMsg(job.status === 'queued'
+          ? 'Scrape queued behind the current one...'
+          : `Scraping: ${job.buildings_done} of ${job.buildings_total || '?'} buildings done...`);
+        await new Promise(resolve => setTimeout(resolve, 2000));
+        const jobResp = await fetch(`/api/jobs/${jobId}`);
+        const jobJson = await jobResp.json();
+        if (!jobJson?.success) {
+          throw new Error(jobJson?.error || 'Failed to follow scrape job');
+        }
+        job = jobJson.data.job;
+        run = jobJson.data.run;
+      }
+      if (job.status === 'failed' || job.status === 'cancelled') {
+        throw new Error(job.error || `Scrape ${job.status}`);
+      }
+
+      const filtered = run?.plans_filtered ?? 0;
+      const upserted = run?.plans_upserted ?? 0;
+      setScrapeMsg(`Scrape ${job.status === 'partial' ? 'partly completed' : 'completed'}: ${filtered} plans processed, ${upserted} upserted.`);
 
       await fetchAll();
     } catch (e: any) {
@@ -417,7 +424,7 @@ function App() {
   };
 
   const FloorPlanCard: React.FC<{ fp: FloorPlan; selected: boolean; onSelect: (fp: FloorPlan) => void; imageHeight?: number; historyPoints?: HistoryPoint[]; }> = ({ fp, selected, onSelect, imageHeight = 120, historyPoints = [] }) => {
-    const [index, setIndex] = React.useState(0);
+    const [broken, setBroken] = React.useState(false);
 
     // Using live data passed via props (historyPoints); no mock series
     const pctForWindow = (window: number): number => {
@@ -447,37 +454,15 @@ function App() {
       );
     };
 
-    const candidates = React.useMemo(() => {
-      const list: string[] = [];
-      const isValid = (u?: string | null) => !!u && u.startsWith('/static/');
-      if (isValid(fp.image_url)) list.push(fp.image_url as string);
-
-      const m = String(fp.name || '').match(/\b([DE])\s*-?\s*(\d{1,2})\b/i);
-      if (m && m[1] && m[2]) {
-        const code = `${m[1].toLowerCase()}${parseInt(m[2], 10)}`;
-        const tPrimary = fp.building_name && /boren/i.test(fp.building_name || '') ? 't2' : 't1';
-        const tAlt = tPrimary === 't1' ? 't2' : 't1';
-        for (const t of [tPrimary, tAlt]) {
-          for (const ext of ['png','jpg','jpeg','webp']) {
-            list.push(`/static/plan-images/${t}-plan_${code}.${ext}`);
-          }
-        }
-      }
-      return Array.from(new Set(list));
-    }, [fp.image_url, fp.name, fp.building_name]);
-
-    const src = candidates[index];
-
-    const handleError = () => {
-      if (index + 1 < candidates.length) setIndex(index + 1);
-    };
+    // Exact URLs from the plan image manifest; a plan without a stored image shows none
+    const src = fp.thumbnailUrl || fp.imageUrl;
 
     return (
       <Paper onClick={() => onSelect(fp)} sx={{ p: 0, cursor: 'pointer', border: selected ? '2px solid #1976d2' : '1px solid #eee' }}>
-        {src && (
+        {src && !broken && (
           <img
             src={src}
-            onError={handleError}
+            onError={() => setBroken(true)}
             alt={fp.name}
             style={{ width: '100%', height: 'auto', maxHeight: imageHeight, objectFit: 'contain', display: 'block', background: 'transparent', borderRadius: 0, margin: 0, marginBottom: 0 }}
           />
@@ -485,13 +470,16 @@ function App() {
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, px: 1.5, py: 1 }}>
           <Box sx={{ minWidth: 180, flex: '0 0 auto' }}>
             <Typography variant="subtitle1">{fp.name}</Typography>
-            <Typography variant="body2" color="text.secondary">{fp.building_name || '—'}</Typography>
+            <Typography variant="body2" color="text.secondary">{fp.buildingName || '—'}</Typography>
             <Typography variant="body2">
-              {fp.bedrooms === 0 ? 'Studio' : `${fp.bedrooms || 0} BR`} / {fp.bathrooms || 1} BA{fp.bathrooms_estimated ? '?' : ''}{fp.has_den ? ' + Den' : ''}
+              {fp.bedrooms === 0 ? 'Studio' : `${fp.bedrooms || 0} BR`} / {fp.bathrooms || 1} BA{fp.bathroomsEstimated ? '?' : ''}{fp.hasDen ? ' + Den' : ''}
             </Typography>
-            <Typography variant="body2">Current: {fp.current_price != null ? `$${fp.current_price}` : 'n/a'}</Typography>
-            <Typography variant="body2">Lowest: {fp.lowest_price != null ? `$${fp.lowest_price}` : 'n/a'}</Typography>
-            <Typography variant="body2">Available: {fp.is_available ? 'Yes' : 'No'}</Typography>
+            <Typography variant="body2">Current: {fp.currentPrice != null ? `$${fp.currentPrice}` : 'n/a'}</Typography>
+            <Typography variant="body2">Lowest: {fp.lowestPrice != null ? `$${fp.lowestPrice}` : 'n/a'}</Typography>
+            {fp.totalMonthlyCost != null && fp.totalMonthlyCost !== fp.currentPrice && (
+              <Typography variant="body2">Total with fees: ${fp.totalMonthlyCost}/mo</Typography>
+            )}
+            <Typography variant="body2">Available: {fp.isAvailable ? 'Yes' : 'No'}</Typography>
           </Box>
 
           <Box sx={{ flex: '1 1 auto', display: 'flex', justifyContent: 'center' }}>
@@ -538,7 +526,7 @@ function App() {
                 <IconButton onClick={() => setDarkMode(!darkMode)} color="inherit">
                   {darkMode ? <Brightness7Icon /> : <Brightness4Icon />}
                 </IconButton>
-                <ExportButton variant="outlined" />
+                <ExportButton variant="outlined" basis={filters.priceBasis} />
                 <Button variant="contained" onClick={runScraper} disabled={scraping}>
                   {scraping ? 'Running…' : 'Run Scraper Now'}
                 </Button>
@@ -710,6 +698,7 @@ function App() {
                             hasDen: null,
                             minPrice: null,
                             maxPrice: null,
+                            priceBasis: 'rent',
                             minSquareFootage: null,
                             maxSquareFootage: null,
                           })}>
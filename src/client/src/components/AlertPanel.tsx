@@ -18,22 +18,11 @@ import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import ExpandLessIcon from '@mui/icons-material/ExpandLess';
 import TrendingDownIcon from '@mui/icons-material/TrendingDown';
 import StarIcon from '@mui/icons-material/Star';
+import ReportProblemIcon from '@mui/icons-material/ReportProblem';
 import SettingsIcon from '@mui/icons-material/Settings';
+import type { Alert } from '@shared/types';
 import { isDevelopmentMode, generateMockAlerts } from '../utils/mockData';
 
-interface Alert {
-  id: number;
-  floor_plan_id: number;
-  floor_plan_name: string;
-  building_name: string;
-  alert_type: 'price_drop' | 'lowest_price';
-  old_price: number | null;
-  new_price: number;
-  percentage_change: number | null;
-  is_dismissed: boolean;
-  created_at: string;
-}
-
 interface AlertPanelProps {
   onOpenSettings?: () => void;
   collapsed?: boolean;
@@ -55,7 +44,7 @@ const AlertPanel: React.FC<AlertPanelProps> = ({ onOpenSettings, collapsed: init
       if (useMockData) {
         await new Promise(resolve => setTimeout(resolve, 300));
         const mockAlerts = generateMockAlerts();
-        setAlerts(mockAlerts as any);
+        setAlerts(mockAlerts);
         setLoading(false);
         return;
       }
@@ -108,6 +97,9 @@ const AlertPanel: React.FC<AlertPanelProps> = ({ onOpenSettings, collapsed: init
   };
 
   const getAlertIcon = (type: string) => {
+    if (type === 'scrape_health') {
+      return <ReportProblemIcon sx={{ color: 'error.main', mr: 1 }} />;
+    }
     return type === 'lowest_price' ? (
       <StarIcon sx={{ color: 'warning.main', mr: 1 }} />
     ) : (
@@ -115,7 +107,7 @@ const AlertPanel: React.FC<AlertPanelProps> = ({ onOpenSettings, collapsed: init
     );
   };
 
-  const formatPrice = (price: number | null) => {
+  const formatPrice = (price?: number | null) => {
     return price != null ? `$${price.toLocaleString()}` : 'N/A';
   };
 
@@ -196,27 +188,40 @@ const AlertPanel: React.FC<AlertPanelProps> = ({ onOpenSettings, collapsed: init
               >
                 <Box sx={{ flex: 1 }}>
                   <Box sx={{ display: 'flex', alignItems: 'center', mb: 0.5 }}>
-                    {getAlertIcon(alert.alert_type)}
+                    {getAlertIcon(alert.alertType)}
                     <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
-                      {alert.floor_plan_name}
+                      {alert.alertType === 'scrape_health' ? 'Scrape health' : alert.floorPlanName}
                     </Typography>
                     <Chip
-                      label={alert.building_name}
+                      label={alert.buildingName}
                       size="small"
                       sx={{ ml: 1, height: 20, fontSize: '0.7rem' }}
                     />
+                    {alert.leaseTermMonths != null && (
+                      <Chip
+                        label={`${alert.leaseTermMonths}-mo`}
+                        size="small"
+                        variant="outlined"
+                        sx={{ ml: 1, height: 20, fontSize: '0.7rem' }}
+                      />
+                    )}
                   </Box>
 
                   <Box sx={{ ml: 4 }}>
-                    {alert.alert_type === 'price_drop' ? (
+                    {alert.alertType === 'scrape_health' ? (
+                      <Typography variant="body2" color="text.secondary">
+                        The last scrape looks different from recent runs: {alert.message || 'fewer plans or missing fields'}.
+                        Check the site markup and selectors.
+                      </Typography>
+                    ) : alert.alertType === 'price_drop' ? (
                       <Typography variant="body2" color="text.secondary">
-                        Price dropped from {formatPrice(alert.old_price)} to{' '}
+                        Price dropped from {formatPrice(alert.oldPrice)} to{' '}
                         <Box component="span" sx={{ color: 'success.main', fontWeight: 600 }}>
-                          {formatPrice(alert.new_price)}
+                          {formatPrice(alert.newPrice)}
                         </Box>
-                        {alert.percentage_change != null && (
+                        {alert.percentageChange != null && (
                           <Box component="span" sx={{ ml: 1, color: 'success.main' }}>
-                            (↓ {alert.percentage_change.toFixed(1)}%)
+                            (↓ {alert.percentageChange.toFixed(1)}%)
                           </Box>
                         )}
                       </Typography>
@@ -224,17 +229,17 @@ const AlertPanel: React.FC<AlertPanelProps> = ({ onOpenSettings, collapsed: init
                       <Typography variant="body2" color="text.secondary">
                         New lowest price:{' '}
                         <Box component="span" sx={{ color: 'warning.main', fontWeight: 600 }}>
-                          {formatPrice(alert.new_price)}
+                          {formatPrice(alert.newPrice)}
                         </Box>
-                        {alert.old_price != null && (
+                        {alert.oldPrice != null && (
                           <Box component="span" sx={{ ml: 1 }}>
-                            (previous low: {formatPrice(alert.old_price)})
+                            (previous low: {formatPrice(alert.oldPrice)})
                           </Box>
                         )}
                       </Typography>
                     )}
                     <Typography variant="caption" color="text.disabled" sx={{ display: 'block', mt: 0.5 }}>
-                      {formatDate(alert.created_at)}
+                      {alert.createdAt && formatDate(alert.createdAt)}
                     </Typography>
                   </Box>
                 </Box>
@@ -14,14 +14,19 @@ import {
   Box,
   Typography,
   Alert,
-  CircularProgress
+  CircularProgress,
+  MenuItem
 } from '@mui/material';
 
 interface AlertSettings {
   thresholdType: 'dollar' | 'percentage';
   thresholdValue: number;
+  leaseTermMonths: number | null;
 }
 
+// Lease terms SecureCafe quotes (months)
+const LEASE_TERM_OPTIONS = Array.from({ length: 23 }, (_, i) => i + 2);
+
 interface AlertSettingsDialogProps {
   open: boolean;
   onClose: () => void;
@@ -31,7 +36,8 @@ interface AlertSettingsDialogProps {
 const AlertSettingsDialog: React.FC<AlertSettingsDialogProps> = ({ open, onClose, onSave }) => {
   const [settings, setSettings] = useState<AlertSettings>({
     thresholdType: 'percentage',
-    thresholdValue: 5
+    thresholdValue: 5,
+    leaseTermMonths: null
   });
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -58,11 +64,13 @@ const AlertSettingsDialog: React.FC<AlertSettingsDialogProps> = ({ open, onClose
         const settingsArray = data.data.settings;
         const typeEntry = settingsArray.find((s: any) => s.key === 'alert_threshold_type');
         const valueEntry = settingsArray.find((s: any) => s.key === 'alert_threshold_value');
+        const termEntry = settingsArray.find((s: any) => s.key === 'alert_lease_term_months');
 
-        if (typeEntry || valueEntry) {
+        if (typeEntry || valueEntry || termEntry) {
           setSettings({
             thresholdType: (typeEntry?.value as 'dollar' | 'percentage') || 'percentage',
-            thresholdValue: valueEntry?.value ? Number(valueEntry.value) : 5
+            thresholdValue: valueEntry?.value ? Number(valueEntry.value) : 5,
+            leaseTermMonths: termEntry?.value ? Number(termEntry.value) : null
           });
         }
       }
@@ -128,6 +136,14 @@ const AlertSettingsDialog: React.FC<AlertSettingsDialogProps> = ({ open, onClose
     }
   };
 
+  const handleLeaseTermChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    setSettings({
+      ...settings,
+      leaseTermMonths: value === '' ? null : Number(value)
+    });
+  };
+
   return (
     <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
       <DialogTitle>Alert Settings</DialogTitle>
@@ -205,6 +221,21 @@ const AlertSettingsDialog: React.FC<AlertSettingsDialogProps> = ({ open, onClose
               }
             />
 
+            <TextField
+              select
+              fullWidth
+              sx={{ mt: 3 }}
+              label="Watch Lease Term"
+              value={settings.leaseTermMonths ?? ''}
+              onChange={handleLeaseTermChange}
+              helperText="Only alert on quotes for this lease length, or on the advertised price"
+            >
+              <MenuItem value="">Advertised price</MenuItem>
+              {LEASE_TERM_OPTIONS.map(term => (
+                <MenuItem key={term} value={term}>{term}-month quotes</MenuItem>
+              ))}
+            </TextField>
+
             <Box sx={{ mt: 3, p: 2, bgcolor: 'info.lighter', borderRadius: 1 }}>
               <Typography variant="caption" color="text.secondary">
                 <strong>Note:</strong> You will always be notified when a floor plan reaches its
@@ -6,12 +6,14 @@ interface ExportButtonProps {
   variant?: 'text' | 'outlined' | 'contained';
   size?: 'small' | 'medium' | 'large';
   fullWidth?: boolean;
+  basis?: 'rent' | 'total'; // 'total' adds monthly fee and total cost columns
 }
 
 const ExportButton: React.FC<ExportButtonProps> = ({ 
   variant = 'outlined', 
   size = 'medium',
-  fullWidth = false 
+  fullWidth = false,
+  basis = 'rent'
 }) => {
   const [exporting, setExporting] = useState(false);
   const [snackbar, setSnackbar] = useState<{
@@ -28,7 +30,7 @@ const ExportButton: React.FC<ExportButtonProps> = ({
     try {
       setExporting(true);
       
-      const response = await fetch('/api/export/csv');
+      const response = await fetch(basis === 'total' ? '/api/export/csv?basis=total' : '/api/export/csv');
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -29,6 +29,7 @@ export interface FilterState {
   hasDen: boolean | null;
   minPrice: number | null;
   maxPrice: number | null;
+  priceBasis: 'rent' | 'total'; // 'total' = current price plus recurring monthly fees
   minSquareFootage: number | null;
   maxSquareFootage: number | null;
 }
@@ -107,6 +108,13 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
     onFilterChange(newFilters);
   };
 
+  const handlePriceBasisChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const priceBasis: FilterState['priceBasis'] = event.target.checked ? 'total' : 'rent';
+    const newFilters = { ...localFilters, priceBasis };
+    setLocalFilters(newFilters);
+    onFilterChange(newFilters);
+  };
+
   const handleSquareFootageChange = (field: 'minSquareFootage' | 'maxSquareFootage') => (
     event: React.ChangeEvent<HTMLInputElement>
   ) => {
@@ -125,6 +133,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
       hasDen: null,
       minPrice: null,
       maxPrice: null,
+      priceBasis: 'rent',
       minSquareFootage: null,
       maxSquareFootage: null,
     };
@@ -338,6 +347,15 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
                 sx={{ flex: 1 }}
               />
             </Box>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={localFilters.priceBasis === 'total'}
+                  onChange={handlePriceBasisChange}
+                />
+              }
+              label="Include monthly fees (total cost)"
+            />
           </Box>
 
           {/* Square Footage Range */}
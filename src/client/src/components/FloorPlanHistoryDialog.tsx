@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import UndoIcon from '@mui/icons-material/Undo';
+
+interface AuditLogEntry {
+  id: number;
+  actor: string;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  source: string;
+  reverted_entry_id: number | null;
+  created_at: string;
+}
+
+interface FloorPlanHistoryDialogProps {
+  open: boolean;
+  floorPlanId: number | null;
+  floorPlanName?: string;
+  onClose: () => void;
+  onReverted?: () => void;
+}
+
+// Purges store a JSON snapshot of the row; show it as a short marker instead
+const formatValue = (entry: AuditLogEntry, value: string | null) => {
+  if (entry.field === 'record') return value ? '(floor plan)' : '(deleted)';
+  return value === null ? '—' : value;
+};
+
+const FloorPlanHistoryDialog: React.FC<FloorPlanHistoryDialogProps> = ({
+  open,
+  floorPlanId,
+  floorPlanName,
+  onClose,
+  onReverted
+}) => {
+  const [history, setHistory] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reverting, setReverting] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open && floorPlanId !== null) {
+      fetchHistory(floorPlanId);
+    }
+  }, [open, floorPlanId]);
+
+  const fetchHistory = async (id: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/admin/floorplans/${id}/history`);
+      const data = await response.json();
+
+      if (data.success) {
+        setHistory(data.data.history);
+      } else {
+        setError(data.error || 'Failed to load history');
+      }
+    } catch (err) {
+      setError('Network error loading history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevert = async (entry: AuditLogEntry) => {
+    if (floorPlanId === null) return;
+
+    try {
+      setReverting(entry.id);
+      setError(null);
+
+      const response = await fetch(`/api/admin/audit/${entry.id}/revert`, { method: 'POST' });
+      const data = await response.json();
+
+      if (data.success) {
+        await fetchHistory(floorPlanId);
+        onReverted?.();
+      } else {
+        setError(data.error || 'Failed to revert change');
+      }
+    } catch (err) {
+      setError('Network error reverting change');
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>History{floorPlanName ? ` — ${floorPlanName}` : ''}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <CircularProgress />
+        ) : history.length === 0 ? (
+          <Typography color="text.secondary">No changes recorded yet.</Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>When</TableCell>
+                <TableCell>Field</TableCell>
+                <TableCell>Before</TableCell>
+                <TableCell>After</TableCell>
+                <TableCell>Actor</TableCell>
+                <TableCell>Source</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {history.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell>{new Date(`${entry.created_at.replace(' ', 'T')}Z`).toLocaleString()}</TableCell>
+                  <TableCell>
+                    {entry.field}
+                    {entry.reverted_entry_id ? ` (revert of #${entry.reverted_entry_id})` : ''}
+                  </TableCell>
+                  <TableCell>{formatValue(entry, entry.old_value)}</TableCell>
+                  <TableCell>{formatValue(entry, entry.new_value)}</TableCell>
+                  <TableCell>{entry.actor}</TableCell>
+                  <TableCell>{entry.source}</TableCell>
+                  <TableCell>
+                    {entry.field !== 'record' && (
+                      <Button
+                        size="small"
+                        startIcon={reverting === entry.id ? <CircularProgress size={16} /> : <UndoIcon />}
+                        onClick={() => handleRevert(entry)}
+                        disabled={reverting !== null}
+                      >
+                        Revert
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default FloorPlanHistoryDialog;
@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  Button,
+  Box,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import BlockIcon from '@mui/icons-material/Block';
+
+interface IngestToken {
+  id: number;
+  device: string;
+  token_prefix: string;
+  created_by: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone; last_used_at is already ISO
+const formatTime = (value: string | null) =>
+  value ? new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`).toLocaleString() : '—';
+
+const IngestTokensPanel: React.FC = () => {
+  const [tokens, setTokens] = useState<IngestToken[]>([]);
+  const [device, setDevice] = useState('');
+  const [created, setCreated] = useState<{ device: string; token: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTokens = async () => {
+    setBusy(true);
+    try {
+      const response = await fetch('/api/admin/ingest-tokens');
+      const data = await response.json();
+      if (data.success) {
+        setTokens(data.data.tokens);
+      } else {
+        setError(data.error || 'Failed to load ingest tokens');
+      }
+    } catch (err) {
+      setError('Network error loading ingest tokens');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  const handleCreate = async () => {
+    setBusy(true);
+    setError(null);
+    setCreated(null);
+    try {
+      const response = await fetch('/api/admin/ingest-tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ device })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setCreated({ device: data.data.token.device, token: data.data.token.token });
+        setDevice('');
+        await fetchTokens();
+      } else {
+        setError(data.error?.details || data.error?.message || data.error || 'Failed to create ingest token');
+      }
+    } catch (err) {
+      setError('Network error creating ingest token');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (token: IngestToken) => {
+    if (!window.confirm(`Revoke the token for ${token.device}? Its userscript can no longer post data.`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/ingest-tokens/${token.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        await fetchTokens();
+      } else {
+        setError(data.error || 'Failed to revoke ingest token');
+      }
+    } catch (err) {
+      setError('Network error revoking ingest token');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {created && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setCreated(null)}>
+          Token for {created.device} (shown only once; enter it in the userscript's "Set ingest token" menu):
+          <Typography component="pre" sx={{ fontFamily: 'monospace', m: 0, mt: 1, userSelect: 'all' }}>
+            {created.token}
+          </Typography>
+        </Alert>
+      )}
+
+      <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', gap: 2 }}>
+        <TextField
+          size="small"
+          label="Device"
+          placeholder="e.g. laptop-firefox"
+          value={device}
+          onChange={(e) => setDevice(e.target.value)}
+          sx={{ minWidth: 260 }}
+        />
+        <Button variant="contained" startIcon={<AddIcon />} onClick={handleCreate} disabled={busy || !device.trim()}>
+          Create token
+        </Button>
+        {busy && <CircularProgress size={24} />}
+      </Box>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Devices running tampermonkey-ingest.js post floor plans and units to /api/ingest with their own token.
+      </Typography>
+
+      {tokens.length === 0 ? (
+        <Typography color="text.secondary">No ingest tokens yet.</Typography>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Device</TableCell>
+                <TableCell>Token</TableCell>
+                <TableCell>Created</TableCell>
+                <TableCell>Last used</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {tokens.map((t) => (
+                <TableRow key={t.id} sx={{ opacity: t.revoked_at ? 0.5 : 1 }}>
+                  <TableCell>{t.device}</TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{t.token_prefix}…</TableCell>
+                  <TableCell>
+                    {formatTime(t.created_at)}
+                    {t.created_by && (
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        {t.created_by}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatTime(t.last_used_at)}</TableCell>
+                  <TableCell>
+                    {t.revoked_at ? (
+                      <>
+                        Revoked {formatTime(t.revoked_at)}
+                        {t.revoked_by && (
+                          <Typography variant="caption" display="block" color="text.secondary">
+                            {t.revoked_by}
+                          </Typography>
+                        )}
+                      </>
+                    ) : (
+                      <Button size="small" color="error" startIcon={<BlockIcon />} onClick={() => handleRevoke(t)} disabled={busy}>
+                        Revoke
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </>
+  );
+};
+
+export default IngestTokensPanel;
@@ -0,0 +1,288 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+  Button,
+  Box,
+  Alert,
+  Chip,
+  Stack,
+  FormControlLabel,
+  Switch,
+  CircularProgress
+} from '@mui/material';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import DoneAllIcon from '@mui/icons-material/DoneAll';
+
+type MetadataField = 'bedrooms' | 'bathrooms' | 'has_den';
+type MetadataSource = 'json' | 'userscript' | 'scraper' | 'manual';
+
+interface MetadataCandidate {
+  source: MetadataSource;
+  value: number | boolean;
+  estimated: boolean;
+  file: string | null;
+  loaded_at: string | null;
+}
+
+interface MetadataFieldReport {
+  field: MetadataField;
+  current: number | boolean;
+  candidates: MetadataCandidate[];
+  conflict: boolean;
+  decision: { source: MetadataSource; value: number | boolean; decided_by: string | null; decided_at: string } | null;
+}
+
+interface MetadataPlanReport {
+  floor_plan_id: number;
+  building_name: string;
+  plan_name: string;
+  fields: MetadataFieldReport[];
+  conflicts: number;
+  bathrooms_estimated: boolean;
+  bathrooms_estimated_expected: boolean;
+}
+
+interface MetadataSourceStatus {
+  source: MetadataSource;
+  file: string;
+  loaded: boolean;
+  plans: number;
+  loaded_at: string | null;
+  error: string | null;
+}
+
+interface MetadataReport {
+  generated_at: string;
+  sources: MetadataSourceStatus[];
+  plans: MetadataPlanReport[];
+  unmatched: Array<{ source: MetadataSource; building: string; plan: string }>;
+}
+
+const FIELD_LABELS: Record<MetadataField, string> = { bedrooms: 'Bedrooms', bathrooms: 'Bathrooms', has_den: 'Den' };
+
+const formatValue = (field: MetadataField, value: number | boolean) =>
+  field === 'has_den' ? (value ? 'yes' : 'no') : String(value);
+
+const MetadataReconciliationPanel: React.FC = () => {
+  const [report, setReport] = useState<MetadataReport | null>(null);
+  const [conflictsOnly, setConflictsOnly] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchReport = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/metadata/reconciliation?conflicts_only=${conflictsOnly}`);
+      const data = await response.json();
+      if (data.success) {
+        setReport(data.data);
+      } else {
+        setError(data.error || 'Failed to load metadata sources');
+      }
+    } catch (err) {
+      setError('Network error loading metadata sources');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, [conflictsOnly]);
+
+  const handleAccept = async (plan: MetadataPlanReport, field: MetadataFieldReport, source: MetadataSource) => {
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      // "Keep current" is a manual decision for the stored value
+      const body = source === 'manual' ? { field: field.field, source, value: field.current } : { field: field.field, source };
+      const response = await fetch(`/api/admin/metadata/reconciliation/${plan.floor_plan_id}/accept`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      if (data.success) {
+        setSuccess(`${plan.plan_name} (${plan.building_name}): ${FIELD_LABELS[field.field].toLowerCase()} set from ${source}`);
+        await fetchReport();
+      } else {
+        setError(data.error?.details || data.error?.message || data.error || 'Failed to accept value');
+      }
+    } catch (err) {
+      setError('Network error accepting value');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApplyAgreed = async () => {
+    if (!window.confirm('Apply every value the sources agree on? Fields you have decided are left alone.')) return;
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch('/api/admin/metadata/reconciliation/apply', { method: 'POST' });
+      const data = await response.json();
+      if (data.success) {
+        setSuccess(
+          `Updated ${data.data.plans_updated} floor plan${data.data.plans_updated === 1 ? '' : 's'} ` +
+          `(${data.data.fields_updated} fields, ${data.data.flags_updated} estimated-bathroom flags)`
+        );
+        await fetchReport();
+      } else {
+        setError(data.error || 'Failed to apply agreed values');
+      }
+    } catch (err) {
+      setError('Network error applying agreed values');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', gap: 2 }}>
+        <FormControlLabel
+          control={<Switch checked={conflictsOnly} onChange={(e) => setConflictsOnly(e.target.checked)} />}
+          label="Conflicts only"
+        />
+        <Button variant="outlined" startIcon={<RefreshIcon />} onClick={fetchReport} disabled={busy}>
+          Refresh
+        </Button>
+        <Button variant="contained" startIcon={<DoneAllIcon />} onClick={handleApplyAgreed} disabled={busy}>
+          Apply agreed values
+        </Button>
+        {busy && <CircularProgress size={24} />}
+      </Box>
+
+      {report && (
+        <>
+          <Paper sx={{ p: 2, mb: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Sources
+            </Typography>
+            {report.sources.map((s) => (
+              <Typography key={s.source} variant="body2" color={s.error ? 'error' : s.loaded ? 'text.primary' : 'text.secondary'}>
+                <strong>{s.source}</strong> — {s.file}:{' '}
+                {s.loaded
+                  ? `${s.plans} plans, updated ${new Date(s.loaded_at!).toLocaleString()}`
+                  : s.error || 'not present'}
+              </Typography>
+            ))}
+            {report.unmatched.length > 0 && (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                No stored floor plan for: {report.unmatched.map(u => `${u.plan} (${u.building}, ${u.source})`).join(', ')}
+              </Typography>
+            )}
+          </Paper>
+
+          {report.plans.length === 0 ? (
+            <Typography color="text.secondary">
+              {conflictsOnly ? 'No conflicts; every source agrees with the stored values.' : 'No metadata source mentions a stored floor plan.'}
+            </Typography>
+          ) : (
+            <TableContainer component={Paper}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Floor plan</TableCell>
+                    <TableCell>Field</TableCell>
+                    <TableCell>Stored</TableCell>
+                    <TableCell>Sources</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {report.plans.flatMap((plan) =>
+                    plan.fields
+                      .filter((f) => !conflictsOnly || f.conflict)
+                      .map((f, i) => (
+                        <TableRow key={`${plan.floor_plan_id}-${f.field}`} sx={{ backgroundColor: f.conflict ? 'warning.light' : undefined }}>
+                          <TableCell>
+                            {i === 0 && (
+                              <>
+                                {plan.plan_name}
+                                <Typography variant="caption" display="block" color="text.secondary">
+                                  {plan.building_name}
+                                </Typography>
+                                {plan.bathrooms_estimated !== plan.bathrooms_estimated_expected && (
+                                  <Typography variant="caption" display="block" color="warning.dark">
+                                    Bathrooms flagged as {plan.bathrooms_estimated ? 'estimated' : 'confirmed'}; sources say{' '}
+                                    {plan.bathrooms_estimated_expected ? 'estimated' : 'confirmed'}
+                                  </Typography>
+                                )}
+                              </>
+                            )}
+                          </TableCell>
+                          <TableCell>{FIELD_LABELS[f.field]}</TableCell>
+                          <TableCell>
+                            {formatValue(f.field, f.current)}
+                            {f.field === 'bathrooms' && plan.bathrooms_estimated ? ' (estimated)' : ''}
+                            {f.decision && (
+                              <Typography variant="caption" display="block" color="text.secondary">
+                                Accepted from {f.decision.source}
+                                {f.decision.decided_by ? ` by ${f.decision.decided_by}` : ''}
+                              </Typography>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                              {f.candidates.map((c) => (
+                                <Chip
+                                  key={c.source}
+                                  size="small"
+                                  label={`${c.source}: ${formatValue(f.field, c.value)}${c.estimated ? ' (estimated)' : ''}`}
+                                  color={c.value === f.current ? 'default' : 'warning'}
+                                  variant={c.estimated ? 'outlined' : 'filled'}
+                                  title={c.loaded_at ? `${c.file}, updated ${new Date(c.loaded_at).toLocaleString()}` : c.file || undefined}
+                                  onClick={busy ? undefined : () => handleAccept(plan, f, c.source)}
+                                />
+                              ))}
+                            </Stack>
+                          </TableCell>
+                          <TableCell>
+                            {f.conflict && (
+                              <Button size="small" onClick={() => handleAccept(plan, f, 'manual')} disabled={busy}>
+                                Keep current
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            Click a source to accept its value. Outlined values are estimates.
+          </Typography>
+        </>
+      )}
+    </>
+  );
+};
+
+export default MetadataReconciliationPanel;
@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Select,
+  MenuItem,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  Box,
+  Typography,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+
+const CATEGORIES = ['parking', 'pet', 'storage', 'utilities', 'amenity', 'other'] as const;
+type FeeCategory = typeof CATEGORIES[number];
+
+interface RecurringFee {
+  id: number;
+  building_id: number;
+  floor_plan_id: number | null;
+  category: FeeCategory;
+  name: string;
+  monthly_amount: number;
+  include_in_total: boolean;
+  notes?: string | null;
+}
+
+interface RecurringFeesDialogProps {
+  open: boolean;
+  floorPlan: { id: number; name: string; building_id: number; building_name: string } | null;
+  onClose: () => void;
+}
+
+const emptyDraft = {
+  category: 'parking' as FeeCategory,
+  name: '',
+  monthly_amount: '',
+  planOnly: false
+};
+
+// Fees that apply to one plan: its own and the building-wide ones. New fees can target either.
+const RecurringFeesDialog: React.FC<RecurringFeesDialogProps> = ({
+  open,
+  floorPlan,
+  onClose
+}) => {
+  const [fees, setFees] = useState<RecurringFee[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState(emptyDraft);
+
+  useEffect(() => {
+    if (open && floorPlan) {
+      setDraft(emptyDraft);
+      fetchFees(floorPlan.id);
+    }
+  }, [open, floorPlan?.id]);
+
+  const fetchFees = async (floorPlanId: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/admin/fees?floor_plan_id=${floorPlanId}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setFees(data.data.fees);
+      } else {
+        setError(data.error || 'Failed to load fees');
+      }
+    } catch (err) {
+      setError('Network error loading fees');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Runs a mutation, then reloads the list
+  const mutate = async (request: () => Promise<Response>, failure: string) => {
+    if (!floorPlan) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+
+      const response = await request();
+      const data = await response.json();
+
+      if (data.success) {
+        await fetchFees(floorPlan.id);
+        return true;
+      }
+      setError(data.error || failure);
+    } catch (err) {
+      setError(`Network error: ${failure.toLowerCase()}`);
+    } finally {
+      setBusy(false);
+    }
+    return false;
+  };
+
+  const handleAdd = async () => {
+    if (!floorPlan) return;
+    const amount = Number(draft.monthly_amount);
+    if (!draft.name.trim() || draft.monthly_amount === '' || isNaN(amount) || amount < 0) {
+      setError('Enter a name and a non-negative monthly amount');
+      return;
+    }
+
+    const body = {
+      building_id: floorPlan.building_id,
+      floor_plan_id: draft.planOnly ? floorPlan.id : null,
+      category: draft.category,
+      name: draft.name.trim(),
+      monthly_amount: amount
+    };
+    const added = await mutate(
+      () => fetch('/api/admin/fees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      }),
+      'Failed to add fee'
+    );
+    if (added) setDraft(emptyDraft);
+  };
+
+  const handleToggle = (fee: RecurringFee) =>
+    mutate(
+      () => fetch(`/api/admin/fees/${fee.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ include_in_total: !fee.include_in_total })
+      }),
+      'Failed to update fee'
+    );
+
+  const handleDelete = (fee: RecurringFee) => {
+    const scope = fee.floor_plan_id === null ? `every plan in ${floorPlan?.building_name}` : 'this plan';
+    if (!window.confirm(`Delete "${fee.name}"? It applies to ${scope}.`)) return;
+    mutate(() => fetch(`/api/admin/fees/${fee.id}`, { method: 'DELETE' }), 'Failed to delete fee');
+  };
+
+  const total = fees.filter(f => f.include_in_total).reduce((sum, f) => sum + f.monthly_amount, 0);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Monthly fees{floorPlan ? ` — ${floorPlan.name}` : ''}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <CircularProgress />
+        ) : fees.length === 0 ? (
+          <Typography color="text.secondary">No fees recorded yet.</Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Category</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Applies to</TableCell>
+                <TableCell align="right">Monthly</TableCell>
+                <TableCell>In total</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {fees.map((fee) => (
+                <TableRow key={fee.id}>
+                  <TableCell>{fee.category}</TableCell>
+                  <TableCell>{fee.name}</TableCell>
+                  <TableCell>{fee.floor_plan_id === null ? `All ${floorPlan?.building_name} plans` : 'This plan'}</TableCell>
+                  <TableCell align="right">${fee.monthly_amount}</TableCell>
+                  <TableCell>
+                    <Checkbox
+                      size="small"
+                      checked={fee.include_in_total}
+                      onChange={() => handleToggle(fee)}
+                      disabled={busy}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <IconButton size="small" color="error" onClick={() => handleDelete(fee)} disabled={busy} title="Delete">
+                      <DeleteIcon />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell colSpan={3}>
+                  <strong>Counted in total monthly cost</strong>
+                </TableCell>
+                <TableCell align="right">
+                  <strong>${total}</strong>
+                </TableCell>
+                <TableCell colSpan={2} />
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mt: 3, flexWrap: 'wrap' }}>
+          <Select
+            size="small"
+            value={draft.category}
+            onChange={(e) => setDraft({ ...draft, category: e.target.value as FeeCategory })}
+            sx={{ minWidth: 120 }}
+          >
+            {CATEGORIES.map((c) => (
+              <MenuItem key={c} value={c}>{c}</MenuItem>
+            ))}
+          </Select>
+          <TextField
+            size="small"
+            label="Name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+          <TextField
+            size="small"
+            label="Monthly $"
+            type="number"
+            value={draft.monthly_amount}
+            onChange={(e) => setDraft({ ...draft, monthly_amount: e.target.value })}
+            sx={{ width: 120 }}
+            inputProps={{ min: 0 }}
+          />
+          <FormControlLabel
+            control={<Checkbox checked={draft.planOnly} onChange={(e) => setDraft({ ...draft, planOnly: e.target.checked })} />}
+            label="This plan only"
+          />
+          <Button variant="outlined" startIcon={<AddIcon />} onClick={handleAdd} disabled={busy}>
+            Add
+          </Button>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RecurringFeesDialog;
@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+  Alert,
+  Chip,
+  CircularProgress,
+  Link
+} from '@mui/material';
+import { FailureSnapshot, ScrapeRunDetail, formatRunTime, snapshotFileUrl, statusColor } from '../utils/scrapeRuns';
+
+interface ScrapeRunDialogProps {
+  open: boolean;
+  runId: number | null;
+  onClose: () => void;
+}
+
+const ScrapeRunDialog: React.FC<ScrapeRunDialogProps> = ({ open, runId, onClose }) => {
+  const [run, setRun] = useState<ScrapeRunDetail | null>(null);
+  const [snapshots, setSnapshots] = useState<FailureSnapshot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open && runId !== null) {
+      fetchRun(runId);
+    }
+  }, [open, runId]);
+
+  const fetchRun = async (id: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/scraper/runs/${id}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setRun(data.data.run);
+      } else {
+        setError(data.error || 'Failed to load scrape run');
+      }
+
+      // Snapshots are a diagnostic extra; the run is shown without them if they can't be listed
+      const snapshotResponse = await fetch(`/api/admin/failure-snapshots?run_id=${id}`);
+      const snapshotData = await snapshotResponse.json();
+      setSnapshots(snapshotData.success ? snapshotData.data.runs.flatMap((r: { snapshots: FailureSnapshot[] }) => r.snapshots) : []);
+    } catch (err) {
+      setError('Network error loading scrape run');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        Scrape run #{runId}
+        {run ? ` — ${run.trigger_type}, ${formatRunTime(run.started_at)}` : ''}
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading || !run ? (
+          <CircularProgress />
+        ) : (
+          <>
+            {run.errors.length > 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                {run.errors.map((e, i) => <div key={i}>{e}</div>)}
+              </Alert>
+            )}
+            {run.buildings.length === 0 ? (
+              <Typography color="text.secondary">No buildings were scraped in this run.</Typography>
+            ) : (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Building</TableCell>
+                    <TableCell>Source</TableCell>
+                    <TableCell>Result</TableCell>
+                    <TableCell align="right">Scraped</TableCell>
+                    <TableCell align="right">Filtered</TableCell>
+                    <TableCell align="right">Upserted</TableCell>
+                    <TableCell align="right">Priced</TableCell>
+                    <TableCell align="right">Retries</TableCell>
+                    <TableCell>Errors</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {run.buildings.map((b) => (
+                    <TableRow key={b.id} sx={{ verticalAlign: 'top' }}>
+                      <TableCell>
+                        {b.building_name}
+                        {b.property_name && (
+                          <Typography variant="caption" display="block" color="text.secondary">
+                            {b.property_name}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{b.source || '—'}</TableCell>
+                      <TableCell>
+                        <Chip size="small" label={b.success ? 'ok' : 'failed'} color={statusColor(b.success ? 'succeeded' : 'failed')} />
+                        {b.drift_flagged && <Chip size="small" label="drift" color="warning" sx={{ ml: 0.5 }} />}
+                      </TableCell>
+                      <TableCell align="right">{b.plans_scraped}</TableCell>
+                      <TableCell align="right">{b.plans_filtered}</TableCell>
+                      <TableCell align="right">{b.plans_upserted}</TableCell>
+                      <TableCell align="right">{b.plans_priced}</TableCell>
+                      <TableCell align="right">{b.retry_count}</TableCell>
+                      <TableCell sx={{ maxWidth: 420 }}>
+                        {b.errors.length === 0 ? '—' : b.errors.map((e, i) => (
+                          <Typography key={i} variant="body2" color="error" sx={{ wordBreak: 'break-word' }}>
+                            {e}
+                          </Typography>
+                        ))}
+                        {snapshots.filter(snap => snap.building === b.building_name && (snap.files.screenshot || snap.files.html)).map((snap) => (
+                          <Typography key={snap.name} variant="caption" display="block">
+                            Attempt {snap.attempt} snapshot:{' '}
+                            {(['screenshot', 'html', 'console'] as const).filter(kind => snap.files[kind]).map((kind, i) => (
+                              <React.Fragment key={kind}>
+                                {i > 0 && ' · '}
+                                <Link href={snapshotFileUrl(snap, snap.files[kind]!)} target="_blank" rel="noopener">
+                                  {kind === 'html' ? 'HTML' : kind}
+                                </Link>
+                              </React.Fragment>
+                            ))}
+                          </Typography>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ScrapeRunDialog;
@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Typography,
+  Button,
+  Box,
+  Alert,
+  Chip,
+  CircularProgress
+} from '@mui/material';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import ScrapeRunDialog from './ScrapeRunDialog';
+import { ScrapeRun, formatDuration, formatRunTime, statusColor } from '../utils/scrapeRuns';
+
+const ScrapeRunsPanel: React.FC = () => {
+  const [runs, setRuns] = useState<ScrapeRun[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(20);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedRun, setSelectedRun] = useState<number | null>(null);
+
+  const fetchRuns = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/scraper/runs?limit=${rowsPerPage}&offset=${page * rowsPerPage}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setRuns(data.data.runs);
+        setTotal(data.data.total);
+      } else {
+        setError(data.error || 'Failed to load scrape runs');
+      }
+    } catch (err) {
+      setError('Network error loading scrape runs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRuns();
+  }, [page, rowsPerPage]);
+
+  return (
+    <>
+      <Box sx={{ mb: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Typography color="text.secondary">Select a run to see each building's counts, retries and errors.</Typography>
+        <Button variant="outlined" startIcon={<RefreshIcon />} onClick={fetchRuns}>
+          Refresh
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>ID</TableCell>
+              <TableCell>Started</TableCell>
+              <TableCell>Duration</TableCell>
+              <TableCell>Trigger</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="right">Buildings</TableCell>
+              <TableCell align="right">Scraped</TableCell>
+              <TableCell align="right">Filtered</TableCell>
+              <TableCell align="right">Upserted</TableCell>
+              <TableCell align="right">Priced</TableCell>
+              <TableCell align="right">Retries</TableCell>
+              <TableCell align="right">Errors</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={12} align="center">
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            ) : runs.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={12}>
+                  <Typography color="text.secondary">No scrape runs recorded yet.</Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              runs.map((run) => (
+                <TableRow key={run.id} hover sx={{ cursor: 'pointer' }} onClick={() => setSelectedRun(run.id)}>
+                  <TableCell>{run.id}</TableCell>
+                  <TableCell>{formatRunTime(run.started_at)}</TableCell>
+                  <TableCell>{formatDuration(run)}</TableCell>
+                  <TableCell>{run.trigger_type}</TableCell>
+                  <TableCell>
+                    <Chip size="small" label={run.status} color={statusColor(run.status)} />
+                  </TableCell>
+                  <TableCell align="right">{run.building_count}</TableCell>
+                  <TableCell align="right">{run.plans_scraped}</TableCell>
+                  <TableCell align="right">{run.plans_filtered}</TableCell>
+                  <TableCell align="right">{run.plans_upserted}</TableCell>
+                  <TableCell align="right">{run.plans_priced}</TableCell>
+                  <TableCell align="right">{run.retry_count}</TableCell>
+                  <TableCell align="right">{run.error_count}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        <TablePagination
+          component="div"
+          count={total}
+          page={page}
+          onPageChange={(_, p) => setPage(p)}
+          rowsPerPage={rowsPerPage}
+          onRowsPerPageChange={(e) => {
+            setRowsPerPage(parseInt(e.target.value, 10));
+            setPage(0);
+          }}
+          rowsPerPageOptions={[10, 20, 50]}
+        />
+      </TableContainer>
+
+      <ScrapeRunDialog open={selectedRun !== null} runId={selectedRun} onClose={() => setSelectedRun(null)} />
+    </>
+  );
+};
+
+export default ScrapeRunsPanel;
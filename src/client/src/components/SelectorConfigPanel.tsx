@@ -0,0 +1,383 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  MenuItem,
+  Typography,
+  Button,
+  Box,
+  Alert,
+  Grid,
+  CircularProgress
+} from '@mui/material';
+import SaveIcon from '@mui/icons-material/Save';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import RestoreIcon from '@mui/icons-material/Restore';
+
+// Mirrors SELECTOR_GROUPS in the server's config/scraper.ts
+const SELECTOR_GROUPS = [
+  'item',
+  'name',
+  'price',
+  'sqft',
+  'image',
+  'concession',
+  'availabilityInclude',
+  'availabilityExclude'
+] as const;
+type SelectorGroup = typeof SELECTOR_GROUPS[number];
+type Selectors = Partial<Record<SelectorGroup, string[]>>;
+
+interface BuildingOption {
+  id: number;
+  name: string;
+  property: string;
+}
+
+interface SelectorConfig {
+  id: number;
+  version: number;
+  selectors: Selectors;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface SelectorSettings {
+  building_name: string;
+  versions: SelectorConfig[];
+  effective: Record<SelectorGroup, string[]>;
+  snapshot: { url: string; captured_at: string; size: number } | null;
+}
+
+interface PreviewPlan {
+  name: string;
+  bedrooms: number;
+  bathrooms: number;
+  hasDen: boolean;
+  squareFootage: number;
+  price: number;
+  isAvailable: boolean;
+}
+
+// One selector per line; blank groups are left out so they fall back to the property's or the defaults
+const toDraft = (selectors: Selectors): Record<SelectorGroup, string> =>
+  Object.fromEntries(SELECTOR_GROUPS.map(g => [g, (selectors[g] || []).join('\n')])) as Record<SelectorGroup, string>;
+
+const fromDraft = (draft: Record<SelectorGroup, string>): Selectors => {
+  const selectors: Selectors = {};
+  for (const g of SELECTOR_GROUPS) {
+    const list = draft[g].split('\n').map(s => s.trim()).filter(Boolean);
+    if (list.length) selectors[g] = list;
+  }
+  return selectors;
+};
+
+const SelectorConfigPanel: React.FC = () => {
+  const [buildings, setBuildings] = useState<BuildingOption[]>([]);
+  const [buildingId, setBuildingId] = useState<number | ''>('');
+  const [settings, setSettings] = useState<SelectorSettings | null>(null);
+  const [draft, setDraft] = useState<Record<SelectorGroup, string>>(toDraft({}));
+  const [note, setNote] = useState('');
+  const [preview, setPreview] = useState<PreviewPlan[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchBuildings = async () => {
+      try {
+        const response = await fetch('/api/properties');
+        const data = await response.json();
+        if (data.success) {
+          const options: BuildingOption[] = data.data.properties.flatMap((p: any) =>
+            (p.buildings || []).map((b: any) => ({ id: b.id, name: b.name, property: p.name }))
+          );
+          setBuildings(options);
+          if (options.length) setBuildingId(options[0].id);
+        } else {
+          setError(data.error || 'Failed to load buildings');
+        }
+      } catch (err) {
+        setError('Network error loading buildings');
+      }
+    };
+    fetchBuildings();
+  }, []);
+
+  const fetchSettings = async (id: number) => {
+    setBusy(true);
+    setError(null);
+    setPreview(null);
+    try {
+      const response = await fetch(`/api/admin/buildings/${id}/selectors`);
+      const data = await response.json();
+      if (data.success) {
+        setSettings(data.data);
+        setDraft(toDraft(data.data.versions[0]?.selectors || {}));
+        setNote('');
+      } else {
+        setError(data.error || 'Failed to load selectors');
+      }
+    } catch (err) {
+      setError('Network error loading selectors');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    if (buildingId !== '') fetchSettings(buildingId);
+  }, [buildingId]);
+
+  const handleTest = async () => {
+    if (buildingId === '') return;
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/buildings/${buildingId}/selectors/test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ selectors: fromDraft(draft) })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setPreview(data.data.plans);
+      } else {
+        setPreview(null);
+        setError(data.error?.details || data.error?.message || data.error || 'Failed to test selectors');
+      }
+    } catch (err) {
+      setError('Network error testing selectors');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (buildingId === '') return;
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch(`/api/admin/buildings/${buildingId}/selectors`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ selectors: fromDraft(draft), note })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setSuccess(`Saved version ${data.data.config.version}; the next scrape uses it`);
+        await fetchSettings(buildingId);
+      } else {
+        setError(data.error?.details || data.error?.message || data.error || 'Failed to save selectors');
+      }
+    } catch (err) {
+      setError('Network error saving selectors');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    if (buildingId === '') return;
+    if (!window.confirm(`Make version ${version} current again? It is saved as a new version.`)) return;
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch(`/api/admin/buildings/${buildingId}/selectors/${version}/restore`, { method: 'POST' });
+      const data = await response.json();
+      if (data.success) {
+        setSuccess(`Restored version ${version} as version ${data.data.config.version}`);
+        await fetchSettings(buildingId);
+      } else {
+        setError(data.error || 'Failed to restore selectors');
+      }
+    } catch (err) {
+      setError('Network error restoring selectors');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', gap: 2 }}>
+        <TextField
+          select
+          size="small"
+          label="Building"
+          value={buildingId}
+          onChange={(e) => setBuildingId(Number(e.target.value))}
+          sx={{ minWidth: 260 }}
+        >
+          {buildings.map((b) => (
+            <MenuItem key={b.id} value={b.id}>
+              {b.name} ({b.property})
+            </MenuItem>
+          ))}
+        </TextField>
+        {busy && <CircularProgress size={24} />}
+        {settings && (
+          <Typography variant="body2" color="text.secondary">
+            {settings.snapshot
+              ? `Page snapshot from ${new Date(settings.snapshot.captured_at).toLocaleString()} (${Math.round(settings.snapshot.size / 1024)} KB)`
+              : 'No page snapshot yet; selectors can be tested after the next scrape of this building'}
+          </Typography>
+        )}
+      </Box>
+
+      {settings && (
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={7}>
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="h6" gutterBottom>
+                Selectors
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                One selector per line. Empty groups use the property's selectors or the defaults shown.
+              </Typography>
+              <Grid container spacing={2}>
+                {SELECTOR_GROUPS.map((g) => (
+                  <Grid item xs={12} sm={6} key={g}>
+                    <TextField
+                      fullWidth
+                      multiline
+                      minRows={2}
+                      size="small"
+                      label={g}
+                      value={draft[g]}
+                      placeholder={settings.effective[g].join('\n')}
+                      onChange={(e) => setDraft({ ...draft, [g]: e.target.value })}
+                    />
+                  </Grid>
+                ))}
+              </Grid>
+              <TextField
+                fullWidth
+                size="small"
+                label="Note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                sx={{ mt: 2 }}
+              />
+              <Box sx={{ mt: 2, display: 'flex', gap: 1 }}>
+                <Button
+                  variant="outlined"
+                  startIcon={<PlayArrowIcon />}
+                  onClick={handleTest}
+                  disabled={busy || !settings.snapshot}
+                >
+                  Test against snapshot
+                </Button>
+                <Button variant="contained" startIcon={<SaveIcon />} onClick={handleSave} disabled={busy}>
+                  Save as new version
+                </Button>
+              </Box>
+
+              {preview && (
+                <Box sx={{ mt: 3 }}>
+                  <Typography variant="subtitle1" gutterBottom>
+                    {preview.length} floor plan{preview.length === 1 ? '' : 's'} found
+                  </Typography>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Name</TableCell>
+                        <TableCell align="right">Beds</TableCell>
+                        <TableCell align="right">Baths</TableCell>
+                        <TableCell align="right">Sq Ft</TableCell>
+                        <TableCell align="right">Price</TableCell>
+                        <TableCell>Available</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {preview.map((p, i) => (
+                        <TableRow key={`${p.name}-${i}`}>
+                          <TableCell>{p.name}{p.hasDen ? ' + den' : ''}</TableCell>
+                          <TableCell align="right">{p.bedrooms}</TableCell>
+                          <TableCell align="right">{p.bathrooms}</TableCell>
+                          <TableCell align="right">{p.squareFootage || '—'}</TableCell>
+                          <TableCell align="right">{p.price ? `$${p.price.toLocaleString()}` : '—'}</TableCell>
+                          <TableCell>{p.isAvailable ? 'yes' : 'no'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Box>
+              )}
+            </Paper>
+          </Grid>
+
+          <Grid item xs={12} md={5}>
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="h6" gutterBottom>
+                Versions
+              </Typography>
+              {settings.versions.length === 0 ? (
+                <Typography color="text.secondary">No saved selectors; the property's selectors or the defaults apply.</Typography>
+              ) : (
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Version</TableCell>
+                      <TableCell>Saved</TableCell>
+                      <TableCell>Note</TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {settings.versions.map((v, i) => (
+                      <TableRow key={v.id}>
+                        <TableCell>
+                          {v.version}
+                          {i === 0 ? ' (current)' : ''}
+                        </TableCell>
+                        <TableCell>
+                          {new Date(`${v.created_at.replace(' ', 'T')}Z`).toLocaleString()}
+                          {v.created_by && (
+                            <Typography variant="caption" display="block" color="text.secondary">
+                              {v.created_by}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell>{v.note || '—'}</TableCell>
+                        <TableCell>
+                          {i > 0 && (
+                            <Button size="small" startIcon={<RestoreIcon />} onClick={() => handleRestore(v.version)} disabled={busy}>
+                              Restore
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </Paper>
+          </Grid>
+        </Grid>
+      )}
+    </>
+  );
+};
+
+export default SelectorConfigPanel;
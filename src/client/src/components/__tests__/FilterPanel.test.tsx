@@ -4,19 +4,28 @@ import '@testing-library/jest-dom';
 import FilterPanel, { FilterState } from '../FilterPanel';
 
 const defaultFilters: FilterState = {
-  searchTerm: '',
+  layoutGroups: [],
   bedrooms: [],
   bathrooms: [],
   buildings: [],
   hasDen: null,
   minPrice: null,
   maxPrice: null,
+  priceBasis: 'rent',
   minSquareFootage: null,
   maxSquareFootage: null,
 };
 
 const availableBuildings = ['Fairview', 'Boren'];
 
+// Option lists App derives from the floor plans (see utils/filterUtils)
+const options = {
+  availableBuildings,
+  availableLayoutGroups: ['A', 'B', 'S'],
+  uniqueBedrooms: [0, 1, 2],
+  uniqueBathrooms: [1, 1.5, 2],
+};
+
 describe('FilterPanel', () => {
   it('should render filter panel with all controls', () => {
     const mockOnFilterChange = jest.fn();
@@ -25,35 +34,34 @@ describe('FilterPanel', () => {
       <FilterPanel
         filters={defaultFilters}
         onFilterChange={mockOnFilterChange}
-        availableBuildings={availableBuildings}
+        {...options}
       />
     );
 
     expect(screen.getByText('Filters')).toBeInTheDocument();
-    expect(screen.getByPlaceholderText('Search by name...')).toBeInTheDocument();
-    expect(screen.getByLabelText('Bedrooms')).toBeInTheDocument();
-    expect(screen.getByLabelText('Bathrooms')).toBeInTheDocument();
-    expect(screen.getByLabelText('Buildings')).toBeInTheDocument();
+    // The selects' labels aren't tied to their inputs; each shows as a label and a legend
+    for (const label of ['Floor Plan Layouts', 'Bedrooms', 'Bathrooms', 'Buildings']) {
+      expect(screen.getAllByText(label).length).toBeGreaterThan(0);
+    }
     expect(screen.getByLabelText('Has Den')).toBeInTheDocument();
   });
 
-  it('should call onFilterChange when search term changes', () => {
+  it('should call onFilterChange when total cost is toggled', () => {
     const mockOnFilterChange = jest.fn();
 
     render(
       <FilterPanel
         filters={defaultFilters}
         onFilterChange={mockOnFilterChange}
-        availableBuildings={availableBuildings}
+        {...options}
       />
     );
 
-    const searchInput = screen.getByPlaceholderText('Search by name...');
-    fireEvent.change(searchInput, { target: { value: 'Studio' } });
+    fireEvent.click(screen.getByLabelText('Include monthly fees (total cost)'));
 
     expect(mockOnFilterChange).toHaveBeenCalledWith({
       ...defaultFilters,
-      searchTerm: 'Studio'
+      priceBasis: 'total'
     });
   });
 
@@ -64,7 +72,7 @@ describe('FilterPanel', () => {
       <FilterPanel
         filters={defaultFilters}
         onFilterChange={mockOnFilterChange}
-        availableBuildings={availableBuildings}
+        {...options}
       />
     );
 
@@ -80,7 +88,7 @@ describe('FilterPanel', () => {
   it('should display active filter count', () => {
     const activeFilters: FilterState = {
       ...defaultFilters,
-      searchTerm: 'Studio',
+      layoutGroups: ['A'],
       bedrooms: [1, 2],
       hasDen: true,
     };
@@ -89,7 +97,7 @@ describe('FilterPanel', () => {
       <FilterPanel
         filters={activeFilters}
         onFilterChange={jest.fn()}
-        availableBuildings={availableBuildings}
+        {...options}
       />
     );
 
@@ -100,14 +108,14 @@ describe('FilterPanel', () => {
   it('should show clear all button when filters are active', () => {
     const activeFilters: FilterState = {
       ...defaultFilters,
-      searchTerm: 'Studio',
+      layoutGroups: ['A'],
     };
 
     render(
       <FilterPanel
         filters={activeFilters}
         onFilterChange={jest.fn()}
-        availableBuildings={availableBuildings}
+        {...options}
       />
     );
 
@@ -118,7 +126,7 @@ describe('FilterPanel', () => {
     const mockOnFilterChange = jest.fn();
     const activeFilters: FilterState = {
       ...defaultFilters,
-      searchTerm: 'Studio',
+      layoutGroups: ['A'],
       bedrooms: [1],
       hasDen: true,
     };
@@ -127,7 +135,7 @@ describe('FilterPanel', () => {
       <FilterPanel
         filters={activeFilters}
         onFilterChange={mockOnFilterChange}
-        availableBuildings={availableBuildings}
+        {...options}
       />
     );
 
@@ -142,7 +150,7 @@ describe('FilterPanel', () => {
       <FilterPanel
         filters={defaultFilters}
         onFilterChange={jest.fn()}
-        availableBuildings={availableBuildings}
+        {...options}
       />
     );
 
@@ -159,7 +167,7 @@ describe('FilterPanel', () => {
       <FilterPanel
         filters={defaultFilters}
         onFilterChange={mockOnFilterChange}
-        availableBuildings={availableBuildings}
+        {...options}
       />
     );
 
@@ -179,7 +187,7 @@ describe('FilterPanel', () => {
       <FilterPanel
         filters={defaultFilters}
         onFilterChange={mockOnFilterChange}
-        availableBuildings={availableBuildings}
+        {...options}
       />
     );
 
@@ -197,7 +205,7 @@ describe('FilterPanel', () => {
       <FilterPanel
         filters={defaultFilters}
         onFilterChange={jest.fn()}
-        availableBuildings={availableBuildings}
+        {...options}
         collapsed={true}
       />
     );
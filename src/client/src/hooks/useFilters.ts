@@ -9,6 +9,7 @@ export interface FilterState {
   hasDen: boolean | null;
   minPrice: number | null;
   maxPrice: number | null;
+  priceBasis: 'rent' | 'total'; // 'total' = current price plus recurring monthly fees
   minSquareFootage: number | null;
   maxSquareFootage: number | null;
 }
@@ -21,6 +22,7 @@ const defaultFilters: FilterState = {
   hasDen: null,
   minPrice: null,
   maxPrice: null,
+  priceBasis: 'rent',
   minSquareFootage: null,
   maxSquareFootage: null,
 };
@@ -50,6 +52,7 @@ export const useFilters = () => {
       hasDen: searchParams.get('hasDen') === 'true' ? true : null,
       minPrice: searchParams.get('minPrice') ? Number(searchParams.get('minPrice')) : null,
       maxPrice: searchParams.get('maxPrice') ? Number(searchParams.get('maxPrice')) : null,
+      priceBasis: searchParams.get('priceBasis') === 'total' ? 'total' : 'rent',
       minSquareFootage: searchParams.get('minSqFt') ? Number(searchParams.get('minSqFt')) : null,
       maxSquareFootage: searchParams.get('maxSqFt') ? Number(searchParams.get('maxSqFt')) : null,
     };
@@ -83,6 +86,9 @@ export const useFilters = () => {
     if (newFilters.maxPrice !== null) {
       params.set('maxPrice', String(newFilters.maxPrice));
     }
+    if (newFilters.priceBasis === 'total') {
+      params.set('priceBasis', 'total');
+    }
     if (newFilters.minSquareFootage !== null) {
       params.set('minSqFt', String(newFilters.minSquareFootage));
     }
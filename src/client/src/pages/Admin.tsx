@@ -12,14 +12,27 @@ import {
   TextField,
   Button,
   Checkbox,
+  FormControlLabel,
   IconButton,
   Box,
   Alert,
   CircularProgress,
+  Tabs,
+  Tab,
 } from '@mui/material';
 import SaveIcon from '@mui/icons-material/Save';
-import DeleteIcon from '@mui/icons-material/Delete';
+import DeleteForeverIcon from '@mui/icons-material/DeleteForever';
+import ArchiveIcon from '@mui/icons-material/Archive';
+import UnarchiveIcon from '@mui/icons-material/Unarchive';
 import RefreshIcon from '@mui/icons-material/Refresh';
+import HistoryIcon from '@mui/icons-material/History';
+import ReceiptLongIcon from '@mui/icons-material/ReceiptLong';
+import FloorPlanHistoryDialog from '../components/FloorPlanHistoryDialog';
+import RecurringFeesDialog from '../components/RecurringFeesDialog';
+import ScrapeRunsPanel from '../components/ScrapeRunsPanel';
+import SelectorConfigPanel from '../components/SelectorConfigPanel';
+import MetadataReconciliationPanel from '../components/MetadataReconciliationPanel';
+import IngestTokensPanel from '../components/IngestTokensPanel';
 
 interface FloorPlan {
   id: number;
@@ -30,6 +43,8 @@ interface FloorPlan {
   has_den: number;
   square_footage: number | null;
   building_name: string;
+  archived_at: string | null;
+  monthly_fees?: number;
 }
 
 const Admin: React.FC = () => {
@@ -39,6 +54,10 @@ const Admin: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [editedPlans, setEditedPlans] = useState<Map<number, Partial<FloorPlan>>>(new Map());
+  const [showArchived, setShowArchived] = useState(false);
+  const [historyPlan, setHistoryPlan] = useState<FloorPlan | null>(null);
+  const [feesPlan, setFeesPlan] = useState<FloorPlan | null>(null);
+  const [tab, setTab] = useState<'floorplans' | 'runs' | 'selectors' | 'metadata' | 'ingest'>('floorplans');
 
   const fetchFloorPlans = async () => {
     setLoading(true);
@@ -119,8 +138,8 @@ const Admin: React.FC = () => {
     }
   };
 
-  const handleDelete = async (plan: FloorPlan) => {
-    if (!confirm(`Delete ${plan.name}?`)) return;
+  const handleArchive = async (plan: FloorPlan) => {
+    if (!confirm(`Archive ${plan.name}? Its price history is kept and it can be restored later.`)) return;
 
     setSaving(plan.id);
     setError(null);
@@ -134,143 +153,283 @@ const Admin: React.FC = () => {
       const data = await response.json();
 
       if (data.success) {
-        setSuccess(`Deleted ${plan.name}`);
+        setSuccess(`Archived ${plan.name}`);
         await fetchFloorPlans();
       } else {
-        setError(data.error || 'Failed to delete');
+        setError(data.error || 'Failed to archive');
       }
     } catch (err) {
-      setError('Network error deleting floor plan');
+      setError('Network error archiving floor plan');
     } finally {
       setSaving(null);
     }
   };
 
-  const isEdited = (id: number) => editedPlans.has(id);
+  const handleRestore = async (plan: FloorPlan) => {
+    setSaving(plan.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(`/api/admin/floorplans/${plan.id}/restore`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSuccess(`Restored ${plan.name}`);
+        await fetchFloorPlans();
+      } else {
+        setError(data.error || 'Failed to restore');
+      }
+    } catch (err) {
+      setError('Network error restoring floor plan');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handlePurge = async (plan: FloorPlan) => {
+    const typed = prompt(`Permanently delete ${plan.name} and ALL of its price history and alerts?\nType the plan name to confirm.`);
+    if (typed !== plan.name) return;
+
+    setSaving(plan.id);
+    setError(null);
+    setSuccess(null);
 
-  if (loading) {
-    return (
-      <Container sx={{ py: 4, display: 'flex', justifyContent: 'center' }}>
-        <CircularProgress />
-      </Container>
-    );
-  }
+    try {
+      const response = await fetch(`/api/admin/floorplans/${plan.id}?purge=true&confirm=${plan.id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSuccess(`Purged ${plan.name}`);
+        await fetchFloorPlans();
+      } else {
+        setError(data.error || 'Failed to purge');
+      }
+    } catch (err) {
+      setError('Network error purging floor plan');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const isEdited = (id: number) => editedPlans.has(id);
+  const visiblePlans = showArchived ? floorPlans : floorPlans.filter(p => !p.archived_at);
+  const archivedCount = floorPlans.filter(p => p.archived_at).length;
 
   return (
     <Container maxWidth="xl" sx={{ py: 4 }}>
-      <Box sx={{ mb: 3, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-        <Typography variant="h4">Floor Plans Admin</Typography>
-        <Button
-          variant="outlined"
-          startIcon={<RefreshIcon />}
-          onClick={fetchFloorPlans}
-        >
-          Refresh
-        </Button>
-      </Box>
-
-      {error && (
-        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
-          {error}
-        </Alert>
-      )}
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 3 }}>
+        <Tab value="floorplans" label="Floor plans" />
+        <Tab value="runs" label="Scrape runs" />
+        <Tab value="selectors" label="Selectors" />
+        <Tab value="metadata" label="Metadata" />
+        <Tab value="ingest" label="Ingest devices" />
+      </Tabs>
 
-      {success && (
-        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
-          {success}
-        </Alert>
+      {tab === 'runs' ? (
+        <ScrapeRunsPanel />
+      ) : tab === 'selectors' ? (
+        <SelectorConfigPanel />
+      ) : tab === 'metadata' ? (
+        <MetadataReconciliationPanel />
+      ) : tab === 'ingest' ? (
+        <IngestTokensPanel />
+      ) : loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          <Box sx={{ mb: 3, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Typography variant="h4">Floor Plans Admin</Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <FormControlLabel
+                control={<Checkbox checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />}
+                label={`Show archived (${archivedCount})`}
+              />
+              <Button
+                variant="outlined"
+                startIcon={<RefreshIcon />}
+                onClick={fetchFloorPlans}
+              >
+                Refresh
+              </Button>
+            </Box>
+          </Box>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {success && (
+            <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+              {success}
+            </Alert>
+          )}
+
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>ID</TableCell>
+                  <TableCell>Building</TableCell>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Bedrooms</TableCell>
+                  <TableCell>Bathrooms</TableCell>
+                  <TableCell>Den</TableCell>
+                  <TableCell>Sq Ft</TableCell>
+                  <TableCell>Fees</TableCell>
+                  <TableCell>Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visiblePlans.map((plan) => (
+                  <TableRow
+                    key={plan.id}
+                    sx={{
+                      backgroundColor: isEdited(plan.id) ? 'action.hover' : 'inherit',
+                      opacity: plan.archived_at ? 0.6 : 1
+                    }}
+                  >
+                    <TableCell>{plan.id}</TableCell>
+                    <TableCell>{plan.building_name}</TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        value={getDisplayValue(plan, 'name')}
+                        onChange={(e) => handleFieldChange(plan.id, 'name', e.target.value)}
+                        sx={{ minWidth: 150 }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={getDisplayValue(plan, 'bedrooms')}
+                        onChange={(e) => handleFieldChange(plan.id, 'bedrooms', parseInt(e.target.value, 10))}
+                        sx={{ width: 80 }}
+                        inputProps={{ min: 0, max: 10 }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={getDisplayValue(plan, 'bathrooms')}
+                        onChange={(e) => handleFieldChange(plan.id, 'bathrooms', parseFloat(e.target.value))}
+                        sx={{ width: 80 }}
+                        inputProps={{ min: 1, max: 10, step: 0.5 }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Checkbox
+                        checked={Boolean(getDisplayValue(plan, 'has_den'))}
+                        onChange={(e) => handleFieldChange(plan.id, 'has_den', e.target.checked ? 1 : 0)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={getDisplayValue(plan, 'square_footage') || ''}
+                        onChange={(e) => handleFieldChange(plan.id, 'square_footage', e.target.value ? parseInt(e.target.value, 10) : null)}
+                        sx={{ width: 100 }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="small"
+                        startIcon={<ReceiptLongIcon />}
+                        onClick={() => setFeesPlan(plan)}
+                        title="Monthly fees"
+                      >
+                        ${plan.monthly_fees ?? 0}
+                      </Button>
+                    </TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', gap: 1 }}>
+                        <IconButton
+                          size="small"
+                          color="primary"
+                          onClick={() => handleSave(plan)}
+                          disabled={!isEdited(plan.id) || saving === plan.id}
+                        >
+                          {saving === plan.id ? <CircularProgress size={20} /> : <SaveIcon />}
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          onClick={() => setHistoryPlan(plan)}
+                          title="History"
+                        >
+                          <HistoryIcon />
+                        </IconButton>
+                        {plan.archived_at ? (
+                          <>
+                            <IconButton
+                              size="small"
+                              color="primary"
+                              onClick={() => handleRestore(plan)}
+                              disabled={saving === plan.id}
+                              title="Restore"
+                            >
+                              <UnarchiveIcon />
+                            </IconButton>
+                            <IconButton
+                              size="small"
+                              color="error"
+                              onClick={() => handlePurge(plan)}
+                              disabled={saving === plan.id}
+                              title="Purge permanently"
+                            >
+                              <DeleteForeverIcon />
+                            </IconButton>
+                          </>
+                        ) : (
+                          <IconButton
+                            size="small"
+                            color="warning"
+                            onClick={() => handleArchive(plan)}
+                            disabled={saving === plan.id}
+                            title="Archive"
+                          >
+                            <ArchiveIcon />
+                          </IconButton>
+                        )}
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
       )}
 
-      <TableContainer component={Paper}>
-        <Table size="small">
-          <TableHead>
-            <TableRow>
-              <TableCell>ID</TableCell>
-              <TableCell>Building</TableCell>
-              <TableCell>Name</TableCell>
-              <TableCell>Bedrooms</TableCell>
-              <TableCell>Bathrooms</TableCell>
-              <TableCell>Den</TableCell>
-              <TableCell>Sq Ft</TableCell>
-              <TableCell>Actions</TableCell>
-            </TableRow>
-          </TableHead>
-          <TableBody>
-            {floorPlans.map((plan) => (
-              <TableRow
-                key={plan.id}
-                sx={{ backgroundColor: isEdited(plan.id) ? 'action.hover' : 'inherit' }}
-              >
-                <TableCell>{plan.id}</TableCell>
-                <TableCell>{plan.building_name}</TableCell>
-                <TableCell>
-                  <TextField
-                    size="small"
-                    value={getDisplayValue(plan, 'name')}
-                    onChange={(e) => handleFieldChange(plan.id, 'name', e.target.value)}
-                    sx={{ minWidth: 150 }}
-                  />
-                </TableCell>
-                <TableCell>
-                  <TextField
-                    size="small"
-                    type="number"
-                    value={getDisplayValue(plan, 'bedrooms')}
-                    onChange={(e) => handleFieldChange(plan.id, 'bedrooms', parseInt(e.target.value, 10))}
-                    sx={{ width: 80 }}
-                    inputProps={{ min: 0, max: 10 }}
-                  />
-                </TableCell>
-                <TableCell>
-                  <TextField
-                    size="small"
-                    type="number"
-                    value={getDisplayValue(plan, 'bathrooms')}
-                    onChange={(e) => handleFieldChange(plan.id, 'bathrooms', parseFloat(e.target.value))}
-                    sx={{ width: 80 }}
-                    inputProps={{ min: 1, max: 10, step: 0.5 }}
-                  />
-                </TableCell>
-                <TableCell>
-                  <Checkbox
-                    checked={Boolean(getDisplayValue(plan, 'has_den'))}
-                    onChange={(e) => handleFieldChange(plan.id, 'has_den', e.target.checked ? 1 : 0)}
-                  />
-                </TableCell>
-                <TableCell>
-                  <TextField
-                    size="small"
-                    type="number"
-                    value={getDisplayValue(plan, 'square_footage') || ''}
-                    onChange={(e) => handleFieldChange(plan.id, 'square_footage', e.target.value ? parseInt(e.target.value, 10) : null)}
-                    sx={{ width: 100 }}
-                  />
-                </TableCell>
-                <TableCell>
-                  <Box sx={{ display: 'flex', gap: 1 }}>
-                    <IconButton
-                      size="small"
-                      color="primary"
-                      onClick={() => handleSave(plan)}
-                      disabled={!isEdited(plan.id) || saving === plan.id}
-                    >
-                      {saving === plan.id ? <CircularProgress size={20} /> : <SaveIcon />}
-                    </IconButton>
-                    <IconButton
-                      size="small"
-                      color="error"
-                      onClick={() => handleDelete(plan)}
-                      disabled={saving === plan.id}
-                    >
-                      <DeleteIcon />
-                    </IconButton>
-                  </Box>
-                </TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
-      </TableContainer>
+      <FloorPlanHistoryDialog
+        open={historyPlan !== null}
+        floorPlanId={historyPlan?.id ?? null}
+        floorPlanName={historyPlan?.name}
+        onClose={() => setHistoryPlan(null)}
+        onReverted={fetchFloorPlans}
+      />
+
+      <RecurringFeesDialog
+        open={feesPlan !== null}
+        floorPlan={feesPlan}
+        onClose={() => {
+          // Reload so the Fees column reflects any changes
+          setFeesPlan(null);
+          fetchFloorPlans();
+        }}
+      />
     </Container>
   );
 };
@@ -1,61 +1,35 @@
-import { applyFilters } from '../filterUtils';
+import type { FloorPlan } from '@shared/types';
+import { applyFilters, getUniqueBuildings, getUniqueLayoutGroups } from '../filterUtils';
 import { FilterState } from '../../hooks/useFilters';
 
-const mockFloorPlans = [
-  {
-    id: 1,
-    building_name: 'Fairview',
-    name: 'Studio A',
-    bedrooms: 0,
-    bathrooms: 1,
-    has_den: false,
-    square_footage: 500,
-    current_price: 2000,
-    is_available: true
-  },
-  {
-    id: 2,
-    building_name: 'Fairview',
-    name: '1BR with Den',
-    bedrooms: 1,
-    bathrooms: 1,
-    has_den: true,
-    square_footage: 750,
-    current_price: 2500,
-    is_available: true
-  },
-  {
-    id: 3,
-    building_name: 'Boren',
-    name: '2BR Deluxe',
-    bedrooms: 2,
-    bathrooms: 2,
-    has_den: false,
-    square_footage: 1200,
-    current_price: 3500,
-    is_available: false
-  },
-  {
-    id: 4,
-    building_name: 'Boren',
-    name: '1BR Standard',
-    bedrooms: 1,
-    bathrooms: 1.5,
-    has_den: false,
-    square_footage: 800,
-    current_price: 2800,
-    is_available: true
-  }
+// Shaped like the /api/floorplans DTO (camelCase, see src/shared/types)
+const plan = (fields: Partial<FloorPlan> & Pick<FloorPlan, 'id' | 'name'>): FloorPlan => ({
+  buildingId: 1,
+  buildingName: 'Fairview',
+  bedrooms: 1,
+  bathrooms: 1,
+  bathroomsEstimated: false,
+  hasDen: false,
+  isAvailable: true,
+  ...fields
+});
+
+const mockFloorPlans: FloorPlan[] = [
+  plan({ id: 1, name: 'PLAN S1', bedrooms: 0, squareFootage: 500, currentPrice: 2000 }),
+  plan({ id: 2, name: 'PLAN A2', hasDen: true, squareFootage: 750, currentPrice: 2500, totalMonthlyCost: 2700 }),
+  plan({ id: 3, buildingId: 2, buildingName: 'Boren', name: 'PLAN B1', bedrooms: 2, bathrooms: 2, squareFootage: 1200, currentPrice: 3500, isAvailable: false }),
+  plan({ id: 4, buildingId: 2, buildingName: 'Boren', name: 'PLAN A5', bathrooms: 1.5, squareFootage: 800, currentPrice: 2800 })
 ];
 
 const defaultFilters: FilterState = {
-  searchTerm: '',
+  layoutGroups: [],
   bedrooms: [],
   bathrooms: [],
   buildings: [],
   hasDen: null,
   minPrice: null,
   maxPrice: null,
+  priceBasis: 'rent',
   minSquareFootage: null,
   maxSquareFootage: null,
 };
@@ -67,11 +41,10 @@ describe('filterUtils', () => {
       expect(result).toHaveLength(4);
     });
 
-    it('should filter by search term', () => {
-      const filters = { ...defaultFilters, searchTerm: 'Studio' };
+    it('should filter by layout group', () => {
+      const filters = { ...defaultFilters, layoutGroups: ['A'] };
       const result = applyFilters(mockFloorPlans, filters);
-      expect(result).toHaveLength(1);
-      expect(result[0].name).toBe('Studio A');
+      expect(result.map(fp => fp.name)).toEqual(['PLAN A2', 'PLAN A5']);
     });
 
     it('should filter by bedrooms', () => {
@@ -97,42 +70,44 @@ describe('filterUtils', () => {
       const filters = { ...defaultFilters, buildings: ['Fairview'] };
       const result = applyFilters(mockFloorPlans, filters);
       expect(result).toHaveLength(2);
-      expect(result.every(fp => fp.building_name === 'Fairview')).toBe(true);
+      expect(result.every(fp => fp.buildingName === 'Fairview')).toBe(true);
     });
 
     it('should filter by den', () => {
       const filters = { ...defaultFilters, hasDen: true };
       const result = applyFilters(mockFloorPlans, filters);
       expect(result).toHaveLength(1);
-      expect(result[0].has_den).toBe(true);
+      expect(result[0].hasDen).toBe(true);
     });
 
     it('should filter by price range', () => {
       const filters = { ...defaultFilters, minPrice: 2400, maxPrice: 3000 };
       const result = applyFilters(mockFloorPlans, filters);
-      expect(result).toHaveLength(2);
-      expect(result.every(fp => fp.current_price >= 2400 && fp.current_price <= 3000)).toBe(true);
+      expect(result.map(fp => fp.currentPrice)).toEqual([2500, 2800]);
     });
 
     it('should filter by min price only', () => {
       const filters = { ...defaultFilters, minPrice: 2600 };
       const result = applyFilters(mockFloorPlans, filters);
-      expect(result).toHaveLength(2);
-      expect(result.every(fp => fp.current_price >= 2600)).toBe(true);
+      expect(result.map(fp => fp.currentPrice)).toEqual([3500, 2800]);
     });
 
     it('should filter by max price only', () => {
       const filters = { ...defaultFilters, maxPrice: 2500 };
       const result = applyFilters(mockFloorPlans, filters);
-      expect(result).toHaveLength(2);
-      expect(result.every(fp => fp.current_price <= 2500)).toBe(true);
+      expect(result.map(fp => fp.currentPrice)).toEqual([2000, 2500]);
+    });
+
+    it('should filter the total cost when fees are included', () => {
+      const filters: FilterState = { ...defaultFilters, maxPrice: 2600, priceBasis: 'total' };
+      const result = applyFilters(mockFloorPlans, filters);
+      expect(result.map(fp => fp.name)).toEqual(['PLAN S1']);
     });
 
     it('should filter by square footage range', () => {
       const filters = { ...defaultFilters, minSquareFootage: 700, maxSquareFootage: 900 };
       const result = applyFilters(mockFloorPlans, filters);
-      expect(result).toHaveLength(2);
-      expect(result.every(fp => fp.square_footage >= 700 && fp.square_footage <= 900)).toBe(true);
+      expect(result.map(fp => fp.squareFootage)).toEqual([750, 800]);
     });
 
     it('should apply multiple filters simultaneously', () => {
@@ -144,29 +119,27 @@ describe('filterUtils', () => {
       };
       const result = applyFilters(mockFloorPlans, filters);
       expect(result).toHaveLength(1);
-      expect(result[0].name).toBe('1BR with Den');
-    });
-
-    it('should handle case-insensitive search', () => {
-      const filters = { ...defaultFilters, searchTerm: 'deluxe' };
-      const result = applyFilters(mockFloorPlans, filters);
-      expect(result).toHaveLength(1);
-      expect(result[0].name).toBe('2BR Deluxe');
+      expect(result[0].name).toBe('PLAN A2');
     });
 
     it('should return empty array when no matches', () => {
-      const filters = { ...defaultFilters, searchTerm: 'NonExistent' };
+      const filters = { ...defaultFilters, layoutGroups: ['PH'] };
       const result = applyFilters(mockFloorPlans, filters);
       expect(result).toHaveLength(0);
     });
 
-    it('should handle floor plans without prices', () => {
-      const floorPlansWithoutPrice = [
-        { ...mockFloorPlans[0], current_price: null }
-      ];
+    it('should keep floor plans without prices', () => {
+      const floorPlansWithoutPrice = [{ ...mockFloorPlans[0], currentPrice: null }];
       const filters = { ...defaultFilters, minPrice: 2000 };
-      const result = applyFilters(floorPlansWithoutPrice as any, filters);
-      expect(result).toHaveLength(0);
+      const result = applyFilters(floorPlansWithoutPrice, filters);
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe('unique values', () => {
+    it('should list buildings and layout groups in order', () => {
+      expect(getUniqueBuildings(mockFloorPlans)).toEqual(['Boren', 'Fairview']);
+      expect(getUniqueLayoutGroups(mockFloorPlans)).toEqual(['A', 'B', 'S']);
     });
   });
 });
@@ -1,20 +1,6 @@
+import type { FloorPlan } from '@shared/types';
 import { FilterState } from '../hooks/useFilters';
 
-// Using the same type structure as in App.tsx
-interface FloorPlan {
-  id: number;
-  name: string;
-  building_name?: string;
-  bedrooms?: number;
-  bathrooms?: number;
-  has_den?: boolean;
-  square_footage?: number | null;
-  current_price?: number | null;
-  lowest_price?: number | null;
-  is_available?: boolean;
-  image_url?: string | null;
-}
-
 /**
  * Extract layout group from floor plan name (e.g., "PLAN A1" -> "A")
  */
@@ -55,20 +41,22 @@ export const applyFilters = (
 
     // Buildings filter
     if (filters.buildings.length > 0) {
-      if (!plan.building_name || !filters.buildings.includes(plan.building_name)) {
+      if (!plan.buildingName || !filters.buildings.includes(plan.buildingName)) {
         return false;
       }
     }
 
     // Den filter
     if (filters.hasDen === true) {
-      if (!plan.has_den) {
+      if (!plan.hasDen) {
         return false;
       }
     }
 
-    // Price range filter
-    const price = plan.current_price ?? plan.lowest_price;
+    // Price range filter; total cost is rent plus recurring fees
+    const price = filters.priceBasis === 'total'
+      ? plan.totalMonthlyCost ?? plan.currentPrice ?? plan.lowestPrice
+      : plan.currentPrice ?? plan.lowestPrice;
     if (filters.minPrice !== null && price !== null && price !== undefined) {
       if (price < filters.minPrice) {
         return false;
@@ -81,13 +69,13 @@ export const applyFilters = (
     }
 
     // Square footage filter
-    if (filters.minSquareFootage !== null && plan.square_footage !== null && plan.square_footage !== undefined) {
-      if (plan.square_footage < filters.minSquareFootage) {
+    if (filters.minSquareFootage !== null && plan.squareFootage !== null && plan.squareFootage !== undefined) {
+      if (plan.squareFootage < filters.minSquareFootage) {
         return false;
       }
     }
-    if (filters.maxSquareFootage !== null && plan.square_footage !== null && plan.square_footage !== undefined) {
-      if (plan.square_footage > filters.maxSquareFootage) {
+    if (filters.maxSquareFootage !== null && plan.squareFootage !== null && plan.squareFootage !== undefined) {
+      if (plan.squareFootage > filters.maxSquareFootage) {
         return false;
       }
     }
@@ -102,8 +90,8 @@ export const applyFilters = (
 export const getUniqueBuildings = (floorPlans: FloorPlan[]): string[] => {
   const buildings = new Set<string>();
   floorPlans.forEach((plan) => {
-    if (plan.building_name) {
-      buildings.add(plan.building_name);
+    if (plan.buildingName) {
+      buildings.add(plan.buildingName);
     }
   });
   return Array.from(buildings).sort();
@@ -164,7 +152,7 @@ export const getFilterSummary = (
       filters.minPrice !== null ? `$${filters.minPrice}` : '',
       filters.maxPrice !== null ? `$${filters.maxPrice}` : '',
     ].filter(Boolean).join(' - ');
-    activeFilters.push(`price: ${priceRange}`);
+    activeFilters.push(`${filters.priceBasis === 'total' ? 'total cost' : 'price'}: ${priceRange}`);
   }
   if (filters.minSquareFootage !== null || filters.maxSquareFootage !== null) {
     const sqftRange = [
@@ -1,8 +1,10 @@
 // Mock data for development mode
+import type { Alert, FloorPlan, PriceHistory } from '@shared/types';
+
 export const generateMockFloorPlans = (count: number = 20) => {
   const buildings = ['Fairview', 'Boren'];
   const wings = ['D', 'E'];
-  const plans: any[] = [];
+  const plans: FloorPlan[] = [];
   
   for (let i = 0; i < count; i++) {
     const wing = wings[i % wings.length];
@@ -13,16 +15,18 @@ export const generateMockFloorPlans = (count: number = 20) => {
     
     plans.push({
       id: i + 1,
+      buildingId: (i % buildings.length) + 1,
       name: `Plan ${wing}-${num}`,
-      building_name: building,
-      current_price: isAvailable ? basePrice : null,
-      lowest_price: basePrice - Math.floor(Math.random() * 300),
-      is_available: isAvailable,
-      square_footage: 600 + Math.floor(Math.random() * 600),
-      image_url: `/static/plan-images/t${i % 2 + 1}-plan_${wing.toLowerCase()}${num}.png`,
+      buildingName: building,
+      currentPrice: isAvailable ? basePrice : null,
+      lowestPrice: basePrice - Math.floor(Math.random() * 300),
+      isAvailable,
+      squareFootage: 600 + Math.floor(Math.random() * 600),
+      imageUrl: `/static/plan-images/t${i % 2 + 1}-plan_${wing.toLowerCase()}${num}.png`,
       bedrooms: Math.floor(Math.random() * 3) + 1,
       bathrooms: Math.floor(Math.random() * 2) + 1,
-      has_den: Math.random() > 0.7,
+      bathroomsEstimated: false,
+      hasDen: Math.random() > 0.7,
     });
   }
   
@@ -30,7 +34,7 @@ export const generateMockFloorPlans = (count: number = 20) => {
 };
 
 export const generateMockHistory = (basePrice: number, days: number = 60) => {
-  const history: { collection_date: string; price: number }[] = [];
+  const history: Pick<PriceHistory, 'collectionDate' | 'price'>[] = [];
   const now = new Date();
   
   for (let i = days; i >= 0; i--) {
@@ -42,7 +46,7 @@ export const generateMockHistory = (basePrice: number, days: number = 60) => {
     const price = Math.max(basePrice - 200, basePrice + variance);
     
     history.push({
-      collection_date: date.toISOString(),
+      collectionDate: date.toISOString(),
       price: Math.round(price),
     });
   }
@@ -103,43 +107,55 @@ export const generateMockLatestPrices = () => {
   };
 };
 
-export const generateMockAlerts = () => {
+export const generateMockAlerts = (): Alert[] => {
   return [
     {
       id: 1,
-      floor_plan_id: 3,
-      floor_plan_name: 'Plan D-2',
-      building_name: 'Fairview',
-      alert_type: 'price_drop' as const,
-      old_price: 2800,
-      new_price: 2600,
-      percentage_change: -7.14,
-      is_dismissed: false,
-      created_at: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
+      floorPlanId: 3,
+      floorPlanName: 'Plan D-2',
+      buildingName: 'Fairview',
+      alertType: 'price_drop',
+      oldPrice: 2800,
+      newPrice: 2600,
+      percentageChange: -7.14,
+      isDismissed: false,
+      createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
     },
     {
       id: 2,
-      floor_plan_id: 7,
-      floor_plan_name: 'Plan E-4',
-      building_name: 'Boren',
-      alert_type: 'price_drop' as const,
-      old_price: 2400,
-      new_price: 2250,
-      percentage_change: -6.25,
-      is_dismissed: false,
-      created_at: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
+      floorPlanId: 7,
+      floorPlanName: 'Plan E-4',
+      buildingName: 'Boren',
+      alertType: 'price_drop',
+      oldPrice: 2400,
+      newPrice: 2250,
+      percentageChange: -6.25,
+      isDismissed: false,
+      createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
     },
     {
       id: 3,
-      floor_plan_id: 12,
-      floor_plan_name: 'Plan D-6',
-      building_name: 'Fairview',
-      alert_type: 'lowest_price' as const,
-      old_price: 2900,
-      new_price: 2700,
-      percentage_change: -6.9,
-      is_dismissed: false,
-      created_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
+      floorPlanId: 12,
+      floorPlanName: 'Plan D-6',
+      buildingName: 'Fairview',
+      alertType: 'lowest_price',
+      oldPrice: 2900,
+      newPrice: 2700,
+      percentageChange: -6.9,
+      isDismissed: false,
+      createdAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
+    },
+    {
+      id: 4,
+      floorPlanId: null,
+      buildingId: 2,
+      floorPlanName: null,
+      buildingName: 'Boren',
+      alertType: 'scrape_health',
+      newPrice: null,
+      message: '40% of plans had a price, down from 95%',
+      isDismissed: false,
+      createdAt: new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString(),
     },
   ];
 };
@@ -0,0 +1,67 @@
+// Scrape run history as returned by /api/scraper/runs
+
+export type ScrapeRunStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+export interface ScrapeRunCounts {
+  plans_scraped: number;
+  plans_filtered: number;
+  plans_upserted: number;
+  plans_priced: number;
+  retry_count: number;
+}
+
+export interface ScrapeRun extends ScrapeRunCounts {
+  id: number;
+  trigger_type: 'scheduler' | 'manual';
+  status: ScrapeRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  property_count: number;
+  building_count: number;
+  error_count: number;
+  errors: string[];
+}
+
+export interface ScrapeRunBuilding extends ScrapeRunCounts {
+  id: number;
+  building_name: string;
+  property_name: string | null;
+  source: string | null;
+  url: string | null;
+  success: boolean;
+  started_at: string;
+  finished_at: string;
+  drift_flagged: boolean;
+  errors: string[];
+}
+
+export interface ScrapeRunDetail extends ScrapeRun {
+  buildings: ScrapeRunBuilding[];
+}
+
+// A failed scrape attempt's page state, from /api/admin/failure-snapshots
+export interface FailureSnapshot {
+  run: string;
+  name: string;
+  building: string;
+  attempt: number;
+  error: string;
+  url: string | null;
+  captured_at: string;
+  files: { screenshot: string | null; html: string | null; console: string | null };
+}
+
+export const snapshotFileUrl = (snapshot: FailureSnapshot, file: string) =>
+  `/api/admin/failure-snapshots/${snapshot.run}/${file}`;
+
+export const statusColor = (status: ScrapeRunStatus) =>
+  status === 'succeeded' ? 'success' : status === 'partial' ? 'warning' : status === 'failed' ? 'error' : 'info';
+
+export const formatRunTime = (iso: string) => new Date(iso).toLocaleString();
+
+// Seconds or minutes between start and finish; blank while running
+export const formatDuration = (run: Pick<ScrapeRun, 'started_at' | 'finished_at'>) => {
+  if (!run.finished_at) return '';
+  const seconds = Math.round((new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()) / 1000);
+  return seconds < 120 ? `${seconds}s` : `${Math.round(seconds / 60)}m`;
+};
@@ -0,0 +1,73 @@
+import * as connection from '../database/connection';
+import { DatabaseConnection } from '../database/connection';
+import { DataService } from '../services/DataService';
+import { FloorPlan } from '../../shared/types/database';
+
+describe('Archiving floor plans', () => {
+  let db: DatabaseConnection;
+  let dataService: DataService;
+  let fpId: number;
+
+  beforeAll(async () => {
+    // AlertService reads the shared connection; point it at this in-memory database
+    db = new DatabaseConnection(':memory:');
+    jest.spyOn(connection, 'getDatabaseConnection').mockReturnValue(db);
+    dataService = new DataService(db);
+    await dataService.init();
+
+    const building = { name: 'Fairview', url: 'https://www.onnislu.com/fairview' };
+    const plan = {
+      name: 'Plan E2',
+      bedrooms: 2,
+      bathrooms: 2,
+      hasDen: false,
+      squareFootage: 1050,
+      buildingPosition: '',
+      price: 3400,
+      isAvailable: true
+    };
+    const res = await dataService.persistScrapedFloorPlans(building, [plan], new Date(2025, 3, 1, 8, 0));
+    fpId = (await db.executeQuerySingle('SELECT id FROM floor_plans WHERE building_id = ? AND name = ?', [res.buildingId, 'Plan E2'])).data.id;
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  test('should hide archived plans by default while keeping their price history', async () => {
+    const archived = await dataService.archiveFloorPlan(fpId);
+    expect(archived.success).toBe(true);
+    expect(archived.data!.changes).toBe(1);
+
+    const visible = await dataService.getAllFloorPlans();
+    expect((visible.data as FloorPlan[]).map(fp => fp.id)).not.toContain(fpId);
+
+    const all = await dataService.getAllFloorPlans({ include_archived: true });
+    const row = (all.data as FloorPlan[]).find(fp => fp.id === fpId);
+    expect(row?.archived_at).toBeTruthy();
+
+    const history = await dataService.getPriceHistory(fpId);
+    expect(history.data).toHaveLength(1);
+  });
+
+  test('should restore an archived plan', async () => {
+    const restored = await dataService.restoreFloorPlan(fpId);
+    expect(restored.data!.changes).toBe(1);
+
+    const visible = await dataService.getAllFloorPlans();
+    const row = (visible.data as FloorPlan[]).find(fp => fp.id === fpId);
+    expect(row?.archived_at).toBeNull();
+  });
+
+  test('should purge a plan together with its history', async () => {
+    const purged = await dataService.purgeFloorPlan(fpId);
+    expect(purged.data!.changes).toBe(1);
+
+    const found = await dataService.getFloorPlanById(fpId);
+    expect(found.data).toBeNull();
+
+    const history = await db.executeQuery('SELECT * FROM price_history WHERE floor_plan_id = ?', [fpId]);
+    expect(history.data).toHaveLength(0);
+  });
+});
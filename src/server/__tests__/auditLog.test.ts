@@ -0,0 +1,163 @@
+import * as connection from '../database/connection';
+import { DatabaseConnection } from '../database/connection';
+import { DataService } from '../services/DataService';
+import { AuditContext, AuditLogEntry } from '../../shared/types/database';
+
+describe('Audit log', () => {
+  let db: DatabaseConnection;
+  let dataService: DataService;
+  let fpId: number;
+  const audit: AuditContext = { actor: 'tester', source: 'PUT /api/admin/floorplans/1' };
+
+  beforeAll(async () => {
+    // AlertService reads the shared connection; point it at this in-memory database
+    db = new DatabaseConnection(':memory:');
+    jest.spyOn(connection, 'getDatabaseConnection').mockReturnValue(db);
+    dataService = new DataService(db);
+    await dataService.init();
+
+    // Buildings are seeded by the initial migration
+    const building = await db.executeQuerySingle("SELECT id FROM buildings WHERE name = 'Fairview'");
+    const plan = await db.executeUpdate(
+      'INSERT INTO floor_plans (building_id, name, bedrooms, bathrooms, has_den, square_footage) VALUES (?, ?, ?, ?, ?, ?)',
+      [building.data.id, 'Plan A1', 1, 1, 0, 650]
+    );
+    fpId = plan.data!.lastID;
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  const history = async (): Promise<AuditLogEntry[]> =>
+    (await dataService.getAuditLog({ entity_type: 'floor_plan', entity_id: fpId })).data as AuditLogEntry[];
+
+  test('should log only the fields an edit actually changed', async () => {
+    const res = await dataService.updateFloorPlan(fpId, { name: 'Plan A1', bedrooms: 1, bathrooms: 1.5, has_den: true, square_footage: 650 }, audit);
+    expect(res.success).toBe(true);
+
+    const entries = await history();
+    expect(entries.map(e => [e.field, e.old_value, e.new_value])).toEqual(
+      expect.arrayContaining([['bathrooms', '1', '1.5'], ['has_den', '0', '1']])
+    );
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ actor: 'tester', source: 'PUT /api/admin/floorplans/1' });
+  });
+
+  test('should revert a change and refuse a stale revert', async () => {
+    const bathEntry = (await history()).find(e => e.field === 'bathrooms')!;
+
+    const reverted = await dataService.revertAuditEntry(bathEntry.id, audit);
+    expect(reverted.data).toEqual({ reverted: bathEntry.id });
+
+    const row = await db.executeQuerySingle('SELECT bathrooms FROM floor_plans WHERE id = ?', [fpId]);
+    expect(Number(row.data.bathrooms)).toBe(1);
+    const latest = (await history())[0];
+    expect(latest).toMatchObject({ field: 'bathrooms', old_value: '1.5', new_value: '1', reverted_entry_id: bathEntry.id });
+
+    // The field no longer holds the entry's new value
+    const again = await dataService.revertAuditEntry(bathEntry.id, audit);
+    expect(again.data!.conflict).toBeDefined();
+  });
+
+  test('should log archive and restore', async () => {
+    await dataService.archiveFloorPlan(fpId, audit);
+    await dataService.restoreFloorPlan(fpId, audit);
+
+    const archived = (await history()).filter(e => e.field === 'archived_at');
+    expect(archived).toHaveLength(2);
+    expect(archived[0].new_value).toBeNull();
+    expect(archived[1].old_value).toBeNull();
+  });
+
+  test('should audit settings changes but not internal bookkeeping', async () => {
+    await dataService.updateSetting('last_collection_time', '2025-01-01T00:00:00.000Z');
+    await dataService.updateAlertSettings('dollar', 50, 12, { actor: 'tester', source: 'POST /api/alerts/settings' });
+
+    const entries = (await dataService.getAuditLog({ entity_type: 'setting' })).data as AuditLogEntry[];
+    expect(entries.map(e => e.entity_id).sort()).toEqual(['alert_lease_term_months', 'alert_threshold_type', 'alert_threshold_value']);
+
+    // The lease term setting didn't exist before; reverting removes it
+    const termEntry = entries.find(e => e.entity_id === 'alert_lease_term_months')!;
+    expect(termEntry.old_value).toBeNull();
+    await dataService.revertAuditEntry(termEntry.id, audit);
+    const setting = await dataService.getSetting('alert_lease_term_months');
+    expect(setting.data).toBeUndefined();
+  });
+
+  test('should audit and revert fee changes', async () => {
+    const feeAudit: AuditContext = { actor: 'tester', source: 'POST /api/admin/fees' };
+    const created = await dataService.createRecurringFee({ floor_plan_id: fpId, category: 'parking', name: 'Stall', monthly_amount: 200 }, feeAudit);
+    const feeId = created.data!.lastID;
+    await dataService.updateRecurringFee(feeId, { monthly_amount: 225, include_in_total: false }, feeAudit);
+    await dataService.deleteRecurringFee(feeId, feeAudit);
+
+    const fees = async () => (await dataService.getAuditLog({ entity_type: 'fee', entity_id: feeId })).data as AuditLogEntry[];
+    const [deleted, ...edits] = await fees();
+    expect(edits.map(e => [e.field, e.old_value, e.new_value])).toEqual(
+      expect.arrayContaining([['monthly_amount', '200', '225'], ['include_in_total', '1', '0'], ['record', null, expect.any(String)]])
+    );
+    expect(deleted).toMatchObject({ field: 'record', new_value: null });
+
+    // Undo the delete, then the amount change
+    expect((await dataService.revertAuditEntry(deleted.id, audit)).data).toEqual({ reverted: deleted.id });
+    const amount = edits.find(e => e.field === 'monthly_amount')!;
+    expect((await dataService.revertAuditEntry(amount.id, audit)).data).toEqual({ reverted: amount.id });
+    expect((await dataService.getRecurringFeeById(feeId)).data).toMatchObject({ name: 'Stall', monthly_amount: 200, include_in_total: false });
+
+    // Undoing the create removes the fee, but only once the later changes are undone
+    const create = edits.find(e => e.field === 'record')!;
+    expect((await dataService.revertAuditEntry(create.id, audit)).data!.conflict).toBeDefined();
+  });
+
+  test('should audit and revert property and building changes', async () => {
+    const propertyAudit: AuditContext = { actor: 'tester', source: 'POST /api/properties' };
+    const created = await dataService.createProperty({ name: 'Mirabella', slug: 'mirabella', wings: ['N'] }, propertyAudit);
+    const propertyId = created.data!.lastID;
+    await dataService.updateProperty(propertyId, { wings: ['N', 'S'], is_active: false }, propertyAudit);
+    const added = await dataService.addBuildingToProperty(propertyId, { name: 'Mirabella North', url: 'https://example.com/north' }, propertyAudit);
+    const buildingId = added.data!.lastID;
+    await dataService.moveBuilding(buildingId, null, propertyAudit);
+
+    const entries = async (entity_type: 'property' | 'building', id: number) =>
+      (await dataService.getAuditLog({ entity_type, entity_id: id })).data as AuditLogEntry[];
+    const propertyEdits = await entries('property', propertyId);
+    expect(propertyEdits.map(e => [e.field, e.old_value, e.new_value])).toEqual(
+      expect.arrayContaining([['wings', 'N', 'N,S'], ['is_active', '1', '0'], ['record', null, expect.any(String)]])
+    );
+    const [move, add] = await entries('building', buildingId);
+    expect(move).toMatchObject({ field: 'property_id', old_value: String(propertyId), new_value: null });
+    expect(add).toMatchObject({ field: 'record', old_value: null });
+
+    // Undo the move and the wings change
+    expect((await dataService.revertAuditEntry(move.id, audit)).data).toEqual({ reverted: move.id });
+    const wings = propertyEdits.find(e => e.field === 'wings')!;
+    expect((await dataService.revertAuditEntry(wings.id, audit)).data).toEqual({ reverted: wings.id });
+    const property = (await dataService.getPropertyById(propertyId)).data!;
+    expect(property).toMatchObject({ wings: ['N'], is_active: false });
+    expect(property.buildings!.map(b => b.name)).toEqual(['Mirabella North']);
+
+    // Undoing the add removes the building; undoing that puts it back under its old id
+    expect((await dataService.revertAuditEntry(add.id, audit)).data).toEqual({ reverted: add.id });
+    expect((await dataService.getPropertyById(propertyId)).data!.buildings).toEqual([]);
+    const [removal] = await entries('building', buildingId);
+    expect((await dataService.revertAuditEntry(removal.id, audit)).data).toEqual({ reverted: removal.id });
+    expect((await dataService.getPropertyById(propertyId)).data!.buildings!.map(b => b.id)).toEqual([buildingId]);
+
+    // Undoing the create is refused while the later edit and building stand
+    const create = propertyEdits.find(e => e.field === 'record')!;
+    expect((await dataService.revertAuditEntry(create.id, audit)).data!.conflict).toBeDefined();
+  });
+
+  test('should keep a snapshot of purged plans that cannot be reverted', async () => {
+    await dataService.purgeFloorPlan(fpId, audit);
+
+    const purge = (await history())[0];
+    expect(purge.field).toBe('record');
+    expect(JSON.parse(purge.old_value!).name).toBe('Plan A1');
+
+    const res = await dataService.revertAuditEntry(purge.id, audit);
+    expect(res.data!.conflict).toBeDefined();
+  });
+});
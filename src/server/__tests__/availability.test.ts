@@ -0,0 +1,76 @@
+import express from 'express';
+import request from 'supertest';
+import { getDatabaseConnection } from '../database/connection';
+import dataService from '../services/DataService';
+import { ScraperService } from '../services/ScraperService';
+import availabilityRouter from '../routes/availability';
+import { DEFAULT_PROPERTY_SLUG } from '../config/scraper';
+import { AvailabilityResult } from '../services/sources/SourceAdapter';
+import { Unit } from '../../shared/types/database';
+
+// The availability route uses the DataService singleton; give it an in-memory database
+jest.mock('../database/connection', () => {
+  const actual = jest.requireActual('../database/connection');
+  const memory = new actual.DatabaseConnection(':memory:');
+  return { ...actual, getDatabaseConnection: () => memory };
+});
+
+describe('Availability', () => {
+  const db = getDatabaseConnection();
+  const app = express();
+  app.use('/api/availability', availabilityRouter);
+
+  const scrape = (units: AvailabilityResult['availableSoonUnits']): AvailabilityResult => ({
+    availableNow: [],
+    availableNextMonth: [],
+    availableSoonUnits: units,
+    leaseTermQuotes: [],
+    scrapedAt: new Date().toISOString(),
+    source: 'https://example.securecafe.com',
+    method: 'xhr',
+    errors: []
+  });
+
+  beforeAll(async () => {
+    await dataService.init();
+    const fairview = await db.executeQuerySingle("SELECT id FROM buildings WHERE name = 'Fairview'");
+    const plan = await dataService.upsertFloorPlan({ building_id: fairview.data.id, name: 'PLAN D1', bedrooms: 1, bathrooms: 1 });
+    await dataService.recordDailyPrice({ floor_plan_id: plan.id, price: 2400, is_available: true });
+    await dataService.persistSecureCafeUnits([
+      { planCode: 'D1', building: 'Fairview', unit: '#D101', rent: '$2,400', moveInDate: 'Mar 3' }
+    ], new Date().toISOString());
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  test("should not save a scrape of other wings than the property's", async () => {
+    const spy = jest.spyOn(ScraperService.prototype, 'scrapeAvailability').mockResolvedValue(
+      scrape([{ planCode: 'E1', building: 'Fairview', unit: '#E101', rent: '$2,500', moveInDate: 'Mar 5' }])
+    );
+
+    const res = await request(app).get('/api/availability?wings=E').expect(200);
+    expect(spy).toHaveBeenCalledWith(expect.anything(), ['E']);
+    expect(res.body.data.availableSoonTable.rows.map((r: string[]) => r[1])).toEqual(['#E101']);
+
+    // Wing D's unit is not marked leased, and the narrower result isn't cached for the property
+    const units = (await dataService.getUnits()).data as Unit[];
+    expect(units.map(u => [u.unit_number, u.leased_at ?? null])).toEqual([['D101', null]]);
+    expect((await dataService.getSecureCafeAvailabilityCache(DEFAULT_PROPERTY_SLUG)).data).toBeNull();
+  });
+
+  test("should cache and save a scrape of the property's wings", async () => {
+    jest.spyOn(ScraperService.prototype, 'scrapeAvailability').mockResolvedValue(
+      scrape([{ planCode: 'D1', building: 'Fairview', unit: '#D102', rent: '$2,450', moveInDate: 'Mar 9' }])
+    );
+
+    await request(app).get('/api/availability').expect(200);
+
+    const units = (await dataService.getUnits()).data as Unit[];
+    expect(units.find(u => u.unit_number === 'D101')!.leased_at).toBeTruthy();
+    expect(units.find(u => u.unit_number === 'D102')!.leased_at ?? null).toBeNull();
+    expect((await dataService.getSecureCafeAvailabilityCache(DEFAULT_PROPERTY_SLUG)).data).not.toBeNull();
+  });
+});
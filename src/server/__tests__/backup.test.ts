@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseConnection } from '../database/connection';
+import { BackupService } from '../services/BackupService';
+
+describe('Database backups', () => {
+  let tmpDir: string;
+  let backupDir: string;
+  let db: DatabaseConnection;
+  let backupService: BackupService;
+
+  beforeAll(async () => {
+    // Restores swap the database file, so this needs a real file rather than :memory:
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'onnislu-backup-'));
+    backupDir = path.join(tmpDir, 'backups');
+    db = new DatabaseConnection(path.join(tmpDir, 'tracker.db'));
+    await db.initialize();
+    backupService = new BackupService(db, { dir: backupDir, retentionDays: 7, gzip: false });
+  });
+
+  afterAll(async () => {
+    await db.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const buildingCount = async () => (await db.executeQuerySingle('SELECT COUNT(*) AS n FROM buildings')).data.n;
+
+  test('should create plain and gzipped backups, newest first', async () => {
+    const plain = await backupService.createBackup();
+    const gzipped = await backupService.createBackup({ gzip: true });
+
+    expect(plain.compressed).toBe(false);
+    expect(gzipped.name).toMatch(/\.db\.gz$/);
+    expect(gzipped.compressed).toBe(true);
+
+    const backups = await backupService.listBackups();
+    expect(backups.map(b => b.name)).toEqual([gzipped.name, plain.name]);
+  });
+
+  test('should restore a gzipped backup after validating it', async () => {
+    const [latest] = await backupService.listBackups();
+    const before = await buildingCount();
+
+    await db.executeUpdate("INSERT INTO buildings (name, url) VALUES ('Extra', 'https://example.com/extra')");
+    expect(await buildingCount()).toBe(before + 1);
+
+    const result = await backupService.restoreBackup(latest.name);
+    expect(result).toMatchObject({ restored: true, integrity: 'ok' });
+    expect(await buildingCount()).toBe(before);
+
+    // The database as it was before the restore is kept
+    const names = (await backupService.listBackups()).map(b => b.name);
+    expect(names).toContain(result!.safetyBackup);
+    expect(result!.safetyBackup).toMatch(/-pre-restore\.db$/);
+  });
+
+  test('should refuse to restore a backup that fails the integrity check', async () => {
+    const name = 'backup-20250101-000000-000.db';
+    fs.writeFileSync(path.join(backupDir, name), 'not a database');
+    const before = await buildingCount();
+
+    const result = await backupService.restoreBackup(name);
+    expect(result?.restored).toBe(false);
+    expect(result?.integrity).not.toBe('ok');
+    expect(await buildingCount()).toBe(before);
+
+    expect(await backupService.restoreBackup('../tracker.db')).toBeNull();
+    expect(await backupService.restoreBackup('backup-20250101-000000-001.db')).toBeNull();
+  });
+
+  test('should wait for an open transaction before backing up or restoring', async () => {
+    const gated = (name: string) => {
+      let release: () => void = () => undefined;
+      const gate = new Promise<void>(resolve => { release = resolve; });
+      const trx = db.executeTransaction(async (database) => {
+        await database.run('INSERT INTO buildings (name, url) VALUES (?, ?)', [name, `https://example.com/${name}`]);
+        await gate;
+      });
+      return { trx, release };
+    };
+
+    const pending = gated('Pending');
+    const backup = backupService.createBackup();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    pending.release();
+    expect((await pending.trx).success).toBe(true);
+    const info = await backup;
+
+    // The backup holds the committed row; a restore waits for the next transaction too
+    const next = gated('Later');
+    const restore = backupService.restoreBackup(info.name);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    next.release();
+    expect((await next.trx).success).toBe(true);
+    expect(await restore).toMatchObject({ restored: true });
+    const names = (await db.executeQuery('SELECT name FROM buildings WHERE name IN (?, ?)', ['Pending', 'Later'])).data;
+    expect(names).toEqual([{ name: 'Pending' }]);
+  });
+
+  test('should rotate backups past the retention window but keep the newest', async () => {
+    const old = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
+    const backups = await backupService.listBackups();
+    for (const b of backups) {
+      fs.utimesSync(path.join(backupDir, b.name), old, old);
+    }
+
+    const removed = await backupService.rotate();
+    expect(removed).toHaveLength(backups.length - 1);
+    expect((await backupService.listBackups()).map(b => b.name)).toEqual([backups[0].name]);
+  });
+});
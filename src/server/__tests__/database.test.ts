@@ -49,8 +49,8 @@ describe('Database Operations', () => {
       const result = await db.checkHealth();
       
       expect(result.success).toBe(true);
-      expect(result.data.connected).toBe(true);
-      expect(result.data.integrity).toBe('ok');
+      expect(result.data!.connected).toBe(true);
+      expect(result.data!.integrity).toBe('ok');
     });
 
     test('should get database statistics', async () => {
@@ -78,12 +78,12 @@ describe('Database Operations', () => {
       );
 
       expect(insertResult.success).toBe(true);
-      expect(insertResult.data.lastID).toBeDefined();
+      expect(insertResult.data!.lastID).toBeDefined();
 
       // Retrieve building
       const selectResult = await db.executeQuerySingle(
         'SELECT * FROM buildings WHERE id = ?',
-        [insertResult.data.lastID]
+        [insertResult.data!.lastID]
       );
 
       expect(selectResult.success).toBe(true);
@@ -125,7 +125,7 @@ describe('Database Operations', () => {
         'INSERT INTO buildings (name, url) VALUES (?, ?)',
         ['Test Building', 'https://test.com']
       );
-      buildingId = buildingResult.data.lastID;
+      buildingId = buildingResult.data!.lastID;
     });
 
     test('should insert and retrieve floor plans', async () => {
@@ -163,7 +163,7 @@ describe('Database Operations', () => {
          FROM floor_plans fp 
          JOIN buildings b ON fp.building_id = b.id 
          WHERE fp.id = ?`,
-        [insertResult.data.lastID]
+        [insertResult.data!.lastID]
       );
 
       expect(selectResult.success).toBe(true);
@@ -231,9 +231,9 @@ describe('Database Operations', () => {
 
       const floorPlanResult = await db.executeUpdate(
         'INSERT INTO floor_plans (building_id, name, bedrooms, bathrooms) VALUES (?, ?, ?, ?)',
-        [buildingResult.data.lastID, 'Test Plan', 1, 1]
+        [buildingResult.data!.lastID, 'Test Plan', 1, 1]
       );
-      floorPlanId = floorPlanResult.data.lastID;
+      floorPlanId = floorPlanResult.data!.lastID;
     });
 
     test('should insert and retrieve price history', async () => {
@@ -255,7 +255,7 @@ describe('Database Operations', () => {
       // Retrieve price history
       const selectResult = await db.executeQuerySingle(
         'SELECT * FROM price_history WHERE id = ?',
-        [insertResult.data.lastID]
+        [insertResult.data!.lastID]
       );
 
       expect(selectResult.success).toBe(true);
@@ -316,8 +316,8 @@ describe('Database Operations', () => {
 
       expect(rangeResult.success).toBe(true);
       expect(rangeResult.data).toHaveLength(2);
-      expect(rangeResult.data[0].collection_date).toBe('2024-01-15');
-      expect(rangeResult.data[1].collection_date).toBe('2024-01-20');
+      expect(rangeResult.data![0].collection_date).toBe('2024-01-15');
+      expect(rangeResult.data![1].collection_date).toBe('2024-01-20');
     });
   });
 
@@ -333,9 +333,9 @@ describe('Database Operations', () => {
 
       const floorPlanResult = await db.executeUpdate(
         'INSERT INTO floor_plans (building_id, name, bedrooms, bathrooms) VALUES (?, ?, ?, ?)',
-        [buildingResult.data.lastID, 'Test Plan', 1, 1]
+        [buildingResult.data!.lastID, 'Test Plan', 1, 1]
       );
-      floorPlanId = floorPlanResult.data.lastID;
+      floorPlanId = floorPlanResult.data!.lastID;
     });
 
     test('should insert and retrieve alerts', async () => {
@@ -362,7 +362,7 @@ describe('Database Operations', () => {
          JOIN floor_plans fp ON a.floor_plan_id = fp.id
          JOIN buildings b ON fp.building_id = b.id
          WHERE a.id = ?`,
-        [insertResult.data.lastID]
+        [insertResult.data!.lastID]
       );
 
       expect(selectResult.success).toBe(true);
@@ -403,7 +403,7 @@ describe('Database Operations', () => {
       // Dismiss alert
       const dismissResult = await db.executeUpdate(
         'UPDATE alerts SET is_dismissed = TRUE WHERE id = ?',
-        [insertResult.data.lastID]
+        [insertResult.data!.lastID]
       );
 
       expect(dismissResult.success).toBe(true);
@@ -411,7 +411,7 @@ describe('Database Operations', () => {
       // Verify dismissal
       const selectResult = await db.executeQuerySingle(
         'SELECT is_dismissed FROM alerts WHERE id = ?',
-        [insertResult.data.lastID]
+        [insertResult.data!.lastID]
       );
 
       expect(selectResult.success).toBe(true);
@@ -463,7 +463,7 @@ describe('Database Operations', () => {
       );
 
       expect(updateResult.success).toBe(true);
-      expect(updateResult.data.changes).toBe(1);
+      expect(updateResult.data!.changes).toBe(1);
 
       // Verify update
       const selectResult = await db.executeQuerySingle(
@@ -553,6 +553,43 @@ describe('Database Operations', () => {
       expect(buildingCheck.success).toBe(true);
       expect(buildingCheck.data).toHaveLength(0);
     });
+
+    test('should run overlapping transactions one after the other', async () => {
+      const order: string[] = [];
+      const insert = (name: string) => db.executeTransaction(async (database) => {
+        order.push(`begin ${name}`);
+        await database.run('INSERT INTO buildings (name, url) VALUES (?, ?)', [name, `https://${name}.com`]);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        order.push(`end ${name}`);
+      });
+
+      // The failing one must not roll back the others
+      const results = await Promise.all([
+        insert('first'),
+        db.executeTransaction(async () => { throw new Error('boom'); }),
+        insert('second')
+      ]);
+
+      expect(results.map(r => r.success)).toEqual([true, false, true]);
+      expect(order).toEqual(['begin first', 'end first', 'begin second', 'end second']);
+      const names = await db.executeQuery('SELECT name FROM buildings WHERE name IN (?, ?)', ['first', 'second']);
+      expect(names.data).toHaveLength(2);
+    });
+
+    test('should run a nested transaction as a savepoint of the outer one', async () => {
+      const result = await db.executeTransaction(async (database) => {
+        await database.run('INSERT INTO buildings (name, url) VALUES (?, ?)', ['Outer', 'https://outer.com']);
+        const inner = await db.executeTransaction(async (nested) => {
+          await nested.run('INSERT INTO buildings (name, url) VALUES (?, ?)', ['Inner', 'https://inner.com']);
+          throw new Error('inner failed');
+        });
+        return inner.success;
+      });
+
+      expect(result).toEqual({ success: true, data: false });
+      const names = await db.executeQuery('SELECT name FROM buildings WHERE name IN (?, ?)', ['Outer', 'Inner']);
+      expect(names.data).toEqual([{ name: 'Outer' }]);
+    });
   });
 
   describe('Complex Queries', () => {
@@ -617,7 +654,7 @@ describe('Database Operations', () => {
       // First verify data exists
       const fpCheck = await db.executeQuery('SELECT * FROM floor_plans');
       expect(fpCheck.success).toBe(true);
-      expect(fpCheck.data.length).toBeGreaterThan(0);
+      expect(fpCheck.data!.length).toBeGreaterThan(0);
       
       const result = await db.executeQuery(`
         SELECT 
@@ -632,10 +669,10 @@ describe('Database Operations', () => {
       `);
 
       expect(result.success).toBe(true);
-      expect(result.data.length).toBeGreaterThan(0);
+      expect(result.data!.length).toBeGreaterThan(0);
       
       // Check Studio A has lowest price of 1950
-      const studioA = result.data.find((fp: any) => fp.name === 'Studio A');
+      const studioA = result.data!.find((fp: any) => fp.name === 'Studio A');
       if (studioA) {
         expect(studioA.current_price).toBe(1950);
         expect(studioA.lowest_price).toBe(1950);
@@ -653,8 +690,8 @@ describe('Database Operations', () => {
       `, [1, true]);
 
       expect(result.success).toBe(true);
-      expect(result.data.length).toBeGreaterThan(0);
-      const denPlan = result.data.find((fp: any) => fp.name === '1BR B');
+      expect(result.data!.length).toBeGreaterThan(0);
+      const denPlan = result.data!.find((fp: any) => fp.name === '1BR B');
       if (denPlan) {
         expect(!!denPlan.has_den).toBe(true); // SQLite returns 0/1 for booleans
       }
@@ -675,10 +712,10 @@ describe('Database Operations', () => {
       `, ['2024-01-01', '2024-01-31']);
 
       expect(result.success).toBe(true);
-      expect(result.data.length).toBeGreaterThan(0);
+      expect(result.data!.length).toBeGreaterThan(0);
       
       // Verify data structure
-      result.data.forEach((record: any) => {
+      result.data!.forEach((record: any) => {
         expect(record).toHaveProperty('collection_date');
         expect(record).toHaveProperty('price');
         expect(record).toHaveProperty('floor_plan_name');
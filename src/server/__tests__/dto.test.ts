@@ -0,0 +1,35 @@
+import { Request } from 'express';
+import { camelizeKeys, formatRows, snakifyKeys, toAlertDto, toFloorPlanDto, toPriceHistoryDto } from '../utils/dto';
+import { Alert, FloorPlan, PriceHistory } from '../../shared/types/database';
+
+const req = (query: Record<string, string> = {}) => ({ query } as unknown as Request);
+
+describe('DTO mapping', () => {
+  test('should convert top-level keys between snake_case and camelCase', () => {
+    expect(camelizeKeys({ building_id: 1, square_footage: 700, name: 'A1' })).toEqual({ buildingId: 1, squareFootage: 700, name: 'A1' });
+    expect(snakifyKeys({ buildingId: '1', hasDen: 'true' })).toEqual({ building_id: '1', has_den: 'true' });
+    expect(camelizeKeys({ selectors: { unit_card: '.x' } })).toEqual({ selectors: { unit_card: '.x' } });
+  });
+
+  test('should coerce SQLite 0/1 flags to booleans', () => {
+    const row = {
+      id: 1, building_id: 2, building_name: 'Dakota', name: 'D1', bedrooms: 1, bathrooms: 1,
+      has_den: 1, bathrooms_estimated: 0, is_available: null, current_price: 2400
+    } as unknown as FloorPlan;
+    expect(toFloorPlanDto(row)).toMatchObject({
+      id: 1, buildingId: 2, buildingName: 'Dakota', hasDen: true, bathroomsEstimated: false, isAvailable: false, currentPrice: 2400
+    });
+
+    const history = { id: 3, floor_plan_id: 1, price: 2400, is_available: 1, collection_date: '2025-03-01' } as unknown as PriceHistory;
+    expect(toPriceHistoryDto(history)).toEqual({ id: 3, floorPlanId: 1, price: 2400, isAvailable: true, collectionDate: '2025-03-01' });
+
+    const alert = { id: 4, floor_plan_id: 1, alert_type: 'price_drop', new_price: 2300, is_dismissed: 0 } as unknown as Alert;
+    expect(toAlertDto(alert)).toEqual({ id: 4, floorPlanId: 1, alertType: 'price_drop', newPrice: 2300, isDismissed: false });
+  });
+
+  test('should return rows unchanged for ?format=legacy', () => {
+    const rows = [{ id: 3, floor_plan_id: 1, price: 2400, is_available: 1, collection_date: '2025-03-01' }] as unknown as PriceHistory[];
+    expect(formatRows(req({ format: 'legacy' }), rows, toPriceHistoryDto)).toBe(rows);
+    expect(formatRows(req(), rows, toPriceHistoryDto)[0]).toHaveProperty('collectionDate', '2025-03-01');
+  });
+});
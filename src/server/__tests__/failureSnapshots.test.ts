@@ -0,0 +1,89 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Page } from 'puppeteer';
+import { FailureSnapshotStore, failureRunDir } from '../services/FailureSnapshotStore';
+import { OnnisluAdapter } from '../services/sources/OnnisluAdapter';
+import type { SourceContext } from '../services/sources/SourceAdapter';
+
+describe('Failure snapshots', () => {
+  let dir: string;
+  let store: FailureSnapshotStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'onnislu-snapshots-'));
+    store = new FailureSnapshotStore({ dir, maxRuns: 2 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const capture = {
+    url: 'https://example.com/fairview',
+    html: '<html><body>Service unavailable</body></html>',
+    screenshot: Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+    console: ['[error] Failed to load resource: 503']
+  };
+
+  test('should keep each failed attempt\'s screenshot, HTML and console log under its run', async () => {
+    const first = await store.save('run-7', 'Fairview', 1, 'Attempt 1 failed for Fairview: timeout', capture);
+    await store.save('run-7', 'Fairview', 2, 'Attempt 2 failed for Fairview: timeout', null);
+
+    expect(first.files).toEqual({
+      screenshot: 'fairview-attempt1.png',
+      html: 'fairview-attempt1.html',
+      console: 'fairview-attempt1.console.log'
+    });
+    expect(fs.readFileSync(path.join(dir, 'run-7', 'fairview-attempt1.console.log'), 'utf8')).toBe('[error] Failed to load resource: 503');
+
+    const [run] = await store.list('run-7');
+    expect(run.snapshots.map(s => [s.attempt, s.error, s.files.html])).toEqual([
+      [1, 'Attempt 1 failed for Fairview: timeout', 'fairview-attempt1.html'],
+      [2, 'Attempt 2 failed for Fairview: timeout', null]
+    ]);
+
+    expect(await store.file('run-7', 'fairview-attempt1.png')).toMatchObject({ contentType: 'image/png' });
+    expect(await store.file('run-7', 'fairview-attempt2.png')).toBeNull();
+    expect(await store.file('run-7', '../../etc/passwd')).toBeNull();
+    expect(await store.file('..', 'fairview-attempt1.png')).toBeNull();
+  });
+
+  test('should keep only the newest run directories', async () => {
+    const adhoc = failureRunDir(null, new Date('2025-10-20T14:00:00.123Z'));
+    expect(adhoc).toBe('adhoc-20251020-140000123');
+
+    for (const run of ['run-1', 'run-2', adhoc]) {
+      await store.save(run, 'Boren', 1, 'Attempt 1 failed for Boren: 503', capture);
+      await new Promise(resolve => setTimeout(resolve, 20)); // distinct directory mtimes
+    }
+
+    expect((await store.list()).map(r => r.run)).toEqual([adhoc, 'run-2']);
+    expect(fs.existsSync(path.join(dir, 'run-1'))).toBe(false);
+  });
+
+  test('should hand the failed page to the context before closing it', async () => {
+    const calls: string[] = [];
+    const page = {
+      goto: async () => null,
+      waitForSelector: async () => null,
+      waitForFunction: async () => null,
+      waitForTimeout: async () => undefined,
+      evaluate: async () => undefined,
+      content: async () => { throw new Error('Target closed'); }
+    } as unknown as Page;
+    const ctx: SourceContext = {
+      createPage: async () => page,
+      closePage: async () => { calls.push('close'); },
+      checkRobots: async () => null,
+      delay: async () => undefined,
+      fetchJson: async () => { throw new Error('not used'); },
+      saveSnapshot: async () => undefined,
+      captureFailure: async (_building, failed) => { calls.push(failed === page ? 'capture' : 'capture other'); }
+    };
+
+    const building = { id: 1, name: 'Fairview', url: 'https://example.com/fairview' };
+    await expect(new OnnisluAdapter(ctx).discoverPlans(building, {})).rejects.toThrow('Target closed');
+    expect(calls).toEqual(['capture', 'close']);
+  });
+});
@@ -117,8 +117,17 @@ describe('Final Integration Tests', () => {
       const retrievedPlan = response.body.data.floorPlans.find((fp: any) => fp.id === floorPlan.id);
       expect(retrievedPlan).toBeDefined();
       expect(retrievedPlan.name).toBe('Test Plan A1');
-      expect(retrievedPlan.building_name).toBe('Test Building');
-      expect(retrievedPlan.current_price).toBe(2500.00);
+      expect(retrievedPlan.buildingName).toBe('Test Building');
+      expect(retrievedPlan.currentPrice).toBe(2500.00);
+      expect(retrievedPlan.isAvailable).toBe(true);
+
+      // The legacy format keeps the database rows during the transition
+      const legacy = await request(app)
+        .get('/api/floorplans?format=legacy')
+        .expect(200);
+      const legacyPlan = legacy.body.data.floorPlans.find((fp: any) => fp.id === floorPlan.id);
+      expect(legacyPlan.building_name).toBe('Test Building');
+      expect(legacyPlan.current_price).toBe(2500.00);
     });
 
     test('should retrieve price history for floor plan', async () => {
@@ -253,9 +262,9 @@ describe('Final Integration Tests', () => {
       // Check if there are any alerts at all (from any test)
       if (alerts.length > 0) {
         // Verify alert structure
-        expect(alerts[0]).toHaveProperty('floor_plan_id');
-        expect(alerts[0]).toHaveProperty('alert_type');
-        expect(alerts[0]).toHaveProperty('new_price');
+        expect(alerts[0]).toHaveProperty('floorPlanId');
+        expect(alerts[0]).toHaveProperty('alertType');
+        expect(alerts[0]).toHaveProperty('newPrice');
       }
     });
 
@@ -307,14 +316,14 @@ describe('Final Integration Tests', () => {
       expect(alerts).toBeInstanceOf(Array);
       
       // Check if there are any lowest_price alerts
-      const lowestPriceAlerts = alerts.filter((a: any) => a.alert_type === 'lowest_price');
+      const lowestPriceAlerts = alerts.filter((a: any) => a.alertType === 'lowest_price');
       
       if (lowestPriceAlerts.length > 0) {
         // Verify alert structure
-        expect(lowestPriceAlerts[0]).toHaveProperty('floor_plan_id');
-        expect(lowestPriceAlerts[0]).toHaveProperty('alert_type');
-        expect(lowestPriceAlerts[0]).toHaveProperty('new_price');
-        expect(lowestPriceAlerts[0].alert_type).toBe('lowest_price');
+        expect(lowestPriceAlerts[0]).toHaveProperty('floorPlanId');
+        expect(lowestPriceAlerts[0]).toHaveProperty('alertType');
+        expect(lowestPriceAlerts[0]).toHaveProperty('newPrice');
+        expect(lowestPriceAlerts[0].alertType).toBe('lowest_price');
       }
     }, 15000); // Increase timeout to 15 seconds
 
@@ -485,8 +494,8 @@ describe('Final Integration Tests', () => {
       const floorPlan = floorPlansResponse.body.data.floorPlans[0];
 
       // Verify building exists
-      expect(floorPlan.building_id).toBeDefined();
-      expect(floorPlan.building_name).toBeDefined();
+      expect(floorPlan.buildingId).toBeDefined();
+      expect(floorPlan.buildingName).toBeDefined();
 
       // Verify price history exists
       const historyResponse = await request(app)
@@ -0,0 +1,198 @@
+import express from 'express';
+import request from 'supertest';
+import { getDatabaseConnection } from '../database/connection';
+import dataService from '../services/DataService';
+import ingestRouter from '../routes/ingest';
+import type { AuditLogEntry } from '../database';
+
+// The ingest routes use the DataService singleton; give it an in-memory database
+jest.mock('../database/connection', () => {
+  const actual = jest.requireActual('../database/connection');
+  const memory = new actual.DatabaseConnection(':memory:');
+  return { ...actual, getDatabaseConnection: () => memory };
+});
+
+describe('Userscript ingest', () => {
+  const db = getDatabaseConnection();
+  const app = express();
+  app.use(express.json());
+  app.use('/api/ingest', ingestRouter);
+
+  beforeAll(async () => {
+    await dataService.init();
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const audit = { actor: 'admin', source: 'ingest.test' };
+  const collectedAt = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const floorPlans = {
+    building: 'fairview',
+    collectedAt,
+    floorPlans: [
+      { name: 'Plan A1', bedrooms: 1, bathrooms: 1, hasDen: false, squareFootage: 640, price: 2350, priceText: '$2,350', isAvailable: true },
+      // Unpriced but claimed available: a scrape would store it as unavailable
+      { name: 'Plan B2', bedrooms: 2, bathrooms: 0, hasDen: true, price: 0, isAvailable: true }
+    ]
+  };
+
+  test('should only accept unrevoked device tokens', async () => {
+    const created = (await dataService.createIngestToken('laptop', audit)).data!;
+    expect(created.token).toMatch(/^[0-9a-f]{48}$/);
+    expect(created).toMatchObject({ device: 'laptop', token_prefix: created.token.slice(0, 8), created_by: 'admin' });
+    expect(created).not.toHaveProperty('token_hash');
+
+    await request(app).post('/api/ingest/units').send({ units: [] }).expect(401);
+    await request(app).post('/api/ingest/units').set('Authorization', 'Bearer not-a-token').send({ units: [] }).expect(401);
+    // Valid token, invalid payload
+    await request(app).post('/api/ingest/units').set('X-Ingest-Token', created.token).send({ units: [] }).expect(400);
+
+    const listed = (await dataService.getIngestTokens()).data!;
+    expect(listed[0].last_used_at).toBeTruthy();
+
+    const revoked = (await dataService.revokeIngestToken(created.id, { actor: 'owner', source: 'ingest.test' })).data!;
+    expect(revoked).toMatchObject({ revoked_by: 'owner' });
+    expect(revoked.revoked_at).toBeTruthy();
+    expect((await dataService.revokeIngestToken(999, audit)).data).toBeNull();
+    await request(app).post('/api/ingest/units').set('X-Ingest-Token', created.token).send({ units: [] }).expect(401);
+
+    // Revoking it again keeps the first revocation
+    expect((await dataService.revokeIngestToken(created.id, audit)).data).toMatchObject({ revoked_at: revoked.revoked_at, revoked_by: 'owner' });
+  });
+
+  test('should audit creating and revoking tokens', async () => {
+    const created = (await dataService.createIngestToken('tablet', audit)).data!;
+    await dataService.revokeIngestToken(created.id, { actor: 'owner', source: 'ingest.test' });
+    await dataService.revokeIngestToken(created.id, audit);
+
+    const history = (await dataService.getAuditLog({ entity_type: 'ingest_token', entity_id: created.id })).data as AuditLogEntry[];
+    expect(history.map(h => [h.field, h.old_value, h.actor])).toEqual([
+      ['revoked_at', null, 'owner'],
+      ['record', null, 'admin']
+    ]);
+    expect(JSON.parse(history[1].new_value!)).toMatchObject({ device: 'tablet', token_prefix: created.token_prefix });
+    expect(history[1].new_value).not.toContain(created.token);
+    expect((await dataService.revertAuditEntry(history[0].id, audit)).data).toEqual({ conflict: 'This change cannot be reverted' });
+  });
+
+  test('should persist floor plans and units like a scrape, tagged as ingested', async () => {
+    const { token } = (await dataService.createIngestToken('phone')).data!;
+
+    const res = await request(app)
+      .post('/api/ingest/floorplans')
+      .set('Authorization', `Bearer ${token}`)
+      .send(floorPlans)
+      .expect(200);
+    expect(res.body.data).toMatchObject({ building: 'Fairview', upserted: 2, priced: 2, filtered: 0 });
+
+    const observations = await db.executeQuery(
+      `SELECT fp.name, o.price, o.is_available, o.source, o.observed_at FROM price_observations o
+       JOIN floor_plans fp ON fp.id = o.floor_plan_id ORDER BY fp.name`
+    );
+    expect(observations.data).toEqual([
+      { name: 'Plan A1', price: 2350, is_available: 1, source: 'ingest', observed_at: collectedAt },
+      { name: 'Plan B2', price: 0, is_available: 0, source: 'ingest', observed_at: collectedAt }
+    ]);
+
+    await request(app)
+      .post('/api/ingest/floorplans')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ ...floorPlans, building: 'Nowhere' })
+      .expect(404);
+
+    const units = await request(app)
+      .post('/api/ingest/units')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        units: [
+          { building: 'Fairview', planCode: 'A1', unit: '1204', rent: '$2,450', moveInDate: 'Jun 3' },
+          { building: 'Nowhere', planCode: 'A1', unit: '101', rent: '', moveInDate: '' }
+        ]
+      })
+      .expect(200);
+    expect(units.body.data).toEqual({ upserted: 1, leased: 0, skipped: 1 });
+
+    const unitRows = await db.executeQuery(
+      `SELECT u.unit_number, fp.name AS plan, o.source FROM unit_observations o
+       JOIN units u ON u.id = o.unit_id LEFT JOIN floor_plans fp ON fp.id = u.floor_plan_id`
+    );
+    expect(unitRows.data).toEqual([{ unit_number: '1204', plan: 'Plan A1', source: 'ingest' }]);
+  });
+
+  test('should only mark missing units leased when the payload is complete', async () => {
+    const { token } = (await dataService.createIngestToken('phone')).data!;
+    const post = (body: object) =>
+      request(app).post('/api/ingest/units').set('Authorization', `Bearer ${token}`).send(body).expect(200);
+    const unit = { building: 'Fairview', planCode: 'A1', rent: '$2,450', moveInDate: 'Jun 3' };
+
+    // A partial list (one table of the page) leaves unit 1204 listed
+    const partial = await post({ units: [{ ...unit, unit: '1310' }] });
+    expect(partial.body.data).toEqual({ upserted: 1, leased: 0, skipped: 0 });
+
+    const complete = await post({ complete: true, units: [{ ...unit, unit: '1310' }] });
+    expect(complete.body.data).toEqual({ upserted: 1, leased: 1, skipped: 0 });
+    const leased = await db.executeQuery('SELECT unit_number FROM units WHERE leased_at IS NOT NULL');
+    expect(leased.data).toEqual([{ unit_number: '1204' }]);
+  });
+
+  test('should keep only plans in the property wings, as a scrape does', async () => {
+    const { token } = (await dataService.createIngestToken('phone')).data!;
+    const fairview = (await dataService.getBuildingByName('Fairview')).data!;
+    await dataService.updateProperty(fairview.property_id!, { wings: ['A'] });
+    try {
+      const res = await request(app)
+        .post('/api/ingest/floorplans')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ ...floorPlans, floorPlans: [{ ...floorPlans.floorPlans[1], price: 3100 }] })
+        .expect(200);
+      expect(res.body.data).toMatchObject({ upserted: 0, priced: 0, filtered: 1 });
+    } finally {
+      await dataService.updateProperty(fairview.property_id!, { wings: [] });
+    }
+  });
+
+  test('should reject data collected in the future or too long ago', async () => {
+    const { token } = (await dataService.createIngestToken('phone')).data!;
+    const post = (at: number) => request(app)
+      .post('/api/ingest/floorplans')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ ...floorPlans, collectedAt: new Date(at).toISOString() });
+
+    await post(Date.now() + 60 * 60 * 1000).expect(400);
+    await post(Date.now() - 3 * 24 * 60 * 60 * 1000).expect(400);
+    // A device clock a little fast is allowed, but nothing is stored ahead of the server
+    await post(Date.now() + 60 * 1000).expect(200);
+    const latest = await db.executeQuerySingle<{ observed_at: string }>('SELECT MAX(observed_at) AS observed_at FROM price_observations');
+    expect(Date.parse(latest.data!.observed_at)).toBeLessThanOrEqual(Date.now());
+  });
+
+  test('should not disturb a scrape that is persisting when ingest data arrives', async () => {
+    const { token } = (await dataService.createIngestToken('phone')).data!;
+    const scraped = Array.from({ length: 30 }, (_, i) => ({
+      name: `Plan S${i + 1}`,
+      bedrooms: 1,
+      bathrooms: 1,
+      hasDen: false,
+      squareFootage: 600,
+      buildingPosition: '',
+      price: 2000 + i,
+      isAvailable: true
+    }));
+
+    const [scrape, ingest, created] = await Promise.all([
+      dataService.persistScrapedFloorPlans({ name: 'Boren', url: 'https://example.com/boren' }, scraped),
+      request(app).post('/api/ingest/floorplans').set('Authorization', `Bearer ${token}`).send(floorPlans),
+      dataService.createIngestToken('watch', audit)
+    ]);
+    expect(scrape).toMatchObject({ upserted: 30, priced: 30 });
+    expect(ingest.status).toBe(200);
+    expect(created.success).toBe(true);
+
+    const stored = await db.executeQuerySingle<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM floor_plans fp JOIN buildings b ON b.id = fp.building_id WHERE b.name = 'Boren'`
+    );
+    expect(stored.data!.count).toBe(30);
+  });
+});
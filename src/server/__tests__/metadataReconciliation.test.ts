@@ -0,0 +1,161 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as connection from '../database/connection';
+import { DatabaseConnection } from '../database/connection';
+import { DataService } from '../services/DataService';
+import { MetadataReconciliationService, MetadataFile } from '../services/MetadataReconciliationService';
+import type { AuditLogEntry } from '../database';
+import type { ScrapedFloorPlan } from '../services/sources/SourceAdapter';
+
+describe('Metadata reconciliation', () => {
+  let db: DatabaseConnection;
+  let dataService: DataService;
+  let dir: string;
+  let service: MetadataReconciliationService;
+  const audit = { actor: 'test', source: 'metadataReconciliation.test' };
+
+  beforeAll(async () => {
+    db = new DatabaseConnection(':memory:');
+    jest.spyOn(connection, 'getDatabaseConnection').mockReturnValue(db);
+    dataService = new DataService(db);
+    await dataService.init();
+    const plan = (name: string, bedrooms: number, bathrooms: number): ScrapedFloorPlan => ({
+      name,
+      bedrooms,
+      bathrooms,
+      hasDen: false,
+      squareFootage: 700,
+      buildingPosition: '',
+      price: 2200,
+      isAvailable: true
+    });
+    await dataService.persistScrapedFloorPlans({ name: 'Fairview', url: 'https://example.com/fairview' }, [
+      plan('Plan A1', 1, 1),
+      plan('Plan B2', 2, 1),
+      plan('Plan C3', 2, 2)
+    ]);
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'onnislu-metadata-'));
+    service = new MetadataReconciliationService(dataService, {
+      jsonFile: path.join(dir, 'floor-plan-metadata.json'),
+      userscriptFile: path.join(dir, 'userscript.json'),
+      scraperFile: path.join(dir, 'scraped.json')
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, data: MetadataFile) => fs.writeFileSync(path.join(dir, file), JSON.stringify(data));
+  const planId = async (name: string) =>
+    (await dataService.getAllFloorPlans()).data!.find(fp => fp.name === name)!.id;
+
+  test('should report conflicts per field with provenance, ranking confirmed values above estimates', async () => {
+    write('floor-plan-metadata.json', {
+      Fairview: {
+        'A1': { bedrooms: 1, bathrooms: 1, hasDen: false },
+        'B2': { bedrooms: 2, bathrooms: 1, hasDen: true },
+        'Z9': { bedrooms: 3, bathrooms: 2, hasDen: false }
+      }
+    });
+    write('userscript.json', {
+      Fairview: {
+        'PLAN A1': { bedrooms: 1, bathrooms: 2, hasDen: false, bathroomsEstimated: true },
+        'PLAN B2*': { bedrooms: 2, bathrooms: 0, hasDen: false }
+      }
+    });
+
+    const report = (await service.report()).data!;
+    expect(report.sources.map(s => [s.source, s.loaded, s.plans])).toEqual([
+      ['json', true, 3],
+      ['userscript', true, 2],
+      ['scraper', false, 0]
+    ]);
+    expect(report.unmatched).toEqual([{ source: 'json', building: 'Fairview', plan: 'Z9' }]);
+
+    // The userscript's estimated bathroom count loses to the JSON file's confirmed one
+    const a1 = report.plans.find(p => p.plan_name === 'Plan A1')!;
+    expect(a1.conflicts).toBe(0);
+    expect(a1.fields.find(f => f.field === 'bathrooms')!.candidates.map(c => [c.source, c.value, c.estimated])).toEqual([
+      ['json', 1, false],
+      ['userscript', 2, true]
+    ]);
+
+    // Sources disagree about the den; bathrooms 0 from the userscript means unknown
+    const b2 = report.plans.find(p => p.plan_name === 'Plan B2')!;
+    const den = b2.fields.find(f => f.field === 'has_den')!;
+    expect(den).toMatchObject({ current: false, conflict: true });
+    expect(den.candidates.map(c => [c.source, c.value])).toEqual([['json', true], ['userscript', false]]);
+    expect(b2.fields.find(f => f.field === 'bathrooms')!.candidates).toHaveLength(1);
+  });
+
+  test('should record an accepted value and keep bathrooms_estimated in line with it', async () => {
+    write('userscript.json', { Fairview: { 'PLAN C3': { bedrooms: 2, bathrooms: 1.5, hasDen: false, bathroomsEstimated: true } } });
+    const id = await planId('Plan C3');
+
+    const accepted = (await service.accept(id, { field: 'bathrooms', value: 1.5, source: 'userscript', estimated: true }, audit)).data!;
+    const bathrooms = accepted.fields.find(f => f.field === 'bathrooms')!;
+    expect(bathrooms).toMatchObject({ current: 1.5, conflict: false, decision: { source: 'userscript', decided_by: 'test' } });
+    expect(accepted).toMatchObject({ bathrooms_estimated: true, bathrooms_estimated_expected: true });
+
+    // A later source file that disagrees reopens the decision
+    write('floor-plan-metadata.json', { Fairview: { 'C3': { bedrooms: 2, bathrooms: 2, hasDen: false } } });
+    fs.utimesSync(path.join(dir, 'floor-plan-metadata.json'), new Date(), new Date(Date.now() + 60_000));
+    const reopened = (await service.planReport(id)).data!;
+    expect(reopened.fields.find(f => f.field === 'bathrooms')!.conflict).toBe(true);
+
+    await service.accept(id, { field: 'bathrooms', value: 2, source: 'json', estimated: false }, audit);
+    const stored = (await dataService.getAllFloorPlans()).data!.find(fp => fp.id === id)!;
+    expect([stored.bathrooms, !!stored.bathrooms_estimated]).toEqual([2, false]);
+    const history = (await dataService.getAuditLog({ entity_type: 'floor_plan', entity_id: id })).data as AuditLogEntry[];
+    expect(history.map(h => [h.field, h.new_value, h.actor])).toEqual(expect.arrayContaining([
+      ['bathrooms', '2', 'test'],
+      ['bathrooms_estimated', '0', 'test']
+    ]));
+
+    // Reverting the accepted count forgets its decision; the estimate flag reverts on its own
+    const count = history.find(h => h.field === 'bathrooms' && h.new_value === '2')!;
+    const flag = history.find(h => h.field === 'bathrooms_estimated' && h.new_value === '0')!;
+    expect((await dataService.revertAuditEntry(count.id, audit)).data).toEqual({ reverted: count.id });
+    expect((await dataService.revertAuditEntry(flag.id, audit)).data).toEqual({ reverted: flag.id });
+    const reverted = (await dataService.getAllFloorPlans()).data!.find(fp => fp.id === id)!;
+    expect([reverted.bathrooms, !!reverted.bathrooms_estimated]).toEqual([1.5, true]);
+    const decisions = (await dataService.getMetadataDecisions()).data!;
+    expect(decisions.find(d => d.floor_plan_id === id && d.field === 'bathrooms')).toBeUndefined();
+  });
+
+  test('should apply agreed values without overriding decisions or confirmed counts with estimates', async () => {
+    write('floor-plan-metadata.json', { Fairview: { 'A1': { bedrooms: 1, bathrooms: 1, hasDen: true } } });
+    write('scraped.json', {
+      Fairview: {
+        'PLAN A1': { bedrooms: 1, bathrooms: 1, hasDen: true, bathroomsEstimated: false },
+        'PLAN B2': { bedrooms: 2, bathrooms: 2, hasDen: false, bathroomsEstimated: true }
+      }
+    });
+
+    const summary = (await service.applyAgreed(audit)).data!;
+    expect(summary).toEqual({ plans_updated: 1, fields_updated: 1, flags_updated: 0 });
+
+    const plans = (await dataService.getAllFloorPlans()).data!;
+    expect(!!plans.find(fp => fp.name === 'Plan A1')!.has_den).toBe(true);
+    // B2's confirmed single bathroom stays; the estimate is left as a conflict to review
+    expect(plans.find(fp => fp.name === 'Plan B2')).toMatchObject({ bathrooms: 1 });
+    const b2 = (await service.planReport(await planId('Plan B2'))).data!;
+    expect(b2.fields.find(f => f.field === 'bathrooms')!.conflict).toBe(true);
+
+    // Once an admin keeps the stored den, agreeing sources no longer change it
+    const a1 = await planId('Plan A1');
+    await service.accept(a1, { field: 'has_den', value: false, source: 'manual', estimated: false }, audit);
+    expect((await service.applyAgreed(audit)).data!.fields_updated).toBe(0);
+    expect(!!(await dataService.getAllFloorPlans()).data!.find(fp => fp.id === a1)!.has_den).toBe(false);
+  });
+});
@@ -1,5 +1,5 @@
 import { DatabaseConnection } from '../database/connection';
-import { MigrationManager, Migration, migrations } from '../database/migrations';
+import { MigrationManager, Migration, MigrationStatus, migrations } from '../database/migrations';
 
 describe('Migration System', () => {
   let db: DatabaseConnection;
@@ -95,6 +95,54 @@ describe('Migration System', () => {
       const newVersion = await migrationManager.getCurrentVersion();
       expect(newVersion).toBeLessThan(currentVersion);
     });
+
+    test('should roll back to a target version without cascading deletes', async () => {
+      const building = await db.executeQuerySingle("SELECT id FROM buildings WHERE name = 'Fairview'");
+      await db.executeUpdate(
+        'INSERT INTO floor_plans (building_id, name, bedrooms, bathrooms) VALUES (?, ?, ?, ?)',
+        [building.data.id, 'Plan R1', 1, 1]
+      );
+
+      // The latest down migration recreates the buildings table
+      const target = migrations[migrations.length - 2].version;
+      const result = await migrationManager.rollbackTo(migrations, target);
+      expect(result.success).toBe(true);
+      expect(await migrationManager.getCurrentVersion()).toBe(target);
+
+      const plans = await db.executeQuery("SELECT id FROM floor_plans WHERE name = 'Plan R1'");
+      expect(plans.data).toHaveLength(1);
+
+      const reapplied = await migrationManager.runMigrations(migrations);
+      expect(reapplied.data.applied).toBe(1);
+    });
+  });
+
+  describe('Migration Checksums', () => {
+    const status = async (defs: Migration[]): Promise<MigrationStatus> =>
+      (await migrationManager.getStatus(defs)).data as MigrationStatus;
+
+    test('should record checksums and report nothing pending', async () => {
+      const current = await status(migrations);
+      expect(current.pending).toEqual([]);
+      expect(current.mismatched).toEqual([]);
+      expect(current.migrations.every(m => m.checksum_ok === true)).toBe(true);
+    });
+
+    test('should detect an applied migration whose SQL was edited', async () => {
+      const edited = migrations.map(m => (m.version === 2 ? { ...m, up: `${m.up}\n-- edited` } : m));
+      expect((await status(edited)).mismatched).toEqual([2]);
+
+      const verify = await migrationManager.verifyChecksums(edited);
+      expect(verify.data.mismatched).toEqual([2]);
+    });
+
+    test('should backfill checksums for migrations applied before they were tracked', async () => {
+      await db.executeUpdate('UPDATE migrations SET checksum = NULL');
+
+      const verify = await migrationManager.verifyChecksums(migrations);
+      expect(verify.data.mismatched).toEqual([]);
+      expect((await status(migrations)).migrations.every(m => m.stored_checksum === m.checksum)).toBe(true);
+    });
   });
 
   describe('Migration Error Handling', () => {
@@ -0,0 +1,39 @@
+import { parseConcession, netEffectiveRent } from '../../services/parsers/concessionParser';
+
+describe('parseConcession()', () => {
+  test('parses weeks free with a lease-term condition', () => {
+    expect(parseConcession('Special: 6 weeks free on 13-month leases!')).toEqual({
+      rawText: 'Special: 6 weeks free on 13-month leases!',
+      weeksFree: 6,
+      dollarCredit: 0,
+      leaseTermMonths: 13
+    });
+  });
+
+  test('parses word numbers, months free and dollar credits', () => {
+    const months = parseConcession('Two months free when you move in by 3/1');
+    expect(months?.weeksFree).toBeCloseTo(8.67, 2);
+    expect(months?.leaseTermMonths).toBeNull();
+
+    const credit = parseConcession('$1,000 look and lease credit');
+    expect(credit).toMatchObject({ weeksFree: 0, dollarCredit: 1000, leaseTermMonths: null });
+  });
+
+  test('returns null when no concession is present', () => {
+    expect(parseConcession('Available Now')).toBeNull();
+    expect(parseConcession('')).toBeNull();
+    expect(parseConcession(undefined)).toBeNull();
+  });
+});
+
+describe('netEffectiveRent()', () => {
+  test('amortizes the concession over the stated lease term', () => {
+    // 6 weeks of $2,600 rent = $3,600, spread across 13 months
+    expect(netEffectiveRent(2600, { weeksFree: 6, dollarCredit: 0, leaseTermMonths: 13 })).toBe(2323.08);
+  });
+
+  test('defaults to a 12-month term and leaves rent alone without a concession', () => {
+    expect(netEffectiveRent(2400, { weeksFree: 0, dollarCredit: 1200, leaseTermMonths: null })).toBe(2300);
+    expect(netEffectiveRent(2400, null)).toBe(2400);
+  });
+});
@@ -3,7 +3,7 @@ import { getBuildingSelectors } from '../../config/scraper';
 import { parseFloorPlansFromHtml } from '../../services/parsers/floorPlanParser';
 
 describe('parseFloorPlansFromHtml()', () => {
-  const sel = getBuildingSelectors('Fairview');
+  const sel = getBuildingSelectors();
 
   const html = `
     <div class="floorplan">
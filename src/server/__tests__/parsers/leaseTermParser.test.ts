@@ -0,0 +1,30 @@
+import { parseLeaseTermQuotes, cheapestQuote } from '../../services/parsers/leaseTermParser';
+
+describe('parseLeaseTermQuotes()', () => {
+  test('parses dropdown options and table rows into a sorted matrix', () => {
+    const text = '13 Months - $2,410 | 12 Months - $2,450 | 6 Mo. | $2,795';
+    expect(parseLeaseTermQuotes(text)).toEqual([
+      { leaseTermMonths: 6, price: 2795 },
+      { leaseTermMonths: 12, price: 2450 },
+      { leaseTermMonths: 13, price: 2410 }
+    ]);
+  });
+
+  test('keeps the lowest price when a term repeats and ignores out-of-range terms', () => {
+    const text = '12 months: $2,500 | 12 months: $2,475 | 1 month free $0 | 36 months $1,999';
+    expect(parseLeaseTermQuotes(text)).toEqual([{ leaseTermMonths: 12, price: 2475 }]);
+  });
+
+  test('returns an empty matrix without quotes', () => {
+    expect(parseLeaseTermQuotes('Available Now')).toEqual([]);
+    expect(parseLeaseTermQuotes(undefined)).toEqual([]);
+  });
+});
+
+describe('cheapestQuote()', () => {
+  test('prefers the lowest price and the shorter term on ties', () => {
+    const quotes = parseLeaseTermQuotes('12 Months $2,400 | 13 Months $2,400 | 15 Months $2,450');
+    expect(cheapestQuote(quotes)).toEqual({ leaseTermMonths: 12, price: 2400 });
+    expect(cheapestQuote([])).toBeNull();
+  });
+});
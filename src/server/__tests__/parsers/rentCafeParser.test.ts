@@ -0,0 +1,62 @@
+import {
+  applyUnitPrices,
+  parseRentCafeDate,
+  parseRentCafeFloorplans,
+  parseRentCafeUnits,
+  rentCafeRequestUrl
+} from '../../services/parsers/rentCafeParser';
+
+const floorplan = (over: Record<string, unknown> = {}) => ({
+  FloorplanName: 'A1', Beds: '1', Baths: '1.00', MinimumSQFT: '650', MaximumSQFT: '680',
+  MinimumRent: '2100', MaximumRent: '2300', AvailableUnitsCount: '2', FloorplanImageURL: '', ...over
+});
+
+describe('rentCafeRequestUrl()', () => {
+  test('switches the request type and keeps the rest of the query', () => {
+    const url = 'https://api.rentcafe.com/rentcafeapi.aspx?requestType=floorplan&apiToken=abc&propertyCode=p1';
+    expect(rentCafeRequestUrl(url, 'apartmentavailability'))
+      .toBe('https://api.rentcafe.com/rentcafeapi.aspx?requestType=apartmentavailability&apiToken=abc&propertyCode=p1');
+  });
+});
+
+describe('parseRentCafeFloorplans()', () => {
+  test('maps string fields and treats -1 rents as unpublished', () => {
+    const plans = parseRentCafeFloorplans([
+      floorplan(),
+      floorplan({ FloorplanName: 'B2 Den', Beds: '2', Baths: '', MinimumSQFT: '0', MaximumSQFT: '910', MinimumRent: '-1', MaximumRent: '-1' })
+    ]);
+    expect(plans[0]).toMatchObject({
+      name: 'A1', bedrooms: 1, bathrooms: 1, squareFootage: 650,
+      price: 2100, priceText: '$2,100 - $2,300', isAvailable: true, imageUrl: undefined
+    });
+    expect(plans[1]).toMatchObject({ name: 'B2 Den', hasDen: true, bathrooms: 1, squareFootage: 910, price: 0, isAvailable: false });
+  });
+
+  test('treats error 1020 as no records and throws on other API errors', () => {
+    expect(parseRentCafeFloorplans([{ Error: '1020' }])).toEqual([]);
+    expect(() => parseRentCafeFloorplans([{ Error: '1010' }])).toThrow('RentCafe API error 1010');
+    expect(() => parseRentCafeFloorplans({ message: 'nope' })).toThrow('not a list');
+  });
+});
+
+describe('parseRentCafeUnits() and applyUnitPrices()', () => {
+  test('parses M/D/YYYY dates', () => {
+    expect(parseRentCafeDate('3/7/2025')).toBe('2025-03-07');
+    expect(parseRentCafeDate('')).toBeNull();
+  });
+
+  test('prices plans at their cheapest unit and marks plans without units unavailable', () => {
+    const units = parseRentCafeUnits([
+      { FloorplanName: 'A1', ApartmentName: '101', SQFT: '650', MinimumRent: '2150', AvailableDate: '1/2/2025' },
+      { FloorplanName: 'a1', ApartmentName: '102', SQFT: '650', MinimumRent: '2125', AvailableDate: '' },
+      { FloorplanName: 'A1', ApartmentName: '', MinimumRent: '1' }
+    ]);
+    expect(units).toHaveLength(2);
+    expect(units[1]).toMatchObject({ unit: '102', rent: 2125, moveInDate: null });
+
+    const plans = parseRentCafeFloorplans([floorplan(), floorplan({ FloorplanName: 'C3', MinimumRent: '3000' })]);
+    const priced = applyUnitPrices(plans, units);
+    expect(priced[0]).toMatchObject({ name: 'A1', price: 2125, priceText: '$2,125', isAvailable: true });
+    expect(priced[1]).toMatchObject({ name: 'C3', price: 3000, isAvailable: false });
+  });
+});
@@ -0,0 +1,63 @@
+import { parseRobotsTxt, isPathAllowed, findMatchingRule } from '../../services/parsers/robotsParser';
+
+const UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+const ROBOTS = `
+# Example site
+User-agent: *
+Disallow: /admin/
+Disallow: /*.pdf$
+Allow: /admin/public
+Crawl-delay: 5
+
+User-agent: Googlebot
+User-agent: Bingbot
+Disallow: /private
+
+User-agent: Chrome
+Disallow: /floorplans/archive
+Crawl-delay: 2
+`;
+
+describe('parseRobotsTxt()', () => {
+  test('uses the group whose user-agent token appears in our user agent', () => {
+    const policy = parseRobotsTxt(ROBOTS, UA);
+    expect(policy.agent).toBe('chrome');
+    expect(policy.rules).toEqual([{ type: 'disallow', path: '/floorplans/archive' }]);
+    expect(policy.crawlDelaySeconds).toBe(2);
+  });
+
+  test('falls back to the * group and shares groups across consecutive user-agent lines', () => {
+    const star = parseRobotsTxt(ROBOTS, 'TrackerBot/1.0');
+    expect(star.agent).toBe('*');
+    expect(star.crawlDelaySeconds).toBe(5);
+
+    const bing = parseRobotsTxt(ROBOTS, 'Mozilla/5.0 (compatible; bingbot/2.0)');
+    expect(bing.rules).toEqual([{ type: 'disallow', path: '/private' }]);
+  });
+
+  test('allows everything when robots.txt is empty or has no group for us', () => {
+    expect(parseRobotsTxt('', UA).rules).toEqual([]);
+    expect(parseRobotsTxt('User-agent: Googlebot\nDisallow: /', UA).rules).toEqual([]);
+    expect(parseRobotsTxt('Disallow: /\n', UA).rules).toEqual([]);
+  });
+});
+
+describe('isPathAllowed()', () => {
+  const policy = parseRobotsTxt(ROBOTS, 'TrackerBot/1.0');
+
+  test('applies the longest matching rule, with Allow winning ties', () => {
+    expect(isPathAllowed(policy, '/admin/settings')).toBe(false);
+    expect(isPathAllowed(policy, '/admin/public/page')).toBe(true);
+    expect(isPathAllowed(policy, '/floorplans/fairview')).toBe(true);
+
+    const tie = parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page', UA);
+    expect(isPathAllowed(tie, '/page')).toBe(true);
+  });
+
+  test('supports * wildcards and $ anchors', () => {
+    expect(isPathAllowed(policy, '/files/brochure.pdf')).toBe(false);
+    expect(isPathAllowed(policy, '/files/brochure.pdf?download=1')).toBe(true);
+    expect(findMatchingRule(policy, '/files/brochure.pdf')).toEqual({ type: 'disallow', path: '/*.pdf$' });
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  availabilityFromXhr,
+  normalizePlanCode,
+  parseSecureCafeXhr,
+  parseXhrDate
+} from '../../services/parsers/secureCafeXhrParser';
+
+describe('parseSecureCafeXhr()', () => {
+  test('finds unit records at any depth, including ASP.NET "d" string payloads', () => {
+    const body = {
+      d: JSON.stringify({
+        Floorplans: [{
+          FloorplanName: 'Plan D2',
+          Units: [
+            { ApartmentName: 'D-1204', BuildingName: 'Fairview', MinimumRent: '2,450.00', AvailableDate: '/Date(1767225600000)/' },
+            { ApartmentName: 'D-1210', Building: 'Fairview', Rent: 2475, AvailableDate: 'Available Now' }
+          ]
+        }]
+      })
+    };
+    // Plan names live on the parent here, so these units carry none
+    expect(parseSecureCafeXhr(body)).toEqual([
+      expect.objectContaining({ unit: 'D-1204', planCode: '', building: 'Fairview', rent: 2450, moveInDate: '2026-01-01', availableNow: false }),
+      expect.objectContaining({ unit: 'D-1210', rent: 2475, moveInDate: null, availableNow: true })
+    ]);
+  });
+
+  test('reads lease-term rents and ignores records that are not units', () => {
+    const units = parseSecureCafeXhr([
+      { unit_number: '0805', floorplan_code: 'E-3', available_date: '2025-11-01T00:00:00',
+        lease_terms: [{ term: 12, rent: 2600 }, { term: 13, rent: 2550 }, { term: 1, rent: 99 }] },
+      { FloorplanName: 'E3', MinimumRent: '2500' },
+      { ApartmentName: 'Lobby', FloorplanName: 'E3' }
+    ]);
+    expect(units).toHaveLength(1);
+    expect(units[0]).toMatchObject({
+      unit: '0805',
+      planCode: 'E3',
+      moveInDate: '2025-11-01',
+      leaseTerms: [{ leaseTermMonths: 12, price: 2600 }, { leaseTermMonths: 13, price: 2550 }]
+    });
+  });
+
+  test('normalizes dates and plan codes', () => {
+    expect(parseXhrDate('3/7/25')).toBe('2025-03-07');
+    expect(parseXhrDate('soon')).toBeNull();
+    expect(normalizePlanCode('Floor Plan : D02 - Fairview')).toBe('D2');
+    expect(normalizePlanCode('Penthouse')).toBe('Penthouse');
+  });
+});
+
+describe('availabilityFromXhr()', () => {
+  const now = new Date(2025, 9, 20); // Oct 20 2025
+  const units = parseSecureCafeXhr([
+    { ApartmentName: 'D-1204', FloorplanName: 'D2', BuildingName: 'Fairview', MinimumRent: '2450', AvailableDate: '10/01/2025',
+      LeaseTerms: [{ LeaseTerm: '12', Rent: '2450' }] },
+    { ApartmentName: 'D-1204', FloorplanName: 'D2', BuildingName: 'Fairview', MinimumRent: '2450', AvailableDate: '10/01/2025' },
+    { ApartmentName: 'E-310', FloorplanName: 'E1', Description: 'Boren tower', MinimumRent: '1990', AvailableDate: '11/15/2025' },
+    { ApartmentName: 'F-101', FloorplanName: 'F1', MinimumRent: '1800', AvailableDate: '11/02/2025' }
+  ]);
+
+  test('buckets units by move-in date and keys them to the property buildings', () => {
+    const result = availabilityFromXhr(units, [], ['Fairview', 'Boren'], now);
+    expect(result.availableNow).toEqual([{ name: 'D-1204', moveInDate: '2025-10-01' }]);
+    expect(result.availableNextMonth.map(u => u.name)).toEqual(['E-310', 'F-101']);
+    // F-101 names no building we know
+    expect(result.availableSoonUnits).toEqual([
+      { planCode: 'D2', building: 'Fairview', unit: '#D-1204', rent: '$2,450', moveInDate: '2025-10-01' },
+      { planCode: 'E1', building: 'Boren', unit: '#E-310', rent: '$1,990', moveInDate: '2025-11-15' }
+    ]);
+    expect(result.leaseTermQuotes).toEqual([{ planCode: 'D2', building: 'Fairview', leaseTermMonths: 12, price: 2450 }]);
+  });
+
+  test('filters by wing', () => {
+    const result = availabilityFromXhr(units, ['e'], ['Fairview', 'Boren'], now);
+    expect(result.availableSoonUnits.map(u => u.unit)).toEqual(['#E-310']);
+    expect(result.leaseTermQuotes).toEqual([]);
+  });
+});
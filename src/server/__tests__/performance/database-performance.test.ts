@@ -46,7 +46,7 @@ describe('Database Performance Tests', () => {
     it('should handle bulk price history inserts efficiently', async () => {
       // Get a floor plan
       const floorPlans = await dataService.getAllFloorPlans();
-      const floorPlanId = floorPlans.data[0].id;
+      const floorPlanId = floorPlans.data![0].id;
 
       const startTime = Date.now();
       const priceRecordCount = 365; // One year of daily prices
@@ -76,7 +76,7 @@ describe('Database Performance Tests', () => {
 
     it('should query large price history efficiently', async () => {
       const floorPlans = await dataService.getAllFloorPlans();
-      const floorPlanId = floorPlans.data[0].id;
+      const floorPlanId = floorPlans.data![0].id;
 
       const startTime = Date.now();
       const result = await dataService.getPriceHistory(floorPlanId);
@@ -86,7 +86,7 @@ describe('Database Performance Tests', () => {
       expect(result.success).toBe(true);
       // Query should be fast (< 500ms)
       expect(duration).toBeLessThan(500);
-      console.log(`Queried ${result.data.length} price records in ${duration}ms`);
+      console.log(`Queried ${result.data!.length} price records in ${duration}ms`);
     });
 
     it('should filter floor plans efficiently with complex criteria', async () => {
@@ -105,7 +105,7 @@ describe('Database Performance Tests', () => {
       expect(result.success).toBe(true);
       // Complex filter query should be fast (< 200ms)
       expect(duration).toBeLessThan(200);
-      console.log(`Filtered ${result.data.length} floor plans in ${duration}ms`);
+      console.log(`Filtered ${result.data!.length} floor plans in ${duration}ms`);
     });
 
     it('should handle concurrent read operations', async () => {
@@ -145,7 +145,7 @@ describe('Database Performance Tests', () => {
       // Statistics calculation should be fast (< 300ms)
       expect(duration).toBeLessThan(300);
       console.log(`Calculated statistics in ${duration}ms`);
-      console.log(`Dataset size: ${result.data.floor_plans} floor plans, ${result.data.price_records} price records`);
+      console.log(`Dataset size: ${result.data!.floor_plans} floor plans, ${result.data!.price_records} price records`);
     });
   });
 
@@ -153,7 +153,7 @@ describe('Database Performance Tests', () => {
     it('should use indexes for common queries', async () => {
       // This test verifies that queries complete quickly, indicating proper indexing
       const floorPlans = await dataService.getAllFloorPlans();
-      const floorPlanId = floorPlans.data[0].id;
+      const floorPlanId = floorPlans.data![0].id;
 
       const startTime = Date.now();
       
@@ -176,7 +176,7 @@ describe('Database Performance Tests', () => {
 
     it('should handle date range queries efficiently', async () => {
       const floorPlans = await dataService.getAllFloorPlans();
-      const floorPlanId = floorPlans.data[0].id;
+      const floorPlanId = floorPlans.data![0].id;
 
       const startTime = Date.now();
       
@@ -192,7 +192,7 @@ describe('Database Performance Tests', () => {
       expect(result.success).toBe(true);
       // Date range query should be fast (< 200ms)
       expect(duration).toBeLessThan(200);
-      console.log(`Date range query returned ${result.data.length} records in ${duration}ms`);
+      console.log(`Date range query returned ${result.data!.length} records in ${duration}ms`);
     });
   });
 
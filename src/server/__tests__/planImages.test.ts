@@ -0,0 +1,205 @@
+import fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import * as connection from '../database/connection';
+import { DatabaseConnection } from '../database/connection';
+import { DataService } from '../services/DataService';
+import { PlanImageService, readImageInfo, fetchHttpImage, ImageFetcher } from '../services/PlanImageService';
+import { RobotsService } from '../services/RobotsService';
+import type { ScrapedFloorPlan } from '../services/sources/SourceAdapter';
+
+// PNG signature and IHDR chunk; the trailing bytes make each image's content distinct
+const png = (width: number, height: number, seed = 0): Buffer => {
+  const ihdr = Buffer.alloc(25);
+  ihdr.writeUInt32BE(13, 0);
+  ihdr.write('IHDR', 4, 'ascii');
+  ihdr.writeUInt32BE(width, 8);
+  ihdr.writeUInt32BE(height, 12);
+  return Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), ihdr, Buffer.from([seed])]);
+};
+
+describe('Plan images', () => {
+  let db: DatabaseConnection;
+  let dataService: DataService;
+  let dir: string;
+  let fetchImage: jest.Mock<ReturnType<ImageFetcher>, Parameters<ImageFetcher>>;
+  let thumbnailer: jest.Mock;
+  let service: PlanImageService;
+
+  beforeAll(async () => {
+    db = new DatabaseConnection(':memory:');
+    jest.spyOn(connection, 'getDatabaseConnection').mockReturnValue(db);
+    dataService = new DataService(db);
+    await dataService.init();
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'onnislu-plan-images-'));
+    const images: Record<string, Buffer> = {
+      'https://cdn.example.com/d1.png': png(1200, 800, 1),
+      'https://cdn.example.com/d1-copy.png': png(1200, 800, 1),
+      'https://cdn.example.com/small.png': png(300, 200, 2),
+      'https://cdn.example.com/page.html': Buffer.from('<html></html>')
+    };
+    fetchImage = jest.fn<ReturnType<ImageFetcher>, Parameters<ImageFetcher>>(async (url) => images[url]
+      ? { status: 200, contentType: url.endsWith('.html') ? 'text/html' : 'image/png', body: images[url] }
+      : { status: 404, contentType: null, body: Buffer.alloc(0) });
+    thumbnailer = jest.fn(async () => Buffer.from('RIFF-thumbnail'));
+    // No robots.txt on the image host: everything may be fetched
+    const robots = new RobotsService(async () => ({ status: 404, body: '' }));
+    service = new PlanImageService(dataService, { dir, thumbnailWidth: 480, maxBytes: 1024 }, thumbnailer, fetchImage, robots);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const plan = (name: string, imageUrl?: string): ScrapedFloorPlan => ({
+    name,
+    bedrooms: 1,
+    bathrooms: 1,
+    hasDen: false,
+    squareFootage: 650,
+    buildingPosition: '',
+    price: 2100,
+    isAvailable: true,
+    imageUrl
+  });
+
+  test('should read the type and size from PNG, GIF and JPEG headers', () => {
+    expect(readImageInfo(png(640, 480))).toEqual({ mimeType: 'image/png', ext: 'png', width: 640, height: 480 });
+
+    const gif = Buffer.from('GIF89a\x20\x00\x10\x00', 'latin1');
+    expect(readImageInfo(gif)).toMatchObject({ mimeType: 'image/gif', width: 32, height: 16 });
+
+    // SOI, an APP0 segment, then SOF0 with height 600 and width 900
+    const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x02, 0x58, 0x03, 0x84, 0x03, 0x00, 0x00]);
+    expect(readImageInfo(jpeg)).toMatchObject({ mimeType: 'image/jpeg', ext: 'jpg', width: 900, height: 600 });
+
+    expect(readImageInfo(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+  });
+
+  test('should store scraped images once per content and return exact URLs for the plans', async () => {
+    const { plans, errors } = await service.attachToPlans([
+      plan('D1', 'https://cdn.example.com/d1.png'),
+      plan('D2', 'https://cdn.example.com/d1-copy.png'),
+      plan('E1', 'https://cdn.example.com/small.png'),
+      plan('E2', 'https://cdn.example.com/page.html'),
+      plan('E3', 'https://cdn.example.com/missing.png'),
+      plan('E4')
+    ]);
+
+    expect(errors).toEqual([
+      'Plan image for E2 not stored: Expected an image, got text/html for https://cdn.example.com/page.html',
+      'Plan image for E3 not stored: HTTP 404 for https://cdn.example.com/missing.png'
+    ]);
+    const [d1, d2, e1] = plans;
+    expect(d1.planImageId).toBeDefined();
+    expect(d2.planImageId).toBe(d1.planImageId);
+    expect(plans.slice(3).map(p => p.planImageId)).toEqual([undefined, undefined, undefined]);
+
+    // Only the wide image gets a thumbnail
+    expect(thumbnailer).toHaveBeenCalledTimes(1);
+    const images = (await dataService.getPlanImages()).data!;
+    expect(images).toHaveLength(2);
+    const wide = images.find(i => i.id === d1.planImageId)!;
+    expect(wide).toMatchObject({ width: 1200, height: 800, mime_type: 'image/png', floor_plan_count: 0 });
+    expect(wide.file).toBe(`${wide.hash}.png`);
+    expect(wide.thumbnail_url).toBe(`/static/plan-images/thumbs/${wide.hash}.webp`);
+    expect(wide.sources!.sort()).toEqual(['https://cdn.example.com/d1-copy.png', 'https://cdn.example.com/d1.png']);
+    expect(fs.existsSync(path.join(dir, wide.file))).toBe(true);
+    expect(fs.existsSync(path.join(dir, 'thumbs', `${wide.hash}.webp`))).toBe(true);
+
+    // The next scrape finds the URLs in the manifest and doesn't download them again
+    fetchImage.mockClear();
+    await service.attachToPlans([plan('D1', 'https://cdn.example.com/d1.png')]);
+    expect(fetchImage).not.toHaveBeenCalled();
+
+    await dataService.persistScrapedFloorPlans({ name: 'Fairview', url: 'https://example.com/fairview' }, [d1, e1]);
+    const listed = (await dataService.getAllFloorPlans()).data!;
+    const small = images.find(i => i.id === e1.planImageId)!;
+    expect(listed.find(fp => fp.name === 'D1')).toMatchObject({
+      image_url: `/static/plan-images/${wide.file}`,
+      thumbnail_url: `/static/plan-images/thumbs/${wide.hash}.webp`
+    });
+    expect(listed.find(fp => fp.name === 'E1')).toMatchObject({
+      image_url: `/static/plan-images/${small.file}`,
+      thumbnail_url: `/static/plan-images/${small.file}`
+    });
+  });
+
+  test('should ingest a folder and link files named after a building\'s plans', async () => {
+    await dataService.persistScrapedFloorPlans({ name: 'Boren', url: 'https://example.com/boren' }, [plan('Plan A1')]);
+    const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'onnislu-plan-folder-'));
+    try {
+      fs.writeFileSync(path.join(folder, 't2-plan_a1.png'), png(400, 300, 3)); // Boren's image code is t2
+      fs.writeFileSync(path.join(folder, 't2-plan_z9.png'), png(400, 300, 4));
+      fs.writeFileSync(path.join(folder, 'notes.png'), 'not an image');
+      fs.writeFileSync(path.join(folder, 'readme.txt'), 'skipped');
+
+      const report = await service.ingestFolder(folder);
+      expect(report).toMatchObject({ ingested: 2, created: 2, linked: 1, unmatched: ['t2-plan_z9.png'] });
+      expect(report.failed).toEqual([{ file: 'notes.png', error: 'Not a PNG, JPEG, WebP or GIF image: file:notes.png' }]);
+
+      const boren = (await dataService.getAllFloorPlans()).data!.find(fp => fp.building_name === 'Boren' && fp.name === 'Plan A1');
+      expect(boren!.image_url).toMatch(/^\/static\/plan-images\/[0-9a-f]{64}\.png$/);
+
+      // Running it again finds every image already stored
+      expect(await service.ingestFolder(folder)).toMatchObject({ ingested: 2, created: 0, linked: 1 });
+    } finally {
+      fs.rmSync(folder, { recursive: true, force: true });
+    }
+  });
+
+  test('should fall back to the image URL a plan was saved with before the manifest', async () => {
+    await dataService.persistScrapedFloorPlans({ name: 'Denny', url: 'https://example.com/denny' }, [
+      plan('Plan C1', '/static/plan-images/t4-plan_c1.png')
+    ]);
+    const legacy = (await dataService.getAllFloorPlans()).data!.find(fp => fp.building_name === 'Denny');
+    expect(legacy).toMatchObject({ image_url: '/static/plan-images/t4-plan_c1.png', thumbnail_url: '/static/plan-images/t4-plan_c1.png' });
+  });
+
+  test('should hold image downloads to robots.txt and its Crawl-delay', async () => {
+    const robots = new RobotsService(async () => ({ status: 200, body: 'User-agent: *\nDisallow: /private/\nCrawl-delay: 0.3\n' }));
+    service = new PlanImageService(dataService, { dir, thumbnailWidth: 480, maxBytes: 1024 }, thumbnailer, fetchImage, robots);
+
+    await expect(service.ingestUrl('https://cdn.example.com/private/d1.png')).rejects.toThrow('Blocked by robots.txt');
+    expect(fetchImage).not.toHaveBeenCalled();
+
+    const started = Date.now();
+    await service.ingestUrl('https://cdn.example.com/d1.png');
+    await service.ingestUrl('https://cdn.example.com/small.png');
+    expect(Date.now() - started).toBeGreaterThanOrEqual(250);
+    expect(fetchImage).toHaveBeenCalledWith('https://cdn.example.com/small.png', 1024);
+  });
+
+  test('should stop downloading an image once it passes the size limit', async () => {
+    const server = http.createServer((req, res) => {
+      if (req.url === '/declared.png') {
+        res.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': '5000' });
+        res.end(Buffer.alloc(5000));
+      } else {
+        // Chunked: no Content-Length to go by
+        res.writeHead(200, { 'Content-Type': 'image/png' });
+        res.write(Buffer.alloc(600));
+        res.end(Buffer.alloc(600));
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+      await expect(fetchHttpImage(`${base}/declared.png`, 1024)).rejects.toThrow('Image larger than 1024 bytes');
+      await expect(fetchHttpImage(`${base}/chunked.png`, 1024)).rejects.toThrow('Image larger than 1024 bytes');
+      expect((await fetchHttpImage(`${base}/chunked.png`, 2048)).body).toHaveLength(1200);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,65 @@
+import * as connection from '../database/connection';
+import { DatabaseConnection } from '../database/connection';
+import { DataService } from '../services/DataService';
+import { PriceHistory, PriceObservation } from '../../shared/types/database';
+
+describe('Raw price observations', () => {
+  let db: DatabaseConnection;
+  let dataService: DataService;
+
+  beforeAll(async () => {
+    // AlertService reads the shared connection; point it at this in-memory database
+    db = new DatabaseConnection(':memory:');
+    jest.spyOn(connection, 'getDatabaseConnection').mockReturnValue(db);
+    dataService = new DataService(db);
+    await dataService.init();
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  test('should keep every intraday observation while price_history holds the daily minimum', async () => {
+    const scraped = (price: number, priceText: string) => ({
+      name: 'Plan D7',
+      bedrooms: 1,
+      bathrooms: 1,
+      hasDen: false,
+      squareFootage: 700,
+      buildingPosition: '',
+      price,
+      priceText,
+      isAvailable: true
+    });
+    const building = { name: 'Fairview', url: 'https://www.onnislu.com/fairview' };
+
+    const first = await dataService.persistScrapedFloorPlans(building, [scraped(2450, 'Starting at $2,450')], new Date(2025, 2, 1, 7, 0));
+    await dataService.persistScrapedFloorPlans(building, [scraped(2395, 'From $2,395')], new Date(2025, 2, 1, 19, 0), 'manual');
+
+    const fpId = (await db.executeQuerySingle('SELECT id FROM floor_plans WHERE building_id = ? AND name = ?', [first.buildingId, 'Plan D7'])).data.id;
+
+    const obs = await dataService.getPriceObservations(fpId);
+    expect(obs.success).toBe(true);
+    const rows = obs.data as PriceObservation[];
+    expect(rows.map(o => [Number(o.price), o.source, o.price_text])).toEqual([
+      [2395, 'manual', 'From $2,395'],
+      [2450, 'scheduler', 'Starting at $2,450']
+    ]);
+
+    const history = await dataService.getPriceHistory(fpId);
+    const daily = history.data as PriceHistory[];
+    expect(daily).toHaveLength(1);
+    expect(Number(daily[0].price)).toBe(2395);
+  });
+
+  test('should filter observations by time range and limit', async () => {
+    const fpId = (await db.executeQuerySingle("SELECT id FROM floor_plans WHERE name = 'Plan D7'")).data.id;
+
+    const evening = await dataService.getPriceObservations(fpId, new Date(2025, 2, 1, 12, 0).toISOString());
+    expect((evening.data as PriceObservation[]).map(o => o.source)).toEqual(['manual']);
+
+    const limited = await dataService.getPriceObservations(fpId, undefined, undefined, 1);
+    expect(limited.data).toHaveLength(1);
+  });
+});
@@ -0,0 +1,97 @@
+import * as connection from '../database/connection';
+import { DatabaseConnection } from '../database/connection';
+import { DataService } from '../services/DataService';
+import { Alert, LeaseTermPricing } from '../../shared/types/database';
+
+describe('Lease-term price quotes', () => {
+  let db: DatabaseConnection;
+  let dataService: DataService;
+  let planId: number;
+
+  beforeAll(async () => {
+    // AlertService reads the shared connection; point it at this in-memory database
+    db = new DatabaseConnection(':memory:');
+    jest.spyOn(connection, 'getDatabaseConnection').mockReturnValue(db);
+    dataService = new DataService(db);
+    await dataService.init();
+
+    const building = await db.executeQuerySingle('SELECT id FROM buildings WHERE name = ?', ['Fairview']);
+    const plan = await dataService.upsertFloorPlan({
+      building_id: building.data.id,
+      name: 'PLAN E3',
+      bedrooms: 2,
+      bathrooms: 2
+    });
+    planId = plan.id;
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.executeUpdate('DELETE FROM price_quotes');
+    await db.executeUpdate('DELETE FROM alerts');
+    await db.executeUpdate("DELETE FROM settings WHERE key = 'alert_lease_term_months'");
+  });
+
+  test('should store the matrix per plan and report the cheapest term', async () => {
+    const stats = await dataService.persistLeaseTermQuotes([
+      { planCode: 'E3', building: 'Fairview', leaseTermMonths: 12, price: 3100 },
+      { planCode: 'E3', building: 'Fairview', leaseTermMonths: 15, price: 3025 },
+      { planCode: 'E3', building: 'Fairview', leaseTermMonths: 6, price: 3400 },
+      { planCode: 'Z9', building: 'Fairview', leaseTermMonths: 12, price: 1000 }
+    ], '2025-02-01T12:00:00');
+    expect(stats).toEqual({ recorded: 3, unmatched: 1 });
+
+    const res = await dataService.getLeaseTermPricing(planId);
+    expect(res.success).toBe(true);
+    const [entry] = res.data as LeaseTermPricing[];
+    expect(entry.collection_date).toBe('2025-02-01');
+    expect(entry.quotes.map(q => q.lease_term_months)).toEqual([6, 12, 15]);
+    expect(entry.cheapest).toEqual({ lease_term_months: 15, price: 3025 });
+  });
+
+  test('should only alert on the watched lease term', async () => {
+    await dataService.updateAlertSettings('dollar', 50, 12);
+
+    await dataService.recordDailyQuote({ floor_plan_id: planId, lease_term_months: 12, price: 3100, collection_date: '2025-02-01' });
+    await dataService.recordDailyQuote({ floor_plan_id: planId, lease_term_months: 15, price: 3100, collection_date: '2025-02-01' });
+    await dataService.recordDailyQuote({ floor_plan_id: planId, lease_term_months: 12, price: 3000, collection_date: '2025-02-02' });
+    await dataService.recordDailyQuote({ floor_plan_id: planId, lease_term_months: 15, price: 2900, collection_date: '2025-02-02' });
+
+    const alerts = await dataService.getActiveAlerts();
+    const rows = alerts.data as Alert[];
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.every(a => a.lease_term_months === 12)).toBe(true);
+    expect(rows.find(a => a.alert_type === 'price_drop')).toMatchObject({ old_price: 3100, new_price: 3000 });
+  });
+
+  test('should fall back to advertised-price alerts for plans never quoted on the watched term', async () => {
+    await dataService.updateAlertSettings('dollar', 50, 12);
+    const building = await db.executeQuerySingle('SELECT id FROM buildings WHERE name = ?', ['Fairview']);
+    const unquoted = await dataService.upsertFloorPlan({ building_id: building.data.id, name: 'PLAN E4', bedrooms: 2, bathrooms: 2 });
+
+    // PLAN E3 is quoted on 12 months, so its advertised price stays quiet
+    await dataService.recordDailyQuote({ floor_plan_id: planId, lease_term_months: 12, price: 3100, collection_date: '2025-03-01' });
+    for (const [floorPlanId, price, date] of [[planId, 3200, '2025-03-01'], [planId, 2900, '2025-03-02'], [unquoted.id, 3300, '2025-03-01'], [unquoted.id, 3100, '2025-03-02']] as const) {
+      await dataService.recordDailyPrice({ floor_plan_id: floorPlanId, price, is_available: true, collection_date: date });
+    }
+
+    const rows = (await dataService.getActiveAlerts()).data as Alert[];
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.every(a => a.floor_plan_id === unquoted.id && a.lease_term_months == null)).toBe(true);
+    expect(rows.find(a => a.alert_type === 'price_drop')).toMatchObject({ old_price: 3300, new_price: 3100 });
+  });
+
+  test('should leave quote alerts off while watching the advertised price', async () => {
+    await dataService.updateAlertSettings('dollar', 50, null);
+
+    await dataService.recordDailyQuote({ floor_plan_id: planId, lease_term_months: 12, price: 3100, collection_date: '2025-02-01' });
+    await dataService.recordDailyQuote({ floor_plan_id: planId, lease_term_months: 12, price: 2900, collection_date: '2025-02-02' });
+
+    const alerts = await dataService.getActiveAlerts();
+    expect(alerts.data).toHaveLength(0);
+  });
+});
@@ -0,0 +1,97 @@
+import * as connection from '../database/connection';
+import { DatabaseConnection } from '../database/connection';
+import { DataService } from '../services/DataService';
+import { Property } from '../../shared/types/database';
+import { DEFAULT_PROPERTY_SLUG, getBuildingSelectors, secureCafeUrl } from '../config/scraper';
+
+describe('Properties', () => {
+  let db: DatabaseConnection;
+  let dataService: DataService;
+
+  beforeAll(async () => {
+    // AlertService reads the shared connection; point it at this in-memory database
+    db = new DatabaseConnection(':memory:');
+    jest.spyOn(connection, 'getDatabaseConnection').mockReturnValue(db);
+    dataService = new DataService(db);
+    await dataService.init();
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  test('should seed the default property owning Fairview and Boren', async () => {
+    const result = await dataService.getProperties();
+    const properties = result.data as Property[];
+    expect(properties).toHaveLength(1);
+    expect(properties[0].slug).toBe(DEFAULT_PROPERTY_SLUG);
+    expect(properties[0].buildings?.map(b => [b.name, b.image_code])).toEqual([['Boren', 't2'], ['Fairview', 't1']]);
+
+    // Unset SecureCafe URL falls back to the env-configured one for the default property only
+    const [target] = await dataService.getScrapeTargets();
+    expect(target.secureCafeUrl).toBe(secureCafeUrl);
+  });
+
+  test('should create a property with its own SecureCafe page, wings, selectors and buildings', async () => {
+    const created = await dataService.createProperty({
+      name: 'Mirabella',
+      slug: 'mirabella',
+      securecafe_url: 'https://mirabella.securecafe.com/onlineleasing/apartments',
+      wings: ['n', 'S'],
+      selectors: { price: ['.rent-amount'] }
+    });
+    expect(created.success).toBe(true);
+    const id = created.data!.lastID;
+
+    const building = await dataService.addBuildingToProperty(id, { name: 'Mirabella North', url: 'https://example.com/north' });
+    expect(building.success).toBe(true);
+
+    // Building names are unique across properties
+    const duplicate = await dataService.addBuildingToProperty(id, { name: 'Fairview', url: 'https://example.com/fairview' });
+    expect(duplicate.success).toBe(false);
+
+    const property = (await dataService.getPropertyById(id)).data as Property;
+    expect(property.wings).toEqual(['N', 'S']);
+    expect(property.selectors).toEqual({ price: ['.rent-amount'] });
+
+    const target = (await dataService.getScrapeTargets()).find(t => t.slug === 'mirabella')!;
+    expect(target).toMatchObject({
+      secureCafeUrl: 'https://mirabella.securecafe.com/onlineleasing/apartments',
+      wings: ['N', 'S'],
+      buildings: [{ name: 'Mirabella North', url: 'https://example.com/north', imageCode: null }]
+    });
+    expect(getBuildingSelectors(target.selectors).price).toEqual(['.rent-amount']);
+  });
+
+  test('should skip inactive properties when resolving scrape targets', async () => {
+    const property = (await dataService.getProperties()).data!.find(p => p.slug === 'mirabella') as Property;
+
+    const updated = await dataService.updateProperty(property.id, { is_active: false, securecafe_url: null });
+    expect(updated.data!.changes).toBe(1);
+
+    const targets = await dataService.getScrapeTargets();
+    expect(targets.map(t => t.slug)).toEqual([DEFAULT_PROPERTY_SLUG]);
+  });
+
+  test('should move or detach a building so its property can be deleted', async () => {
+    const created = await dataService.createProperty({ name: 'Annex', slug: 'annex' });
+    const annexId = created.data!.lastID;
+    await dataService.addBuildingToProperty(annexId, { name: 'Annex East', url: 'https://example.com/east' });
+    await dataService.addBuildingToProperty(annexId, { name: 'Annex West', url: 'https://example.com/west' });
+    const [east, west] = ((await dataService.getPropertyById(annexId)).data as Property).buildings!;
+
+    const defaultProperty = (await dataService.getProperties()).data!.find(p => p.slug === DEFAULT_PROPERTY_SLUG) as Property;
+    expect((await dataService.moveBuilding(east.id, defaultProperty.id)).data!.changes).toBe(1);
+    expect((await dataService.moveBuilding(west.id, null)).data!.changes).toBe(1);
+    expect((await dataService.moveBuilding(9999, null)).data!.changes).toBe(0);
+
+    expect(((await dataService.getPropertyById(annexId)).data as Property).buildings).toEqual([]);
+    const target = (await dataService.getScrapeTargets()).find(t => t.slug === DEFAULT_PROPERTY_SLUG)!;
+    expect(target.buildings.map(b => b.name)).toEqual(['Annex East', 'Boren', 'Fairview']);
+    // Detached buildings aren't scraped
+    expect((await dataService.getScrapeTargets()).flatMap(t => t.buildings).map(b => b.name)).not.toContain('Annex West');
+
+    expect((await dataService.deleteProperty(annexId)).data!.changes).toBe(1);
+  });
+});
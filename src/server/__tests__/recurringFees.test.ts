@@ -0,0 +1,82 @@
+import * as connection from '../database/connection';
+import { DatabaseConnection } from '../database/connection';
+import { DataService } from '../services/DataService';
+import { FloorPlan, RecurringFee } from '../../shared/types/database';
+
+describe('Recurring fees', () => {
+  let db: DatabaseConnection;
+  let dataService: DataService;
+  let fairviewId: number;
+  let planA: number;
+  let planB: number;
+
+  beforeAll(async () => {
+    // AlertService reads the shared connection; point it at this in-memory database
+    db = new DatabaseConnection(':memory:');
+    jest.spyOn(connection, 'getDatabaseConnection').mockReturnValue(db);
+    dataService = new DataService(db);
+    await dataService.init();
+
+    const building = { name: 'Fairview', url: 'https://www.onnislu.com/fairview' };
+    const plan = (name: string, price: number) => ({
+      name,
+      bedrooms: 1,
+      bathrooms: 1,
+      hasDen: false,
+      squareFootage: 700,
+      buildingPosition: '',
+      price,
+      isAvailable: true
+    });
+    const res = await dataService.persistScrapedFloorPlans(building, [plan('Plan A1', 2500), plan('Plan B1', 2700)], new Date(2025, 3, 1, 8, 0));
+    fairviewId = res.buildingId;
+    const ids = (await db.executeQuery('SELECT id, name FROM floor_plans WHERE building_id = ? ORDER BY name', [fairviewId])).data as any[];
+    [planA, planB] = ids.map(r => r.id);
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  const plan = async (id: number) => (await dataService.getFloorPlanById(id)).data as FloorPlan;
+
+  test('should add building-wide fees to every plan and plan fees to one', async () => {
+    await dataService.createRecurringFee({ building_id: fairviewId, category: 'amenity', name: 'Amenity fee', monthly_amount: 50 });
+    await dataService.createRecurringFee({ building_id: fairviewId, category: 'utilities', name: 'Water/sewer', monthly_amount: 75.5 });
+    const parking = await dataService.createRecurringFee({ floor_plan_id: planA, category: 'parking', name: 'Reserved stall', monthly_amount: 250 });
+    expect(parking.data!.lastID).toBeGreaterThan(0);
+
+    expect(await plan(planA)).toMatchObject({ monthly_fees: 375.5, total_monthly_cost: 2875.5 });
+    expect(await plan(planB)).toMatchObject({ monthly_fees: 125.5, total_monthly_cost: 2825.5 });
+
+    const forB = (await dataService.getRecurringFees({ floor_plan_id: planB })).data as RecurringFee[];
+    expect(forB.map(f => f.name).sort()).toEqual(['Amenity fee', 'Water/sewer']);
+  });
+
+  test('should leave fees out of the total when excluded', async () => {
+    const fees = (await dataService.getRecurringFees({ floor_plan_id: planA })).data as RecurringFee[];
+    const parking = fees.find(f => f.category === 'parking')!;
+    expect(parking.building_id).toBe(fairviewId);
+
+    const upd = await dataService.updateRecurringFee(parking.id, { include_in_total: false });
+    expect(upd.data!.changes).toBe(1);
+    expect((await plan(planA)).total_monthly_cost).toBe(2625.5);
+
+    await dataService.deleteRecurringFee(parking.id);
+    expect((await dataService.getRecurringFees({ floor_plan_id: planA })).data).toHaveLength(2);
+  });
+
+  test('should reject a plan fee for a plan in another building', async () => {
+    const boren = await db.executeQuerySingle("SELECT id FROM buildings WHERE name = 'Boren'");
+    const res = await dataService.createRecurringFee({ building_id: boren.data.id, floor_plan_id: planA, category: 'pet', name: 'Pet rent', monthly_amount: 60 });
+    expect(res.success).toBe(true);
+    expect(res.data).toBeNull();
+  });
+
+  test('should carry total cost into the export rows', async () => {
+    const rows = (await dataService.getPriceHistoryRange()).data as any[];
+    const a = rows.find(r => r.floor_plan_id === planA);
+    expect(a).toMatchObject({ price: 2500, monthly_fees: 125.5, total_monthly_cost: 2625.5 });
+  });
+});
@@ -0,0 +1,98 @@
+import { DatabaseConnection } from '../database/connection';
+import { createRepositories, Repositories } from '../database/repositories';
+
+describe('Repositories', () => {
+  let db: DatabaseConnection;
+  let repos: Repositories;
+  let buildingId: number;
+
+  beforeAll(async () => {
+    db = new DatabaseConnection(':memory:');
+    const init = await db.initialize();
+    expect(init.success).toBe(true);
+    repos = createRepositories(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  test('should upsert a building by name, updating only its URL', async () => {
+    const created = await repos.buildings.upsert({ name: 'Westlake', url: 'https://example.com/old' });
+    expect(created.data).toMatchObject({ name: 'Westlake', url: 'https://example.com/old' });
+    buildingId = created.data!.id;
+
+    const updated = await repos.buildings.upsert({ name: 'Westlake', url: 'https://example.com/new' });
+    expect(updated.data).toMatchObject({ id: buildingId, url: 'https://example.com/new' });
+
+    const duplicate = await repos.buildings.create({ name: 'Westlake', url: 'https://example.com/other' });
+    expect(duplicate.success).toBe(false);
+  });
+
+  test('should refresh scraped floor plan fields without overwriting static metadata', async () => {
+    const first = await repos.floorPlans.upsert({ building_id: buildingId, name: 'W1', bedrooms: 1, bathrooms: 1, has_den: true, square_footage: 700 });
+    const again = await repos.floorPlans.upsert({ building_id: buildingId, name: 'W1', bedrooms: 3, bathrooms: 2, square_footage: 720 });
+    expect(again.data!.id).toBe(first.data!.id);
+    expect(again.data).toMatchObject({ bedrooms: 1, bathrooms: 1, has_den: 1, square_footage: 720 });
+  });
+
+  test('should write only known floor plan columns and store booleans as 0/1', async () => {
+    const plan = (await repos.floorPlans.findByNames(['W1*', 'W1'], 'Westlake')).data!;
+    expect(plan.building_name).toBe('Westlake');
+
+    const upd = await repos.floorPlans.update(plan.id, { bathrooms: 1.5, has_den: false, bathrooms_estimated: true });
+    expect(upd.data!.changes).toBe(1);
+    const none = await repos.floorPlans.update(plan.id, {});
+    expect(none.data!.changes).toBe(0);
+
+    const row = (await repos.floorPlans.findById(plan.id)).data!;
+    expect(row).toMatchObject({ bathrooms: 1.5, has_den: 0, bathrooms_estimated: 1 });
+
+    await repos.floorPlans.archive(plan.id);
+    const archivedAt = (await repos.floorPlans.findById(plan.id)).data!.archived_at;
+    expect(archivedAt).toBeTruthy();
+    await repos.floorPlans.archive(plan.id);
+    expect((await repos.floorPlans.findById(plan.id)).data!.archived_at).toBe(archivedAt);
+  });
+
+  test('should keep one price history row per day and update it in place', async () => {
+    const plan = (await repos.floorPlans.findByNames(['W1'], 'Westlake')).data!;
+    await repos.priceHistory.create({ floor_plan_id: plan.id, price: 2000, is_available: false, collection_date: '2025-03-01' });
+    const duplicate = await repos.priceHistory.create({ floor_plan_id: plan.id, price: 1900, is_available: true, collection_date: '2025-03-01' });
+    expect(duplicate.success).toBe(false);
+
+    const day = (await repos.priceHistory.findForDay(plan.id, '2025-03-01')).data!;
+    await repos.priceHistory.updateDay(day.id, { is_available: true });
+    expect((await repos.priceHistory.findForDay(plan.id, '2025-03-01')).data).toMatchObject({ price: 2000, is_available: 1 });
+    await repos.priceHistory.updateDay(day.id, { price: 1950, is_available: true });
+
+    const range = await repos.priceHistory.findRange('2025-03-01', '2025-03-01');
+    expect(range.data).toEqual([
+      expect.objectContaining({ floor_plan_name: 'W1', building_name: 'Westlake', price: 1950, net_effective_rent: 1950, monthly_fees: 0, total_monthly_cost: 1950 })
+    ]);
+  });
+
+  test('should create, list and dismiss alerts', async () => {
+    const plan = (await repos.floorPlans.findByNames(['W1'], 'Westlake')).data!;
+    const created = await repos.alerts.create({ floor_plan_id: plan.id, alert_type: 'price_drop', old_price: 2000, new_price: 1950 });
+
+    const active = (await repos.alerts.findActive()).data!;
+    expect(active.find(a => a.id === created.data!.lastID)).toMatchObject({ floor_plan_name: 'W1', building_name: 'Westlake', lease_term_months: null });
+
+    expect((await repos.alerts.dismiss(created.data!.lastID)).data!.changes).toBe(1);
+    expect((await repos.alerts.findActive()).data!.some(a => a.id === created.data!.lastID)).toBe(false);
+  });
+
+  test('should set, default and delete settings', async () => {
+    await repos.settings.set('retention_daily_days', '30');
+    await repos.settings.setDefault('retention_daily_days', '90');
+    await repos.settings.setDefault('retention_weekly_days', '365');
+
+    const many = (await repos.settings.getMany(['retention_daily_days', 'retention_weekly_days', 'missing'])).data!;
+    expect(many.map(s => [s.key, s.value])).toEqual([['retention_daily_days', '30'], ['retention_weekly_days', '365']]);
+    expect((await repos.settings.getMany([])).data).toEqual([]);
+
+    await repos.settings.delete('retention_weekly_days');
+    expect((await repos.settings.get('retention_weekly_days')).data).toBeUndefined();
+  });
+});
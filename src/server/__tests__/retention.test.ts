@@ -0,0 +1,142 @@
+import * as connection from '../database/connection';
+import { DatabaseConnection } from '../database/connection';
+import { DataService } from '../services/DataService';
+import { RetentionPolicy, RetentionReport } from '../../shared/types/database';
+
+describe('Price history retention', () => {
+  let db: DatabaseConnection;
+  let dataService: DataService;
+  let fpId: number;
+  const now = new Date(2025, 5, 30, 12, 0);
+
+  const dateOnly = (daysAgo: number) => {
+    const d = new Date(now);
+    d.setDate(d.getDate() - daysAgo);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  };
+
+  beforeAll(async () => {
+    // AlertService reads the shared connection; point it at this in-memory database
+    db = new DatabaseConnection(':memory:');
+    jest.spyOn(connection, 'getDatabaseConnection').mockReturnValue(db);
+    dataService = new DataService(db);
+    await dataService.init();
+
+    const building = await db.executeQuerySingle("SELECT id FROM buildings WHERE name = 'Fairview'");
+    const plan = await db.executeUpdate(
+      'INSERT INTO floor_plans (building_id, name, bedrooms, bathrooms) VALUES (?, ?, ?, ?)',
+      [building.data.id, 'Plan R1', 1, 1]
+    );
+    fpId = plan.data!.lastID;
+
+    // One point a day for 200 days; prices vary so each week has a clear minimum
+    for (let i = 0; i < 200; i++) {
+      await db.executeUpdate(
+        'INSERT INTO price_history (floor_plan_id, price, collection_date) VALUES (?, ?, ?)',
+        [fpId, 2000 + (i % 7) * 10, dateOnly(i)]
+      );
+    }
+    await db.executeUpdate(
+      'INSERT INTO price_observations (floor_plan_id, price, source, observed_at) VALUES (?, ?, ?, ?), (?, ?, ?, ?)',
+      [fpId, 2000, 'scheduler', new Date(2025, 0, 1).toISOString(), fpId, 2000, 'scheduler', new Date(2025, 5, 29).toISOString()]
+    );
+    // An alert raised 150 days ago pins that day's point
+    await db.executeUpdate(
+      'INSERT INTO alerts (floor_plan_id, alert_type, new_price, created_at) VALUES (?, ?, ?, ?)',
+      [fpId, 'price_drop', 2000, `${dateOnly(150)} 12:00:00`]
+    );
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  const dates = async (): Promise<string[]> =>
+    ((await db.executeQuery('SELECT collection_date FROM price_history WHERE floor_plan_id = ? ORDER BY collection_date', [fpId])).data as any[])
+      .map(r => r.collection_date);
+
+  test('should keep everything until a policy is set', async () => {
+    const policy = (await dataService.getRetentionPolicy()).data as RetentionPolicy;
+    expect(policy).toEqual({ daily_days: 0, weekly_days: 0, observation_days: 0, keep_alert_days: true });
+
+    const preview = (await dataService.enforceRetentionPolicy({ dryRun: true, now })).data as RetentionReport;
+    expect(preview.daily_cutoff).toBeNull();
+    expect(preview.removed.total).toBe(0);
+
+    // Weekly minima only apply after a daily window
+    const weeklyOnly = (await dataService.enforceRetentionPolicy({ dryRun: true, now, policy: { weekly_days: 30 } })).data as RetentionReport;
+    expect(weeklyOnly.removed.total).toBe(0);
+  });
+
+  test('should preview exactly what a run removes', async () => {
+    await dataService.updateRetentionPolicy(
+      { daily_days: 30, weekly_days: 60, observation_days: 90 },
+      { actor: 'tester', source: 'PUT /api/admin/retention' }
+    );
+
+    const preview = (await dataService.enforceRetentionPolicy({ dryRun: true, now })).data as RetentionReport;
+    expect(preview.dry_run).toBe(true);
+    expect(preview.removed.observations).toBe(1);
+    expect(preview.removed.expired).toBe(200 - 91 - 1); // before the 90-day cutoff, minus the alert day
+    expect(await dates()).toHaveLength(200);
+
+    const run = (await dataService.enforceRetentionPolicy({ now })).data as RetentionReport;
+    expect(run.removed).toEqual(preview.removed);
+
+    const last = await dataService.getSetting('last_retention_run');
+    expect(JSON.parse(last.data!.value).removed.total).toBe(run.removed.total);
+  });
+
+  test('should keep daily points, weekly minima and alert days', async () => {
+    const kept = await dates();
+
+    // Last 30 days untouched
+    for (let i = 0; i < 30; i++) expect(kept).toContain(dateOnly(i));
+
+    // One point per week between 30 and 90 days
+    const weekly = (await db.executeQuery(
+      `SELECT strftime('%Y-%W', collection_date) AS week, COUNT(*) AS n
+       FROM price_history WHERE floor_plan_id = ? AND collection_date < ? AND collection_date >= ?
+       GROUP BY week`,
+      [fpId, dateOnly(30), dateOnly(90)]
+    )).data as any[];
+    expect(weekly.every(w => w.n === 1)).toBe(true);
+
+    // Older than that, only the alert day survives
+    expect(kept.filter(d => d < dateOnly(90))).toEqual([dateOnly(150)]);
+
+    // Nothing left to do
+    const again = (await dataService.enforceRetentionPolicy({ dryRun: true, now })).data as RetentionReport;
+    expect(again.removed.total).toBe(0);
+  });
+
+  test('should apply preview overrides without saving them', async () => {
+    const preview = (await dataService.enforceRetentionPolicy({ dryRun: true, now, policy: { keep_alert_days: false } })).data as RetentionReport;
+    expect(preview.removed.expired).toBe(1);
+
+    const policy = (await dataService.getRetentionPolicy()).data as RetentionPolicy;
+    expect(policy.keep_alert_days).toBe(true);
+  });
+
+  test('should run alongside a scrape without aborting its transaction', async () => {
+    const plans = Array.from({ length: 30 }, (_, i) => ({
+      name: `Plan S${i + 1}`,
+      bedrooms: 1,
+      bathrooms: 1,
+      hasDen: false,
+      squareFootage: 600,
+      buildingPosition: '',
+      price: 2000 + i,
+      isAvailable: true
+    }));
+
+    const [scrape, retention] = await Promise.all([
+      dataService.persistScrapedFloorPlans({ name: 'Boren', url: 'https://example.com/boren' }, plans),
+      dataService.enforceRetentionPolicy({ now, policy: { keep_alert_days: false } })
+    ]);
+    expect(scrape).toMatchObject({ upserted: 30, priced: 30 });
+    expect(retention.success).toBe(true);
+    expect(retention.data!.removed.expired).toBe(1);
+  });
+});
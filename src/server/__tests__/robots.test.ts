@@ -0,0 +1,49 @@
+import { RobotsService, RobotsFetcher } from '../services/RobotsService';
+import { ScraperService } from '../services/ScraperService';
+
+const robotsTxt = 'User-agent: *\nDisallow: /floorplans/archive\nCrawl-delay: 4\n';
+
+describe('robots.txt handling', () => {
+  test('should fetch robots.txt once per host and cache the policy', async () => {
+    const fetcher = jest.fn<ReturnType<RobotsFetcher>, Parameters<RobotsFetcher>>().mockResolvedValue({ status: 200, body: robotsTxt });
+    const robots = new RobotsService(fetcher, 'TrackerBot/1.0');
+
+    const [a, b] = await Promise.all([
+      robots.check('https://onnislu.com/floorplans/fairview'),
+      robots.check('https://onnislu.com/floorplans/archive/old')
+    ]);
+    expect(a.allowed).toBe(true);
+    expect(b).toMatchObject({ allowed: false, rule: { type: 'disallow', path: '/floorplans/archive' } });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher).toHaveBeenCalledWith('https://onnislu.com/robots.txt');
+
+    expect(robots.getCrawlDelayMs('https://onnislu.com/anything')).toBe(4000);
+    expect(robots.getCrawlDelayMs('https://example.com/')).toBeNull();
+    expect(robots.getPolicies()).toEqual([expect.objectContaining({ origin: 'https://onnislu.com', state: 'ok', httpStatus: 200 })]);
+  });
+
+  test('should allow everything for a missing robots.txt and nothing for an unreachable one', async () => {
+    const missing = new RobotsService(async () => ({ status: 404, body: '' }), 'TrackerBot/1.0');
+    expect((await missing.check('https://onnislu.com/floorplans')).allowed).toBe(true);
+
+    const down = new RobotsService(async () => ({ status: 503, body: '' }), 'TrackerBot/1.0');
+    const check = await down.check('https://onnislu.com/floorplans');
+    expect(check.allowed).toBe(false);
+    expect(check.host.state).toBe('unreachable');
+
+    const offline = new RobotsService(async () => { throw new Error('getaddrinfo ENOTFOUND'); }, 'TrackerBot/1.0');
+    expect((await offline.check('https://onnislu.com/floorplans')).host).toMatchObject({ state: 'unreachable', httpStatus: null });
+  });
+
+  test('should report disallowed building pages in ScrapingResult.errors without opening a browser', async () => {
+    const robots = new RobotsService(async () => ({ status: 200, body: robotsTxt }), 'TrackerBot/1.0');
+    const scraper = new ScraperService({ mode: 'off' }, robots);
+
+    const result = await scraper.scrapeBuilding({ id: 1, name: 'Fairview', url: 'https://onnislu.com/floorplans/archive/fairview' });
+    expect(result.success).toBe(false);
+    expect(result.floorPlans).toEqual([]);
+    expect(result.errors).toEqual([
+      'Blocked by robots.txt: https://onnislu.com/floorplans/archive/fairview (https://onnislu.com/robots.txt has "Disallow: /floorplans/archive" for user-agent "*")'
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { HTTPRequest, HTTPResponse } from 'puppeteer';
+import { ScrapeFixtureStore } from '../services/ScrapeFixtureStore';
+
+// Just enough of Puppeteer's request/response to drive the store without a browser
+const fakeRequest = (url: string, opts: { method?: string; postData?: string; resourceType?: string } = {}) => ({
+  url: () => url,
+  method: () => opts.method || 'GET',
+  postData: () => opts.postData,
+  resourceType: () => opts.resourceType || 'document',
+  respond: jest.fn().mockResolvedValue(undefined),
+  abort: jest.fn().mockResolvedValue(undefined)
+});
+
+const fakeResponse = (request: ReturnType<typeof fakeRequest>, status: number, headers: Record<string, string>, body?: string) => ({
+  request: () => request as unknown as HTTPRequest,
+  url: () => request.url(),
+  status: () => status,
+  headers: () => headers,
+  buffer: jest.fn().mockResolvedValue(Buffer.from(body || ''))
+}) as unknown as HTTPResponse;
+
+describe('Scrape fixtures', () => {
+  let dir: string;
+  let store: ScrapeFixtureStore;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'onnislu-fixtures-'));
+    store = new ScrapeFixtureStore(dir);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should key requests by method, URL and body, ignoring the fragment', () => {
+    const url = 'https://onnislu.com/floorplans/fairview';
+    expect(store.keyFor('GET', `${url}#plans`)).toBe(store.keyFor('get', url));
+    expect(store.keyFor('GET', url)).toMatch(/^onnislu-com-floorplans-fairview-[0-9a-f]{12}$/);
+    expect(store.keyFor('POST', url, 'wing=D')).not.toBe(store.keyFor('POST', url, 'wing=E'));
+  });
+
+  test('should record pages and XHR responses with their bodies in readable files', async () => {
+    const page = fakeRequest('https://onnislu.com/floorplans/fairview');
+    const saved = await store.record(fakeResponse(page, 200, {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Content-Encoding': 'gzip',
+      'Content-Length': '512'
+    }, '<div class="floorplan"><h3>Plan A1</h3></div>'));
+
+    expect(saved!.bodyFile).toMatch(/\.html$/);
+    expect(saved!.headers).toEqual({ 'content-type': 'text/html; charset=utf-8' });
+    expect(fs.readFileSync(path.join(dir, saved!.bodyFile!), 'utf8')).toContain('Plan A1');
+
+    const xhr = fakeRequest('https://onnislu.com/api/units', { method: 'POST', postData: '{"wing":"D"}', resourceType: 'xhr' });
+    const savedXhr = await store.record(fakeResponse(xhr, 200, { 'content-type': 'application/json' }, '{"units":[]}'));
+    expect(savedXhr!.bodyFile).toMatch(/\.json$/);
+    // JSON bodies must not collide with the metadata file
+    expect((await store.load('POST', 'https://onnislu.com/api/units', '{"wing":"D"}'))!.body.toString()).toBe('{"units":[]}');
+
+    const image = fakeRequest('https://onnislu.com/plan.png', { resourceType: 'image' });
+    expect(await store.record(fakeResponse(image, 200, { 'content-type': 'image/png' }, 'png'))).toBeNull();
+  });
+
+  test('should keep API tokens out of the recorded metadata', async () => {
+    const url = 'https://api.rentcafe.com/rentcafeapi.aspx?requestType=floorplan&apiToken=s3cret&propertyCode=p1';
+    const xhr = fakeRequest(url, { method: 'POST', postData: 'token=s3cret&wing=D', resourceType: 'xhr' });
+    const saved = await store.record(fakeResponse(xhr, 200, { 'content-type': 'application/json' }, '[]'));
+
+    expect(saved!.url).toBe('https://api.rentcafe.com/rentcafeapi.aspx?requestType=floorplan&apiToken=***&propertyCode=p1');
+    expect(saved!.postData).toBe('token=***&wing=D');
+    const files = fs.readdirSync(dir).filter(f => f.endsWith('.meta.json'));
+    expect(files.some(f => fs.readFileSync(path.join(dir, f), 'utf8').includes('s3cret'))).toBe(false);
+    // Keyed like the recorded metadata, and still found by the request as sent
+    expect(saved!.bodyFile).toBe(`${store.keyFor('POST', saved!.url, saved!.postData)}.json`);
+    expect(await store.load('POST', url, 'token=s3cret&wing=D')).not.toBeNull();
+  });
+
+  test('should record redirects without a body', async () => {
+    const req = fakeRequest('https://onnislu.com/floorplans');
+    const res = fakeResponse(req, 301, { location: 'https://onnislu.com/floorplans/fairview' });
+    const saved = await store.record(res);
+    expect(saved!.bodyFile).toBeNull();
+    expect(res.buffer).not.toHaveBeenCalled();
+  });
+
+  test('should replay recorded responses and block everything else', async () => {
+    const page = fakeRequest('https://onnislu.com/floorplans/fairview#top');
+    expect(await store.replay(page as unknown as HTTPRequest)).toBe(true);
+    expect(page.respond).toHaveBeenCalledWith(expect.objectContaining({ status: 200, contentType: 'text/html; charset=utf-8' }));
+    expect(String(page.respond.mock.calls[0][0].body)).toContain('Plan A1');
+
+    const xhr = fakeRequest('https://onnislu.com/api/units', { method: 'POST', postData: '{"wing":"E"}', resourceType: 'xhr' });
+    expect(await store.replay(xhr as unknown as HTTPRequest)).toBe(false);
+    expect(xhr.abort).toHaveBeenCalledWith('internetdisconnected');
+    expect(xhr.respond).not.toHaveBeenCalled();
+  });
+});
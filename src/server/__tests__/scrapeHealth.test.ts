@@ -0,0 +1,106 @@
+import * as connection from '../database/connection';
+import { DatabaseConnection } from '../database/connection';
+import { DataService } from '../services/DataService';
+import { measureScrape, averageBaseline, findDrift } from '../utils/scrapeHealth';
+
+const plan = (price: number, squareFootage: number) => ({ price, squareFootage });
+const healthyRun = () => Array.from({ length: 10 }, (_, i) => plan(2000 + i * 10, 600 + i * 10));
+const config = { baselineRuns: 3, maxPlanDropPct: 25, maxShareDropPct: 20 };
+
+describe('Scrape drift detection', () => {
+  test('should measure plan count and the share of plans with a price and square footage', () => {
+    expect(measureScrape([plan(2000, 700), plan(0, 700), plan(2100, 0), plan(2200, 650)])).toEqual({
+      plan_count: 4,
+      priced_share: 0.75,
+      sqft_share: 0.75
+    });
+    expect(measureScrape([])).toEqual({ plan_count: 0, priced_share: 0, sqft_share: 0 });
+  });
+
+  test('should flag runs that fall past a threshold from the baseline', () => {
+    const baseline = averageBaseline([
+      { plan_count: 10, priced_share: 1, sqft_share: 1 },
+      { plan_count: 12, priced_share: 0.9, sqft_share: 1 }
+    ]);
+    expect(baseline).toEqual({ plan_count: 11, priced_share: 0.95, sqft_share: 1 });
+
+    expect(findDrift({ plan_count: 9, priced_share: 0.9, sqft_share: 0.95 }, baseline, config)).toEqual([]);
+    expect(findDrift({ plan_count: 6, priced_share: 0.5, sqft_share: 1 }, baseline, config)).toEqual([
+      'Found 6 floor plans, down from about 11',
+      '50% of plans had a price, down from 95%'
+    ]);
+    expect(findDrift({ plan_count: 0, priced_share: 0, sqft_share: 0 }, baseline, config)).toEqual([
+      'Found 0 floor plans, down from about 11'
+    ]);
+    // Nothing to compare the first run with
+    expect(findDrift({ plan_count: 0, priced_share: 0, sqft_share: 0 }, null, config)).toEqual([]);
+  });
+
+  describe('DataService.recordScrapeHealth', () => {
+    let db: DatabaseConnection;
+    let dataService: DataService;
+
+    beforeAll(async () => {
+      db = new DatabaseConnection(':memory:');
+      jest.spyOn(connection, 'getDatabaseConnection').mockReturnValue(db);
+      dataService = new DataService(db);
+      await dataService.init();
+    });
+
+    afterAll(async () => {
+      jest.restoreAllMocks();
+      await db.close();
+    });
+
+    const scrapeHealthAlerts = async () =>
+      ((await dataService.getActiveAlerts()).data || []).filter(a => a.alert_type === 'scrape_health');
+
+    test('should record healthy runs and build the baseline from them', async () => {
+      const first = await dataService.recordScrapeHealth('Fairview', healthyRun(), config);
+      expect(first.data).toMatchObject({ building_name: 'Fairview', plan_count: 10, baseline_plan_count: null, flagged: false, reasons: [] });
+
+      const second = await dataService.recordScrapeHealth('Fairview', healthyRun(), config);
+      expect(second.data).toMatchObject({ baseline_plan_count: 10, baseline_priced_share: 1, flagged: false });
+      expect(await scrapeHealthAlerts()).toEqual([]);
+    });
+
+    test('should flag a drifted run and raise one scrape_health alert per building', async () => {
+      // Markup change: half the cards lost their price
+      const drifted = healthyRun().map((p, i) => (i % 2 ? { ...p, price: 0 } : p));
+      const flagged = await dataService.recordScrapeHealth('Fairview', drifted, config);
+      expect(flagged.data).toMatchObject({ flagged: true, reasons: ['50% of plans had a price, down from 100%'] });
+
+      // The flagged run is averaged into the next run's baseline
+      const empty = await dataService.recordScrapeHealth('Fairview', [], config);
+      expect(empty.data!.baseline_priced_share).toBeCloseTo(2.5 / 3);
+      const alerts = await scrapeHealthAlerts();
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toMatchObject({
+        floor_plan_id: null,
+        floor_plan_name: null,
+        building_name: 'Fairview',
+        new_price: null,
+        message: '50% of plans had a price, down from 100%'
+      });
+
+      const checks = await dataService.getScrapeHealthChecks({ flaggedOnly: true });
+      expect(checks.data!.map(c => c.plan_count)).toEqual([0, 10]);
+    });
+
+    test('should raise a new alert once the open one is dismissed', async () => {
+      const [open] = await scrapeHealthAlerts();
+      await dataService.dismissAlert(open.id);
+
+      await dataService.recordScrapeHealth('Fairview', [], config);
+      const alerts = await scrapeHealthAlerts();
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0].id).not.toBe(open.id);
+      expect(alerts[0].message).toMatch(/^Found 0 floor plans/);
+    });
+
+    test('should fail for an unknown building', async () => {
+      const res = await dataService.recordScrapeHealth('Nowhere', healthyRun(), config);
+      expect(res.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import * as connection from '../database/connection';
+import { DatabaseConnection } from '../database/connection';
+import { DataService } from '../services/DataService';
+import { ScrapeJobRunner, ScrapeJobProgress } from '../services/ScrapeJobRunner';
+import type { ScrapingResult } from '../services/ScraperService';
+import type { ScrapedFloorPlan } from '../services/sources/SourceAdapter';
+import type { PropertyScrapeTarget } from '../config/scraper';
+
+describe('Scrape job runner', () => {
+  let db: DatabaseConnection;
+  let dataService: DataService;
+
+  beforeAll(async () => {
+    db = new DatabaseConnection(':memory:');
+    jest.spyOn(connection, 'getDatabaseConnection').mockReturnValue(db);
+    dataService = new DataService(db);
+    await dataService.init();
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  const target = (buildings: string[], wings: string[] = []): PropertyScrapeTarget => ({
+    propertyId: 1,
+    propertyName: 'ONNI South Lake Union',
+    slug: 'onni-south-lake-union',
+    secureCafeUrl: null,
+    wings,
+    selectors: null,
+    buildings: buildings.map(name => ({ name, url: `https://example.com/${name.toLowerCase()}`, source: 'onnislu' as const }))
+  });
+
+  const plan = (name: string, price: number): ScrapedFloorPlan => ({
+    name,
+    bedrooms: 1,
+    bathrooms: 1,
+    hasDen: false,
+    squareFootage: 650,
+    buildingPosition: '',
+    price,
+    isAvailable: true
+  });
+
+  const scraped = (floorPlans: ScrapedFloorPlan[]): ScrapingResult => ({
+    success: true,
+    floorPlans,
+    errors: [],
+    timestamp: new Date(),
+    retries: 0
+  });
+
+  // A scraper whose scrapeBuilding waits for release() before answering
+  const gatedScraper = (floorPlans: ScrapedFloorPlan[]) => {
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    const scrapeBuilding = jest.fn(async () => {
+      await gate;
+      return scraped(floorPlans);
+    });
+    return { scraper: { scrapeBuilding, scrapeAvailability: jest.fn(async () => null) }, release };
+  };
+
+  const until = async (condition: () => boolean) => {
+    for (let i = 0; i < 200 && !condition(); i++) await new Promise(resolve => setTimeout(resolve, 5));
+    expect(condition()).toBe(true);
+  };
+
+  test('should run every trigger through one pipeline: price 0 is unavailable and wings are filtered', async () => {
+    jest.spyOn(dataService, 'getScrapeTargets').mockResolvedValue([target(['Fairview'], ['D'])]);
+    const persist = jest.spyOn(dataService, 'persistScrapedFloorPlans');
+    const scraper = {
+      scrapeBuilding: jest.fn(async () => scraped([plan('D1', 2100), plan('D2', 0), plan('E1', 1900)])),
+      scrapeAvailability: jest.fn(async () => null)
+    };
+    const runner = new ScrapeJobRunner(scraper as any, dataService);
+    const progress: ScrapeJobProgress[] = [];
+    runner.on('progress', p => progress.push(p));
+
+    const result = await runner.run('scheduler');
+    expect(result.job).toMatchObject({ trigger_type: 'scheduler', status: 'succeeded', buildings_total: 1, buildings_done: 1 });
+    expect(progress).toEqual([
+      expect.objectContaining({ jobId: result.job.id, buildingsDone: 1, buildingsTotal: 1, building: expect.objectContaining({ name: 'Fairview', scraped: 3, filtered: 2 }) })
+    ]);
+
+    const [, plans, , source] = persist.mock.calls[0];
+    expect(plans.map(p => [p.name, p.isAvailable])).toEqual([['D1', true], ['D2', false]]);
+    expect(source).toBe('scheduler');
+    expect(scraper.scrapeAvailability).toHaveBeenCalledWith(expect.anything(), ['D']);
+
+    const run = (await dataService.getScrapeRun(result.runId!)).data!;
+    expect(run).toMatchObject({ trigger_type: 'scheduler', status: 'succeeded', plans_scraped: 3, plans_filtered: 2, plans_upserted: 2 });
+  });
+
+  test('should run one job at a time and let triggers share the queued job', async () => {
+    jest.spyOn(dataService, 'getScrapeTargets').mockResolvedValue([target(['Fairview'])]);
+    const { scraper, release } = gatedScraper([plan('D1', 2100)]);
+    const runner = new ScrapeJobRunner(scraper as any, dataService);
+
+    const first = (await runner.enqueue('manual', 'admin')).data!;
+    await until(() => scraper.scrapeBuilding.mock.calls.length === 1);
+    expect(runner.getActiveJobId()).toBe(first.id);
+    expect((await dataService.getScrapeJob(first.id)).data).toMatchObject({ status: 'running', current_building: 'Fairview' });
+
+    const second = (await runner.enqueue('scheduler')).data!;
+    const third = (await runner.enqueue('manual', 'admin')).data!;
+    expect(second.status).toBe('queued');
+    expect(third.id).toBe(second.id);
+
+    release();
+    await runner.idle();
+    const jobs = [(await dataService.getScrapeJob(first.id)).data!, (await dataService.getScrapeJob(second.id)).data!];
+    expect(jobs.map(j => j.status)).toEqual(['succeeded', 'succeeded']);
+    expect(jobs[1].started_at! >= jobs[0].finished_at!).toBe(true);
+    expect(scraper.scrapeBuilding).toHaveBeenCalledTimes(2);
+  });
+
+  test('should not fail a job because another write overlapped its transactions', async () => {
+    jest.spyOn(dataService, 'getScrapeTargets').mockResolvedValue([target(['Denny'])]);
+    const persist = jest.spyOn(dataService, 'persistScrapedFloorPlans');
+    persist.mockClear();
+    const { scraper, release } = gatedScraper(Array.from({ length: 30 }, (_, i) => plan(`F${i + 1}`, 2000 + i)));
+    const runner = new ScrapeJobRunner(scraper as any, dataService);
+
+    const job = runner.run('manual', 'admin');
+    await until(() => scraper.scrapeBuilding.mock.calls.length === 1);
+    release();
+    await until(() => persist.mock.calls.length === 1);
+    const [setting, failed] = await Promise.all([
+      dataService.updateSetting('overlap_check', '1', { actor: 'admin', source: 'scrapeJobs.test' }),
+      db.executeTransaction(async () => { throw new Error('another request failed'); })
+    ]);
+    const result = await job;
+
+    expect(setting.success).toBe(true);
+    expect(failed).toEqual({ success: false, error: 'another request failed' });
+    expect(result.job.status).toBe('succeeded');
+    expect(result.buildings[0].persisted).toMatchObject({ upserted: 30, priced: 30 });
+  });
+
+  test('should cancel a queued job and stop a running one after its current building', async () => {
+    jest.spyOn(dataService, 'getScrapeTargets').mockResolvedValue([target(['Fairview', 'Boren'])]);
+    const { scraper, release } = gatedScraper([plan('D1', 2100)]);
+    const runner = new ScrapeJobRunner(scraper as any, dataService);
+
+    const running = (await runner.enqueue('manual')).data!;
+    await until(() => scraper.scrapeBuilding.mock.calls.length === 1);
+    const queued = (await runner.enqueue('manual')).data!;
+
+    expect((await runner.cancel(queued.id, 'tester')).data).toMatchObject({ status: 'cancelled', cancel_requested: true, cancelled_by: 'tester' });
+    expect((await runner.cancel(running.id, 'tester')).data).toMatchObject({ status: 'running', cancel_requested: true });
+
+    release();
+    await runner.idle();
+    const job = (await dataService.getScrapeJob(running.id)).data!;
+    expect(job).toMatchObject({ status: 'cancelled', buildings_total: 2, buildings_done: 1, current_building: null });
+    expect(scraper.scrapeBuilding).toHaveBeenCalledTimes(1);
+    const run = (await dataService.getScrapeRun(job.run_id!)).data!;
+    expect(run.buildings.map(b => b.building_name)).toEqual(['Fairview']);
+    expect(run.errors).toEqual(['Cancelled by tester']);
+
+    // A job that finished without being cancelled stays as it was
+    const earlier = (await dataService.getScrapeJobs({ status: 'succeeded', limit: 1 })).data![0];
+    expect((await runner.cancel(earlier.id, 'tester')).data).toMatchObject({ status: 'succeeded', cancel_requested: false });
+    expect((await runner.cancel(99999, 'tester')).data).toBeNull();
+  });
+
+  test('should fail jobs a restart left running and run the ones still queued', async () => {
+    jest.spyOn(dataService, 'getScrapeTargets').mockResolvedValue([target(['Fairview'])]);
+    const interrupted = (await dataService.createScrapeJob('scheduler')).data!;
+    const runId = (await dataService.startScrapeRun('scheduler')).data!;
+    await dataService.updateScrapeJob(interrupted.id, { status: 'running', run_id: runId, started_at: new Date().toISOString() });
+    const waiting = (await dataService.createScrapeJob('manual')).data!;
+
+    const scraper = { scrapeBuilding: jest.fn(async () => scraped([plan('D1', 2100)])), scrapeAvailability: jest.fn(async () => null) };
+    const runner = new ScrapeJobRunner(scraper as any, dataService);
+    expect((await runner.isBusy()).data).toBe(true);
+    await runner.resume();
+    await runner.idle();
+    expect((await runner.isBusy()).data).toBe(false);
+
+    expect((await dataService.getScrapeJob(interrupted.id)).data).toMatchObject({ status: 'failed', error: 'Interrupted by a restart' });
+    expect((await dataService.getScrapeRun(runId)).data).toMatchObject({ status: 'partial', errors: ['Interrupted by a restart'] });
+    expect((await dataService.getScrapeJob(waiting.id)).data!.status).toBe('succeeded');
+  });
+
+  test('should fail jobs a restored database still shows as running', async () => {
+    const stale = (await dataService.createScrapeJob('manual')).data!;
+    await dataService.updateScrapeJob(stale.id, { status: 'running', started_at: new Date().toISOString() });
+    const runner = new ScrapeJobRunner({ scrapeBuilding: jest.fn(), scrapeAvailability: jest.fn() } as any, dataService);
+
+    await runner.failInterrupted('Interrupted by a database restore');
+    expect((await dataService.getScrapeJob(stale.id)).data).toMatchObject({ status: 'failed', error: 'Interrupted by a database restore' });
+  });
+});
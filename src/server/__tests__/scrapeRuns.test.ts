@@ -0,0 +1,110 @@
+import * as connection from '../database/connection';
+import { DatabaseConnection } from '../database/connection';
+import { DataService } from '../services/DataService';
+
+describe('Scrape run history', () => {
+  let db: DatabaseConnection;
+  let dataService: DataService;
+
+  beforeAll(async () => {
+    db = new DatabaseConnection(':memory:');
+    jest.spyOn(connection, 'getDatabaseConnection').mockReturnValue(db);
+    dataService = new DataService(db);
+    await dataService.init();
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  const building = (name: string, overrides: Record<string, unknown> = {}) => ({
+    building_name: name,
+    property_name: 'ONNI South Lake Union',
+    source: 'onnislu',
+    url: `https://example.com/${name.toLowerCase()}`,
+    success: true,
+    started_at: '2025-10-20T14:00:05.000Z',
+    finished_at: '2025-10-20T14:01:00.000Z',
+    plans_scraped: 12,
+    plans_filtered: 8,
+    plans_upserted: 8,
+    plans_priced: 7,
+    ...overrides
+  });
+
+  test('should sum a finished run from its buildings and keep per-building diagnostics', async () => {
+    const run = await dataService.startScrapeRun('manual', new Date('2025-10-20T14:00:00Z'));
+    expect(run.success).toBe(true);
+    const runId = run.data!;
+
+    expect((await dataService.getScrapeRun(runId)).data).toMatchObject({ status: 'running', finished_at: null, buildings: [] });
+
+    await dataService.recordScrapeRunBuilding(runId, building('Fairview', {
+      retry_count: 1,
+      drift_flagged: true,
+      errors: ['Attempt 1 failed for Fairview: Navigation timeout']
+    }));
+    await dataService.recordScrapeRunBuilding(runId, building('Boren', {
+      success: false,
+      plans_scraped: 0,
+      plans_filtered: 0,
+      plans_upserted: 0,
+      plans_priced: 0,
+      retry_count: 2,
+      errors: ['Attempt 1 failed for Boren: 503', 'Attempt 2 failed for Boren: 503', 'Attempt 3 failed for Boren: 503']
+    }));
+
+    const finished = await dataService.finishScrapeRun(
+      runId,
+      { property_count: 1, errors: ['Availability refresh failed for ONNI South Lake Union: timeout'] },
+      new Date('2025-10-20T14:02:00Z')
+    );
+    expect(finished.data).toMatchObject({
+      trigger_type: 'manual',
+      status: 'partial',
+      started_at: '2025-10-20T14:00:00.000Z',
+      finished_at: '2025-10-20T14:02:00.000Z',
+      property_count: 1,
+      building_count: 2,
+      plans_scraped: 12,
+      plans_filtered: 8,
+      plans_upserted: 8,
+      plans_priced: 7,
+      retry_count: 3,
+      error_count: 5,
+      errors: ['Availability refresh failed for ONNI South Lake Union: timeout']
+    });
+
+    const [fairview, boren] = finished.data!.buildings;
+    // Linked to the seeded building by name
+    expect(fairview).toMatchObject({ building_name: 'Fairview', building_id: expect.any(Number), success: true, drift_flagged: true, retry_count: 1 });
+    expect(boren).toMatchObject({ building_name: 'Boren', success: false, drift_flagged: false, errors: expect.arrayContaining(['Attempt 3 failed for Boren: 503']) });
+  });
+
+  test('should mark a run failed when no building succeeded and succeeded when all did', async () => {
+    const failed = (await dataService.startScrapeRun('scheduler', new Date('2025-10-21T14:00:00Z'))).data!;
+    await dataService.recordScrapeRunBuilding(failed, building('Fairview', { success: false }));
+    expect((await dataService.finishScrapeRun(failed, { property_count: 1 })).data!.status).toBe('failed');
+
+    const ok = (await dataService.startScrapeRun('scheduler', new Date('2025-10-22T02:00:00Z'))).data!;
+    await dataService.recordScrapeRunBuilding(ok, building('Fairview'));
+    expect((await dataService.finishScrapeRun(ok, { property_count: 1 })).data!.status).toBe('succeeded');
+  });
+
+  test('should page runs newest first with the total and filter by trigger', async () => {
+    const page1 = await dataService.getScrapeRuns({ limit: 2 });
+    expect(page1.data!.total).toBe(3);
+    expect(page1.data!.runs.map(r => r.started_at)).toEqual(['2025-10-22T02:00:00.000Z', '2025-10-21T14:00:00.000Z']);
+
+    const page2 = await dataService.getScrapeRuns({ limit: 2, offset: 2 });
+    expect(page2.data!.runs.map(r => r.trigger_type)).toEqual(['manual']);
+
+    const scheduled = await dataService.getScrapeRuns({ trigger_type: 'scheduler', status: 'failed' });
+    expect(scheduled.data!.total).toBe(1);
+  });
+
+  test('should return null for an unknown run', async () => {
+    expect((await dataService.getScrapeRun(9999)).data).toBeNull();
+  });
+});
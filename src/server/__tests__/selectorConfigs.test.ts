@@ -0,0 +1,88 @@
+import * as connection from '../database/connection';
+import { DatabaseConnection } from '../database/connection';
+import { DataService } from '../services/DataService';
+import { getBuildingSelectors } from '../config/scraper';
+import { findInvalidSelectors, previewFloorPlans } from '../utils/selectorPreview';
+
+const audit = { actor: 'admin@test', source: 'test' };
+
+// A floor plan page whose cards no longer match the seeded selectors
+const PAGE = `
+  <div class="plans">
+    <div class="plan-card"><h3 class="title">Plan A1</h3><span>Studio · 1 Bath · 480 sq ft</span><span class="rent-now">$1,850</span> Available</div>
+    <div class="plan-card"><h3 class="title">Plan B2</h3><span>1 Bed · 1 Bath · 690 sq ft</span><span class="rent-now">$2,240</span> Available</div>
+  </div>
+`;
+
+describe('Selector configs', () => {
+  let db: DatabaseConnection;
+  let dataService: DataService;
+  let fairviewId: number;
+
+  beforeAll(async () => {
+    db = new DatabaseConnection(':memory:');
+    jest.spyOn(connection, 'getDatabaseConnection').mockReturnValue(db);
+    dataService = new DataService(db);
+    await dataService.init();
+    fairviewId = (await db.executeQuerySingle<{ id: number }>("SELECT id FROM buildings WHERE name = 'Fairview'")).data!.id;
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  test('should seed the former built-in overrides as version 1 and apply them to scrape targets', async () => {
+    const settings = (await dataService.getBuildingSelectorSettings(fairviewId)).data!;
+    expect(settings.building_name).toBe('Fairview');
+    expect(settings.versions).toHaveLength(1);
+    expect(settings.versions[0]).toMatchObject({ version: 1, created_by: 'migration' });
+    expect(settings.versions[0].selectors.price).toEqual(['.price', '.rent', '.amount', '[data-testid*="price"]']);
+    expect(settings.snapshot).toBeNull();
+
+    const fairview = (await dataService.getScrapeTargets())
+      .flatMap(t => t.buildings)
+      .find(b => b.name === 'Fairview')!;
+    expect(fairview.selectors).toEqual(settings.versions[0].selectors);
+  });
+
+  test('should save new versions, restore old ones as a copy, and scrape with the newest', async () => {
+    const saved = await dataService.saveSelectorConfig(fairviewId, { selectors: { item: ['.plan-card'], price: ['.rent-now'] }, note: 'New card markup' }, audit);
+    expect(saved.data).toMatchObject({ version: 2, note: 'New card markup', created_by: 'admin@test' });
+
+    const restored = await dataService.restoreSelectorConfig(fairviewId, 1, audit);
+    expect(restored.data).toMatchObject({ version: 3, note: 'Restored version 1' });
+    expect(restored.data!.selectors.price).toEqual(['.price', '.rent', '.amount', '[data-testid*="price"]']);
+    expect((await dataService.restoreSelectorConfig(fairviewId, 99, audit)).data).toBeNull();
+
+    const versions = (await dataService.getBuildingSelectorSettings(fairviewId)).data!.versions;
+    expect(versions.map(v => v.version)).toEqual([3, 2, 1]);
+
+    const fairview = (await dataService.getScrapeTargets()).flatMap(t => t.buildings).find(b => b.name === 'Fairview')!;
+    expect(fairview.selectors).toEqual(versions[0].selectors);
+  });
+
+  test('should keep one page snapshot per building and preview selectors against it', async () => {
+    await dataService.savePageSnapshot('Fairview', 'https://onnislu.com/floorplans/fairview', '<html>old</html>', new Date('2025-10-01T00:00:00Z'));
+    await dataService.savePageSnapshot('Fairview', 'https://onnislu.com/floorplans/fairview', PAGE, new Date('2025-10-20T00:00:00Z'));
+    expect((await dataService.savePageSnapshot('Nowhere', 'https://example.com', PAGE)).success).toBe(false);
+
+    const settings = (await dataService.getBuildingSelectorSettings(fairviewId)).data!;
+    expect(settings.snapshot).toMatchObject({ captured_at: '2025-10-20T00:00:00.000Z', size: PAGE.length });
+
+    const snapshot = (await dataService.getPageSnapshot(fairviewId)).data!;
+    const stale = previewFloorPlans(snapshot.html, getBuildingSelectors(null, settings.versions[0].selectors), snapshot.url);
+    expect(stale).toEqual([]);
+
+    const fixed = previewFloorPlans(snapshot.html, getBuildingSelectors(null, { item: ['.plan-card'], price: ['.rent-now'] }), snapshot.url);
+    expect(fixed.map(p => [p.name, p.price, p.squareFootage])).toEqual([['Plan A1', 1850, 480], ['Plan B2', 2240, 690]]);
+  });
+
+  test('should report selectors that are not valid CSS, ignoring keyword groups', () => {
+    expect(findInvalidSelectors({
+      item: ['.plan-card', '##card'],
+      price: ['>>'],
+      availabilityInclude: ['available now']
+    })).toEqual(['item: ##card', 'price: >>']);
+  });
+});
@@ -0,0 +1,131 @@
+import path from 'path';
+import type { Page } from 'puppeteer';
+import { ScraperService } from '../services/ScraperService';
+import { OnnisluAdapter } from '../services/sources/OnnisluAdapter';
+import type { SourceContext } from '../services/sources/SourceAdapter';
+import type { PropertyScrapeTarget } from '../config/scraper';
+
+// Recorded RentCafe API responses (SCRAPER_FIXTURES=record); replay never touches the network
+const FIXTURES = path.join(__dirname, 'fixtures', 'rentcafe');
+const ENDPOINT = 'https://api.rentcafe.com/rentcafeapi.aspx?requestType=floorplan&apiToken=test-token&propertyCode=p0123456';
+
+describe('Source adapters', () => {
+  const scraper = new ScraperService({ mode: 'replay', dir: FIXTURES });
+
+  test('should scrape a RentCafe building from its JSON endpoint, priced by available units', async () => {
+    const result = await scraper.scrapeBuilding({ id: 0, name: 'Cascade', url: ENDPOINT }, { source: 'rentcafe' });
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.floorPlans).toEqual([
+      expect.objectContaining({ name: 'A1', bedrooms: 0, squareFootage: 452, price: 1899, priceText: '$1,899', isAvailable: true }),
+      expect.objectContaining({ name: 'B2 Den', bedrooms: 1, hasDen: true, price: 2475, isAvailable: true }),
+      expect.objectContaining({ name: 'C3', bedrooms: 2, bathrooms: 2, price: 0, isAvailable: false })
+    ]);
+  });
+
+  test('should read units for the RentCafe buildings of a property without a SecureCafe page', async () => {
+    const target: PropertyScrapeTarget = {
+      propertyId: 2,
+      propertyName: 'Cascade Flats',
+      slug: 'cascade',
+      secureCafeUrl: null,
+      wings: [],
+      selectors: null,
+      buildings: [{ name: 'Cascade', url: ENDPOINT, source: 'rentcafe' }]
+    };
+
+    const availability = await scraper.scrapeAvailability(target);
+    expect(availability!.errors).toEqual([]);
+    expect(availability!.source).toContain('apiToken=***');
+    expect(availability!.availableSoonUnits).toEqual([
+      { planCode: 'A1', building: 'Cascade', unit: 'A-204', rent: '$1,925', moveInDate: '2024-01-15' },
+      { planCode: 'A1', building: 'Cascade', unit: 'A-310', rent: '$1,899', moveInDate: '2099-03-01' }
+    ]);
+    // No date listed, or a date already past, means it can be moved into now
+    expect(availability!.availableNow.map(u => u.name)).toEqual(['A-204', 'B-512']);
+
+    const wingB = await scraper.scrapeAvailability(target, ['B']);
+    expect(wingB!.availableNow.map(u => u.name)).toEqual(['B-512']);
+
+    expect(await scraper.scrapeAvailability({ ...target, buildings: [] })).toBeNull();
+  });
+});
+
+describe('OnnisluAdapter.fetchUnits()', () => {
+  const URL = 'https://example.securecafe.com/onlineleasing/onni-south-lake-union/oleapplication.aspx';
+  const soon = new Date(Date.now() + 7 * 86400000);
+  const soonText = `${soon.getMonth() + 1}/${soon.getDate()}/${soon.getFullYear()}`;
+  const soonIso = `${soon.getFullYear()}-${String(soon.getMonth() + 1).padStart(2, '0')}-${String(soon.getDate()).padStart(2, '0')}`;
+
+  // A page that answers goto by "loading" the given XHR bodies; evaluate serves the DOM reads in order
+  const fakePage = (xhr: Array<{ type?: string; status?: number; contentType?: string; body: string }>, evaluate: jest.Mock) => {
+    const handlers: Array<(res: unknown) => void> = [];
+    return {
+      on: (event: string, handler: (res: unknown) => void) => { if (event === 'response') handlers.push(handler); },
+      goto: async () => {
+        for (const r of xhr) {
+          const res = {
+            request: () => ({ resourceType: () => r.type || 'xhr' }),
+            status: () => r.status || 200,
+            headers: () => ({ 'content-type': r.contentType || 'application/json; charset=utf-8' }),
+            text: async () => r.body
+          };
+          handlers.forEach(h => h(res));
+        }
+      },
+      waitForSelector: async () => null,
+      waitForFunction: async () => null,
+      evaluate
+    } as unknown as Page;
+  };
+
+  const fakeContext = (page: Page): SourceContext => ({
+    createPage: async () => page,
+    closePage: async () => undefined,
+    checkRobots: async () => null,
+    delay: async () => undefined,
+    fetchJson: async () => { throw new Error('not used'); },
+    saveSnapshot: async () => undefined,
+    captureFailure: async () => undefined
+  });
+
+  test('should read units from the captured XHR JSON without parsing the page text', async () => {
+    const evaluate = jest.fn().mockResolvedValue(undefined);
+    const page = fakePage([
+      { body: JSON.stringify({ d: JSON.stringify([
+        { ApartmentName: 'D-1204', FloorplanName: 'D2', BuildingName: 'Fairview', MinimumRent: '2450', AvailableDate: soonText,
+          LeaseTerms: [{ LeaseTerm: 12, Rent: 2450 }, { LeaseTerm: 6, Rent: 2700 }] },
+        { ApartmentName: 'E-0310', FloorplanName: 'E1', BuildingName: 'Boren', MinimumRent: '1990', AvailableDate: soonText }
+      ]) }) },
+      { body: '<html>not json</html>', contentType: 'text/html' },
+      { type: 'script', body: '[]' },
+      { status: 500, body: '{}' }
+    ], evaluate);
+
+    const result = await new OnnisluAdapter(fakeContext(page)).fetchUnits({ url: URL, wings: ['D'], buildingNames: ['Fairview', 'Boren'] });
+    expect(result.errors).toEqual([]);
+    expect(result.method).toBe('xhr');
+    expect(result.availableSoonUnits).toEqual([
+      { planCode: 'D2', building: 'Fairview', unit: '#D-1204', rent: '$2,450', moveInDate: soonIso }
+    ]);
+    expect(result.leaseTermQuotes.map(q => q.leaseTermMonths)).toEqual([6, 12]);
+    // Only the lazy-load scroll ran in the page
+    expect(evaluate).toHaveBeenCalledTimes(1);
+  });
+
+  test('should fall back to the rendered page when no unit JSON is captured', async () => {
+    const evaluate = jest.fn()
+      .mockResolvedValueOnce(undefined) // autoScroll
+      .mockResolvedValueOnce([{ name: 'D101', moveInText: 'now' }, { name: 'E202', moveInText: 'now' }])
+      .mockResolvedValueOnce({
+        rows: [{ header: 'Floor Plan : D1 - Fairview', rowText: '#101 | $2,100 | Nov 3', unit: '#101', rent: '$2,100', date: 'Nov 3' }],
+        termTexts: []
+      });
+    const page = fakePage([{ body: JSON.stringify({ settings: { theme: 'onni' } }) }], evaluate);
+
+    const result = await new OnnisluAdapter(fakeContext(page)).fetchUnits({ url: URL, wings: ['D'], buildingNames: ['Fairview'] });
+    expect(result.method).toBe('dom');
+    expect(result.availableNow).toEqual([{ name: 'D101', moveInDate: undefined }]);
+    expect(result.availableSoonUnits).toEqual([{ planCode: 'D1', building: 'Fairview', unit: '#101', rent: '$2,100', moveInDate: 'Nov 3' }]);
+  });
+});
@@ -0,0 +1,100 @@
+import { DatabaseConnection } from '../database/connection';
+import { DataService } from '../services/DataService';
+import { Unit, UnitObservation } from '../../shared/types/database';
+
+describe('Unit tracking', () => {
+  let db: DatabaseConnection;
+  let dataService: DataService;
+  let fairviewId: number;
+  let planId: number;
+
+  beforeEach(async () => {
+    db = new DatabaseConnection(':memory:');
+    dataService = new DataService(db);
+    await dataService.init();
+
+    const building = await db.executeQuerySingle('SELECT id FROM buildings WHERE name = ?', ['Fairview']);
+    fairviewId = building.data.id;
+    const plan = await dataService.upsertFloorPlan({
+      building_id: fairviewId,
+      name: 'PLAN C1*',
+      bedrooms: 1,
+      bathrooms: 1
+    });
+    planId = plan.id;
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  test('should create units linked to their floor plan', async () => {
+    const stats = await dataService.persistSecureCafeUnits([
+      { planCode: 'C1', building: 'Fairview', unit: '#1204', rent: '$2,450', moveInDate: 'Mar 3' }
+    ], '2025-01-01T07:00:00.000Z');
+
+    expect(stats).toEqual({ upserted: 1, leased: 0 });
+
+    const units = await dataService.getUnits();
+    expect(units.success).toBe(true);
+    const unit = (units.data as Unit[])[0];
+    expect(unit.unit_number).toBe('1204');
+    expect(unit.floor_plan_id).toBe(planId);
+    expect(unit.building_name).toBe('Fairview');
+    expect(Number(unit.current_rent)).toBe(2450);
+    expect(unit.first_seen_at).toBe('2025-01-01T07:00:00.000Z');
+  });
+
+  test('should append observations and keep first_seen_at', async () => {
+    await dataService.persistSecureCafeUnits([
+      { planCode: 'C1', building: 'Fairview', unit: '#1204', rent: '$2,450', moveInDate: 'Mar 3' }
+    ], '2025-01-01T07:00:00.000Z');
+    await dataService.persistSecureCafeUnits([
+      { planCode: 'C1', building: 'Fairview', unit: '#1204', rent: '$2,395', moveInDate: 'Mar 3' }
+    ], '2025-01-01T19:00:00.000Z');
+
+    const units = await dataService.getUnits();
+    const unit = (units.data as Unit[])[0];
+    expect(unit.first_seen_at).toBe('2025-01-01T07:00:00.000Z');
+    expect(unit.last_seen_at).toBe('2025-01-01T19:00:00.000Z');
+
+    const history = await dataService.getUnitHistory(unit.id);
+    const rents = (history.data as UnitObservation[]).map(o => Number(o.rent));
+    expect(rents).toEqual([2395, 2450]);
+  });
+
+  test('should mark units leased when they disappear and revive them when relisted', async () => {
+    await dataService.persistSecureCafeUnits([
+      { planCode: 'C1', building: 'Fairview', unit: '#1204', rent: '$2,450', moveInDate: 'Mar 3' },
+      { planCode: 'C1', building: 'Fairview', unit: '#1304', rent: '$2,500', moveInDate: 'Mar 9' }
+    ], '2025-01-01T07:00:00.000Z');
+
+    const second = await dataService.persistSecureCafeUnits([
+      { planCode: 'C1', building: 'Fairview', unit: '#1304', rent: '$2,500', moveInDate: 'Mar 9' }
+    ], '2025-01-02T07:00:00.000Z');
+    expect(second.leased).toBe(1);
+
+    const leased = await dataService.getUnits({ status: 'leased' });
+    expect((leased.data as Unit[]).map(u => u.unit_number)).toEqual(['1204']);
+    expect((leased.data as Unit[])[0].leased_at).toBe('2025-01-02T07:00:00.000Z');
+
+    await dataService.persistSecureCafeUnits([
+      { planCode: 'C1', building: 'Fairview', unit: '#1204', rent: '$2,300', moveInDate: 'Apr 1' }
+    ], '2025-01-03T07:00:00.000Z');
+    const active = await dataService.getUnits({ status: 'active' });
+    expect((active.data as Unit[]).map(u => u.unit_number)).toEqual(['1204']);
+  });
+
+  test('should ignore an empty refresh and units without a number', async () => {
+    await dataService.persistSecureCafeUnits([
+      { planCode: 'C1', building: 'Fairview', unit: '#1204', rent: '$2,450', moveInDate: 'Mar 3' },
+      { planCode: 'C1', building: 'Fairview', unit: '#—', rent: '$2,450', moveInDate: 'Mar 3' }
+    ], '2025-01-01T07:00:00.000Z');
+
+    const stats = await dataService.persistSecureCafeUnits([], '2025-01-02T07:00:00.000Z');
+    expect(stats).toEqual({ upserted: 0, leased: 0 });
+
+    const units = await dataService.getUnits({ status: 'active' });
+    expect(units.data).toHaveLength(1);
+  });
+});
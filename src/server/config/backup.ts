@@ -0,0 +1,27 @@
+// Database backup configuration (scheduled online backups, rotation, compression)
+// Do not hardcode environment values elsewhere; import from this module.
+
+import { DATABASE } from '../../shared/constants';
+
+export interface BackupConfig {
+  dir: string;            // where backup files are written
+  retentionDays: number;  // backups older than this are deleted after each new backup
+  gzip: boolean;          // compress backups (.db.gz)
+  schedule: string;       // cron expression; empty disables scheduled backups
+}
+
+const env = (k: string, d?: string) =>
+  (process.env[k] && process.env[k]!.trim().length > 0 ? process.env[k]!.trim() : d ?? '');
+
+const envInt = (k: string, d: number) => {
+  const v = parseInt(env(k) || '', 10);
+  return Number.isFinite(v) ? v : d;
+};
+
+export const backupConfig: BackupConfig = {
+  dir: env('BACKUP_DIR', 'data/backups'),
+  retentionDays: envInt('BACKUP_RETENTION_DAYS', DATABASE.BACKUP_RETENTION_DAYS),
+  gzip: env('BACKUP_GZIP', 'false').toLowerCase() === 'true',
+  // 03:30 local, between scrape runs; set but empty disables
+  schedule: (process.env.BACKUP_SCHEDULE ?? '30 3 * * *').trim(),
+};
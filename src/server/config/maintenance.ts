@@ -0,0 +1,21 @@
+// Database maintenance configuration (price history retention job)
+// Do not hardcode environment values elsewhere; import from this module.
+
+import type { RetentionPolicy } from '../../shared/types/database';
+
+export interface MaintenanceConfig {
+  schedule: string; // cron expression; empty disables the scheduled job
+}
+
+export const maintenanceConfig: MaintenanceConfig = {
+  // Off until the operator opts in (e.g. '0 4 * * *', after the nightly backup)
+  schedule: (process.env.MAINTENANCE_SCHEDULE ?? '').trim(),
+};
+
+// Used for any retention_* setting that hasn't been saved yet; removes nothing
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  daily_days: 0,
+  weekly_days: 0,
+  observation_days: 0,
+  keep_alert_days: true,
+};
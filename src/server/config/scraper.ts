@@ -1,6 +1,9 @@
 // Centralized scraper configuration for buildings and runtime
 // Do not hardcode environment values elsewhere; import from this module.
 
+import path from 'path';
+import type { BuildingSource, Property } from '../../shared/types/database';
+
 export interface BuildingConfig {
   name: string;
   url: string;
@@ -40,6 +43,77 @@ export const scraperConfig: ScraperRuntimeConfig = {
   respectRobotsTxt: env('SCRAPER_RESPECT_ROBOTS', 'true').toLowerCase() !== 'false',
 };
 
+// Drift detection: each building scrape is compared with the average of its recent runs, flagged ones included
+export interface ScrapeHealthConfig {
+  baselineRuns: number;    // latest runs averaged into the baseline
+  maxPlanDropPct: number;  // flag when the plan count falls by more than this percentage
+  maxShareDropPct: number; // flag when the priced or square-footage share falls by more than this many points
+}
+
+export const scrapeHealthConfig: ScrapeHealthConfig = {
+  baselineRuns: envInt('SCRAPE_HEALTH_BASELINE_RUNS', 5),
+  maxPlanDropPct: envInt('SCRAPE_HEALTH_MAX_PLAN_DROP_PCT', 25),
+  maxShareDropPct: envInt('SCRAPE_HEALTH_MAX_SHARE_DROP_PCT', 20),
+};
+
+// Offline record/replay of scraped pages (see services/ScrapeFixtureStore)
+export type ScrapeFixtureMode = 'off' | 'record' | 'replay';
+
+export interface ScrapeFixtureConfig {
+  mode: ScrapeFixtureMode; // record saves pages and XHR responses; replay serves them and blocks the network
+  dir: string;             // where fixtures are read and written
+}
+
+const fixtureMode = env('SCRAPER_FIXTURES', 'off').toLowerCase();
+
+export const scrapeFixtureConfig: ScrapeFixtureConfig = {
+  mode: fixtureMode === 'record' || fixtureMode === 'replay' ? fixtureMode : 'off',
+  dir: env('SCRAPER_FIXTURES_DIR', 'data/scrape-fixtures'),
+};
+
+// Failure snapshots: the page's screenshot, HTML and console log for each failed scrape attempt
+// (see services/FailureSnapshotStore)
+export interface FailureSnapshotConfig {
+  dir: string;     // one subdirectory per scrape run
+  maxRuns: number; // run directories kept, newest first; 0 turns snapshots off
+}
+
+export const failureSnapshotConfig: FailureSnapshotConfig = {
+  dir: env('FAILURE_SNAPSHOT_DIR', 'data/failure-snapshots'),
+  maxRuns: Math.max(0, envInt('FAILURE_SNAPSHOT_MAX_RUNS', 20)),
+};
+
+// Plan images: layout images found while scraping (or ingested from a folder), stored once per content
+// hash with a thumbnail and recorded in the plan_images table (see services/PlanImageService)
+export interface PlanImageConfig {
+  dir: string;            // image files are <hash>.<ext>, thumbnails thumbs/<hash>.webp
+  thumbnailWidth: number; // images wider than this get a thumbnail
+  maxBytes: number;       // larger downloads are rejected
+}
+
+export const planImageConfig: PlanImageConfig = {
+  dir: env('PLAN_IMAGE_DIR', 'public/plan-images'),
+  thumbnailWidth: Math.max(16, envInt('PLAN_IMAGE_THUMBNAIL_WIDTH', 480)),
+  maxBytes: Math.max(1, envInt('PLAN_IMAGE_MAX_BYTES', 10 * 1024 * 1024)),
+};
+
+// URL the plan image directory is served under (src/server/index.ts)
+export const PLAN_IMAGE_URL_PREFIX = '/static/plan-images';
+
+// Bedroom, bathroom and den metadata files compared by services/MetadataReconciliationService; all
+// share the floor-plan-metadata.json shape ({ building: { "PLAN A1": { bedrooms, bathrooms, hasDen } } })
+export interface MetadataSourceConfig {
+  jsonFile: string;       // curated file shipped with the server (loadFloorPlanMetadata)
+  userscriptFile: string; // download from tampermonkey-scraper.js
+  scraperFile: string;    // written by scripts/updateFloorPlanMetadata.ts
+}
+
+export const metadataSourceConfig: MetadataSourceConfig = {
+  jsonFile: env('METADATA_JSON_FILE', path.join(__dirname, '../data/floor-plan-metadata.json')),
+  userscriptFile: env('METADATA_USERSCRIPT_FILE', 'data/metadata/userscript.json'),
+  scraperFile: env('METADATA_SCRAPER_FILE', 'data/metadata/scraped.json'),
+};
+
 export const buildings: BuildingConfig[] = [
   {
     name: 'Fairview',
@@ -64,6 +138,11 @@ export const secureCafeUrl = env(
 
 export const getEnabledBuildings = (): BuildingConfig[] => buildings.filter(b => !!b.url);
 
+// Properties and their buildings live in the database (see DataService.getProperties).
+// The env-configured buildings, SecureCafe URL and wings above describe the seeded default
+// property and fill in whatever its database row leaves unset.
+export const DEFAULT_PROPERTY_SLUG = 'onnislu';
+
 // Selector config for building-specific scraping
 export interface BuildingSelectorConfig {
   item: string[];                // selectors to locate each floor plan/item node
@@ -71,6 +150,7 @@ export interface BuildingSelectorConfig {
   price: string[];               // selectors to extract price text
   sqft: string[];                // selectors to extract square footage
   image: string[];               // selectors to extract image src/data-src
+  concession: string[];          // selectors to extract leasing special text
   availabilityInclude: string[]; // keywords indicating availability
   availabilityExclude: string[]; // keywords indicating not available/waitlist
 }
@@ -104,39 +184,80 @@ const defaultSelectors: BuildingSelectorConfig = {
   price: ['[class*="price"]', '[data-testid*="price"]', '.rent', '.amount'],
   sqft: ['[class*="sqft"]', '[data-testid*="sqft"]'],
   image: ['img'],
+  concession: ['[class*="special"]', '[class*="concession"]', '[class*="promo"]', '[data-testid*="special"]'],
   availabilityInclude: ['available', 'apply', 'select'],
   availabilityExclude: ['waitlist', 'unavailable', 'sold out']
 };
 
-// Per-building overrides (can be extended without changing service code)
-const buildingSelectorOverrides: Record<string, Partial<BuildingSelectorConfig>> = {
-  // tightened selectors for onnislu.com floorplan cards
-  fairview: {
-    item: ['.floorplan', '.floor-plan', '.floorplan-card', '.card', 'article', 'li'],
-    name: ['.title', '.name', 'h2', 'h3', '[aria-label]'],
-    price: ['.price', '.rent', '.amount', '[data-testid*="price"]'],
-    sqft: ['.sqft', '.square-feet', '[data-testid*="sqft"]'],
-    image: ['img']
-  },
-  boren: {
-    item: ['.floorplan', '.floor-plan', '.floorplan-card', '.card', 'article', 'li'],
-    name: ['.title', '.name', 'h2', 'h3', '[aria-label]'],
-    price: ['.price', '.rent', '.amount', '[data-testid*="price"]'],
-    sqft: ['.sqft', '.square-feet', '[data-testid*="sqft"]'],
-    image: ['img']
-  }
-};
+// Selector groups a building or property may override
+export const SELECTOR_GROUPS: Array<keyof BuildingSelectorConfig> = [
+  'item',
+  'name',
+  'price',
+  'sqft',
+  'image',
+  'concession',
+  'availabilityInclude',
+  'availabilityExclude'
+];
 
-export const getBuildingSelectors = (buildingName: string): BuildingSelectorConfig => {
-  const key = (buildingName || '').trim().toLowerCase();
-  const o = buildingSelectorOverrides[key] || {};
+// Precedence per selector group: the building's saved selectors (selector_configs, edited from the
+// Admin page), then the property's selectors, then defaults
+export const getBuildingSelectors = (
+  propertySelectors?: Partial<BuildingSelectorConfig> | null,
+  buildingSelectors?: Partial<BuildingSelectorConfig> | null
+): BuildingSelectorConfig => {
+  const o: Partial<BuildingSelectorConfig> = { ...(propertySelectors || {}), ...(buildingSelectors || {}) };
   return {
     item: o.item || defaultSelectors.item,
     name: o.name || defaultSelectors.name,
     price: o.price || defaultSelectors.price,
     sqft: o.sqft || defaultSelectors.sqft,
     image: o.image || defaultSelectors.image,
+    concession: o.concession || defaultSelectors.concession,
     availabilityInclude: o.availabilityInclude || defaultSelectors.availabilityInclude,
     availabilityExclude: o.availabilityExclude || defaultSelectors.availabilityExclude
   };
 };
+
+// Everything needed to scrape one property
+export interface PropertyScrapeTarget {
+  propertyId: number;
+  propertyName: string;
+  slug: string;
+  secureCafeUrl: string | null; // null = property has no SecureCafe page
+  wings: string[];
+  selectors: Partial<BuildingSelectorConfig> | null;
+  buildings: Array<BuildingConfig & {
+    imageCode?: string | null;
+    source: BuildingSource;
+    selectors?: Partial<BuildingSelectorConfig> | null; // the building's current saved selectors
+  }>;
+}
+
+// buildingSelectors: current saved selectors by building id
+export const resolveScrapeTarget = (
+  property: Property,
+  buildingSelectors: Map<number, Partial<BuildingSelectorConfig>> = new Map()
+): PropertyScrapeTarget => {
+  const isDefault = property.slug === DEFAULT_PROPERTY_SLUG;
+  const envUrls = new Map(getEnabledBuildings().map(b => [b.name.toLowerCase(), b.url]));
+  return {
+    propertyId: property.id,
+    propertyName: property.name,
+    slug: property.slug,
+    secureCafeUrl: property.securecafe_url || (isDefault ? secureCafeUrl : null),
+    wings: property.wings.length ? property.wings : (isDefault ? scraperConfig.defaultWings : []),
+    selectors: property.selectors as Partial<BuildingSelectorConfig> | null,
+    buildings: (property.buildings || [])
+      .map(b => ({
+        name: b.name,
+        // BUILDING_*_URL env overrides still apply to the default property's buildings
+        url: (isDefault && envUrls.get(b.name.toLowerCase())) || b.url,
+        imageCode: b.image_code,
+        source: b.source || 'onnislu',
+        selectors: buildingSelectors.get(b.id) || null
+      }))
+      .filter(b => !!b.url)
+  };
+};
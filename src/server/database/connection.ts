@@ -1,13 +1,20 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import sqlite3 from 'sqlite3';
 import { open, Database } from 'sqlite';
 import fs from 'fs/promises';
 import path from 'path';
-import { DatabaseResult, TransactionResult } from '../../shared/types/database';
+import { DatabaseHealth, DatabaseResult, DatabaseStats, TransactionResult, WriteResult } from '../../shared/types/database';
 import { runMigrations } from './migrations';
 
 export class DatabaseConnection {
   private db: Database<sqlite3.Database, sqlite3.Statement> | null = null;
   private readonly dbPath: string;
+  // Transactions share this one connection, so they take turns: each waits for the previous one
+  private queue: Promise<void> = Promise.resolve();
+  // Set while the current async call holds the queue; what it runs meanwhile doesn't queue again
+  private readonly holdsLock = new AsyncLocalStorage<boolean>();
+  // Savepoint depth of the transaction the current async call runs in; nested calls join it
+  private readonly transactionDepth = new AsyncLocalStorage<number>();
 
   constructor(dbPath?: string) {
     const envPath = process.env.DATABASE_PATH;
@@ -64,27 +71,90 @@ export class DatabaseConnection {
   }
 
   /**
-   * Execute a transaction with automatic rollback on error
+   * Run work once every transaction (or other exclusive operation) queued before it has finished.
+   * Called from work that already holds the lock, it runs right away.
+   */
+  async runExclusive<T>(work: () => Promise<T>): Promise<T> {
+    if (this.holdsLock.getStore()) {
+      return work();
+    }
+
+    const previous = this.queue;
+    let release!: () => void;
+    this.queue = new Promise<void>(resolve => { release = resolve; });
+    try {
+      await previous;
+      return await this.holdsLock.run(true, work);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Execute a transaction with automatic rollback on error.
+   * Transactions run one at a time; one started inside another becomes a savepoint of it.
    */
   async executeTransaction<T>(
     operations: (db: Database<sqlite3.Database, sqlite3.Statement>) => Promise<T>
   ): Promise<TransactionResult<T>> {
-    if (!this.db) {
-      return { success: false, error: 'Database not initialized' };
+    const depth = this.transactionDepth.getStore();
+    if (depth !== undefined) {
+      return this.executeSavepoint(depth + 1, operations);
     }
 
+    return this.runExclusive(async () => {
+      // Checked once it's our turn: a restore ahead of us may have closed the connection
+      const db = this.db;
+      if (!db) {
+        return { success: false, error: 'Database not initialized' };
+      }
+
+      let begun = false;
+      try {
+        await db.exec('BEGIN IMMEDIATE TRANSACTION');
+        begun = true;
+        const result = await this.transactionDepth.run(0, () => operations(db));
+        await db.exec('COMMIT');
+        return { success: true, data: result };
+      } catch (error) {
+        // Only roll back a transaction this call began
+        if (begun) {
+          try {
+            await db.exec('ROLLBACK');
+          } catch (rollbackError) {
+            console.error('Failed to rollback transaction:', rollbackError);
+          }
+        }
+
+        const errorMessage = error instanceof Error ? error.message : 'Unknown transaction error';
+        return { success: false, error: errorMessage };
+      }
+    });
+  }
+
+  private async executeSavepoint<T>(
+    depth: number,
+    operations: (db: Database<sqlite3.Database, sqlite3.Statement>) => Promise<T>
+  ): Promise<TransactionResult<T>> {
+    const db = this.getDatabase();
+    const name = `nested_${depth}`;
+    let begun = false;
     try {
-      await this.db.exec('BEGIN IMMEDIATE TRANSACTION');
-      const result = await operations(this.db);
-      await this.db.exec('COMMIT');
+      await db.exec(`SAVEPOINT ${name}`);
+      begun = true;
+      const result = await this.transactionDepth.run(depth, () => operations(db));
+      await db.exec(`RELEASE ${name}`);
       return { success: true, data: result };
     } catch (error) {
-      try {
-        await this.db.exec('ROLLBACK');
-      } catch (rollbackError) {
-        console.error('Failed to rollback transaction:', rollbackError);
+      if (begun) {
+        try {
+          await db.exec(`ROLLBACK TO ${name}`);
+          await db.exec(`RELEASE ${name}`);
+        } catch (rollbackError) {
+          console.error('Failed to rollback savepoint:', rollbackError);
+        }
       }
-      
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown transaction error';
       return { success: false, error: errorMessage };
     }
@@ -96,13 +166,13 @@ export class DatabaseConnection {
   async executeQuery<T = any>(
     sql: string, 
     params: any[] = []
-  ): Promise<DatabaseResult> {
+  ): Promise<DatabaseResult<T[]>> {
     if (!this.db) {
       return { success: false, error: 'Database not initialized' };
     }
 
     try {
-      const result = await this.db.all(sql, params);
+      const result = await this.db.all<T[]>(sql, params);
       return { success: true, data: result };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown query error';
@@ -116,13 +186,13 @@ export class DatabaseConnection {
   async executeQuerySingle<T = any>(
     sql: string, 
     params: any[] = []
-  ): Promise<DatabaseResult> {
+  ): Promise<DatabaseResult<T | undefined>> {
     if (!this.db) {
       return { success: false, error: 'Database not initialized' };
     }
 
     try {
-      const result = await this.db.get(sql, params);
+      const result = await this.db.get<T>(sql, params);
       return { success: true, data: result };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown query error';
@@ -131,12 +201,17 @@ export class DatabaseConnection {
   }
 
   /**
-   * Execute an insert/update/delete query
+   * Execute an insert/update/delete query. Outside a transaction it waits for the running one,
+   * so it is neither swept into another caller's transaction nor rolled back with it.
    */
   async executeUpdate(
     sql: string, 
     params: any[] = []
-  ): Promise<DatabaseResult> {
+  ): Promise<DatabaseResult<WriteResult>> {
+    return this.runExclusive(() => this.runUpdate(sql, params));
+  }
+
+  private async runUpdate(sql: string, params: any[]): Promise<DatabaseResult<WriteResult>> {
     if (!this.db) {
       return { success: false, error: 'Database not initialized' };
     }
@@ -146,8 +221,8 @@ export class DatabaseConnection {
       return { 
         success: true, 
         data: { 
-          lastID: result.lastID, 
-          changes: result.changes 
+          lastID: result.lastID ?? 0, 
+          changes: result.changes ?? 0 
         } 
       };
     } catch (error) {
@@ -156,10 +231,73 @@ export class DatabaseConnection {
     }
   }
 
+  /**
+   * Get the database file path
+   */
+  getPath(): string {
+    return this.dbPath;
+  }
+
+  /**
+   * Write a consistent copy of the live database to destPath.
+   * VACUUM INTO can't run inside a transaction, so it waits for the running one.
+   */
+  async backupTo(destPath: string): Promise<DatabaseResult> {
+    if (this.transactionDepth.getStore() !== undefined) {
+      return { success: false, error: 'Cannot back up the database from within a transaction' };
+    }
+
+    return this.runExclusive(async () => {
+      if (!this.db) {
+        return { success: false, error: 'Database not initialized' };
+      }
+
+      try {
+        await fs.mkdir(path.dirname(destPath), { recursive: true });
+        await this.db.run('VACUUM INTO ?', [destPath]);
+        return { success: true, data: { path: destPath } };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown backup error';
+        return { success: false, error: errorMessage };
+      }
+    });
+  }
+
+  /**
+   * Replace the database file with sourcePath and reopen it (running any newer migrations).
+   * Waits for the running transaction; the caller is responsible for validating sourcePath first.
+   */
+  async restoreFrom(sourcePath: string): Promise<DatabaseResult> {
+    if (this.dbPath === ':memory:') {
+      return { success: false, error: 'Cannot restore an in-memory database' };
+    }
+    if (this.transactionDepth.getStore() !== undefined) {
+      return { success: false, error: 'Cannot restore the database from within a transaction' };
+    }
+
+    return this.runExclusive(async () => {
+      try {
+        // Closing the last connection checkpoints the WAL into the main file
+        await this.close();
+        await fs.copyFile(sourcePath, this.dbPath);
+        // Stale WAL/SHM files from the old database must not be replayed onto the restored one
+        await fs.rm(`${this.dbPath}-wal`, { force: true });
+        await fs.rm(`${this.dbPath}-shm`, { force: true });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown restore error';
+        // Reopen whatever is on disk so the app keeps serving
+        await this.initialize();
+        return { success: false, error: errorMessage };
+      }
+
+      return await this.initialize();
+    });
+  }
+
   /**
    * Check database health and integrity
    */
-  async checkHealth(): Promise<DatabaseResult> {
+  async checkHealth(): Promise<DatabaseResult<DatabaseHealth>> {
     if (!this.db) {
       return { success: false, error: 'Database not initialized' };
     }
@@ -198,7 +336,7 @@ export class DatabaseConnection {
   /**
    * Get database statistics
    */
-  async getStats(): Promise<DatabaseResult> {
+  async getStats(): Promise<DatabaseResult<DatabaseStats>> {
     if (!this.db) {
       return { success: false, error: 'Database not initialized' };
     }
@@ -1,7 +1,7 @@
 // Database module exports
 export { DatabaseConnection, getDatabaseConnection, initializeDatabase } from './connection';
-export { MigrationManager, Migration } from './migrations';
-export { DatabaseUtils } from './utils';
+export { MigrationManager, Migration, MigrationStatus, MigrationStatusEntry } from './migrations';
+export * from './repositories';
 
 // Re-export types for convenience
-export * from '../../shared/types/database';
\ No newline at end of file
+export * from '../../shared/types/database';
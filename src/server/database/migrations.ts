@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import { Database } from 'sqlite';
 import sqlite3 from 'sqlite3';
 import { DatabaseResult } from '../../shared/types/database';
@@ -9,6 +10,32 @@ export interface Migration {
   down: string;
 }
 
+export interface MigrationStatusEntry {
+  version: number;
+  name: string;
+  applied: boolean;
+  applied_at: string | null;
+  checksum: string; // checksum of the migration as defined in code
+  stored_checksum: string | null; // checksum recorded when it was applied
+  checksum_ok: boolean | null; // null when not applied
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  pending: number[];
+  mismatched: number[]; // applied migrations whose SQL changed since they were applied
+  unknown: number[]; // applied versions with no definition in code
+  migrations: MigrationStatusEntry[];
+}
+
+/**
+ * Checksum of a migration's SQL (up and down), stored when it is applied
+ */
+export function migrationChecksum(migration: Migration): string {
+  return createHash('sha256').update(migration.up).update('\0').update(migration.down).digest('hex');
+}
+
 export class MigrationManager {
   private db: Database<sqlite3.Database, sqlite3.Statement>;
 
@@ -28,6 +55,12 @@ export class MigrationManager {
         applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )
     `);
+
+    // Databases created before checksums were tracked
+    const columns = await this.db.all('PRAGMA table_info(migrations)');
+    if (!columns.some((c: any) => c.name === 'checksum')) {
+      await this.db.exec('ALTER TABLE migrations ADD COLUMN checksum TEXT');
+    }
   }
 
   /**
@@ -57,8 +90,8 @@ export class MigrationManager {
       
       // Record migration
       await this.db.run(
-        'INSERT INTO migrations (version, name) VALUES (?, ?)',
-        [migration.version, migration.name]
+        'INSERT INTO migrations (version, name, checksum) VALUES (?, ?, ?)',
+        [migration.version, migration.name, migrationChecksum(migration)]
       );
       
       await this.db.exec('COMMIT');
@@ -77,6 +110,14 @@ export class MigrationManager {
    * Rollback a single migration
    */
   async rollbackMigration(migration: Migration): Promise<DatabaseResult> {
+    // Down migrations recreate tables; with foreign keys on, dropping a parent table
+    // would cascade-delete its children. The pragma is a no-op inside a transaction.
+    const fk = await this.db.get('PRAGMA foreign_keys');
+    const foreignKeys = fk?.foreign_keys === 1;
+    if (foreignKeys) {
+      await this.db.exec('PRAGMA foreign_keys = OFF');
+    }
+
     try {
       await this.db.exec('BEGIN TRANSACTION');
       
@@ -98,6 +139,41 @@ export class MigrationManager {
       const errorMessage = error instanceof Error ? error.message : 'Unknown rollback error';
       console.error(`Failed to rollback migration ${migration.version}:`, errorMessage);
       return { success: false, error: errorMessage };
+    } finally {
+      if (foreignKeys) {
+        await this.db.exec('PRAGMA foreign_keys = ON');
+      }
+    }
+  }
+
+  /**
+   * Roll back applied migrations, newest first, until the database is at targetVersion
+   */
+  async rollbackTo(migrations: Migration[], targetVersion: number): Promise<DatabaseResult> {
+    try {
+      await this.initializeMigrationsTable();
+      const applied: Array<{ version: number }> = await this.db.all(
+        'SELECT version FROM migrations WHERE version > ? ORDER BY version DESC',
+        [targetVersion]
+      );
+
+      const byVersion = new Map(migrations.map(m => [m.version, m]));
+      const missing = applied.filter(a => !byVersion.has(a.version)).map(a => a.version);
+      if (missing.length > 0) {
+        return { success: false, error: `No definition for applied migration(s): ${missing.join(', ')}` };
+      }
+
+      for (const { version } of applied) {
+        const result = await this.rollbackMigration(byVersion.get(version)!);
+        if (!result.success) {
+          return result;
+        }
+      }
+
+      return { success: true, data: { rolledBack: applied.length } };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown rollback error';
+      return { success: false, error: errorMessage };
     }
   }
 
@@ -141,7 +217,7 @@ export class MigrationManager {
   async getMigrationHistory(): Promise<DatabaseResult> {
     try {
       const result = await this.db.all(
-        'SELECT version, name, applied_at FROM migrations ORDER BY version'
+        'SELECT version, name, applied_at, checksum FROM migrations ORDER BY version'
       );
       return { success: true, data: result };
     } catch (error) {
@@ -149,6 +225,78 @@ export class MigrationManager {
       return { success: false, error: errorMessage };
     }
   }
+
+  /**
+   * Compare applied migrations with their definitions: pending versions and checksum mismatches
+   */
+  async getStatus(migrations: Migration[]): Promise<DatabaseResult<MigrationStatus>> {
+    try {
+      await this.initializeMigrationsTable();
+      const rows: Array<{ version: number; name: string; applied_at: string; checksum: string | null }> = await this.db.all(
+        'SELECT version, name, applied_at, checksum FROM migrations ORDER BY version'
+      );
+      const applied = new Map(rows.map(r => [r.version, r]));
+
+      const entries: MigrationStatusEntry[] = [...migrations]
+        .sort((a, b) => a.version - b.version)
+        .map(m => {
+          const row = applied.get(m.version);
+          const checksum = migrationChecksum(m);
+          return {
+            version: m.version,
+            name: m.name,
+            applied: !!row,
+            applied_at: row?.applied_at ?? null,
+            checksum,
+            stored_checksum: row?.checksum ?? null,
+            checksum_ok: row ? row.checksum === checksum : null
+          };
+        });
+
+      const defined = new Set(migrations.map(m => m.version));
+      const status: MigrationStatus = {
+        currentVersion: await this.getCurrentVersion(),
+        latestVersion: entries.length ? entries[entries.length - 1].version : 0,
+        pending: entries.filter(e => !e.applied).map(e => e.version),
+        mismatched: entries.filter(e => e.checksum_ok === false).map(e => e.version),
+        unknown: rows.filter(r => !defined.has(r.version)).map(r => r.version),
+        migrations: entries
+      };
+      return { success: true, data: status };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Record checksums for migrations applied before checksums were tracked, then report
+   * any applied migration whose SQL has since been edited
+   */
+  async verifyChecksums(migrations: Migration[]): Promise<DatabaseResult> {
+    try {
+      await this.initializeMigrationsTable();
+      for (const m of migrations) {
+        await this.db.run(
+          'UPDATE migrations SET checksum = ? WHERE version = ? AND checksum IS NULL',
+          [migrationChecksum(m), m.version]
+        );
+      }
+
+      const status = await this.getStatus(migrations);
+      if (!status.success) {
+        return status;
+      }
+      const mismatched = (status.data as MigrationStatus).migrations.filter(e => e.checksum_ok === false);
+      for (const m of mismatched) {
+        console.warn(`Migration ${m.version} (${m.name}) was edited after it was applied: checksum ${m.stored_checksum} != ${m.checksum}`);
+      }
+      return { success: true, data: { mismatched: mismatched.map(m => m.version) } };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, error: errorMessage };
+    }
+  }
 }
 
 // Define all migrations
@@ -277,6 +425,787 @@ export const migrations: Migration[] = [
       
       CREATE INDEX IF NOT EXISTS idx_floor_plans_building_id ON floor_plans(building_id);
     `
+  },
+  {
+    version: 3,
+    name: 'add_units_tables',
+    up: `
+      -- Individual apartment units seen on SecureCafe
+      CREATE TABLE IF NOT EXISTS units (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        building_id INTEGER NOT NULL,
+        floor_plan_id INTEGER,
+        unit_number TEXT NOT NULL,
+        plan_code TEXT,
+        current_rent DECIMAL(10,2),
+        move_in_date TEXT,
+        first_seen_at DATETIME NOT NULL,
+        last_seen_at DATETIME NOT NULL,
+        leased_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (building_id) REFERENCES buildings(id) ON DELETE CASCADE,
+        FOREIGN KEY (floor_plan_id) REFERENCES floor_plans(id) ON DELETE SET NULL,
+        UNIQUE(building_id, unit_number)
+      );
+
+      -- One row per unit per availability refresh
+      CREATE TABLE IF NOT EXISTS unit_observations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        unit_id INTEGER NOT NULL,
+        rent DECIMAL(10,2),
+        rent_text TEXT,
+        move_in_date TEXT,
+        observed_at DATETIME NOT NULL,
+        FOREIGN KEY (unit_id) REFERENCES units(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_units_building_id ON units(building_id);
+      CREATE INDEX IF NOT EXISTS idx_units_floor_plan_id ON units(floor_plan_id);
+      CREATE INDEX IF NOT EXISTS idx_unit_observations_unit_id ON unit_observations(unit_id);
+    `,
+    down: `
+      DROP TABLE IF EXISTS unit_observations;
+      DROP TABLE IF EXISTS units;
+    `
+  },
+  {
+    version: 4,
+    name: 'add_concessions_table',
+    up: `
+      -- Leasing specials per floor plan per day (parsed from advertised text)
+      CREATE TABLE IF NOT EXISTS concessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        floor_plan_id INTEGER NOT NULL,
+        collection_date DATE NOT NULL,
+        raw_text TEXT NOT NULL,
+        weeks_free REAL DEFAULT 0,
+        dollar_credit DECIMAL(10,2) DEFAULT 0,
+        lease_term_months INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (floor_plan_id) REFERENCES floor_plans(id) ON DELETE CASCADE,
+        UNIQUE(floor_plan_id, collection_date)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_concessions_floor_plan_date ON concessions(floor_plan_id, collection_date);
+    `,
+    down: `
+      DROP TABLE IF EXISTS concessions;
+    `
+  },
+  {
+    version: 5,
+    name: 'add_price_quotes_table',
+    up: `
+      -- Lowest quoted rent per lease term per floor plan per day (SecureCafe term matrix)
+      CREATE TABLE IF NOT EXISTS price_quotes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        floor_plan_id INTEGER NOT NULL,
+        lease_term_months INTEGER NOT NULL,
+        price DECIMAL(10,2) NOT NULL,
+        collection_date DATE NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (floor_plan_id) REFERENCES floor_plans(id) ON DELETE CASCADE,
+        UNIQUE(floor_plan_id, lease_term_months, collection_date)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_price_quotes_floor_plan_date ON price_quotes(floor_plan_id, collection_date);
+
+      -- Term an alert was raised for (NULL = advertised price)
+      ALTER TABLE alerts ADD COLUMN lease_term_months INTEGER;
+    `,
+    down: `
+      DROP TABLE IF EXISTS price_quotes;
+
+      -- SQLite doesn't support DROP COLUMN directly, so we need to recreate the table
+      CREATE TABLE alerts_backup (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        floor_plan_id INTEGER NOT NULL,
+        alert_type TEXT NOT NULL CHECK (alert_type IN ('price_drop', 'lowest_price')),
+        old_price DECIMAL(10,2),
+        new_price DECIMAL(10,2) NOT NULL,
+        percentage_change REAL,
+        is_dismissed BOOLEAN DEFAULT FALSE,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (floor_plan_id) REFERENCES floor_plans(id) ON DELETE CASCADE
+      );
+
+      INSERT INTO alerts_backup
+        SELECT id, floor_plan_id, alert_type, old_price, new_price, percentage_change, is_dismissed, created_at
+        FROM alerts;
+
+      DROP TABLE alerts;
+      ALTER TABLE alerts_backup RENAME TO alerts;
+
+      CREATE INDEX IF NOT EXISTS idx_alerts_floor_plan_id ON alerts(floor_plan_id);
+      CREATE INDEX IF NOT EXISTS idx_alerts_is_dismissed ON alerts(is_dismissed);
+    `
+  },
+  {
+    version: 6,
+    name: 'add_price_observations_table',
+    up: `
+      -- Every raw price observation; price_history is the daily rollup derived from these
+      CREATE TABLE IF NOT EXISTS price_observations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        floor_plan_id INTEGER NOT NULL,
+        price DECIMAL(10,2) NOT NULL,
+        price_text TEXT,
+        is_available BOOLEAN DEFAULT TRUE,
+        source TEXT NOT NULL CHECK (source IN ('scheduler', 'manual', 'ingest')),
+        observed_at DATETIME NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (floor_plan_id) REFERENCES floor_plans(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_price_observations_floor_plan_observed ON price_observations(floor_plan_id, observed_at);
+    `,
+    down: `
+      DROP TABLE IF EXISTS price_observations;
+    `
+  },
+  {
+    version: 7,
+    name: 'add_floor_plans_archived_at_column',
+    up: `
+      -- Soft delete: archived plans keep their price history and alerts
+      ALTER TABLE floor_plans ADD COLUMN archived_at DATETIME;
+
+      CREATE INDEX IF NOT EXISTS idx_floor_plans_archived_at ON floor_plans(archived_at);
+    `,
+    down: `
+      -- SQLite doesn't support DROP COLUMN directly, so we need to recreate the table
+      CREATE TABLE floor_plans_backup (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        building_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        bedrooms INTEGER NOT NULL,
+        bathrooms REAL NOT NULL,
+        has_den BOOLEAN DEFAULT FALSE,
+        square_footage INTEGER,
+        building_position TEXT,
+        image_url TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        bathrooms_estimated BOOLEAN DEFAULT FALSE,
+        FOREIGN KEY (building_id) REFERENCES buildings(id) ON DELETE CASCADE,
+        UNIQUE(building_id, name)
+      );
+
+      INSERT INTO floor_plans_backup
+        SELECT id, building_id, name, bedrooms, bathrooms, has_den, square_footage, building_position, image_url, created_at, bathrooms_estimated
+        FROM floor_plans;
+
+      DROP TABLE floor_plans;
+      ALTER TABLE floor_plans_backup RENAME TO floor_plans;
+
+      CREATE INDEX IF NOT EXISTS idx_floor_plans_building_id ON floor_plans(building_id);
+      CREATE INDEX IF NOT EXISTS idx_floor_plans_bathrooms_estimated ON floor_plans(bathrooms_estimated);
+    `
+  },
+  {
+    version: 8,
+    name: 'add_audit_log_table',
+    up: `
+      -- Field-level before/after values for admin and settings mutations
+      -- No foreign keys: history outlives purged floor plans
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor TEXT NOT NULL,
+        entity_type TEXT NOT NULL CHECK (entity_type IN ('floor_plan', 'setting')),
+        entity_id TEXT NOT NULL,
+        field TEXT NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        source TEXT NOT NULL,
+        reverted_entry_id INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at);
+    `,
+    down: `
+      DROP TABLE IF EXISTS audit_log;
+    `
+  },
+  {
+    version: 9,
+    name: 'add_properties_table',
+    up: `
+      -- A property (apartment complex) owns buildings and has its own SecureCafe page, wings and selectors
+      -- NULL securecafe_url/wings on the default property fall back to SECURECAFE_URL/DEFAULT_WINGS
+      CREATE TABLE IF NOT EXISTS properties (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        slug TEXT NOT NULL UNIQUE,
+        securecafe_url TEXT,
+        wings TEXT,
+        selectors TEXT,
+        is_active BOOLEAN DEFAULT TRUE,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- image_code prefixes cached plan images (public/plan-images/<image_code>-plan_a1.png)
+      ALTER TABLE buildings ADD COLUMN property_id INTEGER REFERENCES properties(id);
+      ALTER TABLE buildings ADD COLUMN image_code TEXT;
+
+      CREATE INDEX IF NOT EXISTS idx_buildings_property_id ON buildings(property_id);
+
+      INSERT OR IGNORE INTO properties (name, slug) VALUES ('ONNI South Lake Union', 'onnislu');
+
+      UPDATE buildings SET property_id = (SELECT id FROM properties WHERE slug = 'onnislu') WHERE property_id IS NULL;
+      UPDATE buildings SET image_code = 't1' WHERE name = 'Fairview';
+      UPDATE buildings SET image_code = 't2' WHERE name = 'Boren';
+    `,
+    down: `
+      -- SQLite doesn't support DROP COLUMN directly, so we need to recreate the table
+      CREATE TABLE buildings_backup (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        url TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      INSERT INTO buildings_backup SELECT id, name, url, created_at FROM buildings;
+
+      DROP TABLE buildings;
+      ALTER TABLE buildings_backup RENAME TO buildings;
+
+      DROP TABLE IF EXISTS properties;
+    `
+  },
+  {
+    version: 10,
+    name: 'add_recurring_fees_table',
+    up: `
+      -- Monthly fees on top of rent; floor_plan_id NULL means every plan in the building
+      CREATE TABLE IF NOT EXISTS recurring_fees (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        building_id INTEGER NOT NULL,
+        floor_plan_id INTEGER,
+        category TEXT NOT NULL CHECK (category IN ('parking', 'pet', 'storage', 'utilities', 'amenity', 'other')),
+        name TEXT NOT NULL,
+        monthly_amount DECIMAL(10,2) NOT NULL,
+        include_in_total BOOLEAN DEFAULT TRUE,
+        notes TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (building_id) REFERENCES buildings(id) ON DELETE CASCADE,
+        FOREIGN KEY (floor_plan_id) REFERENCES floor_plans(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_recurring_fees_building ON recurring_fees(building_id, floor_plan_id);
+    `,
+    down: `
+      DROP TABLE IF EXISTS recurring_fees;
+    `
+  },
+  {
+    version: 11,
+    name: 'add_scrape_health',
+    up: `
+      -- Each successful building scrape measured against the building's recent healthy runs
+      CREATE TABLE IF NOT EXISTS scrape_health_checks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        building_id INTEGER NOT NULL,
+        plan_count INTEGER NOT NULL,
+        priced_share REAL NOT NULL,
+        sqft_share REAL NOT NULL,
+        baseline_plan_count REAL,
+        baseline_priced_share REAL,
+        baseline_sqft_share REAL,
+        flagged BOOLEAN DEFAULT FALSE,
+        reasons TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (building_id) REFERENCES buildings(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_scrape_health_checks_building ON scrape_health_checks(building_id, created_at);
+
+      -- scrape_health alerts belong to a building and have no floor plan or price
+      CREATE TABLE alerts_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        floor_plan_id INTEGER,
+        building_id INTEGER,
+        alert_type TEXT NOT NULL CHECK (alert_type IN ('price_drop', 'lowest_price', 'scrape_health')),
+        old_price DECIMAL(10,2),
+        new_price DECIMAL(10,2),
+        percentage_change REAL,
+        lease_term_months INTEGER,
+        message TEXT,
+        is_dismissed BOOLEAN DEFAULT FALSE,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (floor_plan_id) REFERENCES floor_plans(id) ON DELETE CASCADE,
+        FOREIGN KEY (building_id) REFERENCES buildings(id) ON DELETE CASCADE
+      );
+
+      INSERT INTO alerts_new (id, floor_plan_id, alert_type, old_price, new_price, percentage_change, lease_term_months, is_dismissed, created_at)
+        SELECT id, floor_plan_id, alert_type, old_price, new_price, percentage_change, lease_term_months, is_dismissed, created_at
+        FROM alerts;
+
+      DROP TABLE alerts;
+      ALTER TABLE alerts_new RENAME TO alerts;
+
+      CREATE INDEX IF NOT EXISTS idx_alerts_floor_plan_id ON alerts(floor_plan_id);
+      CREATE INDEX IF NOT EXISTS idx_alerts_is_dismissed ON alerts(is_dismissed);
+      CREATE INDEX IF NOT EXISTS idx_alerts_building_id ON alerts(building_id);
+    `,
+    down: `
+      DROP TABLE IF EXISTS scrape_health_checks;
+
+      CREATE TABLE alerts_backup (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        floor_plan_id INTEGER NOT NULL,
+        alert_type TEXT NOT NULL CHECK (alert_type IN ('price_drop', 'lowest_price')),
+        old_price DECIMAL(10,2),
+        new_price DECIMAL(10,2) NOT NULL,
+        percentage_change REAL,
+        lease_term_months INTEGER,
+        is_dismissed BOOLEAN DEFAULT FALSE,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (floor_plan_id) REFERENCES floor_plans(id) ON DELETE CASCADE
+      );
+
+      INSERT INTO alerts_backup
+        SELECT id, floor_plan_id, alert_type, old_price, new_price, percentage_change, lease_term_months, is_dismissed, created_at
+        FROM alerts
+        WHERE alert_type != 'scrape_health';
+
+      DROP TABLE alerts;
+      ALTER TABLE alerts_backup RENAME TO alerts;
+
+      CREATE INDEX IF NOT EXISTS idx_alerts_floor_plan_id ON alerts(floor_plan_id);
+      CREATE INDEX IF NOT EXISTS idx_alerts_is_dismissed ON alerts(is_dismissed);
+    `
+  },
+  {
+    version: 12,
+    name: 'add_building_source',
+    up: `
+      -- Which source adapter scrapes the building (services/sources); rentcafe buildings use their JSON endpoint as url
+      ALTER TABLE buildings ADD COLUMN source TEXT NOT NULL DEFAULT 'onnislu' CHECK (source IN ('onnislu', 'rentcafe'));
+    `,
+    down: `
+      CREATE TABLE buildings_backup (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        url TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        property_id INTEGER REFERENCES properties(id),
+        image_code TEXT
+      );
+
+      INSERT INTO buildings_backup SELECT id, name, url, created_at, property_id, image_code FROM buildings;
+
+      DROP TABLE buildings;
+      ALTER TABLE buildings_backup RENAME TO buildings;
+
+      CREATE INDEX IF NOT EXISTS idx_buildings_property_id ON buildings(property_id);
+    `
+  },
+  {
+    version: 13,
+    name: 'add_scrape_runs',
+    up: `
+      -- One row per scheduled or manual scrape; totals are summed from its buildings when it finishes
+      CREATE TABLE IF NOT EXISTS scrape_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        trigger_type TEXT NOT NULL CHECK (trigger_type IN ('scheduler', 'manual')),
+        status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'partial', 'failed')),
+        started_at DATETIME NOT NULL,
+        finished_at DATETIME,
+        property_count INTEGER NOT NULL DEFAULT 0,
+        building_count INTEGER NOT NULL DEFAULT 0,
+        plans_scraped INTEGER NOT NULL DEFAULT 0,
+        plans_filtered INTEGER NOT NULL DEFAULT 0,
+        plans_upserted INTEGER NOT NULL DEFAULT 0,
+        plans_priced INTEGER NOT NULL DEFAULT 0,
+        retry_count INTEGER NOT NULL DEFAULT 0,
+        error_count INTEGER NOT NULL DEFAULT 0,
+        errors TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_scrape_runs_started_at ON scrape_runs(started_at);
+
+      -- Diagnostics for each building of a run; building_id is kept null if the building is deleted later
+      CREATE TABLE IF NOT EXISTS scrape_run_buildings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL,
+        building_id INTEGER,
+        building_name TEXT NOT NULL,
+        property_name TEXT,
+        source TEXT,
+        url TEXT,
+        success BOOLEAN NOT NULL DEFAULT FALSE,
+        started_at DATETIME NOT NULL,
+        finished_at DATETIME NOT NULL,
+        plans_scraped INTEGER NOT NULL DEFAULT 0,
+        plans_filtered INTEGER NOT NULL DEFAULT 0,
+        plans_upserted INTEGER NOT NULL DEFAULT 0,
+        plans_priced INTEGER NOT NULL DEFAULT 0,
+        retry_count INTEGER NOT NULL DEFAULT 0,
+        drift_flagged BOOLEAN NOT NULL DEFAULT FALSE,
+        errors TEXT,
+        FOREIGN KEY (run_id) REFERENCES scrape_runs(id) ON DELETE CASCADE,
+        FOREIGN KEY (building_id) REFERENCES buildings(id) ON DELETE SET NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_scrape_run_buildings_run ON scrape_run_buildings(run_id);
+    `,
+    down: `
+      DROP TABLE IF EXISTS scrape_run_buildings;
+      DROP TABLE IF EXISTS scrape_runs;
+    `
+  },
+  {
+    version: 14,
+    name: 'add_selector_configs',
+    up: `
+      -- Versioned per-building scraper selectors, edited from the Admin page; the highest version applies
+      CREATE TABLE IF NOT EXISTS selector_configs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        building_id INTEGER NOT NULL,
+        version INTEGER NOT NULL,
+        selectors TEXT NOT NULL,
+        note TEXT,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (building_id) REFERENCES buildings(id) ON DELETE CASCADE,
+        UNIQUE (building_id, version)
+      );
+
+      -- The floor plan page each building was last scraped from, for testing selectors against
+      CREATE TABLE IF NOT EXISTS page_snapshots (
+        building_id INTEGER PRIMARY KEY,
+        url TEXT NOT NULL,
+        html TEXT NOT NULL,
+        captured_at DATETIME NOT NULL,
+        FOREIGN KEY (building_id) REFERENCES buildings(id) ON DELETE CASCADE
+      );
+
+      -- Version 1 for the seeded buildings: the overrides config/scraper.ts used to hardcode
+      INSERT INTO selector_configs (building_id, version, selectors, note, created_by)
+        SELECT id, 1, '{
+          "item": [".floorplan", ".floor-plan", ".floorplan-card", ".card", "article", "li"],
+          "name": [".title", ".name", "h2", "h3", "[aria-label]"],
+          "price": [".price", ".rent", ".amount", "[data-testid*=\\"price\\"]"],
+          "sqft": [".sqft", ".square-feet", "[data-testid*=\\"sqft\\"]"],
+          "image": ["img"]
+        }', 'Built-in onnislu.com overrides', 'migration'
+        FROM buildings
+        WHERE name IN ('Fairview', 'Boren');
+    `,
+    down: `
+      DROP TABLE IF EXISTS page_snapshots;
+      DROP TABLE IF EXISTS selector_configs;
+    `
+  },
+  {
+    version: 15,
+    name: 'add_scrape_jobs',
+    up: `
+      -- Scheduled and manual scrapes queue here and run one at a time, oldest first; run_id links
+      -- the job to its scrape_runs row once it starts
+      CREATE TABLE IF NOT EXISTS scrape_jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        trigger_type TEXT NOT NULL CHECK (trigger_type IN ('scheduler', 'manual')),
+        status TEXT NOT NULL DEFAULT 'queued'
+          CHECK (status IN ('queued', 'running', 'succeeded', 'partial', 'failed', 'cancelled')),
+        requested_by TEXT,
+        run_id INTEGER,
+        buildings_total INTEGER NOT NULL DEFAULT 0,
+        buildings_done INTEGER NOT NULL DEFAULT 0,
+        current_building TEXT,
+        cancel_requested BOOLEAN NOT NULL DEFAULT FALSE,
+        cancelled_by TEXT,
+        error TEXT,
+        queued_at DATETIME NOT NULL,
+        started_at DATETIME,
+        finished_at DATETIME,
+        FOREIGN KEY (run_id) REFERENCES scrape_runs(id) ON DELETE SET NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_scrape_jobs_status ON scrape_jobs(status, queued_at);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_scrape_jobs_status;
+      DROP TABLE IF EXISTS scrape_jobs;
+    `
+  },
+  {
+    version: 16,
+    name: 'add_plan_images',
+    up: `
+      -- Manifest of stored plan images, one row per distinct content hash; files are relative to PLAN_IMAGE_DIR
+      CREATE TABLE IF NOT EXISTS plan_images (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        hash TEXT NOT NULL UNIQUE,
+        file TEXT NOT NULL,
+        thumbnail_file TEXT,
+        mime_type TEXT NOT NULL,
+        width INTEGER NOT NULL,
+        height INTEGER NOT NULL,
+        bytes INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Where each image came from (a scraped URL or file:<name> from a local folder); a known source
+      -- is not downloaded again
+      CREATE TABLE IF NOT EXISTS plan_image_sources (
+        source TEXT PRIMARY KEY,
+        plan_image_id INTEGER NOT NULL,
+        seen_at DATETIME NOT NULL,
+        FOREIGN KEY (plan_image_id) REFERENCES plan_images(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS floor_plan_images (
+        floor_plan_id INTEGER PRIMARY KEY,
+        plan_image_id INTEGER NOT NULL,
+        linked_at DATETIME NOT NULL,
+        FOREIGN KEY (floor_plan_id) REFERENCES floor_plans(id) ON DELETE CASCADE,
+        FOREIGN KEY (plan_image_id) REFERENCES plan_images(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_plan_image_sources_image ON plan_image_sources(plan_image_id);
+      CREATE INDEX IF NOT EXISTS idx_floor_plan_images_image ON floor_plan_images(plan_image_id);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_floor_plan_images_image;
+      DROP INDEX IF EXISTS idx_plan_image_sources_image;
+      DROP TABLE IF EXISTS floor_plan_images;
+      DROP TABLE IF EXISTS plan_image_sources;
+      DROP TABLE IF EXISTS plan_images;
+    `
+  },
+  {
+    version: 17,
+    name: 'add_floor_plan_metadata_decisions',
+    up: `
+      -- The value an admin accepted for a field the metadata sources disagreed on; has_den is stored as 0/1.
+      -- Only the latest decision per field is kept (audit_log has the history)
+      CREATE TABLE IF NOT EXISTS floor_plan_metadata_decisions (
+        floor_plan_id INTEGER NOT NULL,
+        field TEXT NOT NULL CHECK (field IN ('bedrooms', 'bathrooms', 'has_den')),
+        value REAL NOT NULL,
+        source TEXT NOT NULL,
+        estimated BOOLEAN NOT NULL DEFAULT FALSE,
+        decided_by TEXT,
+        decided_at DATETIME NOT NULL,
+        PRIMARY KEY (floor_plan_id, field),
+        FOREIGN KEY (floor_plan_id) REFERENCES floor_plans(id) ON DELETE CASCADE
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS floor_plan_metadata_decisions;
+    `
+  },
+  {
+    version: 18,
+    name: 'add_ingest_tokens',
+    up: `
+      -- Per-device tokens for POST /api/ingest/*; only the SHA-256 of a token is stored,
+      -- token_prefix lets an admin tell tokens apart
+      CREATE TABLE IF NOT EXISTS ingest_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        token_prefix TEXT NOT NULL,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_used_at DATETIME,
+        revoked_at DATETIME
+      );
+
+      -- Where a unit observation came from, like price_observations.source
+      ALTER TABLE unit_observations ADD COLUMN source TEXT NOT NULL DEFAULT 'scheduler' CHECK (source IN ('scheduler', 'manual', 'ingest'));
+    `,
+    down: `
+      DROP TABLE IF EXISTS ingest_tokens;
+
+      -- SQLite doesn't support DROP COLUMN directly, so we need to recreate the table
+      CREATE TABLE unit_observations_backup (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        unit_id INTEGER NOT NULL,
+        rent DECIMAL(10,2),
+        rent_text TEXT,
+        move_in_date TEXT,
+        observed_at DATETIME NOT NULL,
+        FOREIGN KEY (unit_id) REFERENCES units(id) ON DELETE CASCADE
+      );
+
+      INSERT INTO unit_observations_backup
+        SELECT id, unit_id, rent, rent_text, move_in_date, observed_at
+        FROM unit_observations;
+
+      DROP TABLE unit_observations;
+      ALTER TABLE unit_observations_backup RENAME TO unit_observations;
+
+      CREATE INDEX IF NOT EXISTS idx_unit_observations_unit_id ON unit_observations(unit_id);
+    `
+  },
+  {
+    version: 19,
+    name: 'add_fee_audit_entity',
+    up: `
+      -- Recurring fee changes are audited too; SQLite can't alter a CHECK, so recreate the table
+      CREATE TABLE audit_log_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor TEXT NOT NULL,
+        entity_type TEXT NOT NULL CHECK (entity_type IN ('floor_plan', 'setting', 'fee')),
+        entity_id TEXT NOT NULL,
+        field TEXT NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        source TEXT NOT NULL,
+        reverted_entry_id INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      INSERT INTO audit_log_new SELECT * FROM audit_log;
+
+      DROP TABLE audit_log;
+      ALTER TABLE audit_log_new RENAME TO audit_log;
+
+      CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at);
+    `,
+    down: `
+      CREATE TABLE audit_log_backup (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor TEXT NOT NULL,
+        entity_type TEXT NOT NULL CHECK (entity_type IN ('floor_plan', 'setting')),
+        entity_id TEXT NOT NULL,
+        field TEXT NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        source TEXT NOT NULL,
+        reverted_entry_id INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      INSERT INTO audit_log_backup
+        SELECT * FROM audit_log WHERE entity_type IN ('floor_plan', 'setting');
+
+      DROP TABLE audit_log;
+      ALTER TABLE audit_log_backup RENAME TO audit_log;
+
+      CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at);
+    `
+  },
+  {
+    version: 20,
+    name: 'add_ingest_token_audit',
+    up: `
+      -- Who revoked a device's token; creating and revoking tokens is audited as well
+      ALTER TABLE ingest_tokens ADD COLUMN revoked_by TEXT;
+
+      CREATE TABLE audit_log_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor TEXT NOT NULL,
+        entity_type TEXT NOT NULL CHECK (entity_type IN ('floor_plan', 'setting', 'fee', 'ingest_token')),
+        entity_id TEXT NOT NULL,
+        field TEXT NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        source TEXT NOT NULL,
+        reverted_entry_id INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      INSERT INTO audit_log_new SELECT * FROM audit_log;
+
+      DROP TABLE audit_log;
+      ALTER TABLE audit_log_new RENAME TO audit_log;
+
+      CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at);
+    `,
+    down: `
+      CREATE TABLE audit_log_backup (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor TEXT NOT NULL,
+        entity_type TEXT NOT NULL CHECK (entity_type IN ('floor_plan', 'setting', 'fee')),
+        entity_id TEXT NOT NULL,
+        field TEXT NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        source TEXT NOT NULL,
+        reverted_entry_id INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      INSERT INTO audit_log_backup
+        SELECT * FROM audit_log WHERE entity_type IN ('floor_plan', 'setting', 'fee');
+
+      DROP TABLE audit_log;
+      ALTER TABLE audit_log_backup RENAME TO audit_log;
+
+      CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at);
+
+      -- SQLite doesn't support DROP COLUMN directly, so we need to recreate the table
+      CREATE TABLE ingest_tokens_backup (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        token_prefix TEXT NOT NULL,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_used_at DATETIME,
+        revoked_at DATETIME
+      );
+
+      INSERT INTO ingest_tokens_backup
+        SELECT id, device, token_hash, token_prefix, created_by, created_at, last_used_at, revoked_at
+        FROM ingest_tokens;
+
+      DROP TABLE ingest_tokens;
+      ALTER TABLE ingest_tokens_backup RENAME TO ingest_tokens;
+    `
+  },
+  {
+    version: 21,
+    name: 'add_property_audit_entities',
+    up: `
+      -- Property edits and building moves are audited as well
+      CREATE TABLE audit_log_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor TEXT NOT NULL,
+        entity_type TEXT NOT NULL CHECK (entity_type IN ('floor_plan', 'setting', 'fee', 'ingest_token', 'property', 'building')),
+        entity_id TEXT NOT NULL,
+        field TEXT NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        source TEXT NOT NULL,
+        reverted_entry_id INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      INSERT INTO audit_log_new SELECT * FROM audit_log;
+
+      DROP TABLE audit_log;
+      ALTER TABLE audit_log_new RENAME TO audit_log;
+
+      CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at);
+    `,
+    down: `
+      CREATE TABLE audit_log_backup (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor TEXT NOT NULL,
+        entity_type TEXT NOT NULL CHECK (entity_type IN ('floor_plan', 'setting', 'fee', 'ingest_token')),
+        entity_id TEXT NOT NULL,
+        field TEXT NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        source TEXT NOT NULL,
+        reverted_entry_id INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      INSERT INTO audit_log_backup
+        SELECT * FROM audit_log WHERE entity_type IN ('floor_plan', 'setting', 'fee', 'ingest_token');
+
+      DROP TABLE audit_log;
+      ALTER TABLE audit_log_backup RENAME TO audit_log;
+
+      CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at);
+    `
   }
 ];
 
@@ -285,5 +1214,15 @@ export const migrations: Migration[] = [
  */
 export async function runMigrations(db: Database<sqlite3.Database, sqlite3.Statement>): Promise<DatabaseResult> {
   const migrationManager = new MigrationManager(db);
-  return await migrationManager.runMigrations(migrations);
+  const result = await migrationManager.runMigrations(migrations);
+  if (!result.success) {
+    return result;
+  }
+
+  // Edited migrations are reported, not fatal: `npm run migrate -- verify` fails on them
+  const verify = await migrationManager.verifyChecksums(migrations);
+  if (!verify.success) {
+    return verify;
+  }
+  return result;
 }
\ No newline at end of file
@@ -0,0 +1,69 @@
+// AlertRepository: typed access to the alerts table.
+
+import { DatabaseConnection } from '../connection';
+import { Alert, AlertType, CreateAlertInput, DatabaseResult, WriteResult } from '../../../shared/types/database';
+
+export class AlertRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Get active alerts with floor plan and building information, newest first.
+   * Building alerts (scrape_health) have no floor plan, so their floor_plan_name is null.
+   */
+  async findActive(): Promise<DatabaseResult<Alert[]>> {
+    return await this.db.executeQuery<Alert>(`
+      SELECT
+        a.*,
+        fp.name as floor_plan_name,
+        b.name as building_name
+      FROM alerts a
+      LEFT JOIN floor_plans fp ON a.floor_plan_id = fp.id
+      JOIN buildings b ON b.id = COALESCE(a.building_id, fp.building_id)
+      WHERE a.is_dismissed = FALSE
+      ORDER BY a.created_at DESC
+    `);
+  }
+
+  /**
+   * Get a building's active alerts of one type
+   */
+  async findActiveForBuilding(buildingId: number, alertType: AlertType): Promise<DatabaseResult<Alert[]>> {
+    return await this.db.executeQuery<Alert>(
+      'SELECT * FROM alerts WHERE building_id = ? AND alert_type = ? AND is_dismissed = FALSE ORDER BY created_at DESC',
+      [buildingId, alertType]
+    );
+  }
+
+  /**
+   * Create an alert
+   */
+  async create(data: CreateAlertInput): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'INSERT INTO alerts (floor_plan_id, building_id, alert_type, old_price, new_price, percentage_change, lease_term_months, message) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        data.floor_plan_id ?? null,
+        data.building_id ?? null,
+        data.alert_type,
+        data.old_price ?? null,
+        data.new_price ?? null,
+        data.percentage_change ?? null,
+        data.lease_term_months ?? null,
+        data.message ?? null
+      ]
+    );
+  }
+
+  /**
+   * Dismiss an alert; data.changes is 0 when it doesn't exist
+   */
+  async dismiss(alertId: number): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'UPDATE alerts SET is_dismissed = TRUE WHERE id = ?',
+      [alertId]
+    );
+  }
+}
@@ -0,0 +1,43 @@
+// AuditLogRepository: typed access to the audit log.
+
+import { DatabaseConnection } from '../connection';
+import { AuditLogEntry, AuditLogQuery, DatabaseResult, WriteResult } from '../../../shared/types/database';
+
+export class AuditLogRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Get entries, newest first, optionally for one entity type or entity (default limit 100)
+   */
+  async findAll(query: AuditLogQuery = {}): Promise<DatabaseResult<AuditLogEntry[]>> {
+    const params: unknown[] = [];
+    let sql = 'SELECT * FROM audit_log WHERE 1=1';
+    if (query.entity_type) { sql += ' AND entity_type = ?'; params.push(query.entity_type); }
+    if (query.entity_id !== undefined) { sql += ' AND entity_id = ?'; params.push(String(query.entity_id)); }
+    sql += ' ORDER BY created_at DESC, id DESC LIMIT ?';
+    params.push(query.limit ?? 100);
+    return await this.db.executeQuery<AuditLogEntry>(sql, params);
+  }
+
+  /**
+   * Get an entry
+   */
+  async findById(id: number): Promise<DatabaseResult<AuditLogEntry | undefined>> {
+    return await this.db.executeQuerySingle<AuditLogEntry>('SELECT * FROM audit_log WHERE id = ?', [id]);
+  }
+
+  /**
+   * Append an entry; values are already audit text
+   */
+  async create(data: Omit<AuditLogEntry, 'id' | 'created_at'>): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT INTO audit_log (actor, entity_type, entity_id, field, old_value, new_value, source, reverted_entry_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [data.actor, data.entity_type, data.entity_id, data.field, data.old_value, data.new_value, data.source, data.reverted_entry_id ?? null]
+    );
+  }
+}
@@ -0,0 +1,86 @@
+// BuildingRepository: typed access to the buildings table.
+
+import { DatabaseConnection } from '../connection';
+import { Building, CreateBuildingInput, DatabaseResult, WriteResult } from '../../../shared/types/database';
+
+export class BuildingRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Get all buildings
+   */
+  async findAll(): Promise<DatabaseResult<Building[]>> {
+    return await this.db.executeQuery<Building>('SELECT * FROM buildings ORDER BY name');
+  }
+
+  /**
+   * Get a building by id
+   */
+  async findById(id: number): Promise<DatabaseResult<Building | undefined>> {
+    return await this.db.executeQuerySingle<Building>('SELECT * FROM buildings WHERE id = ?', [id]);
+  }
+
+  /**
+   * Get a building by its unique name, optionally ignoring case
+   */
+  async findByName(name: string, ignoreCase = false): Promise<DatabaseResult<Building | undefined>> {
+    return await this.db.executeQuerySingle<Building>(
+      `SELECT * FROM buildings WHERE name = ?${ignoreCase ? ' COLLATE NOCASE' : ''}`,
+      [name]
+    );
+  }
+
+  /**
+   * Create a building; fails on a duplicate name. id and created_at are only given when restoring
+   * a removed building
+   */
+  async create(data: CreateBuildingInput & Partial<Pick<Building, 'id' | 'created_at'>>): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT INTO buildings (id, name, url, property_id, image_code, source, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))`,
+      [
+        data.id ?? null,
+        data.name,
+        data.url,
+        data.property_id ?? null,
+        data.image_code ?? null,
+        data.source ?? 'onnislu',
+        data.created_at ?? null
+      ]
+    );
+  }
+
+  /**
+   * Delete a building that has no floor plans; changes is 0 when it doesn't exist or has some
+   */
+  async delete(id: number): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'DELETE FROM buildings WHERE id = ? AND NOT EXISTS (SELECT 1 FROM floor_plans WHERE building_id = ?)',
+      [id, id]
+    );
+  }
+
+  /**
+   * Move a building to another property, or detach it with null; changes is 0 when it doesn't exist
+   */
+  async setProperty(id: number, propertyId: number | null): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate('UPDATE buildings SET property_id = ? WHERE id = ?', [propertyId, id]);
+  }
+
+  /**
+   * Create a building, or update the URL of the one with that name; returns the stored row
+   */
+  async upsert(data: CreateBuildingInput): Promise<DatabaseResult<Building | undefined>> {
+    const upsert = await this.db.executeUpdate(
+      `INSERT INTO buildings (name, url, property_id, image_code, source) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET url = excluded.url`,
+      [data.name, data.url, data.property_id ?? null, data.image_code ?? null, data.source ?? 'onnislu']
+    );
+    if (!upsert.success) return { success: false, error: upsert.error };
+    return await this.findByName(data.name);
+  }
+}
@@ -0,0 +1,296 @@
+// FloorPlanRepository: typed access to floor plans, including the enriched pricing view.
+
+import { DatabaseConnection } from '../connection';
+import { CreateFloorPlanInput, DatabaseResult, FloorPlan, MetadataDecision, MetadataField, WriteResult } from '../../../shared/types/database';
+import { netEffectiveRent, concessionTermsFromRow } from '../../services/parsers/concessionParser';
+import { PLAN_IMAGE_URL_PREFIX } from '../../config/scraper';
+
+// Per floor plan: sum of recurring fees counted in total cost (building-wide fees apply to every plan)
+export const MONTHLY_FEE_TOTALS_SQL = `
+  SELECT fp.id AS floor_plan_id, SUM(f.monthly_amount) AS monthly_fees
+  FROM floor_plans fp
+  JOIN recurring_fees f ON f.building_id = fp.building_id AND (f.floor_plan_id IS NULL OR f.floor_plan_id = fp.id)
+  WHERE f.include_in_total = 1
+  GROUP BY fp.id
+`;
+
+// Columns update() may write; booleans are stored as 0/1
+export interface FloorPlanChanges {
+  name?: string;
+  bedrooms?: number;
+  bathrooms?: number;
+  bathrooms_estimated?: boolean;
+  has_den?: boolean;
+  square_footage?: number | null;
+  archived_at?: string | null;
+}
+
+const UPDATABLE_COLUMNS: ReadonlyArray<keyof FloorPlanChanges> = [
+  'name', 'bedrooms', 'bathrooms', 'bathrooms_estimated', 'has_den', 'square_footage', 'archived_at'
+];
+
+// floor_plan_metadata_decisions.value is REAL; has_den decisions are booleans
+function toMetadataDecision(row: any): MetadataDecision {
+  return {
+    ...row,
+    value: row.field === 'has_den' ? !!row.value : Number(row.value),
+    estimated: !!row.estimated
+  };
+}
+
+export class FloorPlanRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Get a floor plan row (archived plans included)
+   */
+  async findById(id: number): Promise<DatabaseResult<FloorPlan | undefined>> {
+    return await this.db.executeQuerySingle<FloorPlan>('SELECT * FROM floor_plans WHERE id = ?', [id]);
+  }
+
+  /**
+   * Get a floor plan by its name, unique within a building
+   */
+  async findByName(buildingId: number, name: string): Promise<DatabaseResult<FloorPlan | undefined>> {
+    return await this.db.executeQuerySingle<FloorPlan>(
+      'SELECT * FROM floor_plans WHERE building_id = ? AND name = ?',
+      [buildingId, name]
+    );
+  }
+
+  /**
+   * Get the first floor plan with any of the given names, optionally within a building (matched by name)
+   */
+  async findByNames(names: string[], buildingName?: string): Promise<DatabaseResult<FloorPlan | undefined>> {
+    const params: unknown[] = [...names];
+    let sql = `
+      SELECT fp.*, b.name AS building_name
+      FROM floor_plans fp
+      JOIN buildings b ON fp.building_id = b.id
+      WHERE fp.name IN (${names.map(() => '?').join(', ')})
+    `;
+    if (buildingName) {
+      sql += ' AND b.name = ?';
+      params.push(buildingName);
+    }
+    sql += ' ORDER BY fp.id LIMIT 1';
+    return await this.db.executeQuerySingle<FloorPlan>(sql, params);
+  }
+
+  /**
+   * Get all floor plan rows with their building name
+   */
+  async findAllWithBuilding(): Promise<DatabaseResult<FloorPlan[]>> {
+    return await this.db.executeQuery<FloorPlan>(
+      'SELECT fp.*, b.name AS building_name FROM floor_plans fp JOIN buildings b ON fp.building_id = b.id'
+    );
+  }
+
+  /**
+   * Get floor plans with building information, latest pricing, net effective rent and total monthly cost.
+   * image_url and thumbnail_url point at the stored plan image; a plan without one keeps the image_url
+   * it was scraped with before the manifest existed (also as its thumbnail), or null.
+   */
+  async findAllWithPricing(): Promise<DatabaseResult<FloorPlan[]>> {
+    const result = await this.db.executeQuery(`
+      SELECT
+        fp.id,
+        fp.building_id,
+        fp.name,
+        fp.bedrooms,
+        fp.bathrooms,
+        fp.bathrooms_estimated,
+        fp.has_den,
+        fp.square_footage,
+        fp.building_position,
+        CASE WHEN pi.id IS NULL THEN fp.image_url ELSE '${PLAN_IMAGE_URL_PREFIX}/' || pi.file END as image_url,
+        CASE WHEN pi.id IS NULL THEN fp.image_url ELSE '${PLAN_IMAGE_URL_PREFIX}/' || COALESCE(pi.thumbnail_file, pi.file) END as thumbnail_url,
+        fp.created_at,
+        fp.archived_at,
+        b.name as building_name,
+        latest.price as current_price,
+        latest.is_available,
+        lowest.price as lowest_price,
+        lowest.collection_date as lowest_price_date,
+        c.raw_text as concession_text,
+        c.weeks_free as concession_weeks_free,
+        c.dollar_credit as concession_dollar_credit,
+        c.lease_term_months as concession_lease_term_months,
+        fees.monthly_fees
+      FROM floor_plans fp
+      JOIN buildings b ON fp.building_id = b.id
+      LEFT JOIN (
+        SELECT DISTINCT floor_plan_id,
+               FIRST_VALUE(price) OVER (PARTITION BY floor_plan_id ORDER BY collection_date DESC) as price,
+               FIRST_VALUE(is_available) OVER (PARTITION BY floor_plan_id ORDER BY collection_date DESC) as is_available,
+               MAX(collection_date) OVER (PARTITION BY floor_plan_id) as collection_date
+        FROM price_history
+      ) latest ON fp.id = latest.floor_plan_id
+      LEFT JOIN concessions c ON c.floor_plan_id = fp.id AND c.collection_date = latest.collection_date
+      LEFT JOIN (
+        SELECT DISTINCT floor_plan_id,
+               MIN(price) as price,
+               FIRST_VALUE(collection_date) OVER (PARTITION BY floor_plan_id ORDER BY price ASC, collection_date ASC) as collection_date
+        FROM price_history
+        GROUP BY floor_plan_id
+      ) lowest ON fp.id = lowest.floor_plan_id
+      LEFT JOIN (${MONTHLY_FEE_TOTALS_SQL}) fees ON fees.floor_plan_id = fp.id
+      LEFT JOIN floor_plan_images fpi ON fpi.floor_plan_id = fp.id
+      LEFT JOIN plan_images pi ON pi.id = fpi.plan_image_id
+      ORDER BY b.name, fp.name
+    `);
+    if (!result.success) return { success: false, error: result.error };
+
+    // Net effective rent: current price net of the latest day's concession.
+    // Total monthly cost: current price plus recurring fees.
+    const rows: FloorPlan[] = (result.data || []).map(row => {
+      const monthlyFees = Number(row.monthly_fees ?? 0);
+      return {
+        ...row,
+        net_effective_rent: row.current_price != null
+          ? netEffectiveRent(Number(row.current_price), concessionTermsFromRow(row))
+          : undefined,
+        monthly_fees: monthlyFees,
+        total_monthly_cost: row.current_price != null ? Number(row.current_price) + monthlyFees : undefined
+      };
+    });
+    return { success: true, data: rows };
+  }
+
+  /**
+   * Create a floor plan; fails on a duplicate name within the building
+   */
+  async create(data: CreateFloorPlanInput): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT INTO floor_plans
+       (building_id, name, bedrooms, bathrooms, has_den, square_footage, building_position, image_url)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        data.building_id,
+        data.name,
+        data.bedrooms,
+        data.bathrooms,
+        data.has_den ? 1 : 0,
+        data.square_footage ?? null,
+        data.building_position ?? null,
+        data.image_url ?? null
+      ]
+    );
+  }
+
+  /**
+   * Create a floor plan, or refresh the scraped fields of the existing one; returns the stored row.
+   * Static metadata (bedrooms, bathrooms, has_den) of an existing plan is never overwritten.
+   */
+  async upsert(data: CreateFloorPlanInput): Promise<DatabaseResult<FloorPlan | undefined>> {
+    const upsert = await this.db.executeUpdate(
+      `INSERT INTO floor_plans
+       (building_id, name, bedrooms, bathrooms, has_den, square_footage, building_position, image_url)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(building_id, name) DO UPDATE SET
+         square_footage = excluded.square_footage,
+         building_position = excluded.building_position,
+         image_url = excluded.image_url`,
+      [
+        data.building_id,
+        data.name,
+        data.bedrooms,
+        data.bathrooms,
+        data.has_den ? 1 : 0,
+        data.square_footage ?? null,
+        data.building_position ?? null,
+        data.image_url ?? null
+      ]
+    );
+    if (!upsert.success) return { success: false, error: upsert.error };
+    return await this.findByName(data.building_id, data.name);
+  }
+
+  /**
+   * Write the given columns; data.changes is 0 when the plan doesn't exist
+   */
+  async update(id: number, changes: FloorPlanChanges): Promise<DatabaseResult<WriteResult>> {
+    const sets: string[] = [];
+    const params: unknown[] = [];
+    for (const column of UPDATABLE_COLUMNS) {
+      const value = changes[column];
+      if (value === undefined) continue;
+      sets.push(`${column} = ?`);
+      params.push(typeof value === 'boolean' ? (value ? 1 : 0) : value);
+    }
+    if (!sets.length) return { success: true, data: { lastID: 0, changes: 0 } };
+    return await this.db.executeUpdate(`UPDATE floor_plans SET ${sets.join(', ')} WHERE id = ?`, [...params, id]);
+  }
+
+  /**
+   * Soft delete; an already archived plan keeps its original archived_at
+   */
+  async archive(id: number): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'UPDATE floor_plans SET archived_at = COALESCE(archived_at, CURRENT_TIMESTAMP) WHERE id = ?',
+      [id]
+    );
+  }
+
+  /**
+   * Hard delete; cascades to every per-plan table
+   */
+  async delete(id: number): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate('DELETE FROM floor_plans WHERE id = ?', [id]);
+  }
+
+  /**
+   * Show a stored plan image for a floor plan, replacing the one it had
+   */
+  async linkImage(floorPlanId: number, planImageId: number, linkedAt: string): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT INTO floor_plan_images (floor_plan_id, plan_image_id, linked_at) VALUES (?, ?, ?)
+       ON CONFLICT(floor_plan_id) DO UPDATE SET plan_image_id = excluded.plan_image_id, linked_at = excluded.linked_at`,
+      [floorPlanId, planImageId, linkedAt]
+    );
+  }
+
+  /**
+   * Get every accepted metadata value, by floor plan and field
+   */
+  async findMetadataDecisions(): Promise<DatabaseResult<MetadataDecision[]>> {
+    const result = await this.db.executeQuery('SELECT * FROM floor_plan_metadata_decisions ORDER BY floor_plan_id, field');
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: (result.data || []).map(toMetadataDecision) };
+  }
+
+  /**
+   * Forget the accepted value for a field; data.changes is 0 when there was none
+   */
+  async deleteMetadataDecision(floorPlanId: number, field: MetadataField): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'DELETE FROM floor_plan_metadata_decisions WHERE floor_plan_id = ? AND field = ?',
+      [floorPlanId, field]
+    );
+  }
+
+  /**
+   * Record the accepted value for a field, replacing an earlier decision
+   */
+  async saveMetadataDecision(decision: MetadataDecision): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT INTO floor_plan_metadata_decisions (floor_plan_id, field, value, source, estimated, decided_by, decided_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(floor_plan_id, field) DO UPDATE SET value = excluded.value, source = excluded.source,
+         estimated = excluded.estimated, decided_by = excluded.decided_by, decided_at = excluded.decided_at`,
+      [
+        decision.floor_plan_id,
+        decision.field,
+        Number(decision.value),
+        decision.source,
+        decision.estimated ? 1 : 0,
+        decision.decided_by,
+        decision.decided_at
+      ]
+    );
+  }
+}
@@ -0,0 +1,67 @@
+// IngestTokenRepository: typed access to ingest device tokens. Tokens are stored hashed and never read back.
+
+import { DatabaseConnection } from '../connection';
+import { DatabaseResult, IngestToken, WriteResult } from '../../../shared/types/database';
+
+const INGEST_TOKEN_COLUMNS = 'id, device, token_prefix, created_by, created_at, last_used_at, revoked_at, revoked_by';
+
+export class IngestTokenRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Store a token's hash for a device
+   */
+  async create(data: { device: string; token_hash: string; token_prefix: string; created_by: string | null }): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'INSERT INTO ingest_tokens (device, token_hash, token_prefix, created_by) VALUES (?, ?, ?, ?)',
+      [data.device, data.token_hash, data.token_prefix, data.created_by]
+    );
+  }
+
+  /**
+   * Get all tokens, newest first
+   */
+  async findAll(): Promise<DatabaseResult<IngestToken[]>> {
+    return await this.db.executeQuery<IngestToken>(
+      `SELECT ${INGEST_TOKEN_COLUMNS} FROM ingest_tokens ORDER BY created_at DESC, id DESC`
+    );
+  }
+
+  /**
+   * Get a token
+   */
+  async findById(id: number): Promise<DatabaseResult<IngestToken | undefined>> {
+    return await this.db.executeQuerySingle<IngestToken>(`SELECT ${INGEST_TOKEN_COLUMNS} FROM ingest_tokens WHERE id = ?`, [id]);
+  }
+
+  /**
+   * Get the unrevoked token with this hash
+   */
+  async findActiveByHash(tokenHash: string): Promise<DatabaseResult<IngestToken | undefined>> {
+    return await this.db.executeQuerySingle<IngestToken>(
+      `SELECT ${INGEST_TOKEN_COLUMNS} FROM ingest_tokens WHERE token_hash = ? AND revoked_at IS NULL`,
+      [tokenHash]
+    );
+  }
+
+  /**
+   * Revoke a token and record who did; data.changes is 0 when it doesn't exist or was already revoked
+   */
+  async revoke(id: number, revokedBy: string | null): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'UPDATE ingest_tokens SET revoked_at = CURRENT_TIMESTAMP, revoked_by = ? WHERE id = ? AND revoked_at IS NULL',
+      [revokedBy, id]
+    );
+  }
+
+  /**
+   * Record when a token was last presented
+   */
+  async markUsed(id: number, usedAt: string): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate('UPDATE ingest_tokens SET last_used_at = ? WHERE id = ?', [usedAt, id]);
+  }
+}
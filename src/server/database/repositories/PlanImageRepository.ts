@@ -0,0 +1,79 @@
+// PlanImageRepository: typed access to the plan image manifest and the source URLs each image was fetched from.
+
+import { DatabaseConnection } from '../connection';
+import { CreatePlanImageInput, DatabaseResult, PlanImage, WriteResult } from '../../../shared/types/database';
+import { PLAN_IMAGE_URL_PREFIX } from '../../config/scraper';
+
+// The manifest listing carries the URLs the files are served under and the image's sources (one per line)
+function toPlanImage(row: any): PlanImage {
+  const { source_list, ...image } = row;
+  return {
+    ...image,
+    url: `${PLAN_IMAGE_URL_PREFIX}/${row.file}`,
+    thumbnail_url: `${PLAN_IMAGE_URL_PREFIX}/${row.thumbnail_file ?? row.file}`,
+    sources: source_list ? String(source_list).split('\n') : [],
+    floor_plan_count: Number(row.floor_plan_count ?? 0)
+  };
+}
+
+export class PlanImageRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Get an image by content hash
+   */
+  async findByHash(hash: string): Promise<DatabaseResult<PlanImage | undefined>> {
+    return await this.db.executeQuerySingle<PlanImage>('SELECT * FROM plan_images WHERE hash = ?', [hash]);
+  }
+
+  /**
+   * Get the image last fetched from a source URL
+   */
+  async findBySource(source: string): Promise<DatabaseResult<PlanImage | undefined>> {
+    return await this.db.executeQuerySingle<PlanImage>(
+      'SELECT pi.* FROM plan_image_sources s JOIN plan_images pi ON pi.id = s.plan_image_id WHERE s.source = ?',
+      [source]
+    );
+  }
+
+  /**
+   * Record an image; does nothing when its hash is already recorded
+   */
+  async create(data: CreatePlanImageInput): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT INTO plan_images (hash, file, thumbnail_file, mime_type, width, height, bytes)
+       VALUES (?, ?, ?, ?, ?, ?, ?) ON CONFLICT(hash) DO NOTHING`,
+      [data.hash, data.file, data.thumbnail_file, data.mime_type, data.width, data.height, data.bytes]
+    );
+  }
+
+  /**
+   * Point a source URL at an image, replacing the image it pointed at before
+   */
+  async addSource(source: string, planImageId: number, seenAt: string): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT INTO plan_image_sources (source, plan_image_id, seen_at) VALUES (?, ?, ?)
+       ON CONFLICT(source) DO UPDATE SET plan_image_id = excluded.plan_image_id, seen_at = excluded.seen_at`,
+      [source, planImageId, seenAt]
+    );
+  }
+
+  /**
+   * Get the manifest, newest first, with URLs, sources and how many floor plans show each image
+   */
+  async findAll(): Promise<DatabaseResult<PlanImage[]>> {
+    const result = await this.db.executeQuery(`
+      SELECT pi.*,
+             (SELECT GROUP_CONCAT(source, char(10)) FROM plan_image_sources WHERE plan_image_id = pi.id) AS source_list,
+             (SELECT COUNT(*) FROM floor_plan_images WHERE plan_image_id = pi.id) AS floor_plan_count
+      FROM plan_images pi
+      ORDER BY pi.created_at DESC, pi.id DESC
+    `);
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: (result.data || []).map(toPlanImage) };
+  }
+}
@@ -0,0 +1,347 @@
+// PriceHistoryRepository: typed access to the daily price rollup and its retention cleanup.
+
+import { DatabaseConnection } from '../connection';
+import { MONTHLY_FEE_TOTALS_SQL } from './FloorPlanRepository';
+import {
+  CreateConcessionInput,
+  CreatePriceHistoryInput,
+  CreatePriceObservationInput,
+  DatabaseResult,
+  PriceHistory,
+  PriceHistoryDetail,
+  PriceObservation,
+  PriceQuote,
+  WriteResult
+} from '../../../shared/types/database';
+import { netEffectiveRent, concessionTermsFromRow, ConcessionColumns } from '../../services/parsers/concessionParser';
+
+// Cutoffs derived from a RetentionPolicy; null disables that step
+export interface PriceHistoryCleanup {
+  dailyCutoff: string | null; // YYYY-MM-DD
+  weeklyCutoff: string | null; // YYYY-MM-DD
+  observationCutoff: string | null; // ISO timestamp
+  keepAlertDays: boolean;
+}
+
+export interface PriceHistoryCleanupCounts {
+  downsampled: number;
+  expired: number;
+  observations: number;
+}
+
+// A daily price with that day's concession columns
+export type PriceWithConcession = Pick<PriceHistory, 'price' | 'collection_date'> & ConcessionColumns;
+
+// A lease-term quote with its floor plan and building names
+export type PriceQuoteDetail = PriceQuote & { floor_plan_name: string; building_name: string };
+
+export class PriceHistoryRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Get price history for a floor plan, newest first, with optional range and limit
+   */
+  async findForFloorPlan(floorPlanId: number, startDate?: string, endDate?: string, limit?: number): Promise<DatabaseResult<PriceHistory[]>> {
+    const params: unknown[] = [floorPlanId];
+    let sql = 'SELECT * FROM price_history WHERE floor_plan_id = ?';
+    if (startDate) { sql += ' AND collection_date >= ?'; params.push(startDate); }
+    if (endDate) { sql += ' AND collection_date <= ?'; params.push(endDate); }
+    sql += ' ORDER BY collection_date DESC';
+    if (limit && limit > 0) { sql += ' LIMIT ?'; params.push(limit); }
+    return await this.db.executeQuery<PriceHistory>(sql, params);
+  }
+
+  /**
+   * Get a floor plan's row for one day
+   */
+  async findForDay(floorPlanId: number, collectionDate: string): Promise<DatabaseResult<PriceHistory | undefined>> {
+    return await this.db.executeQuerySingle<PriceHistory>(
+      'SELECT * FROM price_history WHERE floor_plan_id = ? AND collection_date = ?',
+      [floorPlanId, collectionDate]
+    );
+  }
+
+  /**
+   * Get a floor plan's daily prices before a date with that day's concession, newest first
+   */
+  async findBeforeWithConcessions(floorPlanId: number, beforeDate: string): Promise<DatabaseResult<PriceWithConcession[]>> {
+    return await this.db.executeQuery<PriceWithConcession>(
+      `
+        SELECT ph.price, ph.collection_date,
+               c.raw_text AS concession_text, c.weeks_free AS concession_weeks_free,
+               c.dollar_credit AS concession_dollar_credit, c.lease_term_months AS concession_lease_term_months
+        FROM price_history ph
+        LEFT JOIN concessions c ON c.floor_plan_id = ph.floor_plan_id AND c.collection_date = ph.collection_date
+        WHERE ph.floor_plan_id = ? AND ph.collection_date < ?
+        ORDER BY ph.collection_date DESC, ph.created_at DESC
+      `,
+      [floorPlanId, beforeDate]
+    );
+  }
+
+  /**
+   * Cross-floor-plan price history with names, concessions and fees (optional range/limit).
+   * Fees are today's catalog, not what was charged on each date.
+   */
+  async findRange(startDate?: string, endDate?: string, limit?: number): Promise<DatabaseResult<PriceHistoryDetail[]>> {
+    const params: unknown[] = [];
+    let sql = `
+      SELECT
+        ph.*,
+        fp.name AS floor_plan_name,
+        b.name AS building_name,
+        fp.square_footage AS square_footage,
+        c.raw_text AS concession_text,
+        c.weeks_free AS concession_weeks_free,
+        c.dollar_credit AS concession_dollar_credit,
+        c.lease_term_months AS concession_lease_term_months,
+        fees.monthly_fees
+      FROM price_history ph
+      JOIN floor_plans fp ON ph.floor_plan_id = fp.id
+      JOIN buildings b ON fp.building_id = b.id
+      LEFT JOIN concessions c ON c.floor_plan_id = ph.floor_plan_id AND c.collection_date = ph.collection_date
+      LEFT JOIN (${MONTHLY_FEE_TOTALS_SQL}) fees ON fees.floor_plan_id = ph.floor_plan_id
+      WHERE 1=1
+    `;
+    if (startDate) {
+      sql += ' AND ph.collection_date >= ?';
+      params.push(startDate);
+    }
+    if (endDate) {
+      sql += ' AND ph.collection_date <= ?';
+      params.push(endDate);
+    }
+    sql += ' ORDER BY ph.collection_date DESC';
+    if (limit && limit > 0) {
+      sql += ' LIMIT ?';
+      params.push(limit);
+    }
+    const result = await this.db.executeQuery(sql, params);
+    if (!result.success) return { success: false, error: result.error };
+    const rows: PriceHistoryDetail[] = (result.data || []).map(r => ({
+      ...r,
+      net_effective_rent: netEffectiveRent(Number(r.price), concessionTermsFromRow(r)),
+      monthly_fees: Number(r.monthly_fees ?? 0),
+      total_monthly_cost: Number(r.price) + Number(r.monthly_fees ?? 0)
+    }));
+    return { success: true, data: rows };
+  }
+
+  /**
+   * Add a floor plan's row for a day; fails when the day already has one
+   */
+  async create(data: CreatePriceHistoryInput): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'INSERT INTO price_history (floor_plan_id, price, is_available, collection_date) VALUES (?, ?, ?, ?)',
+      [data.floor_plan_id, data.price, data.is_available ? 1 : 0, data.collection_date]
+    );
+  }
+
+  /**
+   * Overwrite a day's price (when given) and availability, stamping it as just collected
+   */
+  async updateDay(id: number, changes: { price?: number; is_available: boolean }): Promise<DatabaseResult<WriteResult>> {
+    if (changes.price === undefined) {
+      return await this.db.executeUpdate(
+        'UPDATE price_history SET is_available = ?, created_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [changes.is_available ? 1 : 0, id]
+      );
+    }
+    return await this.db.executeUpdate(
+      'UPDATE price_history SET price = ?, is_available = ?, created_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [changes.price, changes.is_available ? 1 : 0, id]
+    );
+  }
+
+  /**
+   * Append a raw observation
+   */
+  async createObservation(data: CreatePriceObservationInput): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'INSERT INTO price_observations (floor_plan_id, price, price_text, is_available, source, observed_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [data.floor_plan_id, data.price, data.price_text ?? null, data.is_available ? 1 : 0, data.source, data.observed_at]
+    );
+  }
+
+  /**
+   * Get a floor plan's raw observations, newest first, with optional ISO range and limit
+   */
+  async findObservations(floorPlanId: number, start?: string, end?: string, limit?: number): Promise<DatabaseResult<PriceObservation[]>> {
+    const params: unknown[] = [floorPlanId];
+    let sql = 'SELECT * FROM price_observations WHERE floor_plan_id = ?';
+    if (start) { sql += ' AND observed_at >= ?'; params.push(start); }
+    if (end) { sql += ' AND observed_at <= ?'; params.push(end); }
+    sql += ' ORDER BY observed_at DESC, id DESC';
+    if (limit && limit > 0) { sql += ' LIMIT ?'; params.push(limit); }
+    const result = await this.db.executeQuery(sql, params);
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: (result.data || []).map(r => ({ ...r, is_available: !!r.is_available })) };
+  }
+
+  /**
+   * Record a floor plan's concession for a day, replacing one already recorded
+   */
+  async upsertConcession(data: CreateConcessionInput): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT OR REPLACE INTO concessions (floor_plan_id, collection_date, raw_text, weeks_free, dollar_credit, lease_term_months)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [data.floor_plan_id, data.collection_date, data.raw_text, data.weeks_free, data.dollar_credit, data.lease_term_months ?? null]
+    );
+  }
+
+  /**
+   * Get a floor plan's concession for one day, as the concession columns the pricing rows carry
+   */
+  async findConcessionForDay(floorPlanId: number, collectionDate: string): Promise<DatabaseResult<ConcessionColumns | undefined>> {
+    return await this.db.executeQuerySingle<ConcessionColumns>(
+      `
+        SELECT raw_text AS concession_text, weeks_free AS concession_weeks_free,
+               dollar_credit AS concession_dollar_credit, lease_term_months AS concession_lease_term_months
+        FROM concessions
+        WHERE floor_plan_id = ? AND collection_date = ?
+      `,
+      [floorPlanId, collectionDate]
+    );
+  }
+
+  /**
+   * Get a floor plan's quote for one lease term and day
+   */
+  async findQuoteForDay(floorPlanId: number, leaseTermMonths: number, collectionDate: string): Promise<DatabaseResult<PriceQuote | undefined>> {
+    return await this.db.executeQuerySingle<PriceQuote>(
+      'SELECT * FROM price_quotes WHERE floor_plan_id = ? AND lease_term_months = ? AND collection_date = ?',
+      [floorPlanId, leaseTermMonths, collectionDate]
+    );
+  }
+
+  /**
+   * Whether a floor plan has ever been quoted for a lease term
+   */
+  async hasQuotes(floorPlanId: number, leaseTermMonths: number): Promise<DatabaseResult<boolean>> {
+    const result = await this.db.executeQuerySingle(
+      'SELECT 1 AS found FROM price_quotes WHERE floor_plan_id = ? AND lease_term_months = ? LIMIT 1',
+      [floorPlanId, leaseTermMonths]
+    );
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: !!result.data };
+  }
+
+  /**
+   * Get a floor plan's quotes for one lease term before a date, newest first
+   */
+  async findQuotesBefore(floorPlanId: number, leaseTermMonths: number, beforeDate: string): Promise<DatabaseResult<PriceQuote[]>> {
+    return await this.db.executeQuery<PriceQuote>(
+      `
+        SELECT *
+        FROM price_quotes
+        WHERE floor_plan_id = ? AND lease_term_months = ? AND collection_date < ?
+        ORDER BY collection_date DESC, created_at DESC
+      `,
+      [floorPlanId, leaseTermMonths, beforeDate]
+    );
+  }
+
+  /**
+   * Get each floor plan's quotes from its latest quoted day with names, optionally for one plan
+   */
+  async findLatestQuotes(floorPlanId?: number): Promise<DatabaseResult<PriceQuoteDetail[]>> {
+    const params: unknown[] = [];
+    let sql = `
+      SELECT pq.*, fp.name AS floor_plan_name, b.name AS building_name
+      FROM price_quotes pq
+      JOIN floor_plans fp ON pq.floor_plan_id = fp.id
+      JOIN buildings b ON fp.building_id = b.id
+      WHERE pq.collection_date = (
+        SELECT MAX(collection_date) FROM price_quotes WHERE floor_plan_id = pq.floor_plan_id
+      )
+    `;
+    if (floorPlanId !== undefined) {
+      sql += ' AND pq.floor_plan_id = ?';
+      params.push(floorPlanId);
+    }
+    sql += ' ORDER BY b.name, fp.name, pq.lease_term_months';
+    return await this.db.executeQuery<PriceQuoteDetail>(sql, params);
+  }
+
+  /**
+   * Add a quote for a lease term and day
+   */
+  async createQuote(data: Omit<PriceQuote, 'id' | 'created_at'>): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'INSERT INTO price_quotes (floor_plan_id, lease_term_months, price, collection_date) VALUES (?, ?, ?, ?)',
+      [data.floor_plan_id, data.lease_term_months, data.price, data.collection_date]
+    );
+  }
+
+  /**
+   * Overwrite a quote's price, stamping it as just collected
+   */
+  async updateQuotePrice(id: number, price: number): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'UPDATE price_quotes SET price = ?, created_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [price, id]
+    );
+  }
+
+  /**
+   * Clean up old price history: points before dailyCutoff are reduced to each floor plan's
+   * weekly minimum, points before weeklyCutoff are removed, and raw observations before
+   * observationCutoff are removed. With dryRun the rows are only counted. Like every transaction it
+   * waits its turn on the connection, so a run that lands mid-scrape starts after the scrape's write.
+   * (price_history is already one row per plan per day via its UNIQUE constraint.)
+   */
+  async cleanup(cleanup: PriceHistoryCleanup, dryRun = false): Promise<DatabaseResult<PriceHistoryCleanupCounts>> {
+    const { dailyCutoff, weeklyCutoff, observationCutoff, keepAlertDays } = cleanup;
+    const keepAlerts = keepAlertDays
+      ? `AND NOT EXISTS (
+           SELECT 1 FROM alerts a
+           WHERE a.floor_plan_id = price_history.floor_plan_id AND date(a.created_at) = price_history.collection_date
+         )`
+      : '';
+
+    return await this.db.executeTransaction(async (database) => {
+      const remove = async (table: string, where: string, params: any[]): Promise<number> => {
+        if (dryRun) {
+          const row = await database.get(`SELECT COUNT(*) AS n FROM ${table} WHERE ${where}`, params);
+          return row?.n ?? 0;
+        }
+        const result = await database.run(`DELETE FROM ${table} WHERE ${where}`, params);
+        return result.changes ?? 0;
+      };
+
+      // Downsample first: the weekly ranking sees the same rows whether or not this is a dry run.
+      // Zero prices (unavailable) only win a week that has no real price.
+      const downsampled = dailyCutoff ? await remove(
+        'price_history',
+        `collection_date < ? ${weeklyCutoff ? 'AND collection_date >= ?' : ''} ${keepAlerts}
+         AND id NOT IN (
+           SELECT id FROM (
+             SELECT id,
+                    ROW_NUMBER() OVER (
+                      PARTITION BY floor_plan_id, strftime('%Y-%W', collection_date)
+                      ORDER BY CASE WHEN price > 0 THEN 0 ELSE 1 END, price ASC, collection_date ASC
+                    ) as rn
+             FROM price_history
+             WHERE collection_date < ?
+           ) ranked
+           WHERE rn = 1
+         )`,
+        weeklyCutoff ? [dailyCutoff, weeklyCutoff, dailyCutoff] : [dailyCutoff, dailyCutoff]
+      ) : 0;
+
+      const expired = weeklyCutoff
+        ? await remove('price_history', `collection_date < ? ${keepAlerts}`, [weeklyCutoff])
+        : 0;
+
+      const observations = observationCutoff
+        ? await remove('price_observations', 'observed_at < ?', [observationCutoff])
+        : 0;
+
+      return { downsampled, expired, observations };
+    });
+  }
+}
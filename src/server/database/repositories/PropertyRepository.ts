@@ -0,0 +1,95 @@
+// PropertyRepository: typed access to the properties table.
+
+import { DatabaseConnection } from '../connection';
+import { CreatePropertyInput, DatabaseResult, Property, UpdatePropertyInput, WriteResult } from '../../../shared/types/database';
+
+// properties.wings is stored as "D,E" (same format as DEFAULT_WINGS), selectors as JSON
+function toProperty(row: any): Property {
+  let selectors: Property['selectors'] = null;
+  try {
+    selectors = row.selectors ? JSON.parse(row.selectors) : null;
+  } catch {
+    selectors = null;
+  }
+  return {
+    ...row,
+    wings: String(row.wings || '').split(',').map((w: string) => w.trim().toUpperCase()).filter(Boolean),
+    selectors,
+    is_active: !!row.is_active
+  };
+}
+
+export class PropertyRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Get all properties (or only active ones) by name, without their buildings
+   */
+  async findAll(activeOnly = false): Promise<DatabaseResult<Property[]>> {
+    const result = await this.db.executeQuery(
+      `SELECT * FROM properties ${activeOnly ? 'WHERE is_active = 1' : ''} ORDER BY name`
+    );
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: (result.data || []).map(toProperty) };
+  }
+
+  /**
+   * Get a property without its buildings
+   */
+  async findById(id: number): Promise<DatabaseResult<Property | undefined>> {
+    const result = await this.db.executeQuerySingle('SELECT * FROM properties WHERE id = ?', [id]);
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: result.data ? toProperty(result.data) : undefined };
+  }
+
+  /**
+   * Create a property; fails on a duplicate name or slug. id and timestamps are only given when
+   * restoring a deleted property
+   */
+  async create(
+    data: CreatePropertyInput & Partial<Pick<Property, 'id' | 'created_at' | 'updated_at'>>
+  ): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT INTO properties (id, name, slug, securecafe_url, wings, selectors, is_active, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP), COALESCE(?, CURRENT_TIMESTAMP))`,
+      [
+        data.id ?? null,
+        data.name,
+        data.slug,
+        data.securecafe_url ?? null,
+        data.wings?.length ? data.wings.join(',') : null,
+        data.selectors ? JSON.stringify(data.selectors) : null,
+        data.is_active === false ? 0 : 1,
+        data.created_at ?? null,
+        data.updated_at ?? null
+      ]
+    );
+  }
+
+  /**
+   * Write the given fields; data.changes is 0 when the property doesn't exist
+   */
+  async update(id: number, changes: UpdatePropertyInput): Promise<DatabaseResult<WriteResult>> {
+    const sets: string[] = [];
+    const params: unknown[] = [];
+    if (changes.name !== undefined) { sets.push('name = ?'); params.push(changes.name); }
+    if (changes.slug !== undefined) { sets.push('slug = ?'); params.push(changes.slug); }
+    if (changes.securecafe_url !== undefined) { sets.push('securecafe_url = ?'); params.push(changes.securecafe_url); }
+    if (changes.wings !== undefined) { sets.push('wings = ?'); params.push(changes.wings.length ? changes.wings.join(',') : null); }
+    if (changes.selectors !== undefined) { sets.push('selectors = ?'); params.push(changes.selectors ? JSON.stringify(changes.selectors) : null); }
+    if (changes.is_active !== undefined) { sets.push('is_active = ?'); params.push(changes.is_active ? 1 : 0); }
+    sets.push('updated_at = CURRENT_TIMESTAMP');
+    return await this.db.executeUpdate(`UPDATE properties SET ${sets.join(', ')} WHERE id = ?`, [...params, id]);
+  }
+
+  /**
+   * Delete a property; fails while buildings still belong to it
+   */
+  async delete(id: number): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate('DELETE FROM properties WHERE id = ?', [id]);
+  }
+}
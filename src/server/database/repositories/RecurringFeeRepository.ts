@@ -0,0 +1,99 @@
+// RecurringFeeRepository: typed access to the recurring fee catalog.
+
+import { DatabaseConnection } from '../connection';
+import { DatabaseResult, RecurringFee, UpdateRecurringFeeInput, WriteResult } from '../../../shared/types/database';
+
+// monthly_amount is DECIMAL, include_in_total is stored as 0/1
+function toRecurringFee(row: any): RecurringFee {
+  return { ...row, monthly_amount: Number(row.monthly_amount), include_in_total: !!row.include_in_total };
+}
+
+export class RecurringFeeRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Get fees with building and floor plan names; floor_plan_id returns the fees that apply to
+   * that plan (its own and building-wide)
+   */
+  async findAll(query: { building_id?: number; floor_plan_id?: number } = {}): Promise<DatabaseResult<RecurringFee[]>> {
+    const params: unknown[] = [];
+    let sql = `
+      SELECT f.*, b.name AS building_name, fp.name AS floor_plan_name
+      FROM recurring_fees f
+      JOIN buildings b ON b.id = f.building_id
+      LEFT JOIN floor_plans fp ON fp.id = f.floor_plan_id
+      WHERE 1=1
+    `;
+    if (query.building_id !== undefined) {
+      sql += ' AND f.building_id = ?';
+      params.push(query.building_id);
+    }
+    if (query.floor_plan_id !== undefined) {
+      sql += ' AND (f.floor_plan_id = ? OR (f.floor_plan_id IS NULL AND f.building_id = (SELECT building_id FROM floor_plans WHERE id = ?)))';
+      params.push(query.floor_plan_id, query.floor_plan_id);
+    }
+    sql += ' ORDER BY b.name, f.floor_plan_id IS NOT NULL, fp.name, f.category, f.name';
+    const result = await this.db.executeQuery(sql, params);
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: (result.data || []).map(toRecurringFee) };
+  }
+
+  /**
+   * Get a fee row
+   */
+  async findById(id: number): Promise<DatabaseResult<RecurringFee | undefined>> {
+    const result = await this.db.executeQuerySingle('SELECT * FROM recurring_fees WHERE id = ?', [id]);
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: result.data ? toRecurringFee(result.data) : undefined };
+  }
+
+  /**
+   * Create a fee; id and timestamps are only given when restoring a deleted fee
+   */
+  async create(
+    data: Omit<RecurringFee, 'id' | 'building_name' | 'floor_plan_name'> & Partial<Pick<RecurringFee, 'id'>>
+  ): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT INTO recurring_fees (id, building_id, floor_plan_id, category, name, monthly_amount, include_in_total, notes, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP), COALESCE(?, CURRENT_TIMESTAMP))`,
+      [
+        data.id ?? null,
+        data.building_id,
+        data.floor_plan_id,
+        data.category,
+        data.name,
+        data.monthly_amount,
+        data.include_in_total ? 1 : 0,
+        data.notes ?? null,
+        data.created_at ?? null,
+        data.updated_at ?? null
+      ]
+    );
+  }
+
+  /**
+   * Write the given fields; data.changes is 0 when the fee doesn't exist
+   */
+  async update(id: number, changes: UpdateRecurringFeeInput): Promise<DatabaseResult<WriteResult>> {
+    const sets: string[] = [];
+    const params: unknown[] = [];
+    if (changes.category !== undefined) { sets.push('category = ?'); params.push(changes.category); }
+    if (changes.name !== undefined) { sets.push('name = ?'); params.push(changes.name); }
+    if (changes.monthly_amount !== undefined) { sets.push('monthly_amount = ?'); params.push(changes.monthly_amount); }
+    if (changes.include_in_total !== undefined) { sets.push('include_in_total = ?'); params.push(changes.include_in_total ? 1 : 0); }
+    if (changes.notes !== undefined) { sets.push('notes = ?'); params.push(changes.notes); }
+    sets.push('updated_at = CURRENT_TIMESTAMP');
+    return await this.db.executeUpdate(`UPDATE recurring_fees SET ${sets.join(', ')} WHERE id = ?`, [...params, id]);
+  }
+
+  /**
+   * Delete a fee; data.changes is 0 when it doesn't exist
+   */
+  async delete(id: number): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate('DELETE FROM recurring_fees WHERE id = ?', [id]);
+  }
+}
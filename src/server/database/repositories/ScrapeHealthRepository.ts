@@ -0,0 +1,92 @@
+// ScrapeHealthRepository: typed access to per-building scrape health checks.
+
+import { DatabaseConnection } from '../connection';
+import { DatabaseResult, ScrapeHealthCheck, ScrapeHealthMetrics, WriteResult } from '../../../shared/types/database';
+
+// scrape_health_checks.reasons is stored as a JSON array
+function toScrapeHealthCheck(row: any): ScrapeHealthCheck {
+  let reasons: string[] = [];
+  try {
+    reasons = row.reasons ? JSON.parse(row.reasons) : [];
+  } catch {
+    reasons = [];
+  }
+  return { ...row, flagged: !!row.flagged, reasons };
+}
+
+export class ScrapeHealthRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Get the metrics of a building's latest checks, newest first
+   */
+  async findRecentMetrics(buildingId: number, limit: number): Promise<DatabaseResult<ScrapeHealthMetrics[]>> {
+    return await this.db.executeQuery<ScrapeHealthMetrics>(
+      'SELECT plan_count, priced_share, sqft_share FROM scrape_health_checks WHERE building_id = ? ORDER BY created_at DESC, id DESC LIMIT ?',
+      [buildingId, limit]
+    );
+  }
+
+  /**
+   * Record a check
+   */
+  async create(data: Omit<ScrapeHealthCheck, 'id' | 'building_name' | 'created_at'>): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT INTO scrape_health_checks
+        (building_id, plan_count, priced_share, sqft_share, baseline_plan_count, baseline_priced_share, baseline_sqft_share, flagged, reasons)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        data.building_id,
+        data.plan_count,
+        data.priced_share,
+        data.sqft_share,
+        data.baseline_plan_count,
+        data.baseline_priced_share,
+        data.baseline_sqft_share,
+        data.flagged,
+        JSON.stringify(data.reasons)
+      ]
+    );
+  }
+
+  /**
+   * Get a check with its building name
+   */
+  async findById(id: number): Promise<DatabaseResult<ScrapeHealthCheck | undefined>> {
+    const result = await this.db.executeQuerySingle(
+      'SELECT c.*, b.name AS building_name FROM scrape_health_checks c JOIN buildings b ON b.id = c.building_id WHERE c.id = ?',
+      [id]
+    );
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: result.data ? toScrapeHealthCheck(result.data) : undefined };
+  }
+
+  /**
+   * Get checks with building names, newest first (default limit 50)
+   */
+  async findAll(options: { buildingId?: number; flaggedOnly?: boolean; limit?: number } = {}): Promise<DatabaseResult<ScrapeHealthCheck[]>> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (options.buildingId !== undefined) {
+      where.push('c.building_id = ?');
+      params.push(options.buildingId);
+    }
+    if (options.flaggedOnly) where.push('c.flagged = TRUE');
+    params.push(options.limit ?? 50);
+    const result = await this.db.executeQuery(
+      `SELECT c.*, b.name AS building_name
+       FROM scrape_health_checks c
+       JOIN buildings b ON b.id = c.building_id
+       ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+       ORDER BY c.created_at DESC, c.id DESC
+       LIMIT ?`,
+      params
+    );
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: (result.data || []).map(toScrapeHealthCheck) };
+  }
+}
@@ -0,0 +1,75 @@
+// ScrapeJobRepository: typed access to the scrape job queue.
+
+import { DatabaseConnection } from '../connection';
+import {
+  DatabaseResult,
+  ScrapeJob,
+  ScrapeJobQuery,
+  ScrapeJobStatus,
+  ScrapeTrigger,
+  UpdateScrapeJobInput,
+  WriteResult
+} from '../../../shared/types/database';
+
+function toScrapeJob(row: any): ScrapeJob {
+  return { ...row, cancel_requested: !!row.cancel_requested };
+}
+
+// Columns the job runner moves a scrape job through
+const SCRAPE_JOB_FIELDS = [
+  'status', 'run_id', 'buildings_total', 'buildings_done', 'current_building', 'cancel_requested',
+  'cancelled_by', 'error', 'started_at', 'finished_at'
+] as const;
+
+export class ScrapeJobRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Queue a job
+   */
+  async create(trigger: ScrapeTrigger, requestedBy: string | null, queuedAt: string): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'INSERT INTO scrape_jobs (trigger_type, requested_by, queued_at) VALUES (?, ?, ?)',
+      [trigger, requestedBy, queuedAt]
+    );
+  }
+
+  /**
+   * Get a job
+   */
+  async findById(id: number): Promise<DatabaseResult<ScrapeJob | undefined>> {
+    const result = await this.db.executeQuerySingle('SELECT * FROM scrape_jobs WHERE id = ?', [id]);
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: result.data ? toScrapeJob(result.data) : undefined };
+  }
+
+  /**
+   * Get jobs newest first (default limit 50); queued jobs come oldest first, in the order they will run
+   */
+  async findAll(query: ScrapeJobQuery = {}): Promise<DatabaseResult<ScrapeJob[]>> {
+    const queuedOnly = query.status === 'queued';
+    const result = await this.db.executeQuery(
+      `SELECT * FROM scrape_jobs ${query.status ? 'WHERE status = ?' : ''}
+       ORDER BY queued_at ${queuedOnly ? 'ASC' : 'DESC'}, id ${queuedOnly ? 'ASC' : 'DESC'} LIMIT ?`,
+      [...(query.status ? [query.status] : []), query.limit ?? 50]
+    );
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: (result.data || []).map(toScrapeJob) };
+  }
+
+  /**
+   * Write the given fields; with onlyIfStatus only while the job still has that status
+   */
+  async update(id: number, changes: UpdateScrapeJobInput, onlyIfStatus?: ScrapeJobStatus): Promise<DatabaseResult<WriteResult>> {
+    const fields = SCRAPE_JOB_FIELDS.filter(f => changes[f] !== undefined);
+    if (!fields.length) return { success: true, data: { lastID: 0, changes: 0 } };
+    return await this.db.executeUpdate(
+      `UPDATE scrape_jobs SET ${fields.map(f => `${f} = ?`).join(', ')} WHERE id = ?${onlyIfStatus ? ' AND status = ?' : ''}`,
+      [...fields.map(f => changes[f]), id, ...(onlyIfStatus ? [onlyIfStatus] : [])]
+    );
+  }
+}
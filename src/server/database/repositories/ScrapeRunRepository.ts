@@ -0,0 +1,146 @@
+// ScrapeRunRepository: typed access to scrape run history and each run's per-building results.
+
+import { DatabaseConnection } from '../connection';
+import {
+  CreateScrapeRunBuildingInput,
+  DatabaseResult,
+  ScrapeRun,
+  ScrapeRunBuilding,
+  ScrapeRunQuery,
+  ScrapeTrigger,
+  WriteResult
+} from '../../../shared/types/database';
+
+// scrape_runs.errors and scrape_run_buildings.errors are stored as JSON arrays
+function jsonList(text: unknown): string[] {
+  try {
+    const list = typeof text === 'string' && text ? JSON.parse(text) : [];
+    return Array.isArray(list) ? list.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function toScrapeRun(row: any): ScrapeRun {
+  return { ...row, errors: jsonList(row.errors) };
+}
+
+function toScrapeRunBuilding(row: any): ScrapeRunBuilding {
+  return { ...row, success: !!row.success, drift_flagged: !!row.drift_flagged, errors: jsonList(row.errors) };
+}
+
+// The totals and status a finished run is closed with
+export type ScrapeRunTotals = Omit<ScrapeRun, 'id' | 'trigger_type' | 'started_at' | 'finished_at'> & { finished_at: string };
+
+export class ScrapeRunRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Open a run
+   */
+  async create(trigger: ScrapeTrigger, startedAt: string): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'INSERT INTO scrape_runs (trigger_type, started_at) VALUES (?, ?)',
+      [trigger, startedAt]
+    );
+  }
+
+  /**
+   * Record one building's result; buildingId is null when the building isn't stored
+   */
+  async addBuilding(runId: number, buildingId: number | null, input: CreateScrapeRunBuildingInput): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT INTO scrape_run_buildings
+        (run_id, building_id, building_name, property_name, source, url, success, started_at, finished_at,
+         plans_scraped, plans_filtered, plans_upserted, plans_priced, retry_count, drift_flagged, errors)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        runId,
+        buildingId,
+        input.building_name,
+        input.property_name ?? null,
+        input.source ?? null,
+        input.url ?? null,
+        input.success,
+        input.started_at,
+        input.finished_at ?? new Date().toISOString(),
+        input.plans_scraped ?? 0,
+        input.plans_filtered ?? 0,
+        input.plans_upserted ?? 0,
+        input.plans_priced ?? 0,
+        input.retry_count ?? 0,
+        !!input.drift_flagged,
+        JSON.stringify(input.errors || [])
+      ]
+    );
+  }
+
+  /**
+   * Get a run's buildings in the order they were scraped
+   */
+  async findBuildings(runId: number): Promise<DatabaseResult<ScrapeRunBuilding[]>> {
+    const result = await this.db.executeQuery('SELECT * FROM scrape_run_buildings WHERE run_id = ? ORDER BY id', [runId]);
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: (result.data || []).map(toScrapeRunBuilding) };
+  }
+
+  /**
+   * Close a run with its totals
+   */
+  async finish(runId: number, totals: ScrapeRunTotals): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `UPDATE scrape_runs SET
+        status = ?, finished_at = ?, property_count = ?, building_count = ?,
+        plans_scraped = ?, plans_filtered = ?, plans_upserted = ?, plans_priced = ?, retry_count = ?,
+        error_count = ?, errors = ?
+       WHERE id = ?`,
+      [
+        totals.status,
+        totals.finished_at,
+        totals.property_count,
+        totals.building_count,
+        totals.plans_scraped,
+        totals.plans_filtered,
+        totals.plans_upserted,
+        totals.plans_priced,
+        totals.retry_count,
+        totals.error_count,
+        JSON.stringify(totals.errors),
+        runId
+      ]
+    );
+  }
+
+  /**
+   * Get a page of runs, newest first (default limit 20), with the count of all matching runs
+   */
+  async findAll(query: ScrapeRunQuery = {}): Promise<DatabaseResult<{ runs: ScrapeRun[]; total: number }>> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (query.trigger_type) { where.push('trigger_type = ?'); params.push(query.trigger_type); }
+    if (query.status) { where.push('status = ?'); params.push(query.status); }
+    const whereSql = where.length ? `WHERE ${where.join(' AND ')}` : '';
+
+    const count = await this.db.executeQuerySingle<{ total: number }>(`SELECT COUNT(*) AS total FROM scrape_runs ${whereSql}`, params);
+    if (!count.success) return { success: false, error: count.error };
+    const result = await this.db.executeQuery(
+      `SELECT * FROM scrape_runs ${whereSql} ORDER BY started_at DESC, id DESC LIMIT ? OFFSET ?`,
+      [...params, query.limit ?? 20, query.offset ?? 0]
+    );
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: { runs: (result.data || []).map(toScrapeRun), total: count.data?.total ?? 0 } };
+  }
+
+  /**
+   * Get a run without its buildings
+   */
+  async findById(runId: number): Promise<DatabaseResult<ScrapeRun | undefined>> {
+    const result = await this.db.executeQuerySingle('SELECT * FROM scrape_runs WHERE id = ?', [runId]);
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: result.data ? toScrapeRun(result.data) : undefined };
+  }
+}
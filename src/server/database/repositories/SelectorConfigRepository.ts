@@ -0,0 +1,113 @@
+// SelectorConfigRepository: typed access to versioned selector configs and the page snapshot they are tested against.
+
+import { DatabaseConnection } from '../connection';
+import { DatabaseResult, PageSnapshot, SelectorConfig, WriteResult } from '../../../shared/types/database';
+
+// selector_configs.selectors is stored as JSON
+function toSelectorConfig(row: any): SelectorConfig {
+  let selectors: SelectorConfig['selectors'] = {};
+  try {
+    selectors = row.selectors ? JSON.parse(row.selectors) : {};
+  } catch {
+    selectors = {};
+  }
+  return { ...row, selectors };
+}
+
+// A snapshot listing carries the page size instead of its HTML
+export type PageSnapshotInfo = Omit<PageSnapshot, 'html'> & { size: number };
+
+export class SelectorConfigRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Get each building's highest version
+   */
+  async findCurrent(): Promise<DatabaseResult<SelectorConfig[]>> {
+    const result = await this.db.executeQuery(
+      `SELECT c.* FROM selector_configs c
+       WHERE c.version = (SELECT MAX(version) FROM selector_configs WHERE building_id = c.building_id)`
+    );
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: (result.data || []).map(toSelectorConfig) };
+  }
+
+  /**
+   * Get every version for a building, newest first
+   */
+  async findForBuilding(buildingId: number): Promise<DatabaseResult<SelectorConfig[]>> {
+    const result = await this.db.executeQuery(
+      'SELECT * FROM selector_configs WHERE building_id = ? ORDER BY version DESC',
+      [buildingId]
+    );
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: (result.data || []).map(toSelectorConfig) };
+  }
+
+  /**
+   * Get one version of a building's selectors
+   */
+  async findVersion(buildingId: number, version: number): Promise<DatabaseResult<SelectorConfig | undefined>> {
+    const result = await this.db.executeQuerySingle(
+      'SELECT * FROM selector_configs WHERE building_id = ? AND version = ?',
+      [buildingId, version]
+    );
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: result.data ? toSelectorConfig(result.data) : undefined };
+  }
+
+  /**
+   * Get a config by id
+   */
+  async findById(id: number): Promise<DatabaseResult<SelectorConfig | undefined>> {
+    const result = await this.db.executeQuerySingle('SELECT * FROM selector_configs WHERE id = ?', [id]);
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: result.data ? toSelectorConfig(result.data) : undefined };
+  }
+
+  /**
+   * Save selectors as the building's next version
+   */
+  async create(
+    buildingId: number,
+    data: { selectors: Record<string, string[]>; note: string | null; created_by: string | null }
+  ): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT INTO selector_configs (building_id, version, selectors, note, created_by)
+       VALUES (?, (SELECT COALESCE(MAX(version), 0) + 1 FROM selector_configs WHERE building_id = ?), ?, ?, ?)`,
+      [buildingId, buildingId, JSON.stringify(data.selectors), data.note, data.created_by]
+    );
+  }
+
+  /**
+   * Keep the page a building was last scraped from, replacing the previous one
+   */
+  async saveSnapshot(buildingId: number, url: string, html: string, capturedAt: string): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT INTO page_snapshots (building_id, url, html, captured_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(building_id) DO UPDATE SET url = excluded.url, html = excluded.html, captured_at = excluded.captured_at`,
+      [buildingId, url, html, capturedAt]
+    );
+  }
+
+  /**
+   * Get a building's snapshot with its HTML
+   */
+  async findSnapshot(buildingId: number): Promise<DatabaseResult<PageSnapshot | undefined>> {
+    return await this.db.executeQuerySingle<PageSnapshot>('SELECT * FROM page_snapshots WHERE building_id = ?', [buildingId]);
+  }
+
+  /**
+   * Get a building's snapshot without its HTML
+   */
+  async findSnapshotInfo(buildingId: number): Promise<DatabaseResult<PageSnapshotInfo | undefined>> {
+    return await this.db.executeQuerySingle<PageSnapshotInfo>(
+      'SELECT building_id, url, captured_at, LENGTH(html) AS size FROM page_snapshots WHERE building_id = ?',
+      [buildingId]
+    );
+  }
+}
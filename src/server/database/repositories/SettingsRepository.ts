@@ -0,0 +1,64 @@
+// SettingsRepository: typed access to the key/value settings table.
+
+import { DatabaseConnection } from '../connection';
+import { DatabaseResult, Settings, WriteResult } from '../../../shared/types/database';
+
+export class SettingsRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Get a setting; data is undefined when it isn't set
+   */
+  async get(key: string): Promise<DatabaseResult<Settings | undefined>> {
+    return await this.db.executeQuerySingle<Settings>('SELECT * FROM settings WHERE key = ?', [key]);
+  }
+
+  /**
+   * Get the settings that exist among the given keys
+   */
+  async getMany(keys: string[]): Promise<DatabaseResult<Settings[]>> {
+    if (!keys.length) return { success: true, data: [] };
+    return await this.db.executeQuery<Settings>(
+      `SELECT * FROM settings WHERE key IN (${keys.map(() => '?').join(', ')}) ORDER BY key`,
+      keys
+    );
+  }
+
+  /**
+   * Get all settings
+   */
+  async getAll(): Promise<DatabaseResult<Settings[]>> {
+    return await this.db.executeQuery<Settings>('SELECT * FROM settings ORDER BY key');
+  }
+
+  /**
+   * Create or overwrite a setting
+   */
+  async set(key: string, value: string): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)',
+      [key, value]
+    );
+  }
+
+  /**
+   * Create a setting unless it already exists
+   */
+  async setDefault(key: string, value: string): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'INSERT OR IGNORE INTO settings (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)',
+      [key, value]
+    );
+  }
+
+  /**
+   * Remove a setting
+   */
+  async delete(key: string): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate('DELETE FROM settings WHERE key = ?', [key]);
+  }
+}
@@ -0,0 +1,111 @@
+// UnitRepository: typed access to SecureCafe units and their observation history.
+
+import { DatabaseConnection } from '../connection';
+import { DatabaseResult, Unit, UnitObservation, UnitQuery, WriteResult } from '../../../shared/types/database';
+
+// The listing columns a refreshed unit is written with
+export type UnitListing = Pick<Unit, 'floor_plan_id' | 'plan_code' | 'current_rent' | 'move_in_date'>;
+
+const UNIT_DETAIL_SQL = `
+  SELECT
+    u.*,
+    b.name AS building_name,
+    fp.name AS floor_plan_name
+  FROM units u
+  JOIN buildings b ON u.building_id = b.id
+  LEFT JOIN floor_plans fp ON u.floor_plan_id = fp.id
+`;
+
+export class UnitRepository {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Get units with building and floor plan names, by building and unit number
+   */
+  async findAll(query: UnitQuery = {}): Promise<DatabaseResult<Unit[]>> {
+    const params: unknown[] = [];
+    let sql = `${UNIT_DETAIL_SQL} WHERE 1=1`;
+    if (query.building_id !== undefined) { sql += ' AND u.building_id = ?'; params.push(query.building_id); }
+    if (query.floor_plan_id !== undefined) { sql += ' AND u.floor_plan_id = ?'; params.push(query.floor_plan_id); }
+    if (query.status === 'active') sql += ' AND u.leased_at IS NULL';
+    if (query.status === 'leased') sql += ' AND u.leased_at IS NOT NULL';
+    sql += ' ORDER BY b.name, u.unit_number';
+    return await this.db.executeQuery<Unit>(sql, params);
+  }
+
+  /**
+   * Get a unit with its building and floor plan names
+   */
+  async findById(id: number): Promise<DatabaseResult<Unit | undefined>> {
+    return await this.db.executeQuerySingle<Unit>(`${UNIT_DETAIL_SQL} WHERE u.id = ?`, [id]);
+  }
+
+  /**
+   * Get a building's unit by number
+   */
+  async findByNumber(buildingId: number, unitNumber: string): Promise<DatabaseResult<Unit | undefined>> {
+    return await this.db.executeQuerySingle<Unit>(
+      'SELECT * FROM units WHERE building_id = ? AND unit_number = ?',
+      [buildingId, unitNumber]
+    );
+  }
+
+  /**
+   * Record a newly listed unit
+   */
+  async create(buildingId: number, unitNumber: string, listing: UnitListing, seenAt: string): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `INSERT INTO units
+       (building_id, floor_plan_id, unit_number, plan_code, current_rent, move_in_date, first_seen_at, last_seen_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [buildingId, listing.floor_plan_id ?? null, unitNumber, listing.plan_code ?? null, listing.current_rent ?? null, listing.move_in_date ?? null, seenAt, seenAt]
+    );
+  }
+
+  /**
+   * Refresh a unit that is listed again; keeps its floor plan when the listing matches none
+   */
+  async updateListing(id: number, listing: UnitListing, seenAt: string): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      `UPDATE units
+       SET floor_plan_id = COALESCE(?, floor_plan_id), plan_code = ?, current_rent = ?,
+           move_in_date = ?, last_seen_at = ?, leased_at = NULL
+       WHERE id = ?`,
+      [listing.floor_plan_id ?? null, listing.plan_code ?? null, listing.current_rent ?? null, listing.move_in_date ?? null, seenAt, id]
+    );
+  }
+
+  /**
+   * Mark a building's units not seen since `seenAt` as leased
+   */
+  async markLeased(buildingId: number, seenAt: string): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'UPDATE units SET leased_at = ? WHERE building_id = ? AND leased_at IS NULL AND last_seen_at < ?',
+      [seenAt, buildingId, seenAt]
+    );
+  }
+
+  /**
+   * Append an observation
+   */
+  async addObservation(data: Omit<UnitObservation, 'id'>): Promise<DatabaseResult<WriteResult>> {
+    return await this.db.executeUpdate(
+      'INSERT INTO unit_observations (unit_id, rent, rent_text, move_in_date, source, observed_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [data.unit_id, data.rent ?? null, data.rent_text ?? null, data.move_in_date ?? null, data.source, data.observed_at]
+    );
+  }
+
+  /**
+   * Get a unit's observations, newest first
+   */
+  async findHistory(unitId: number, limit?: number): Promise<DatabaseResult<UnitObservation[]>> {
+    const params: unknown[] = [unitId];
+    let sql = 'SELECT * FROM unit_observations WHERE unit_id = ? ORDER BY observed_at DESC, id DESC';
+    if (limit && limit > 0) { sql += ' LIMIT ?'; params.push(limit); }
+    return await this.db.executeQuery<UnitObservation>(sql, params);
+  }
+}
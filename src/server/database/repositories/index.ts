@@ -0,0 +1,71 @@
+// Typed repositories; services and scripts go through these instead of writing SQL for these tables
+import { DatabaseConnection } from '../connection';
+import { BuildingRepository } from './BuildingRepository';
+import { FloorPlanRepository } from './FloorPlanRepository';
+import { PriceHistoryRepository } from './PriceHistoryRepository';
+import { AlertRepository } from './AlertRepository';
+import { SettingsRepository } from './SettingsRepository';
+import { PropertyRepository } from './PropertyRepository';
+import { SelectorConfigRepository } from './SelectorConfigRepository';
+import { RecurringFeeRepository } from './RecurringFeeRepository';
+import { AuditLogRepository } from './AuditLogRepository';
+import { ScrapeHealthRepository } from './ScrapeHealthRepository';
+import { ScrapeRunRepository } from './ScrapeRunRepository';
+import { ScrapeJobRepository } from './ScrapeJobRepository';
+import { PlanImageRepository } from './PlanImageRepository';
+import { IngestTokenRepository } from './IngestTokenRepository';
+import { UnitRepository } from './UnitRepository';
+
+export { BuildingRepository } from './BuildingRepository';
+export { FloorPlanRepository, FloorPlanChanges, MONTHLY_FEE_TOTALS_SQL } from './FloorPlanRepository';
+export { PriceHistoryRepository, PriceHistoryCleanup, PriceHistoryCleanupCounts, PriceWithConcession, PriceQuoteDetail } from './PriceHistoryRepository';
+export { AlertRepository } from './AlertRepository';
+export { SettingsRepository } from './SettingsRepository';
+export { PropertyRepository } from './PropertyRepository';
+export { SelectorConfigRepository, PageSnapshotInfo } from './SelectorConfigRepository';
+export { RecurringFeeRepository } from './RecurringFeeRepository';
+export { AuditLogRepository } from './AuditLogRepository';
+export { ScrapeHealthRepository } from './ScrapeHealthRepository';
+export { ScrapeRunRepository, ScrapeRunTotals } from './ScrapeRunRepository';
+export { ScrapeJobRepository } from './ScrapeJobRepository';
+export { PlanImageRepository } from './PlanImageRepository';
+export { IngestTokenRepository } from './IngestTokenRepository';
+export { UnitRepository, UnitListing } from './UnitRepository';
+
+export interface Repositories {
+  buildings: BuildingRepository;
+  floorPlans: FloorPlanRepository;
+  priceHistory: PriceHistoryRepository;
+  alerts: AlertRepository;
+  settings: SettingsRepository;
+  properties: PropertyRepository;
+  selectorConfigs: SelectorConfigRepository;
+  recurringFees: RecurringFeeRepository;
+  auditLog: AuditLogRepository;
+  scrapeHealth: ScrapeHealthRepository;
+  scrapeRuns: ScrapeRunRepository;
+  scrapeJobs: ScrapeJobRepository;
+  planImages: PlanImageRepository;
+  ingestTokens: IngestTokenRepository;
+  units: UnitRepository;
+}
+
+export function createRepositories(db: DatabaseConnection): Repositories {
+  return {
+    buildings: new BuildingRepository(db),
+    floorPlans: new FloorPlanRepository(db),
+    priceHistory: new PriceHistoryRepository(db),
+    alerts: new AlertRepository(db),
+    settings: new SettingsRepository(db),
+    properties: new PropertyRepository(db),
+    selectorConfigs: new SelectorConfigRepository(db),
+    recurringFees: new RecurringFeeRepository(db),
+    auditLog: new AuditLogRepository(db),
+    scrapeHealth: new ScrapeHealthRepository(db),
+    scrapeRuns: new ScrapeRunRepository(db),
+    scrapeJobs: new ScrapeJobRepository(db),
+    planImages: new PlanImageRepository(db),
+    ingestTokens: new IngestTokenRepository(db),
+    units: new UnitRepository(db)
+  };
+}
@@ -1,7 +1,7 @@
 // Seed script to insert buildings and default settings, and ensure schema via migrations
-import { getDatabaseConnection } from '../database';
+import { getDatabaseConnection, createRepositories } from '../database';
 import { runMigrations } from './migrations';
-import { getEnabledBuildings } from '../config/scraper';
+import { getEnabledBuildings, DEFAULT_PROPERTY_SLUG } from '../config/scraper';
 
 async function main() {
   const conn = getDatabaseConnection();
@@ -22,21 +22,18 @@ async function main() {
     return;
   }
 
-  // Upsert buildings from environment config (only those with URLs configured)
+  const repos = createRepositories(conn);
+
+  // Upsert buildings from environment config (only those with URLs configured) into the default property
+  const property = await conn.executeQuerySingle('SELECT id FROM properties WHERE slug = ?', [DEFAULT_PROPERTY_SLUG]);
+  const propertyId = property.success && property.data ? property.data.id : undefined;
   const enabled = getEnabledBuildings();
   let upserted = 0;
   for (const b of enabled) {
     try {
-      // Insert if missing
-      await conn.executeUpdate(
-        'INSERT OR IGNORE INTO buildings (name, url) VALUES (?, ?)',
-        [b.name, b.url]
-      );
-      // Always update URL to match env
-      await conn.executeUpdate(
-        'UPDATE buildings SET url = ? WHERE name = ?',
-        [b.url, b.name]
-      );
+      // Insert if missing, and always update URL to match env
+      const result = await repos.buildings.upsert({ name: b.name, url: b.url, property_id: propertyId });
+      if (!result.success) throw new Error(result.error);
       upserted++;
     } catch (err) {
       console.error('Failed to upsert building', b.name, err);
@@ -51,10 +48,7 @@ async function main() {
     ['next_collection_time', '']
   ];
   for (const [key, value] of defaultSettings) {
-    await conn.executeUpdate(
-      'INSERT OR IGNORE INTO settings (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)',
-      [key, value]
-    );
+    await repos.settings.setDefault(key, value);
   }
 
   console.log('Seed completed', { buildingsProcessed: enabled.length, buildingsUpserted: upserted });
@@ -14,6 +14,7 @@ import logger from './utils/logger';
 import apiRoutes from './routes';
 import { initializeDatabase } from './database';
 import schedulerService from './services/SchedulerService';
+import { planImageConfig, PLAN_IMAGE_URL_PREFIX } from './config/scraper';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -51,7 +52,13 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 // Request logging
 app.use(requestLogger);
 
-// Static assets (plan images cached under /public/plan-images)
+// Plan images are content-addressed (services/PlanImageService), so they never change under a URL
+app.use(PLAN_IMAGE_URL_PREFIX, express.static(path.resolve(planImageConfig.dir), {
+  immutable: true,
+  maxAge: '365d'
+}));
+
+// Static assets
 app.use('/static', express.static(path.join(process.cwd(), 'public'), {
   immutable: true,
   maxAge: '365d'
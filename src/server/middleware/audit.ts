@@ -0,0 +1,9 @@
+import { Request } from 'express';
+import { AuditContext } from '../../shared/types/database';
+
+// Who made a change and through which request, for audit_log entries.
+// There are no user accounts: clients may name themselves with X-Actor, otherwise the caller's IP is recorded.
+export const auditContext = (req: Request): AuditContext => ({
+  actor: req.get('X-Actor') || req.ip || 'unknown',
+  source: `${req.method} ${req.originalUrl}`
+});
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import dataService from '../services/DataService';
+import logger from '../utils/logger';
+
+// Ingest endpoints take a per-device token (created under /api/admin/ingest-tokens), sent as
+// "Authorization: Bearer <token>" or X-Ingest-Token. The matched token is left in res.locals.ingestToken.
+export const requireIngestToken = async (req: Request, res: Response, next: NextFunction) => {
+  const header = req.get('Authorization') || '';
+  const token = (header.match(/^Bearer\s+(\S+)$/i)?.[1] || req.get('X-Ingest-Token') || '').trim();
+  if (!token) {
+    return res.status(401).json({ success: false, error: 'Missing ingest token' });
+  }
+
+  try {
+    const found = await dataService.verifyIngestToken(token);
+    if (!found.success) {
+      return res.status(500).json({ success: false, error: found.error || 'Failed to check ingest token' });
+    }
+    if (!found.data) {
+      logger.warn('Rejected ingest token', { endpoint: req.path, ip: req.ip, prefix: token.slice(0, 8) });
+      return res.status(401).json({ success: false, error: 'Invalid or revoked ingest token' });
+    }
+    res.locals.ingestToken = found.data;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
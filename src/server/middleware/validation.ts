@@ -1,6 +1,23 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import logger from '../utils/logger';
+import { SELECTOR_GROUPS } from '../config/scraper';
+
+// A building's selector overrides: any of the selector groups, each a non-empty list
+const selectorGroups = Joi.object(
+  Object.fromEntries(SELECTOR_GROUPS.map(group => [group, Joi.array().items(Joi.string().trim().min(1)).min(1).optional()]))
+);
+
+// When an ingested payload was read: not ahead of the server by more than a device clock's drift,
+// and no older than a userscript holds on to data before posting it
+const INGEST_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const INGEST_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const collectedAt = Joi.date().iso().custom((value: Date, helpers) => {
+  const age = Date.now() - value.getTime();
+  if (age < -INGEST_CLOCK_SKEW_MS) return helpers.message({ custom: '"collectedAt" must not be in the future' });
+  if (age > INGEST_MAX_AGE_MS) return helpers.message({ custom: '"collectedAt" must be within the last 24 hours' });
+  return value;
+});
 
 // Generic validation middleware factory
 export const validate = (schema: Joi.ObjectSchema, property: 'body' | 'query' | 'params' = 'body') => {
@@ -39,6 +56,14 @@ export const schemas = {
     end: Joi.date().iso().optional(),
     limit: Joi.number().integer().min(1).max(1000).optional()
   }),
+
+  // Date range plus ?format=legacy for endpoints that map rows to the API types
+  mappedDateRange: Joi.object({
+    start: Joi.date().iso().optional(),
+    end: Joi.date().iso().optional(),
+    limit: Joi.number().integer().min(1).max(1000).optional(),
+    format: Joi.string().valid('legacy').optional()
+  }),
   
   // Floor plan ID parameter
   floorPlanId: Joi.object({
@@ -48,11 +73,209 @@ export const schemas = {
   // Alert settings
   alertSettings: Joi.object({
     thresholdType: Joi.string().valid('dollar', 'percentage').required(),
-    thresholdValue: Joi.number().positive().required()
+    thresholdValue: Joi.number().positive().required(),
+    leaseTermMonths: Joi.number().integer().min(2).max(24).allow(null).optional()
   }),
   
   // Alert dismissal
   alertId: Joi.object({
     id: Joi.number().integer().positive().required()
+  }),
+
+  // Lease-term pricing filters
+  leaseTermQuery: Joi.object({
+    floor_plan_id: Joi.number().integer().positive().optional()
+  }),
+
+  // Unit ID parameter
+  unitId: Joi.object({
+    id: Joi.number().integer().positive().required()
+  }),
+
+  // Property ID parameter
+  propertyId: Joi.object({
+    id: Joi.number().integer().positive().required()
+  }),
+
+  // Property create/update; wings are single letters, selectors map a selector group to CSS selectors
+  propertyCreate: Joi.object({
+    name: Joi.string().trim().min(1).max(200).required(),
+    slug: Joi.string().pattern(/^[a-z0-9-]+$/).max(64).required(),
+    securecafe_url: Joi.string().uri().allow(null).optional(),
+    wings: Joi.array().items(Joi.string().pattern(/^[A-Za-z]$/)).optional(),
+    selectors: Joi.object().pattern(Joi.string(), Joi.array().items(Joi.string())).allow(null).optional(),
+    is_active: Joi.boolean().optional()
+  }),
+
+  propertyUpdate: Joi.object({
+    name: Joi.string().trim().min(1).max(200).optional(),
+    slug: Joi.string().pattern(/^[a-z0-9-]+$/).max(64).optional(),
+    securecafe_url: Joi.string().uri().allow(null).optional(),
+    wings: Joi.array().items(Joi.string().pattern(/^[A-Za-z]$/)).optional(),
+    selectors: Joi.object().pattern(Joi.string(), Joi.array().items(Joi.string())).allow(null).optional(),
+    is_active: Joi.boolean().optional()
+  }).min(1),
+
+  // Recurring fee catalog entries; building_id may be omitted for a plan-specific fee
+  feeCreate: Joi.object({
+    building_id: Joi.number().integer().positive().optional(),
+    floor_plan_id: Joi.number().integer().positive().allow(null).optional(),
+    category: Joi.string().valid('parking', 'pet', 'storage', 'utilities', 'amenity', 'other').required(),
+    name: Joi.string().trim().min(1).max(200).required(),
+    monthly_amount: Joi.number().min(0).max(100000).required(),
+    include_in_total: Joi.boolean().optional(),
+    notes: Joi.string().max(1000).allow('', null).optional()
+  }).or('building_id', 'floor_plan_id'),
+
+  feeUpdate: Joi.object({
+    category: Joi.string().valid('parking', 'pet', 'storage', 'utilities', 'amenity', 'other').optional(),
+    name: Joi.string().trim().min(1).max(200).optional(),
+    monthly_amount: Joi.number().min(0).max(100000).optional(),
+    include_in_total: Joi.boolean().optional(),
+    notes: Joi.string().max(1000).allow('', null).optional()
+  }).min(1),
+
+  // Price history retention policy; preview accepts the same fields as overrides
+  retentionPolicy: Joi.object({
+    daily_days: Joi.number().integer().min(0).max(3650).optional(),
+    weekly_days: Joi.number().integer().min(0).max(3650).optional(),
+    observation_days: Joi.number().integer().min(0).max(3650).optional(),
+    keep_alert_days: Joi.boolean().optional()
+  }),
+
+  // Building added to a property
+  propertyBuilding: Joi.object({
+    name: Joi.string().trim().min(1).max(200).required(),
+    url: Joi.string().uri().required(),
+    image_code: Joi.string().pattern(/^[a-z0-9_-]+$/i).max(32).allow(null).optional(),
+    source: Joi.string().valid('onnislu', 'rentcafe').optional()
+  }),
+
+  // A property's building, moved to another property or detached (property_id null)
+  propertyBuildingId: Joi.object({
+    id: Joi.number().integer().positive().required(),
+    buildingId: Joi.number().integer().positive().required()
+  }),
+
+  propertyBuildingMove: Joi.object({
+    property_id: Joi.number().integer().positive().allow(null).required()
+  }),
+
+  // Unit list filters
+  unitQuery: Joi.object({
+    building_id: Joi.number().integer().positive().optional(),
+    floor_plan_id: Joi.number().integer().positive().optional(),
+    status: Joi.string().valid('active', 'leased', 'all').optional()
+  }),
+
+  // Scrape health check filters
+  scrapeHealthQuery: Joi.object({
+    building_id: Joi.number().integer().positive().optional(),
+    flagged: Joi.boolean().optional(),
+    limit: Joi.number().integer().min(1).max(500).optional()
+  }),
+
+  // Scrape run history paging and filters
+  scrapeRunsQuery: Joi.object({
+    trigger: Joi.string().valid('scheduler', 'manual').optional(),
+    status: Joi.string().valid('running', 'succeeded', 'partial', 'failed').optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    offset: Joi.number().integer().min(0).optional()
+  }),
+
+  scrapeRunId: Joi.object({
+    id: Joi.number().integer().positive().required()
+  }),
+
+  // Scrape job queue listing
+  scrapeJobsQuery: Joi.object({
+    status: Joi.string().valid('queued', 'running', 'succeeded', 'partial', 'failed', 'cancelled').optional(),
+    limit: Joi.number().integer().min(1).max(100).optional()
+  }),
+
+  scrapeJobId: Joi.object({
+    id: Joi.number().integer().positive().required()
+  }),
+
+  failureSnapshotQuery: Joi.object({
+    run_id: Joi.number().integer().positive().optional()
+  }),
+
+  buildingId: Joi.object({
+    id: Joi.number().integer().positive().required()
+  }),
+
+  selectorConfigVersion: Joi.object({
+    id: Joi.number().integer().positive().required(),
+    version: Joi.number().integer().positive().required()
+  }),
+
+  // Saving creates the building's next selector version
+  selectorConfigSave: Joi.object({
+    selectors: selectorGroups.required(),
+    note: Joi.string().trim().max(200).allow('', null).optional()
+  }),
+
+  // Testing without selectors uses the building's current ones
+  selectorConfigTest: Joi.object({
+    selectors: selectorGroups.optional()
+  }),
+
+  metadataReportQuery: Joi.object({
+    conflicts_only: Joi.boolean().optional()
+  }),
+
+  // Accept a source's value for a field, or type one in with source=manual
+  metadataAccept: Joi.object({
+    field: Joi.string().valid('bedrooms', 'bathrooms', 'has_den').required(),
+    source: Joi.string().valid('json', 'userscript', 'scraper', 'manual').required(),
+    value: Joi.when('source', {
+      is: 'manual',
+      then: Joi.when('field', {
+        is: 'has_den',
+        then: Joi.boolean().required(),
+        otherwise: Joi.number().min(0).max(10).required()
+      }),
+      otherwise: Joi.forbidden()
+    })
+  }),
+
+  ingestTokenCreate: Joi.object({
+    device: Joi.string().trim().min(1).max(100).required()
+  }),
+
+  ingestTokenId: Joi.object({
+    id: Joi.number().integer().positive().required()
+  }),
+
+  // Floor plans a userscript read off one building's page; same fields as a scrape
+  ingestFloorPlans: Joi.object({
+    building: Joi.string().trim().min(1).max(100).required(),
+    collectedAt: collectedAt.optional(),
+    floorPlans: Joi.array().min(1).max(500).items(Joi.object({
+      name: Joi.string().trim().min(1).max(100).required(),
+      bedrooms: Joi.number().integer().min(0).max(10).required(),
+      bathrooms: Joi.number().min(0).max(10).required(),
+      hasDen: Joi.boolean().required(),
+      squareFootage: Joi.number().integer().min(0).max(20000).optional(),
+      buildingPosition: Joi.string().max(100).allow('').optional(),
+      price: Joi.number().min(0).max(100000).required(),
+      priceText: Joi.string().max(200).allow('').optional(),
+      isAvailable: Joi.boolean().required(),
+      concessionText: Joi.string().max(1000).allow('').optional()
+    })).required()
+  }),
+
+  // SecureCafe units as a userscript read them; rent and move-in date are kept as listed
+  ingestUnits: Joi.object({
+    collectedAt: collectedAt.optional(),
+    complete: Joi.boolean().optional(),
+    units: Joi.array().min(1).max(2000).items(Joi.object({
+      building: Joi.string().trim().min(1).max(100).required(),
+      unit: Joi.string().trim().min(1).max(20).required(),
+      planCode: Joi.string().trim().min(1).max(20).required(),
+      rent: Joi.string().max(50).allow('').required(),
+      moveInDate: Joi.string().max(50).allow('').required()
+    })).required()
   })
 };
\ No newline at end of file
@@ -1,15 +1,23 @@
 import { Router, Request, Response } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
+import { auditContext } from '../middleware/audit';
+import { validate, schemas } from '../middleware/validation';
 import dataService from '../services/DataService';
+import backupService from '../services/BackupService';
+import scrapeJobRunner from '../services/ScrapeJobRunner';
+import failureSnapshotStore, { failureRunDir } from '../services/FailureSnapshotStore';
+import metadataReconciliationService from '../services/MetadataReconciliationService';
 import logger from '../utils/logger';
+import { getBuildingSelectors } from '../config/scraper';
+import { findInvalidSelectors, previewFloorPlans } from '../utils/selectorPreview';
 
 const router = Router();
 
-// GET /api/admin/floorplans - Get all floor plans with full metadata
+// GET /api/admin/floorplans - Get all floor plans with full metadata (archived included)
 router.get(
   '/floorplans',
   asyncHandler(async (req: Request, res: Response) => {
-    const result = await dataService.getAllFloorPlans({});
+    const result = await dataService.getAllFloorPlans({ include_archived: true });
     
     if (!result.success) {
       return res.status(500).json({
@@ -55,18 +63,10 @@ router.put(
     }
 
     // Update the floor plan
-    await dataService.init();
-    const conn = (dataService as any).db; // Access private db property
-    const updateResult = await conn.executeUpdate(
-      `UPDATE floor_plans 
-       SET name = ?,
-           bedrooms = ?, 
-           bathrooms = ?, 
-           has_den = ?,
-           square_footage = ?,
-           bathrooms_estimated = 0
-       WHERE id = ?`,
-      [name, bedrooms, bathrooms, has_den ? 1 : 0, square_footage || null, id]
+    const updateResult = await dataService.updateFloorPlan(
+      id,
+      { name, bedrooms, bathrooms, has_den: !!has_den, square_footage: square_footage || null },
+      auditContext(req)
     );
 
     if (!updateResult.success) {
@@ -77,6 +77,10 @@ router.put(
       });
     }
 
+    if (!updateResult.data?.changes) {
+      return res.status(404).json({ success: false, error: 'Floor plan not found' });
+    }
+
     logger.info('Floor plan updated via admin', { id, name, bedrooms, bathrooms, has_den });
 
     return res.json({
@@ -86,7 +90,8 @@ router.put(
   })
 );
 
-// DELETE /api/admin/floorplans/:id - Delete floor plan
+// DELETE /api/admin/floorplans/:id - Archive floor plan
+// Purge (hard delete with cascade) requires ?purge=true&confirm=<id>
 router.delete(
   '/floorplans/:id',
   asyncHandler(async (req: Request, res: Response) => {
@@ -99,28 +104,812 @@ router.delete(
       });
     }
 
-    await dataService.init();
-    const conn = (dataService as any).db; // Access private db property
-    const deleteResult = await conn.executeUpdate(
-      'DELETE FROM floor_plans WHERE id = ?',
-      [id]
-    );
+    const purge = req.query.purge === 'true' || req.query.purge === '1';
+    if (purge && String(req.query.confirm ?? '') !== String(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Purging permanently deletes price history and alerts; pass confirm=<floor plan id> to proceed'
+      });
+    }
+
+    const result = purge
+      ? await dataService.purgeFloorPlan(id, auditContext(req))
+      : await dataService.archiveFloorPlan(id, auditContext(req));
+
+    if (!result.success) {
+      logger.error(`Failed to ${purge ? 'purge' : 'archive'} floor plan`, { id, error: result.error });
+      return res.status(500).json({
+        success: false,
+        error: result.error || `Failed to ${purge ? 'purge' : 'archive'} floor plan`
+      });
+    }
+
+    if (!result.data?.changes) {
+      return res.status(404).json({ success: false, error: 'Floor plan not found' });
+    }
+
+    logger.info(`Floor plan ${purge ? 'purged' : 'archived'} via admin`, { id });
+
+    return res.json({
+      success: true,
+      message: purge ? 'Floor plan purged permanently' : 'Floor plan archived successfully'
+    });
+  })
+);
+
+// POST /api/admin/floorplans/:id/restore - Restore archived floor plan
+router.post(
+  '/floorplans/:id/restore',
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+
+    if (isNaN(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid floor plan ID'
+      });
+    }
+
+    const result = await dataService.restoreFloorPlan(id, auditContext(req));
+
+    if (!result.success) {
+      logger.error('Failed to restore floor plan', { id, error: result.error });
+      return res.status(500).json({
+        success: false,
+        error: result.error || 'Failed to restore floor plan'
+      });
+    }
+
+    if (!result.data?.changes) {
+      return res.status(404).json({ success: false, error: 'Floor plan not found' });
+    }
+
+    logger.info('Floor plan restored via admin', { id });
+
+    return res.json({
+      success: true,
+      message: 'Floor plan restored successfully'
+    });
+  })
+);
+
+// GET /api/admin/floorplans/:id/history - Audit entries for one floor plan
+router.get(
+  '/floorplans/:id/history',
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+
+    if (isNaN(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid floor plan ID'
+      });
+    }
+
+    const result = await dataService.getAuditLog({ entity_type: 'floor_plan', entity_id: id });
+
+    if (!result.success) {
+      return res.status(500).json({
+        success: false,
+        error: result.error || 'Failed to fetch floor plan history'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { history: result.data }
+    });
+  })
+);
+
+// GET /api/admin/audit - Audit log, optionally filtered by entity_type/entity_id
+router.get(
+  '/audit',
+  asyncHandler(async (req: Request, res: Response) => {
+    const entityType = req.query.entity_type;
+    const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : undefined;
+
+    if (
+      entityType !== undefined &&
+      entityType !== 'floor_plan' &&
+      entityType !== 'setting' &&
+      entityType !== 'fee' &&
+      entityType !== 'ingest_token' &&
+      entityType !== 'property' &&
+      entityType !== 'building'
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: 'entity_type must be floor_plan, setting, fee, ingest_token, property or building'
+      });
+    }
+
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 1000)) {
+      return res.status(400).json({
+        success: false,
+        error: 'limit must be between 1 and 1000'
+      });
+    }
+
+    const result = await dataService.getAuditLog({
+      entity_type: entityType,
+      entity_id: req.query.entity_id !== undefined ? String(req.query.entity_id) : undefined,
+      limit
+    });
+
+    if (!result.success) {
+      return res.status(500).json({
+        success: false,
+        error: result.error || 'Failed to fetch audit log'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { entries: result.data }
+    });
+  })
+);
+
+// POST /api/admin/audit/:id/revert - Write an audit entry's old value back
+router.post(
+  '/audit/:id/revert',
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+
+    if (isNaN(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid audit entry ID'
+      });
+    }
+
+    const result = await dataService.revertAuditEntry(id, auditContext(req));
+
+    if (!result.success) {
+      logger.error('Failed to revert audit entry', { id, error: result.error });
+      return res.status(500).json({
+        success: false,
+        error: result.error || 'Failed to revert change'
+      });
+    }
+
+    if (!result.data) {
+      return res.status(404).json({ success: false, error: 'Audit entry not found' });
+    }
+
+    if (result.data.conflict) {
+      return res.status(409).json({ success: false, error: result.data.conflict });
+    }
+
+    logger.info('Audit entry reverted via admin', { id });
+
+    return res.json({
+      success: true,
+      message: 'Change reverted successfully'
+    });
+  })
+);
+
+// GET /api/admin/fees - Recurring fee catalog (?building_id, ?floor_plan_id)
+router.get(
+  '/fees',
+  asyncHandler(async (req: Request, res: Response) => {
+    const buildingId = req.query.building_id !== undefined ? parseInt(String(req.query.building_id), 10) : undefined;
+    const floorPlanId = req.query.floor_plan_id !== undefined ? parseInt(String(req.query.floor_plan_id), 10) : undefined;
+
+    if ((buildingId !== undefined && isNaN(buildingId)) || (floorPlanId !== undefined && isNaN(floorPlanId))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid building or floor plan ID'
+      });
+    }
+
+    const result = await dataService.getRecurringFees({ building_id: buildingId, floor_plan_id: floorPlanId });
+
+    if (!result.success) {
+      return res.status(500).json({
+        success: false,
+        error: result.error || 'Failed to fetch fees'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { fees: result.data }
+    });
+  })
+);
+
+// POST /api/admin/fees - Add a building-wide or plan-specific recurring fee
+router.post(
+  '/fees',
+  validate(schemas.feeCreate, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await dataService.createRecurringFee(req.body, auditContext(req));
 
-    if (!deleteResult.success) {
-      logger.error('Failed to delete floor plan', { id, error: deleteResult.error });
+    if (!result.success) {
       return res.status(500).json({
         success: false,
-        error: deleteResult.error || 'Failed to delete floor plan'
+        error: result.error || 'Failed to create fee'
+      });
+    }
+
+    if (!result.data) {
+      return res.status(404).json({
+        success: false,
+        error: 'Building or floor plan not found'
       });
     }
 
-    logger.info('Floor plan deleted via admin', { id });
+    const fee = await dataService.getRecurringFeeById(result.data.lastID);
+    logger.info('Recurring fee created', { id: result.data.lastID });
+
+    return res.status(201).json({
+      success: true,
+      data: { fee: fee.data }
+    });
+  })
+);
+
+// PUT /api/admin/fees/:id - Update a recurring fee
+router.put(
+  '/fees/:id',
+  validate(schemas.feeUpdate, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+
+    if (isNaN(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid fee ID'
+      });
+    }
+
+    const result = await dataService.updateRecurringFee(id, req.body, auditContext(req));
+
+    if (!result.success) {
+      return res.status(500).json({
+        success: false,
+        error: result.error || 'Failed to update fee'
+      });
+    }
+
+    if (!result.data?.changes) {
+      return res.status(404).json({
+        success: false,
+        error: 'Fee not found'
+      });
+    }
+
+    const fee = await dataService.getRecurringFeeById(id);
 
     return res.json({
       success: true,
-      message: 'Floor plan deleted successfully'
+      data: { fee: fee.data }
     });
   })
 );
 
+// DELETE /api/admin/fees/:id - Remove a recurring fee
+router.delete(
+  '/fees/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+
+    if (isNaN(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid fee ID'
+      });
+    }
+
+    const result = await dataService.deleteRecurringFee(id, auditContext(req));
+
+    if (!result.success) {
+      return res.status(500).json({
+        success: false,
+        error: result.error || 'Failed to delete fee'
+      });
+    }
+
+    if (!result.data?.changes) {
+      return res.status(404).json({
+        success: false,
+        error: 'Fee not found'
+      });
+    }
+
+    logger.info('Recurring fee deleted', { id });
+
+    return res.json({
+      success: true,
+      message: 'Fee deleted successfully'
+    });
+  })
+);
+
+// GET /api/admin/retention - Current price history retention policy and the last maintenance run
+router.get(
+  '/retention',
+  asyncHandler(async (req: Request, res: Response) => {
+    const [policy, lastRun] = await Promise.all([
+      dataService.getRetentionPolicy(),
+      dataService.getSetting('last_retention_run')
+    ]);
+
+    if (!policy.success) {
+      return res.status(500).json({
+        success: false,
+        error: policy.error || 'Failed to fetch retention policy'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        policy: policy.data,
+        lastRun: lastRun.success && lastRun.data?.value ? JSON.parse(lastRun.data.value) : null
+      }
+    });
+  })
+);
+
+// PUT /api/admin/retention - Update the retention policy (applied by the scheduled maintenance job)
+router.put(
+  '/retention',
+  validate(schemas.retentionPolicy, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await dataService.updateRetentionPolicy(req.body, auditContext(req));
+
+    if (!result.success) {
+      return res.status(500).json({
+        success: false,
+        error: result.error || 'Failed to update retention policy'
+      });
+    }
+
+    logger.info('Retention policy updated', { policy: result.data });
+
+    return res.json({
+      success: true,
+      data: { policy: result.data }
+    });
+  })
+);
+
+// POST /api/admin/retention/preview - Dry run: rows the saved policy (with any body overrides) would remove
+router.post(
+  '/retention/preview',
+  validate(schemas.retentionPolicy, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await dataService.enforceRetentionPolicy({ dryRun: true, policy: req.body });
+
+    if (!result.success) {
+      return res.status(500).json({
+        success: false,
+        error: result.error || 'Failed to preview retention policy'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { report: result.data }
+    });
+  })
+);
+
+// POST /api/admin/retention/run - Apply the saved policy now
+router.post(
+  '/retention/run',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await dataService.enforceRetentionPolicy();
+
+    if (!result.success) {
+      return res.status(500).json({
+        success: false,
+        error: result.error || 'Failed to apply retention policy'
+      });
+    }
+
+    logger.info('Retention policy applied via admin', { removed: result.data?.removed });
+
+    return res.json({
+      success: true,
+      data: { report: result.data }
+    });
+  })
+);
+
+// GET /api/admin/backups - List database backups, newest first
+router.get(
+  '/backups',
+  asyncHandler(async (req: Request, res: Response) => {
+    try {
+      const backups = await backupService.listBackups();
+      return res.json({
+        success: true,
+        data: { backups }
+      });
+    } catch (err: any) {
+      logger.error('Failed to list backups', { error: err?.message || String(err) });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to list backups'
+      });
+    }
+  })
+);
+
+// POST /api/admin/backups - Create a backup now; body { gzip?: boolean } overrides BACKUP_GZIP
+router.post(
+  '/backups',
+  asyncHandler(async (req: Request, res: Response) => {
+    const gzip = req.body?.gzip;
+
+    if (gzip !== undefined && typeof gzip !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'gzip must be a boolean'
+      });
+    }
+
+    try {
+      const backup = await backupService.createBackup({ gzip });
+      logger.info('Backup created via admin', { name: backup.name });
+      return res.status(201).json({
+        success: true,
+        data: { backup }
+      });
+    } catch (err: any) {
+      logger.error('Failed to create backup', { error: err?.message || String(err) });
+      return res.status(500).json({
+        success: false,
+        error: err?.message || 'Failed to create backup'
+      });
+    }
+  })
+);
+
+// POST /api/admin/backups/:name/restore - Validate a backup with integrity_check, then swap it in
+router.post(
+  '/backups/:name/restore',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name } = req.params;
+
+    // Swapping the database out from under a scrape would fail it part-way
+    const busy = await scrapeJobRunner.isBusy();
+    if (!busy.success) {
+      return res.status(500).json({ success: false, error: busy.error || 'Failed to check scrape jobs' });
+    }
+    if (busy.data) {
+      return res.status(409).json({
+        success: false,
+        error: 'A scrape job is running or queued; restore once it has finished'
+      });
+    }
+
+    try {
+      const result = await backupService.restoreBackup(name);
+
+      if (!result) {
+        return res.status(404).json({ success: false, error: 'Backup not found' });
+      }
+
+      if (!result.restored) {
+        return res.status(422).json({
+          success: false,
+          error: `Backup failed integrity check: ${result.integrity}`
+        });
+      }
+
+      // A job that was running when the backup was taken is running no longer
+      await scrapeJobRunner.failInterrupted('Interrupted by a database restore');
+      logger.info('Database restored via admin', { name, safetyBackup: result.safetyBackup });
+
+      return res.json({
+        success: true,
+        data: { restored: name, safetyBackup: result.safetyBackup },
+        message: 'Database restored successfully'
+      });
+    } catch (err: any) {
+      logger.error('Failed to restore backup', { name, error: err?.message || String(err) });
+      return res.status(500).json({
+        success: false,
+        error: err?.message || 'Failed to restore backup'
+      });
+    }
+  })
+);
+
+// GET /api/admin/buildings/:id/selectors - Saved selector versions (newest applies), the merged
+// selectors a scrape would use, and the page snapshot available for testing
+router.get(
+  '/buildings/:id/selectors',
+  validate(schemas.buildingId, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await dataService.getBuildingSelectorSettings(Number(req.params.id));
+
+    if (!result.success) {
+      return res.status(500).json({
+        success: false,
+        error: result.error || 'Failed to fetch selector configs'
+      });
+    }
+    if (!result.data) {
+      return res.status(404).json({ success: false, error: 'Building not found' });
+    }
+
+    const { property_selectors, versions } = result.data;
+    return res.json({
+      success: true,
+      data: {
+        ...result.data,
+        effective: getBuildingSelectors(property_selectors, versions[0]?.selectors)
+      }
+    });
+  })
+);
+
+// PUT /api/admin/buildings/:id/selectors - Save the building's selectors as a new version
+router.put(
+  '/buildings/:id/selectors',
+  validate(schemas.buildingId, 'params'),
+  validate(schemas.selectorConfigSave, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const invalid = findInvalidSelectors(req.body.selectors);
+    if (invalid.length) {
+      return res.status(400).json({ success: false, error: `Invalid selectors: ${invalid.join(', ')}` });
+    }
+
+    const settings = await dataService.getBuildingSelectorSettings(id);
+    if (!settings.success) {
+      return res.status(500).json({
+        success: false,
+        error: settings.error || 'Failed to fetch selector configs'
+      });
+    }
+    if (!settings.data) {
+      return res.status(404).json({ success: false, error: 'Building not found' });
+    }
+
+    const result = await dataService.saveSelectorConfig(id, { selectors: req.body.selectors, note: req.body.note || null }, auditContext(req));
+    if (!result.success) {
+      return res.status(500).json({
+        success: false,
+        error: result.error || 'Failed to save selector config'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { config: result.data }
+    });
+  })
+);
+
+// POST /api/admin/buildings/:id/selectors/test - Preview the plans the selectors (or the current
+// ones when none are sent) find in the building's last scraped page; nothing is saved
+router.post(
+  '/buildings/:id/selectors/test',
+  validate(schemas.buildingId, 'params'),
+  validate(schemas.selectorConfigTest, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const candidate: Record<string, string[]> | undefined = req.body.selectors;
+    const invalid = candidate ? findInvalidSelectors(candidate) : [];
+    if (invalid.length) {
+      return res.status(400).json({ success: false, error: `Invalid selectors: ${invalid.join(', ')}` });
+    }
+
+    const [settings, snapshot] = await Promise.all([
+      dataService.getBuildingSelectorSettings(id),
+      dataService.getPageSnapshot(id)
+    ]);
+    if (!settings.success || !snapshot.success) {
+      return res.status(500).json({
+        success: false,
+        error: settings.error || snapshot.error || 'Failed to load page snapshot'
+      });
+    }
+    if (!settings.data) {
+      return res.status(404).json({ success: false, error: 'Building not found' });
+    }
+    if (!snapshot.data) {
+      return res.status(404).json({ success: false, error: 'No page snapshot yet; run a scrape of this building first' });
+    }
+
+    const selectors = getBuildingSelectors(settings.data.property_selectors, candidate ?? settings.data.versions[0]?.selectors);
+    const plans = previewFloorPlans(snapshot.data.html, selectors, snapshot.data.url);
+
+    return res.json({
+      success: true,
+      data: {
+        snapshot: { url: snapshot.data.url, captured_at: snapshot.data.captured_at },
+        selectors,
+        plans
+      }
+    });
+  })
+);
+
+// POST /api/admin/buildings/:id/selectors/:version/restore - Save an earlier version again as the newest
+router.post(
+  '/buildings/:id/selectors/:version/restore',
+  validate(schemas.selectorConfigVersion, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await dataService.restoreSelectorConfig(Number(req.params.id), Number(req.params.version), auditContext(req));
+
+    if (!result.success) {
+      return res.status(500).json({
+        success: false,
+        error: result.error || 'Failed to restore selector config'
+      });
+    }
+    if (!result.data) {
+      return res.status(404).json({ success: false, error: 'Selector version not found' });
+    }
+
+    return res.json({
+      success: true,
+      data: { config: result.data }
+    });
+  })
+);
+
+// GET /api/admin/failure-snapshots - Screenshots, HTML and console logs of failed scrape attempts,
+// one entry per run directory, newest first (?run_id for one scrape run)
+router.get(
+  '/failure-snapshots',
+  validate(schemas.failureSnapshotQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const runId = req.query.run_id !== undefined ? Number(req.query.run_id) : undefined;
+    try {
+      const runs = await failureSnapshotStore.list(runId ? failureRunDir(runId) : undefined);
+      return res.json({ success: true, data: { runs } });
+    } catch (err: any) {
+      logger.error('Failed to list failure snapshots', { error: err?.message || String(err) });
+      return res.status(500).json({ success: false, error: 'Failed to list failure snapshots' });
+    }
+  })
+);
+
+// GET /api/admin/failure-snapshots/:run/:file - One snapshot file (png, html, console.log or json).
+// Scraped HTML is served sandboxed so its scripts never run on this origin
+router.get(
+  '/failure-snapshots/:run/:file',
+  asyncHandler(async (req: Request, res: Response) => {
+    const file = await failureSnapshotStore.file(req.params.run, req.params.file);
+    if (!file) {
+      return res.status(404).json({ success: false, error: 'Failure snapshot not found' });
+    }
+    res.set('Content-Type', file.contentType);
+    res.set('Content-Security-Policy', 'sandbox');
+    res.set('X-Content-Type-Options', 'nosniff');
+    return res.sendFile(file.path);
+  })
+);
+
+// GET /api/admin/plan-images - The plan image manifest, newest first: file and thumbnail URLs, size,
+// the URLs or files each image came from, and how many floor plans show it
+router.get(
+  '/plan-images',
+  asyncHandler(async (_req: Request, res: Response) => {
+    const result = await dataService.getPlanImages();
+    if (!result.success) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to fetch plan images' });
+    }
+    return res.json({ success: true, data: { images: result.data } });
+  })
+);
+
+// GET /api/admin/metadata/reconciliation - Bedrooms, bathrooms and den per floor plan as each metadata
+// source reports them, with conflicts and accepted decisions (?conflicts_only=true)
+router.get(
+  '/metadata/reconciliation',
+  validate(schemas.metadataReportQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await metadataReconciliationService.report();
+    if (!result.success || !result.data) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to reconcile floor plan metadata' });
+    }
+    const conflictsOnly = String(req.query.conflicts_only) === 'true';
+    const plans = conflictsOnly ? result.data.plans.filter(p => p.conflicts > 0) : result.data.plans;
+    return res.json({ success: true, data: { ...result.data, plans } });
+  })
+);
+
+// POST /api/admin/metadata/reconciliation/:id/accept - Accept one source's value (or a typed-in one)
+// for a field of floor plan :id
+router.post(
+  '/metadata/reconciliation/:id/accept',
+  validate(schemas.floorPlanId, 'params'),
+  validate(schemas.metadataAccept, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const { field, source, value } = req.body;
+    const plan = await metadataReconciliationService.planReport(id);
+    if (!plan.success) {
+      return res.status(500).json({ success: false, error: plan.error || 'Failed to reconcile floor plan metadata' });
+    }
+    if (!plan.data) {
+      return res.status(404).json({ success: false, error: 'No metadata source mentions this floor plan' });
+    }
+
+    let choice = { field, source, value, estimated: false };
+    if (source !== 'manual') {
+      const candidate = plan.data.fields.find(f => f.field === field)?.candidates.find(c => c.source === source);
+      if (!candidate) {
+        return res.status(400).json({ success: false, error: `The ${source} source has no ${field} for ${plan.data.plan_name}` });
+      }
+      choice = { field, source, value: candidate.value, estimated: candidate.estimated };
+    }
+
+    const result = await metadataReconciliationService.accept(id, choice, auditContext(req));
+    if (!result.success) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to accept floor plan metadata' });
+    }
+    return res.json({ success: true, data: { plan: result.data } });
+  })
+);
+
+// POST /api/admin/metadata/reconciliation/apply - Apply the values every source agrees on (fields with
+// an accepted decision are left alone) and correct bathrooms_estimated
+router.post(
+  '/metadata/reconciliation/apply',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await metadataReconciliationService.applyAgreed(auditContext(req));
+    if (!result.success) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to apply floor plan metadata' });
+    }
+    return res.json({ success: true, data: result.data });
+  })
+);
+
+// GET /api/admin/ingest-tokens - Devices allowed to post userscript data to /api/ingest
+router.get(
+  '/ingest-tokens',
+  asyncHandler(async (_req: Request, res: Response) => {
+    const result = await dataService.getIngestTokens();
+    if (!result.success) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to fetch ingest tokens' });
+    }
+    return res.json({ success: true, data: { tokens: result.data } });
+  })
+);
+
+// POST /api/admin/ingest-tokens - Create a token for a device; the token is only shown in this response
+router.post(
+  '/ingest-tokens',
+  validate(schemas.ingestTokenCreate, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const audit = auditContext(req);
+    const result = await dataService.createIngestToken(String(req.body.device).trim(), audit);
+    if (!result.success || !result.data) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to create ingest token' });
+    }
+    logger.info('Ingest token created', { id: result.data.id, device: result.data.device, actor: audit.actor });
+    return res.status(201).json({ success: true, data: { token: result.data } });
+  })
+);
+
+// DELETE /api/admin/ingest-tokens/:id - Revoke a device's token
+router.delete(
+  '/ingest-tokens/:id',
+  validate(schemas.ingestTokenId, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const audit = auditContext(req);
+    const result = await dataService.revokeIngestToken(Number(req.params.id), audit);
+    if (!result.success) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to revoke ingest token' });
+    }
+    if (!result.data) {
+      return res.status(404).json({ success: false, error: 'Ingest token not found' });
+    }
+    logger.info('Ingest token revoked', { id: result.data.id, device: result.data.device, actor: audit.actor });
+    return res.json({ success: true, data: { token: result.data } });
+  })
+);
+
 export default router;
@@ -1,7 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { validate, schemas } from '../middleware/validation';
 import { asyncHandler } from '../middleware/errorHandler';
+import { auditContext } from '../middleware/audit';
 import logger from '../utils/logger';
+import { formatRows, toAlertDto } from '../utils/dto';
 import dataService from '../services/DataService';
 
 const router = Router();
@@ -18,7 +20,7 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
  res.json({
    success: true,
    data: {
-     alerts: result.data
+     alerts: formatRows(req, result.data || [], toAlertDto)
    }
  });
 }));
@@ -27,11 +29,15 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
 router.post('/settings',
  validate(schemas.alertSettings, 'body'),
  asyncHandler(async (req: Request, res: Response) => {
-   const { thresholdType, thresholdValue } = req.body as { thresholdType: 'dollar' | 'percentage'; thresholdValue: number };
+   const { thresholdType, thresholdValue, leaseTermMonths } = req.body as {
+     thresholdType: 'dollar' | 'percentage';
+     thresholdValue: number;
+     leaseTermMonths?: number | null;
+   };
 
-   logger.info('Updating alert settings', { thresholdType, thresholdValue });
+   logger.info('Updating alert settings', { thresholdType, thresholdValue, leaseTermMonths });
 
-   const update = await dataService.updateAlertSettings(thresholdType, Number(thresholdValue));
+   const update = await dataService.updateAlertSettings(thresholdType, Number(thresholdValue), leaseTermMonths, auditContext(req));
    if (!update.success) {
      return res.status(500).json({ success: false, error: update.error || 'Failed to update alert settings' });
    }
@@ -39,7 +45,11 @@ router.post('/settings',
    res.json({
      success: true,
      data: {
-       settings: { thresholdType, thresholdValue: Number(thresholdValue) }
+       settings: {
+         thresholdType,
+         thresholdValue: Number(thresholdValue),
+         ...(leaseTermMonths !== undefined ? { leaseTermMonths } : {})
+       }
      }
    });
  })
@@ -3,41 +3,54 @@ import { asyncHandler } from '../middleware/errorHandler';
 import logger from '../utils/logger';
 import { ScraperService } from '../services/ScraperService';
 import dataService from '../services/DataService';
-import { scraperConfig, secureCafeUrl } from '../config/scraper';
+import { DEFAULT_PROPERTY_SLUG } from '../config/scraper';
+import { FloorPlan } from '../../shared/types/database';
 
 const router = Router();
 const scraper = new ScraperService();
 
-const DEFAULT_URL = secureCafeUrl;
-
-// GET /api/availability?wings=A,B,C (optional)
+// GET /api/availability?property=slug&wings=A,B,C (both optional)
 // Behavior:
 // - Return cached DB-derived availability if any exists (no scraping)
 // - If DB is empty (first-time), perform a single bootstrap scrape
-// - Wings parameter filters results; omit to get all wings
+// - property selects whose SecureCafe page to use; omit for the default property
+// - Wings parameter filters results; omit to use the property's wings. Other wings are scraped for
+//   this response only, never cached or saved
 router.get(
   '/',
   asyncHandler(async (req: Request, res: Response) => {
+    const slug = (req.query.property as string) || DEFAULT_PROPERTY_SLUG;
+    const target = (await dataService.getScrapeTargets()).find(t => t.slug === slug);
+    if (!target) {
+      return res.status(404).json({ success: false, error: 'Property not found' });
+    }
+    const buildingNames = target.buildings.map(b => b.name);
+    const secureCafeUrl = target.secureCafeUrl;
+
     const wingsQuery = (req.query.wings as string) || '';
-    const wings = (wingsQuery ? wingsQuery.split(',') : scraperConfig.defaultWings)
+    const wings = (wingsQuery ? wingsQuery.split(',') : target.wings)
       .map((w) => w.trim().toUpperCase())
       .filter(Boolean);
+    // Only a scrape of the property's own wings is cached and saved: units of other wings are missing
+    // from a narrower scrape and would otherwise be marked leased
+    const propertyWings = [...target.wings].sort().join(',');
+    const usesPropertyWings = [...wings].sort().join(',') === propertyWings;
 
     // Try cache from DB first (Available Now) + SecureCafe availability (with 24h freshness)
     try {
       const fpsRes = await dataService.getAllFloorPlans({ available_only: true });
       if (fpsRes.success) {
-        const fps = (fpsRes.data as any[]) || [];
+        const fps = (fpsRes.data || []).filter(fp => buildingNames.includes(String(fp.building_name)));
         if (fps.length > 0) {
           const availableNow = fps.map(fp => ({ name: String(fp.name) }));
           const lastSetting = await dataService.getSetting('last_collection_time');
           const scrapedAtDb =
-            (lastSetting.success && (lastSetting.data as any)?.value)
-              ? String((lastSetting.data as any).value)
+            (lastSetting.success && lastSetting.data?.value)
+              ? String(lastSetting.data.value)
               : new Date().toISOString();
 
           // Load SecureCafe cache
-          const cache = await dataService.getSecureCafeAvailabilityCache();
+          const cache = await dataService.getSecureCafeAvailabilityCache(slug);
           const now = Date.now();
           const cacheTimeMs = cache.time ? Date.parse(cache.time) : 0;
           const isFresh = cacheTimeMs > 0 && (now - cacheTimeMs) <= 24 * 60 * 60 * 1000;
@@ -47,15 +60,15 @@ router.get(
           // If no cache or stale (>24h), scrape now and cache it
           if (!scData) {
             try {
-              const wingsQuery = (req.query.wings as string) || '';
-              const wings = (wingsQuery ? wingsQuery.split(',') : scraperConfig.defaultWings)
-                .map((w) => w.trim().toUpperCase())
-                .filter(Boolean);
-              logger.info('Refreshing SecureCafe availability cache', { wings, url: DEFAULT_URL });
-              scData = await scraper.scrapeSecureCafeAvailability(DEFAULT_URL, wings);
-              await dataService.setSecureCafeAvailabilityCache(scData, scData?.scrapedAt || new Date().toISOString());
+              logger.info('Refreshing availability cache', { property: slug, wings, url: secureCafeUrl });
+              scData = await scraper.scrapeAvailability(target, wings);
+              if (scData && usesPropertyWings) {
+                await dataService.setSecureCafeAvailabilityCache(scData, scData.scrapedAt || new Date().toISOString(), slug);
+                await dataService.persistSecureCafeUnits(scData.availableSoonUnits || [], scData.scrapedAt);
+                await dataService.persistLeaseTermQuotes(scData.leaseTermQuotes || [], scData.scrapedAt);
+              }
             } catch (err: any) {
-              logger.warn('SecureCafe scrape for cache failed; proceeding with DB-only', { error: err?.message || String(err) });
+              logger.warn('Availability scrape for cache failed; proceeding with DB-only', { error: err?.message || String(err) });
               scData = null;
             }
           }
@@ -66,10 +79,10 @@ router.get(
           if (scData?.availableSoonUnits && Array.isArray(scData.availableSoonUnits)) {
             // Get all floor plans for lookup
             const allFpsRes = await dataService.getAllFloorPlans({});
-            const floorPlanMap = new Map<string, any>();
+            const floorPlanMap = new Map<string, FloorPlan>();
             
             if (allFpsRes.success && allFpsRes.data) {
-              for (const fp of allFpsRes.data as any[]) {
+              for (const fp of allFpsRes.data) {
                 // Strip asterisks from plan name for matching
                 const planName = fp.name.replace(/^PLAN\s+/i, '').replace(/\*+$/, '');
                 const key = `PLAN ${planName}|${fp.building_name || ''}`.toUpperCase();
@@ -112,8 +125,11 @@ router.get(
     }
 
     // DB empty — bootstrap scrape once
-    logger.info('Fetching availability (bootstrap scrape)', { wings, url: DEFAULT_URL });
-    const data = await scraper.scrapeSecureCafeAvailability(DEFAULT_URL, wings);
+    logger.info('Fetching availability (bootstrap scrape)', { property: slug, wings, url: secureCafeUrl });
+    const data = await scraper.scrapeAvailability(target, wings);
+    if (!data) {
+      return res.json({ success: true, data: { availableNow: [], availableSoonUnits: [], scrapedAt: null, source: 'none' } });
+    }
     const { availableNextMonth: _drop, ...rest } = (data as any) || {};
     return res.json({
       success: true,
@@ -5,10 +5,10 @@ import exportService from '../services/ExportService';
 
 const router = Router();
 
-// GET /api/export/csv - Export data as CSV
+// GET /api/export/csv - Export data as CSV (?basis=total adds fee and total monthly cost columns)
 router.get('/csv', asyncHandler(async (req: Request, res: Response) => {
- const { start, end, limit } = req.query;
- logger.info('Exporting data as CSV', { start, end, limit });
+ const { start, end, limit, basis } = req.query;
+ logger.info('Exporting data as CSV', { start, end, limit, basis });
 
  const startStr = typeof start === 'string' ? start : undefined;
  const endStr = typeof end === 'string' ? end : undefined;
@@ -19,7 +19,8 @@ router.get('/csv', asyncHandler(async (req: Request, res: Response) => {
    end: endStr,
    limit: limitNum,
    filenamePrefix: 'price_history',
-   includeHeader: true
+   includeHeader: true,
+   basis: basis === 'total' ? 'total' : 'rent'
  });
 }));
 
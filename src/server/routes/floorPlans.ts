@@ -2,22 +2,25 @@ import { Router, Request, Response } from 'express';
 import { validate, schemas } from '../middleware/validation';
 import { asyncHandler } from '../middleware/errorHandler';
 import logger from '../utils/logger';
+import { formatRows, snakifyKeys, toFloorPlanDto, toPriceHistoryDto, isLegacyFormat } from '../utils/dto';
 import dataService from '../services/DataService';
 
 const router = Router();
 
-// GET /api/floorplans - Get all floor plans with latest data
+// GET /api/floorplans - Get all floor plans with latest data (archived plans only with include_archived)
+// Filters may be given in either case (building_id or buildingId)
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
  logger.info('Fetching all floor plans');
 
- const { building_id, bedrooms, bathrooms, has_den, available_only } = req.query;
+ const { building_id, bedrooms, bathrooms, has_den, available_only, include_archived } = snakifyKeys(req.query);
 
  const query: any = {
    building_id: building_id !== undefined ? Number(building_id) : undefined,
    bedrooms: bedrooms !== undefined ? Number(bedrooms) : undefined,
    bathrooms: bathrooms !== undefined ? Number(bathrooms) : undefined,
    has_den: has_den !== undefined ? (has_den === 'true' || has_den === '1') : undefined,
-   available_only: available_only !== undefined ? (available_only === 'true' || available_only === '1') : undefined
+   available_only: available_only !== undefined ? (available_only === 'true' || available_only === '1') : undefined,
+   include_archived: include_archived !== undefined ? (include_archived === 'true' || include_archived === '1') : undefined
  };
 
  const result = await dataService.getAllFloorPlans(query);
@@ -28,7 +31,7 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
  res.json({
    success: true,
    data: {
-     floorPlans: result.data
+     floorPlans: formatRows(req, result.data || [], toFloorPlanDto)
    }
  });
 }));
@@ -52,7 +55,7 @@ router.get('/:id',
    res.json({
      success: true,
      data: {
-       floorPlan: result.data
+       floorPlan: isLegacyFormat(req) ? result.data : toFloorPlanDto(result.data)
      }
    });
  })
@@ -61,7 +64,7 @@ router.get('/:id',
 // GET /api/floorplans/:id/history - Get price history for floor plan
 router.get('/:id/history',
  validate(schemas.floorPlanId, 'params'),
- validate(schemas.dateRange, 'query'),
+ validate(schemas.mappedDateRange, 'query'),
  asyncHandler(async (req: Request, res: Response) => {
    const { id } = req.params;
    const { start, end, limit } = req.query;
@@ -85,7 +88,40 @@ router.get('/:id/history',
    res.json({
      success: true,
      data: {
-       history: result.data
+       history: formatRows(req, result.data || [], toPriceHistoryDto)
+     }
+   });
+ })
+);
+
+// GET /api/floorplans/:id/observations - Raw intraday price observations for floor plan
+router.get('/:id/observations',
+ validate(schemas.floorPlanId, 'params'),
+ validate(schemas.dateRange, 'query'),
+ asyncHandler(async (req: Request, res: Response) => {
+   const { id } = req.params;
+   const { start, end, limit } = req.query;
+
+   logger.info('Fetching floor plan price observations', {
+     floorPlanId: id,
+     start,
+     end,
+     limit
+   });
+
+   const startStr = typeof start === 'string' ? start : undefined;
+   const endStr = typeof end === 'string' ? end : undefined;
+   const limitNum = typeof limit === 'string' ? Number(limit) : (typeof limit === 'number' ? limit : undefined);
+
+   const result = await dataService.getPriceObservations(Number(id), startStr, endStr, limitNum);
+   if (!result.success) {
+     return res.status(500).json({ success: false, error: result.error || 'Failed to fetch price observations' });
+   }
+
+   res.json({
+     success: true,
+     data: {
+       observations: result.data
      }
    });
  })
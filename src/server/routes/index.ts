@@ -8,6 +8,10 @@ import availabilityRouter from './availability';
 import scraperRouter from './scraper';
 import settingsRouter from './settings';
 import adminRouter from './admin';
+import unitsRouter from './units';
+import propertiesRouter from './properties';
+import jobsRouter from './jobs';
+import ingestRouter from './ingest';
 
 const router = Router();
 
@@ -21,5 +25,9 @@ router.use('/availability', availabilityRouter);
 router.use('/scraper', scraperRouter);
 router.use('/settings', settingsRouter);
 router.use('/admin', adminRouter);
+router.use('/units', unitsRouter);
+router.use('/properties', propertiesRouter);
+router.use('/jobs', jobsRouter);
+router.use('/ingest', ingestRouter);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { Router, Request, Response } from 'express';
+import { validate, schemas } from '../middleware/validation';
+import { asyncHandler } from '../middleware/errorHandler';
+import { requireIngestToken } from '../middleware/ingestAuth';
+import logger from '../utils/logger';
+import dataService from '../services/DataService';
+import type { IngestToken } from '../database';
+import { applyFloorPlanRules, ScrapedFloorPlan, SecureCafeUnit } from '../services/sources/SourceAdapter';
+
+const router = Router();
+
+// Data posted by browser userscripts (tampermonkey-ingest.js) from a device with an ingest token.
+// It is persisted exactly like a scrape (same availability and wing rules), with observations
+// tagged source 'ingest'.
+router.use(requireIngestToken);
+
+// The validated collectedAt, capped at the server's clock (a device's may run a little fast)
+const collectedAtOf = (req: Request): Date | undefined =>
+  req.body.collectedAt ? new Date(Math.min(new Date(req.body.collectedAt).getTime(), Date.now())) : undefined;
+
+// POST /api/ingest/floorplans - Floor plans and prices read off one building's page
+router.post('/floorplans',
+  validate(schemas.ingestFloorPlans, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const device = (res.locals.ingestToken as IngestToken).device;
+    const building = await dataService.getBuildingByName(req.body.building);
+    if (!building.success) {
+      return res.status(500).json({ success: false, error: building.error || 'Failed to look up building' });
+    }
+    if (!building.data) {
+      return res.status(404).json({ success: false, error: `Unknown building: ${req.body.building}` });
+    }
+
+    const wings = await dataService.getBuildingWings(building.data);
+    if (!wings.success) {
+      return res.status(500).json({ success: false, error: wings.error || 'Failed to look up wings' });
+    }
+
+    const { kept } = applyFloorPlanRules(req.body.floorPlans.map((fp: ScrapedFloorPlan) => ({
+      ...fp,
+      squareFootage: fp.squareFootage ?? 0,
+      buildingPosition: fp.buildingPosition ?? ''
+    })), wings.data!);
+    const filtered = req.body.floorPlans.length - kept.length;
+    const collectedAt = collectedAtOf(req);
+    const stats = kept.length
+      ? await dataService.persistScrapedFloorPlans(
+        { name: building.data.name, url: building.data.url },
+        kept,
+        collectedAt,
+        'ingest'
+      )
+      : { buildingId: building.data.id, upserted: 0, priced: 0 };
+    logger.info('Ingested floor plans', { device, building: building.data.name, ...stats, filtered });
+
+    res.json({ success: true, data: { building: building.data.name, ...stats, filtered } });
+  })
+);
+
+// POST /api/ingest/units - SecureCafe units; when the payload says it is complete, units of a listed
+// building that are missing from it are marked leased, as after a scrape
+router.post('/units',
+  validate(schemas.ingestUnits, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const device = (res.locals.ingestToken as IngestToken).device;
+    const units: SecureCafeUnit[] = req.body.units;
+    const collectedAt = collectedAtOf(req);
+    const stats = await dataService.persistSecureCafeUnits(units, collectedAt, 'ingest', req.body.complete === true);
+    const skipped = units.length - stats.upserted;
+    logger.info('Ingested units', { device, ...stats, skipped });
+
+    res.json({ success: true, data: { ...stats, skipped } });
+  })
+);
+
+export default router;
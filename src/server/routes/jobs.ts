@@ -0,0 +1,105 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { auditContext } from '../middleware/audit';
+import { validate, schemas } from '../middleware/validation';
+import dataService from '../services/DataService';
+import scrapeJobRunner, { FINISHED_JOB_STATUSES, ScrapeJobProgress } from '../services/ScrapeJobRunner';
+import type { ScrapeJob, ScrapeJobStatus } from '../../shared/types/database';
+
+const router = Router();
+
+// GET /api/jobs - scrape jobs, newest first (?status, ?limit); status=queued lists the queue in run order
+router.get(
+  '/',
+  validate(schemas.scrapeJobsQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { status, limit } = req.query;
+    const result = await dataService.getScrapeJobs({
+      status: status as ScrapeJobStatus | undefined,
+      limit: limit !== undefined ? Number(limit) : undefined
+    });
+    if (!result.success) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to fetch scrape jobs' });
+    }
+    res.json({ success: true, data: { jobs: result.data, activeJobId: scrapeJobRunner.getActiveJobId() } });
+  })
+);
+
+// GET /api/jobs/:id - one job with its progress and, once started, its scrape run
+router.get(
+  '/:id',
+  validate(schemas.scrapeJobId, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const job = await dataService.getScrapeJob(Number(req.params.id));
+    if (!job.success) {
+      return res.status(500).json({ success: false, error: job.error || 'Failed to fetch scrape job' });
+    }
+    if (!job.data) {
+      return res.status(404).json({ success: false, error: 'Scrape job not found' });
+    }
+    const run = job.data.run_id ? await dataService.getScrapeRun(job.data.run_id) : null;
+    res.json({ success: true, data: { job: job.data, run: run?.data ?? null } });
+  })
+);
+
+// GET /api/jobs/:id/events - server-sent events: 'job' on every status change, 'progress' after each
+// building; the stream ends when the job finishes
+router.get(
+  '/:id/events',
+  validate(schemas.scrapeJobId, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const jobId = Number(req.params.id);
+    const job = await dataService.getScrapeJob(jobId);
+    if (!job.success) {
+      return res.status(500).json({ success: false, error: job.error || 'Failed to fetch scrape job' });
+    }
+    if (!job.data) {
+      return res.status(404).json({ success: false, error: 'Scrape job not found' });
+    }
+
+    res.set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.flushHeaders();
+    const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    const onProgress = (progress: ScrapeJobProgress) => {
+      if (progress.jobId === jobId) send('progress', progress);
+    };
+    const onJob = (changed: ScrapeJob) => {
+      if (changed.id !== jobId) return;
+      send('job', changed);
+      if (FINISHED_JOB_STATUSES.includes(changed.status)) close();
+    };
+    const close = () => {
+      scrapeJobRunner.off('progress', onProgress);
+      scrapeJobRunner.off('job', onJob);
+      res.end();
+    };
+
+    send('job', job.data);
+    if (FINISHED_JOB_STATUSES.includes(job.data.status)) return res.end();
+    scrapeJobRunner.on('progress', onProgress);
+    scrapeJobRunner.on('job', onJob);
+    req.on('close', close);
+  })
+);
+
+// POST /api/jobs/:id/cancel - cancel a queued job, or stop a running one once its current building is done
+router.post(
+  '/:id/cancel',
+  validate(schemas.scrapeJobId, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await scrapeJobRunner.cancel(Number(req.params.id), auditContext(req).actor);
+    if (!result.success) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to cancel scrape job' });
+    }
+    if (!result.data) {
+      return res.status(404).json({ success: false, error: 'Scrape job not found' });
+    }
+    if (!result.data.cancel_requested) {
+      return res.status(409).json({ success: false, error: `Scrape job already ${result.data.status}` });
+    }
+    res.json({ success: true, data: { job: result.data } });
+  })
+);
+
+export default router;
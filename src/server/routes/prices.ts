@@ -21,6 +21,28 @@ router.get('/latest', asyncHandler(async (req: Request, res: Response) => {
  });
 }));
 
+// GET /api/prices/terms - Latest lease-term quotes per floor plan with the cheapest term
+router.get('/terms',
+ validate(schemas.leaseTermQuery, 'query'),
+ asyncHandler(async (req: Request, res: Response) => {
+   const { floor_plan_id } = req.query;
+
+   logger.info('Fetching lease-term pricing', { floor_plan_id });
+
+   const result = await dataService.getLeaseTermPricing(floor_plan_id !== undefined ? Number(floor_plan_id) : undefined);
+   if (!result.success) {
+     return res.status(500).json({ success: false, error: result.error || 'Failed to fetch lease-term pricing' });
+   }
+
+   res.json({
+     success: true,
+     data: {
+       terms: result.data
+     }
+   });
+ })
+);
+
 // GET /api/prices/history - Get price history range
 router.get('/history',
  validate(schemas.dateRange, 'query'),
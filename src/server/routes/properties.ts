@@ -0,0 +1,229 @@
+import { Router, Request, Response } from 'express';
+import { validate, schemas } from '../middleware/validation';
+import { asyncHandler } from '../middleware/errorHandler';
+import { auditContext } from '../middleware/audit';
+import logger from '../utils/logger';
+import dataService from '../services/DataService';
+import { CreatePropertyInput, UpdatePropertyInput, CreateBuildingInput, Property } from '../database';
+
+const router = Router();
+
+// SQLite reports name/slug collisions as UNIQUE constraint failures
+const isUniqueViolation = (error?: string) => !!error && error.includes('UNIQUE');
+
+// GET /api/properties - List properties with their buildings
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  logger.info('Fetching properties');
+
+  const result = await dataService.getProperties();
+  if (!result.success) {
+    return res.status(500).json({ success: false, error: result.error || 'Failed to fetch properties' });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      properties: result.data
+    }
+  });
+}));
+
+// GET /api/properties/:id - Get one property
+router.get('/:id',
+  validate(schemas.propertyId, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    logger.info('Fetching property', { propertyId: id });
+
+    const result = await dataService.getPropertyById(Number(id));
+    if (!result.success) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to fetch property' });
+    }
+    if (!result.data) {
+      return res.status(404).json({ success: false, error: 'Property not found' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        property: result.data
+      }
+    });
+  })
+);
+
+// POST /api/properties - Create a property
+router.post('/',
+  validate(schemas.propertyCreate, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const input = req.body as CreatePropertyInput;
+    logger.info('Creating property', { name: input.name, slug: input.slug });
+
+    const result = await dataService.createProperty(input, auditContext(req));
+    if (!result.success) {
+      if (isUniqueViolation(result.error)) {
+        return res.status(409).json({ success: false, error: 'A property with that name or slug already exists' });
+      }
+      return res.status(500).json({ success: false, error: result.error || 'Failed to create property' });
+    }
+
+    const created = await dataService.getPropertyById(result.data!.lastID);
+    res.status(201).json({
+      success: true,
+      data: {
+        property: created.data
+      }
+    });
+  })
+);
+
+// PUT /api/properties/:id - Update a property's name, slug, SecureCafe URL, wings, selectors or active flag
+router.put('/:id',
+  validate(schemas.propertyId, 'params'),
+  validate(schemas.propertyUpdate, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const input = req.body as UpdatePropertyInput;
+    logger.info('Updating property', { propertyId: id, fields: Object.keys(input) });
+
+    const result = await dataService.updateProperty(Number(id), input, auditContext(req));
+    if (!result.success) {
+      if (isUniqueViolation(result.error)) {
+        return res.status(409).json({ success: false, error: 'A property with that name or slug already exists' });
+      }
+      return res.status(500).json({ success: false, error: result.error || 'Failed to update property' });
+    }
+    if (!result.data?.changes) {
+      return res.status(404).json({ success: false, error: 'Property not found' });
+    }
+
+    const updated = await dataService.getPropertyById(Number(id));
+    res.json({
+      success: true,
+      data: {
+        property: updated.data
+      }
+    });
+  })
+);
+
+// DELETE /api/properties/:id - Delete a property that no longer owns buildings
+// (deactivate with PUT is_active=false to stop scraping but keep its history)
+router.delete('/:id',
+  validate(schemas.propertyId, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    logger.info('Deleting property', { propertyId: id });
+
+    const existing = await dataService.getPropertyById(Number(id));
+    if (!existing.success) {
+      return res.status(500).json({ success: false, error: existing.error || 'Failed to fetch property' });
+    }
+    if (!existing.data) {
+      return res.status(404).json({ success: false, error: 'Property not found' });
+    }
+    if ((existing.data as Property).buildings?.length) {
+      return res.status(409).json({
+        success: false,
+        error: 'Property still owns buildings; move or detach them with PUT /api/properties/:id/buildings/:buildingId, or deactivate it instead'
+      });
+    }
+
+    const result = await dataService.deleteProperty(Number(id), auditContext(req));
+    if (!result.success) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to delete property' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        propertyId: Number(id),
+        deleted: true
+      }
+    });
+  })
+);
+
+// POST /api/properties/:id/buildings - Add a building to a property
+router.post('/:id/buildings',
+  validate(schemas.propertyId, 'params'),
+  validate(schemas.propertyBuilding, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const input = req.body as CreateBuildingInput;
+    logger.info('Adding building to property', { propertyId: id, name: input.name });
+
+    const existing = await dataService.getPropertyById(Number(id));
+    if (!existing.success) {
+      return res.status(500).json({ success: false, error: existing.error || 'Failed to fetch property' });
+    }
+    if (!existing.data) {
+      return res.status(404).json({ success: false, error: 'Property not found' });
+    }
+
+    const result = await dataService.addBuildingToProperty(Number(id), input, auditContext(req));
+    if (!result.success) {
+      if (isUniqueViolation(result.error)) {
+        return res.status(409).json({ success: false, error: 'A building with that name already exists' });
+      }
+      return res.status(500).json({ success: false, error: result.error || 'Failed to add building' });
+    }
+
+    const updated = await dataService.getPropertyById(Number(id));
+    res.status(201).json({
+      success: true,
+      data: {
+        property: updated.data
+      }
+    });
+  })
+);
+
+// PUT /api/properties/:id/buildings/:buildingId - Move a building to another property ({ property_id }),
+// or detach it ({ property_id: null }); floor plans and history stay with the building, and a detached
+// building is no longer scraped
+router.put('/:id/buildings/:buildingId',
+  validate(schemas.propertyBuildingId, 'params'),
+  validate(schemas.propertyBuildingMove, 'body'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const buildingId = Number(req.params.buildingId);
+    const targetId: number | null = req.body.property_id;
+    logger.info('Moving building', { propertyId: id, buildingId, targetPropertyId: targetId });
+
+    const existing = await dataService.getPropertyById(id);
+    if (!existing.success) {
+      return res.status(500).json({ success: false, error: existing.error || 'Failed to fetch property' });
+    }
+    if (!(existing.data as Property | null)?.buildings?.some(b => b.id === buildingId)) {
+      return res.status(404).json({ success: false, error: 'Building not found in this property' });
+    }
+
+    if (targetId !== null) {
+      const target = await dataService.getPropertyById(targetId);
+      if (!target.success) {
+        return res.status(500).json({ success: false, error: target.error || 'Failed to fetch property' });
+      }
+      if (!target.data) {
+        return res.status(404).json({ success: false, error: 'Target property not found' });
+      }
+    }
+
+    const result = await dataService.moveBuilding(buildingId, targetId, auditContext(req));
+    if (!result.success) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to move building' });
+    }
+
+    const updated = await dataService.getPropertyById(id);
+    res.json({
+      success: true,
+      data: {
+        property: updated.data,
+        buildingId,
+        propertyId: targetId
+      }
+    });
+  })
+);
+
+export default router;
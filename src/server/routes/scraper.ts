@@ -1,124 +1,82 @@
 import { Router, Request, Response } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
+import { validate, schemas } from '../middleware/validation';
 import logger from '../utils/logger';
-import { getEnabledBuildings, scraperConfig, secureCafeUrl } from '../config/scraper';
+import { auditContext } from '../middleware/audit';
 import dataService from '../services/DataService';
-import { ScraperService } from '../services/ScraperService';
+import scrapeJobRunner from '../services/ScrapeJobRunner';
+import type { ScrapeRunStatus, ScrapeTrigger } from '../../shared/types/database';
 
 const router = Router();
 
-// Simple in-memory flag to prevent overlapping runs
-let running = false;
-
-// Local wing filter (mirrors ScraperService private regex)
-function filterByWings<T extends { name: string }>(items: T[], wings: string[]): T[] {
-  if (!wings || wings.length === 0) return items;
-  const wingSet = new Set(wings.map(w => w.trim().toUpperCase()));
-  return items.filter(item => {
-    const m = (item.name || '').toUpperCase().match(/\b([A-Z])[ -]?\d+\b/);
-    const wing = m ? m[1] : undefined;
-    return wing ? wingSet.has(wing) : false;
-  });
-}
-
-// POST /api/scraper/run - Run full scrape now (Fairview + Boren), filter by configured wings, persist
+// POST /api/scraper/run - queue a full scrape (every active property); 202 with the job, whose progress
+// is at GET /api/jobs/:id. A scrape already waiting in the queue is returned instead of queuing another
 router.post(
   '/run',
   asyncHandler(async (req: Request, res: Response) => {
-    if (running) {
-      return res.status(429).json({ success: false, message: 'Scrape already in progress' });
+    const queued = await scrapeJobRunner.enqueue('manual', auditContext(req).actor);
+    if (!queued.success || !queued.data) {
+      logger.error('Manual scrape could not be queued', { error: queued.error });
+      return res.status(500).json({ success: false, error: queued.error || 'Failed to queue scrape' });
     }
+    res.status(202).json({ success: true, data: { job: queued.data } });
+  })
+);
 
-    running = true;
-    const startedAt = new Date();
-    const wings: string[] = scraperConfig.defaultWings;
-    const buildings = getEnabledBuildings();
-    const scraper = new ScraperService();
-
-    const perBuilding: Array<{
-      name: string;
-      url: string;
-      scraped: number;
-      filtered: number;
-      persisted: { buildingId: number; upserted: number; priced: number } | null;
-      errors: string[];
-    }> = [];
-
-    try {
-      for (const b of buildings) {
-        logger.info('Manual scrape run: starting building', { building: b.name, url: b.url, wings });
-
-        const result = await scraper.scrapeBuilding({ name: b.name, url: b.url } as any);
-        let plans = result.floorPlans.slice();
-
-        // Business rule: missing price means not available
-        plans = plans.map(p => ({ ...p, isAvailable: Number(p.price) > 0 }));
-
-        // Filter by configured wings (if any specified)
-        const filtered = filterByWings(plans, wings);
-
-        let persisted: { buildingId: number; upserted: number; priced: number } | null = null;
-        if (filtered.length) {
-          persisted = await dataService.persistScrapedFloorPlans(
-            { name: b.name, url: b.url },
-            filtered,
-            result.timestamp
-          );
-        }
-
-        perBuilding.push({
-          name: b.name,
-          url: b.url,
-          scraped: plans.length,
-          filtered: filtered.length,
-          persisted: persisted,
-          errors: result.errors
-        });
-
-        logger.info('Manual scrape run: building complete', {
-          building: b.name,
-          scraped: plans.length,
-          filtered: filtered.length,
-          persisted
-        });
-      }
+// GET /api/scraper/health - recent scrape health checks, newest first (flagged=true for drifted runs only)
+router.get(
+  '/health',
+  validate(schemas.scrapeHealthQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { building_id, flagged, limit } = req.query;
+    const result = await dataService.getScrapeHealthChecks({
+      buildingId: building_id !== undefined ? Number(building_id) : undefined,
+      flaggedOnly: flagged === 'true',
+      limit: limit !== undefined ? Number(limit) : undefined
+    });
+    if (!result.success) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to fetch scrape health checks' });
+    }
+    res.json({ success: true, data: { checks: result.data } });
+  })
+);
 
-      // Refresh SecureCafe availability cache as part of manual run
-      try {
-        const scData = await scraper.scrapeSecureCafeAvailability(secureCafeUrl, wings);
-        await dataService.setSecureCafeAvailabilityCache(
-          scData,
-          scData?.scrapedAt || new Date().toISOString()
-        );
-        logger.info('SecureCafe availability cache refreshed (manual run)', {
-          nextMonth: (scData?.availableNextMonth || []).length,
-          availableSoonUnits: (scData?.availableSoonUnits || []).length
-        });
-      } catch (err: any) {
-        logger.warn('SecureCafe cache refresh failed during manual run', { error: err?.message || String(err) });
-      }
+// GET /api/scraper/runs - scrape run history, newest first (?limit, ?offset, ?trigger=scheduler|manual, ?status)
+router.get(
+  '/runs',
+  validate(schemas.scrapeRunsQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { trigger, status, limit, offset } = req.query;
+    const query = {
+      trigger_type: trigger as ScrapeTrigger | undefined,
+      status: status as ScrapeRunStatus | undefined,
+      limit: limit !== undefined ? Number(limit) : 20,
+      offset: offset !== undefined ? Number(offset) : 0
+    };
+    const result = await dataService.getScrapeRuns(query);
+    if (!result.success || !result.data) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to fetch scrape runs' });
+    }
+    res.json({
+      success: true,
+      data: { runs: result.data.runs, total: result.data.total, limit: query.limit, offset: query.offset }
+    });
+  })
+);
 
-      const finishedAt = new Date();
-      return res.json({
-        success: true,
-        data: {
-          startedAt: startedAt.toISOString(),
-          finishedAt: finishedAt.toISOString(),
-          buildings: perBuilding,
-          totals: {
-            scraped: perBuilding.reduce((a, b) => a + b.scraped, 0),
-            filtered: perBuilding.reduce((a, b) => a + b.filtered, 0),
-            upserted: perBuilding.reduce((a, b) => a + (b.persisted?.upserted || 0), 0),
-            priced: perBuilding.reduce((a, b) => a + (b.persisted?.priced || 0), 0)
-          }
-        }
-      });
-    } catch (err: any) {
-      logger.error('Manual scrape run failed', { error: err?.message || String(err) });
-      return res.status(500).json({ success: false, error: 'Manual scrape failed' });
-    } finally {
-      running = false;
+// GET /api/scraper/runs/:id - one run with each building's counts, retries and errors
+router.get(
+  '/runs/:id',
+  validate(schemas.scrapeRunId, 'params'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await dataService.getScrapeRun(Number(req.params.id));
+    if (!result.success) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to fetch scrape run' });
+    }
+    if (!result.data) {
+      return res.status(404).json({ success: false, error: 'Scrape run not found' });
     }
+    res.json({ success: true, data: { run: result.data } });
   })
 );
 
@@ -2,6 +2,8 @@ import { Router, Request, Response } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
 import logger from '../utils/logger';
 import dataService from '../services/DataService';
+import robotsService from '../services/RobotsService';
+import { scraperConfig } from '../config/scraper';
 
 const router = Router();
 
@@ -42,7 +44,14 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
    },
    scraper: {
      lastRun: settingsMap.get('last_collection_time') || null,
-     status: 'pending'
+     status: 'pending',
+     // Policies are fetched on first scrape of each host and cached
+     robots: {
+       respected: scraperConfig.respectRobotsTxt,
+       userAgent: scraperConfig.userAgent,
+       crawlDelayMs: scraperConfig.crawlDelayMs,
+       hosts: robotsService.getPolicies()
+     }
    }
  };
 
@@ -54,6 +63,15 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
 
 export default router;
 
+// GET /api/status/migrations - applied and pending migrations, with checksum verification (read-only)
+router.get('/migrations', asyncHandler(async (req: Request, res: Response) => {
+  const result = await dataService.getMigrationStatus();
+  if (!result.success) {
+    return res.status(500).json({ success: false, error: result.error || 'Failed to read migration status' });
+  }
+  res.json({ success: true, data: result.data });
+}));
+
 // Scheduler status and controls
 // GET /api/status/scheduler - current scheduler status
 router.get('/scheduler', asyncHandler(async (req: Request, res: Response) => {
@@ -0,0 +1,70 @@
+import { Router, Request, Response } from 'express';
+import { validate, schemas } from '../middleware/validation';
+import { asyncHandler } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import dataService from '../services/DataService';
+import { UnitQuery } from '../database';
+
+const router = Router();
+
+// GET /api/units - List tracked units (optionally by building, floor plan or status)
+router.get('/',
+  validate(schemas.unitQuery, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { building_id, floor_plan_id, status } = req.query;
+    logger.info('Fetching units', { building_id, floor_plan_id, status });
+
+    const query: UnitQuery = {
+      building_id: building_id !== undefined ? Number(building_id) : undefined,
+      floor_plan_id: floor_plan_id !== undefined ? Number(floor_plan_id) : undefined,
+      status: typeof status === 'string' ? (status as UnitQuery['status']) : undefined
+    };
+
+    const result = await dataService.getUnits(query);
+    if (!result.success) {
+      return res.status(500).json({ success: false, error: result.error || 'Failed to fetch units' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        units: result.data
+      }
+    });
+  })
+);
+
+// GET /api/units/:id/history - Rent and move-in date observations for a unit
+router.get('/:id/history',
+  validate(schemas.unitId, 'params'),
+  validate(schemas.dateRange, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { limit } = req.query;
+    logger.info('Fetching unit history', { unitId: id, limit });
+
+    const unit = await dataService.getUnitById(Number(id));
+    if (!unit.success) {
+      return res.status(500).json({ success: false, error: unit.error || 'Failed to fetch unit' });
+    }
+    if (!unit.data) {
+      return res.status(404).json({ success: false, error: 'Unit not found' });
+    }
+
+    const limitNum = typeof limit === 'string' ? Number(limit) : undefined;
+    const history = await dataService.getUnitHistory(Number(id), limitNum);
+    if (!history.success) {
+      return res.status(500).json({ success: false, error: history.error || 'Failed to fetch unit history' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        unit: unit.data,
+        history: history.data
+      }
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,57 @@
+// Database backup script for ONNISLU
+// Usage: npm run backup [-- create [--gzip] | list | rotate | restore <name>]
+import backupService from '../services/BackupService';
+import { getDatabaseConnection } from '../database';
+
+async function main() {
+  const [command = 'create', ...args] = process.argv.slice(2);
+  try {
+    switch (command) {
+      case 'create': {
+        const backup = await backupService.createBackup(args.includes('--gzip') ? { gzip: true } : {});
+        console.log(`Backup created: ${backup.name} (${backup.size} bytes)`);
+        break;
+      }
+      case 'list': {
+        const backups = await backupService.listBackups();
+        if (!backups.length) console.log('No backups found');
+        for (const b of backups) console.log(`${b.name}\t${b.size}\t${b.created_at}`);
+        break;
+      }
+      case 'rotate': {
+        const removed = await backupService.rotate();
+        console.log(`Rotation completed. Removed: ${removed.length}`);
+        break;
+      }
+      case 'restore': {
+        const name = args[0];
+        if (!name) {
+          console.error('Usage: npm run backup -- restore <name>');
+          process.exitCode = 1;
+          return;
+        }
+        const result = await backupService.restoreBackup(name);
+        if (!result) {
+          console.error(`Backup not found: ${name}`);
+          process.exitCode = 1;
+        } else if (!result.restored) {
+          console.error(`Backup failed integrity check: ${result.integrity}`);
+          process.exitCode = 1;
+        } else {
+          console.log(`Restored ${name}. Previous database saved as ${result.safetyBackup}`);
+        }
+        break;
+      }
+      default:
+        console.error(`Unknown command: ${command}. Expected create, list, rotate or restore.`);
+        process.exitCode = 1;
+    }
+  } catch (err) {
+    console.error('Backup script error:', err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  } finally {
+    await getDatabaseConnection().close();
+  }
+}
+
+main();
@@ -0,0 +1,48 @@
+// Plan image ingest script: stores every image in a folder in the plan image manifest
+// (services/PlanImageService). Files named like the old cache (<image code>-plan_a1.png) are linked
+// to that building's floor plan; --url stores an image from a URL as the scraper would.
+// Usage: npm run ingest:plans [-- <folder> (default public/plan-images)] [--url=<image url>]... [--no-thumbnails]
+import path from 'path';
+import puppeteer, { Browser } from 'puppeteer';
+import dataService from '../services/DataService';
+import { PlanImageService, browserThumbnailer } from '../services/PlanImageService';
+import { getDatabaseConnection } from '../database';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const folder = args.find(a => !a.startsWith('--')) || path.join('public', 'plan-images');
+  const urls = args.filter(a => a.startsWith('--url=')).map(a => a.slice('--url='.length));
+
+  let browser: Browser | null = null;
+  const launch = async () => {
+    browser = browser || await puppeteer.launch({
+      headless: 'new',
+      executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined,
+      args: process.platform === 'darwin' ? [] : ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
+    });
+    return browser;
+  };
+  const service = new PlanImageService(dataService, undefined, args.includes('--no-thumbnails') ? null : browserThumbnailer(launch));
+
+  try {
+    for (const url of urls) {
+      const image = await service.ingestUrl(url);
+      console.log(`${url} -> ${image.file}`);
+    }
+    if (!urls.length || args.some(a => !a.startsWith('--'))) {
+      const report = await service.ingestFolder(folder);
+      console.log(`Ingested ${report.ingested} images from ${folder} (${report.created} new), linked ${report.linked} floor plans`);
+      if (report.unmatched.length) console.log(`No floor plan named by: ${report.unmatched.join(', ')}`);
+      for (const f of report.failed) console.error(`Failed ${f.file}: ${f.error}`);
+      if (report.failed.length) process.exitCode = 1;
+    }
+  } catch (err) {
+    console.error('Plan image ingest error:', err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  } finally {
+    if (browser) await (browser as Browser).close();
+    await getDatabaseConnection().close();
+  }
+}
+
+main();
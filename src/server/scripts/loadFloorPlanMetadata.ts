@@ -1,82 +1,36 @@
-// Script to load floor plan metadata from JSON file into database
-import fs from 'fs';
-import path from 'path';
+// Script to reconcile floor plan metadata: applies the bedroom, bathroom and den values every metadata
+// source agrees on (floor-plan-metadata.json, the userscript download, updateFloorPlanMetadata.ts output),
+// corrects bathrooms_estimated, and lists the conflicts left for Admin → Metadata
 import { getDatabaseConnection } from '../database';
+import metadataReconciliationService from '../services/MetadataReconciliationService';
 import logger from '../utils/logger';
 
-interface FloorPlanMeta {
-  bedrooms: number;
-  bathrooms: number;
-  hasDen: boolean;
-}
-
-interface MetadataFile {
-  [building: string]: {
-    [planName: string]: FloorPlanMeta;
-  };
-}
-
 async function loadMetadata() {
-  const conn = getDatabaseConnection();
-  await conn.initialize();
-
-  // Load JSON file
-  const jsonPath = path.join(__dirname, '../data/floor-plan-metadata.json');
-  const jsonData = fs.readFileSync(jsonPath, 'utf-8');
-  const metadata: MetadataFile = JSON.parse(jsonData);
-
-  let updated = 0;
-  let notFound = 0;
-
-  for (const [buildingName, plans] of Object.entries(metadata)) {
-    for (const [planName, meta] of Object.entries(plans)) {
-      try {
-        // Find the floor plan in the database (match with or without asterisks)
-        const result = await conn.executeQuery<{ id: number; name: string }>(
-          `SELECT fp.id, fp.name
-           FROM floor_plans fp 
-           JOIN buildings b ON fp.building_id = b.id 
-           WHERE (fp.name = ? OR fp.name = ? || '*' OR fp.name = ? || '**') AND b.name = ?
-           LIMIT 1`,
-          [planName, planName, planName, buildingName]
-        );
-
-        if (!result.success || !result.data || result.data.length === 0) {
-          logger.warn(`Floor plan not found: ${planName} (${buildingName})`);
-          notFound++;
-          continue;
-        }
-
-        const floorPlanId = result.data[0].id;
-
-        // Update the floor plan
-        const updateResult = await conn.executeUpdate(
-          `UPDATE floor_plans 
-           SET bedrooms = ?, 
-               bathrooms = ?, 
-               has_den = ?,
-               bathrooms_estimated = 0
-           WHERE id = ?`,
-          [meta.bedrooms, meta.bathrooms, meta.hasDen ? 1 : 0, floorPlanId]
-        );
-
-        if (updateResult.success) {
-          const changes = updateResult.data?.changes || 0;
-          updated++;
-          logger.info(
-            `Updated ${planName} (${buildingName}): ${meta.bedrooms === 0 ? 'Studio' : `${meta.bedrooms} BR`}, ${meta.bathrooms} BA${meta.hasDen ? ' + Den' : ''} (${changes} rows changed)`
-          );
-        } else {
-          logger.error(`Failed to update ${planName} (${buildingName}): ${updateResult.error}`);
-        }
-      } catch (error) {
-        logger.error(`Error updating ${planName}:`, error);
+  const audit = { actor: 'load:metadata', source: 'scripts/loadFloorPlanMetadata' };
+  try {
+    const applied = await metadataReconciliationService.applyAgreed(audit);
+    if (!applied.success || !applied.data) throw new Error(applied.error || 'Failed to apply floor plan metadata');
+    logger.info(
+      `Load complete: ${applied.data.plans_updated} plans updated (${applied.data.fields_updated} fields, ${applied.data.flags_updated} bathrooms_estimated flags)`
+    );
+
+    const report = await metadataReconciliationService.report();
+    if (!report.success || !report.data) throw new Error(report.error || 'Failed to reconcile floor plan metadata');
+    for (const s of report.data.sources) {
+      logger.info(`Source ${s.source}: ${s.loaded ? `${s.plans} plans from ${s.file}` : `not loaded (${s.error || `no ${s.file}`})`}`);
+    }
+    for (const plan of report.data.plans.filter(p => p.conflicts > 0)) {
+      for (const f of plan.fields.filter(f => f.conflict)) {
+        const values = f.candidates.map(c => `${c.source}=${c.value}${c.estimated ? ' (estimated)' : ''}`).join(', ');
+        logger.warn(`Conflict: ${plan.plan_name} (${plan.building_name}) ${f.field}: stored ${f.current}; ${values}`);
       }
     }
+    for (const u of report.data.unmatched) {
+      logger.warn(`Floor plan not found: ${u.plan} (${u.building}) from ${u.source}`);
+    }
+  } finally {
+    await getDatabaseConnection().close();
   }
-
-  logger.info(`Load complete: ${updated} updated, ${notFound} not found`);
-  await conn.close();
 }
 
 loadMetadata()
@@ -1,32 +1,101 @@
 // Migration runner script for ONNISLU
-import { getDatabaseConnection } from '../database';
-import { runMigrations } from '../database/migrations';
+// Usage: npm run migrate [-- up | status | down --to <version> | verify]
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import { DatabaseConnection } from '../database';
+import { MigrationManager, MigrationStatus, migrations, runMigrations } from '../database/migrations';
+
+function parseTarget(args: string[]): number | null {
+  const i = args.indexOf('--to');
+  const raw = i >= 0 ? args[i + 1] : undefined;
+  if (raw === undefined || !/^\d+$/.test(raw)) return null;
+  return parseInt(raw, 10);
+}
+
+function printStatus(status: MigrationStatus) {
+  console.log(`Current version: ${status.currentVersion} (latest: ${status.latestVersion})`);
+  for (const m of status.migrations) {
+    const state = !m.applied ? 'pending' : m.checksum_ok === false ? 'CHANGED' : 'applied';
+    console.log(`  ${String(m.version).padStart(3)}  ${state.padEnd(8)} ${m.name}${m.applied_at ? `  (${m.applied_at})` : ''}`);
+  }
+  for (const v of status.unknown) {
+    console.log(`  ${String(v).padStart(3)}  unknown  (applied but not defined in code)`);
+  }
+}
 
 async function main() {
+  const [command = 'up', ...args] = process.argv.slice(2);
+
+  // Open the file directly: DatabaseConnection.initialize() would apply pending migrations,
+  // which status/down/verify must not do
+  const db = await open({ filename: new DatabaseConnection().getPath(), driver: sqlite3.Database });
   try {
-    const conn = getDatabaseConnection();
-    const init = await conn.initialize();
-    if (!init.success) {
-      console.error('Database initialization failed:', init.error);
-      process.exitCode = 1;
-      return;
-    }
+    await db.exec('PRAGMA foreign_keys = ON');
+    await db.exec('PRAGMA busy_timeout = 8000');
+    const manager = new MigrationManager(db);
 
-    const db = conn.getDatabase();
-    const result = await runMigrations(db);
-    if (!result.success) {
-      console.error('Migrations failed:', result.error);
-      process.exitCode = 1;
-      return;
+    switch (command) {
+      case 'up': {
+        const result = await runMigrations(db);
+        if (!result.success) {
+          console.error('Migrations failed:', result.error);
+          process.exitCode = 1;
+          return;
+        }
+        console.log(`Migrations completed. Applied: ${result.data?.applied ?? 0}`);
+        break;
+      }
+      case 'status': {
+        const result = await manager.getStatus(migrations);
+        if (!result.success) {
+          console.error('Failed to read migration status:', result.error);
+          process.exitCode = 1;
+          return;
+        }
+        printStatus(result.data!);
+        break;
+      }
+      case 'down': {
+        const target = parseTarget(args);
+        if (target === null) {
+          console.error('Usage: npm run migrate -- down --to <version>');
+          process.exitCode = 1;
+          return;
+        }
+        const result = await manager.rollbackTo(migrations, target);
+        if (!result.success) {
+          console.error('Rollback failed:', result.error);
+          process.exitCode = 1;
+          return;
+        }
+        console.log(`Rollback completed. Rolled back: ${result.data.rolledBack}. Note: starting the app re-applies pending migrations.`);
+        break;
+      }
+      case 'verify': {
+        const result = await manager.verifyChecksums(migrations);
+        if (!result.success) {
+          console.error('Verification failed:', result.error);
+          process.exitCode = 1;
+          return;
+        }
+        if (result.data.mismatched.length > 0) {
+          console.error(`Applied migrations changed since they ran: ${result.data.mismatched.join(', ')}`);
+          process.exitCode = 1;
+          return;
+        }
+        console.log('All applied migrations match their checksums');
+        break;
+      }
+      default:
+        console.error(`Unknown command: ${command}. Expected up, status, down --to <version> or verify.`);
+        process.exitCode = 1;
     }
-
-    const applied = result.data?.applied ?? 0;
-    console.log(`Migrations completed. Applied: ${applied}`);
-    process.exitCode = 0;
   } catch (err) {
     console.error('Migration script error:', err instanceof Error ? err.message : err);
     process.exitCode = 1;
+  } finally {
+    await db.close();
   }
 }
 
-main();
\ No newline at end of file
+main();
@@ -1,6 +1,11 @@
-// Script to scrape and update bedroom, bathroom, and den metadata for floor plans
+// Script to scrape bedroom, bathroom, and den metadata for floor plans into the scraper metadata source
+// (METADATA_SCRAPER_FILE). Nothing is written to the database: differences from the other sources are
+// reviewed and accepted under Admin → Metadata (services/MetadataReconciliationService).
+import fs from 'fs';
+import path from 'path';
 import puppeteer, { Browser, Page } from 'puppeteer';
-import { getDatabaseConnection } from '../database';
+import { metadataSourceConfig } from '../config/scraper';
+import type { MetadataFile } from '../services/MetadataReconciliationService';
 import logger from '../utils/logger';
 
 interface FloorPlanMetadata {
@@ -237,60 +242,24 @@ class FloorPlanMetadataUpdater {
   }
 
   /**
-   * Update database with scraped metadata
+   * Write the scraped metadata in the floor-plan-metadata.json shape
    */
-  async updateDatabase(metadata: FloorPlanMetadata[]) {
-    const conn = getDatabaseConnection();
-    await conn.initialize();
-
-    let updated = 0;
-    let notFound = 0;
-
+  async writeSourceFile(metadata: FloorPlanMetadata[]) {
+    const file: MetadataFile = {};
     for (const plan of metadata) {
-      try {
-        // Find the floor plan in the database
-        const result = await conn.executeQuery<{ id: number; building_id: number }>(
-          `SELECT fp.id, fp.building_id 
-           FROM floor_plans fp 
-           JOIN buildings b ON fp.building_id = b.id 
-           WHERE fp.name = ? 
-           ${plan.building ? 'AND b.name = ?' : ''}
-           LIMIT 1`,
-          plan.building ? [plan.name, plan.building] : [plan.name]
-        );
-
-        if (!result.success || !result.data || result.data.length === 0) {
-          logger.warn(`Floor plan not found in database: ${plan.name}${plan.building ? ` (${plan.building})` : ''}`);
-          notFound++;
-          continue;
-        }
-
-        const floorPlanId = result.data[0].id;
-
-        // Update the floor plan
-        const updateResult = await conn.executeUpdate(
-          `UPDATE floor_plans 
-           SET bedrooms = ?, 
-               bathrooms = ?, 
-               has_den = ?,
-               bathrooms_estimated = ?
-           WHERE id = ?`,
-          [plan.bedrooms, plan.bathrooms, plan.hasDen ? 1 : 0, plan.bathroomsEstimated ? 1 : 0, floorPlanId]
-        );
-
-        if (updateResult.success) {
-          updated++;
-          logger.info(
-            `Updated ${plan.name}: ${plan.bedrooms} BR, ${plan.bathrooms} BA${plan.hasDen ? ' + DEN' : ''}${plan.bathroomsEstimated ? ' (bathrooms estimated)' : ''}`
-          );
-        }
-      } catch (error) {
-        logger.error(`Error updating ${plan.name}:`, error);
-      }
+      const building = plan.building || 'Unknown';
+      file[building] = file[building] || {};
+      file[building][plan.name] = {
+        bedrooms: plan.bedrooms,
+        bathrooms: plan.bathrooms,
+        hasDen: plan.hasDen,
+        bathroomsEstimated: plan.bathroomsEstimated
+      };
     }
-
-    logger.info(`Update complete: ${updated} updated, ${notFound} not found`);
-    await conn.close();
+    const out = metadataSourceConfig.scraperFile;
+    await fs.promises.mkdir(path.dirname(out), { recursive: true });
+    await fs.promises.writeFile(out, JSON.stringify(file, null, 2));
+    logger.info(`Wrote ${metadata.length} floor plans to ${out}`);
   }
 
   /**
@@ -326,10 +295,10 @@ class FloorPlanMetadataUpdater {
         };
       });
 
-      // Step 4: Update database
-      await this.updateDatabase(completeMetadata);
+      // Step 4: Save as the scraper metadata source
+      await this.writeSourceFile(completeMetadata);
 
-      logger.info('Floor plan metadata update complete!');
+      logger.info('Floor plan metadata scraped; review conflicts under Admin → Metadata');
     } catch (error) {
       logger.error('Error in metadata update:', error);
       throw error;
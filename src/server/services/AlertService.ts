@@ -1,8 +1,9 @@
-// AlertService: detect price drops and lowest-ever prices, persist alerts.
-// No circular imports: uses raw DB connection and DatabaseUtils.
+// AlertService: detect price drops and lowest-ever prices (net of concessions, or for a watched lease term), persist alerts.
+// No circular imports: uses the repositories on the shared connection, not DataService.
 
-import { getDatabaseConnection, DatabaseUtils } from '../database';
+import { getDatabaseConnection, createRepositories, Repositories } from '../database';
 import logger from '../utils/logger';
+import { netEffectiveRent, concessionTermsFromRow } from './parsers/concessionParser';
 
 export type ThresholdType = 'dollar' | 'percentage';
 
@@ -12,102 +13,152 @@ export interface AlertContext {
   collection_date: string; // YYYY-MM-DD
 }
 
+export interface QuoteAlertContext extends AlertContext {
+  lease_term_months: number;
+}
+
+interface AlertSettingsSnapshot {
+  thresholdType: ThresholdType;
+  thresholdValue: number;
+  leaseTermMonths: number | null; // watched term; null = advertised price
+}
+
 export class AlertService {
   async onPriceRecorded(ctx: AlertContext): Promise<void> {
     try {
       const db = getDatabaseConnection();
-      const utils = new DatabaseUtils(db);
+      const repos = createRepositories(db);
       await db.initialize();
 
-      // Load alert settings
-      const tTypeRes = await utils.getSetting('alert_threshold_type');
-      const tValRes = await utils.getSetting('alert_threshold_value');
-
-      const thresholdType: ThresholdType =
-        (tTypeRes.success && tTypeRes.data?.value === 'dollar') ? 'dollar' : 'percentage';
-
-      const thresholdValueRaw = (tValRes.success && tValRes.data?.value) ? Number(tValRes.data.value) : undefined;
-      const thresholdValue = Number.isFinite(thresholdValueRaw) ? Number(thresholdValueRaw) : 5; // default 5%
-
-      // Fetch previous latest price BEFORE today's date to avoid same-day churn
-      const prevRow = await db.executeQuerySingle(
-        `
-          SELECT price 
-          FROM price_history 
-          WHERE floor_plan_id = ? AND collection_date < ?
-          ORDER BY collection_date DESC, created_at DESC
-          LIMIT 1
-        `,
-        [ctx.floor_plan_id, ctx.collection_date]
-      );
-
-      const prevPrice: number | null = prevRow.success && prevRow.data ? Number(prevRow.data.price) : null;
-
-      // Fetch historical lowest price so far (before today)
-      const lowestRow = await db.executeQuerySingle(
-        `
-          SELECT MIN(price) AS price
-          FROM price_history
-          WHERE floor_plan_id = ? AND collection_date < ?
-        `,
-        [ctx.floor_plan_id, ctx.collection_date]
-      );
-      const historicalLowest: number | null =
-        lowestRow.success && lowestRow.data && lowestRow.data.price != null
-          ? Number(lowestRow.data.price)
-          : null;
-
-      // Determine price drop alert
-      if (prevPrice != null && ctx.new_price < prevPrice) {
-        const diff = prevPrice - ctx.new_price;
-        const pct = prevPrice > 0 ? (diff / prevPrice) * 100 : 0;
-
-        const meetsThreshold =
-          thresholdType === 'dollar'
-            ? diff >= thresholdValue
-            : pct >= thresholdValue;
-
-        if (meetsThreshold) {
-          await utils.createAlert({
-            floor_plan_id: ctx.floor_plan_id,
-            alert_type: 'price_drop',
-            old_price: prevPrice,
-            new_price: ctx.new_price,
-            percentage_change: Number(pct.toFixed(2))
-          });
-          logger.info('AlertService: price_drop alert created', {
-            floor_plan_id: ctx.floor_plan_id,
-            old_price: prevPrice,
-            new_price: ctx.new_price,
-            pct: Number(pct.toFixed(2))
-          });
-        }
+      const settings = await this.loadSettings(repos);
+      // A watched lease term replaces advertised-price alerts (see onQuoteRecorded), except for plans
+      // never quoted on that term, which would otherwise get no alerts at all
+      if (settings.leaseTermMonths != null) {
+        const quoted = await repos.priceHistory.hasQuotes(ctx.floor_plan_id, settings.leaseTermMonths);
+        if (!quoted.success || quoted.data) return;
       }
 
-      // Determine lowest-ever alert
-      if (historicalLowest == null || ctx.new_price < historicalLowest) {
-        // Only alert if we have at least one historical price (avoid first-ever insert unless requested)
-        if (historicalLowest != null) {
-          await utils.createAlert({
-            floor_plan_id: ctx.floor_plan_id,
-            alert_type: 'lowest_price',
-            old_price: historicalLowest,
-            new_price: ctx.new_price,
-            percentage_change:
-              historicalLowest > 0 ? Number((((historicalLowest - ctx.new_price) / historicalLowest) * 100).toFixed(2)) : undefined
-          });
-          logger.info('AlertService: lowest_price alert created', {
-            floor_plan_id: ctx.floor_plan_id,
-            old_low: historicalLowest,
-            new_low: ctx.new_price
-          });
-        }
-      }
+      // Compare net effective rents so a new or richer concession counts as a drop
+      // and an expiring one does not mask a real change in advertised price
+      const todayConcession = await repos.priceHistory.findConcessionForDay(ctx.floor_plan_id, ctx.collection_date);
+      const newPrice = netEffectiveRent(ctx.new_price, todayConcession.success && todayConcession.data ? concessionTermsFromRow(todayConcession.data) : null);
+
+      // Fetch prior daily prices (with that day's concession) BEFORE today's date to avoid same-day churn
+      const historyRows = await repos.priceHistory.findBeforeWithConcessions(ctx.floor_plan_id, ctx.collection_date);
+      const history: number[] = historyRows.success && Array.isArray(historyRows.data)
+        ? historyRows.data.map(r => netEffectiveRent(Number(r.price), concessionTermsFromRow(r)))
+        : [];
+
+      await this.evaluate(repos, settings, ctx.floor_plan_id, newPrice, history, null);
     } catch (err) {
       logger.error('AlertService.onPriceRecorded error', { error: err instanceof Error ? err.message : String(err) });
     }
   }
+
+  // Lease-term quotes only alert when their term is the watched one (e.g. only 12-month quotes)
+  async onQuoteRecorded(ctx: QuoteAlertContext): Promise<void> {
+    try {
+      const db = getDatabaseConnection();
+      const repos = createRepositories(db);
+      await db.initialize();
+
+      const settings = await this.loadSettings(repos);
+      if (settings.leaseTermMonths == null || settings.leaseTermMonths !== ctx.lease_term_months) return;
+
+      const historyRows = await repos.priceHistory.findQuotesBefore(ctx.floor_plan_id, ctx.lease_term_months, ctx.collection_date);
+      const history: number[] = historyRows.success && Array.isArray(historyRows.data)
+        ? historyRows.data.map(r => Number(r.price))
+        : [];
+
+      await this.evaluate(repos, settings, ctx.floor_plan_id, ctx.new_price, history, ctx.lease_term_months);
+    } catch (err) {
+      logger.error('AlertService.onQuoteRecorded error', { error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  private async loadSettings(repos: Repositories): Promise<AlertSettingsSnapshot> {
+    const tTypeRes = await repos.settings.get('alert_threshold_type');
+    const tValRes = await repos.settings.get('alert_threshold_value');
+    const termRes = await repos.settings.get('alert_lease_term_months');
+
+    const thresholdType: ThresholdType =
+      (tTypeRes.success && tTypeRes.data?.value === 'dollar') ? 'dollar' : 'percentage';
+
+    const thresholdValueRaw = (tValRes.success && tValRes.data?.value) ? Number(tValRes.data.value) : undefined;
+    const thresholdValue = Number.isFinite(thresholdValueRaw) ? Number(thresholdValueRaw) : 5; // default 5%
+
+    const termRaw = (termRes.success && termRes.data?.value) ? parseInt(termRes.data.value, 10) : NaN;
+    const leaseTermMonths = Number.isFinite(termRaw) && termRaw > 0 ? termRaw : null;
+
+    return { thresholdType, thresholdValue, leaseTermMonths };
+  }
+
+  // history: prior prices (before today), most recent first
+  private async evaluate(
+    repos: Repositories,
+    settings: AlertSettingsSnapshot,
+    floorPlanId: number,
+    newPrice: number,
+    history: number[],
+    leaseTermMonths: number | null
+  ): Promise<void> {
+    const prevPrice: number | null = history.length > 0 ? history[0] : null;
+
+    // Historical lowest price so far (before today)
+    const historicalLowest: number | null = history.length > 0 ? Math.min(...history) : null;
+
+    // Determine price drop alert
+    if (prevPrice != null && newPrice < prevPrice) {
+      const diff = prevPrice - newPrice;
+      const pct = prevPrice > 0 ? (diff / prevPrice) * 100 : 0;
+
+      const meetsThreshold =
+        settings.thresholdType === 'dollar'
+          ? diff >= settings.thresholdValue
+          : pct >= settings.thresholdValue;
+
+      if (meetsThreshold) {
+        await repos.alerts.create({
+          floor_plan_id: floorPlanId,
+          alert_type: 'price_drop',
+          old_price: prevPrice,
+          new_price: newPrice,
+          percentage_change: Number(pct.toFixed(2)),
+          lease_term_months: leaseTermMonths
+        });
+        logger.info('AlertService: price_drop alert created', {
+          floor_plan_id: floorPlanId,
+          old_price: prevPrice,
+          new_price: newPrice,
+          pct: Number(pct.toFixed(2)),
+          lease_term_months: leaseTermMonths
+        });
+      }
+    }
+
+    // Determine lowest-ever alert
+    if (historicalLowest == null || newPrice < historicalLowest) {
+      // Only alert if we have at least one historical price (avoid first-ever insert unless requested)
+      if (historicalLowest != null) {
+        await repos.alerts.create({
+          floor_plan_id: floorPlanId,
+          alert_type: 'lowest_price',
+          old_price: historicalLowest,
+          new_price: newPrice,
+          percentage_change:
+            historicalLowest > 0 ? Number((((historicalLowest - newPrice) / historicalLowest) * 100).toFixed(2)) : undefined,
+          lease_term_months: leaseTermMonths
+        });
+        logger.info('AlertService: lowest_price alert created', {
+          floor_plan_id: floorPlanId,
+          old_low: historicalLowest,
+          new_low: newPrice,
+          lease_term_months: leaseTermMonths
+        });
+      }
+    }
+  }
 }
 
 const alertService = new AlertService();
-export default alertService;
\ No newline at end of file
+export default alertService;
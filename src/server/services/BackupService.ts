@@ -0,0 +1,171 @@
+// BackupService: online SQLite backups with rotation, optional gzip, and validated restore.
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { pipeline } from 'stream/promises';
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import { DatabaseConnection, getDatabaseConnection } from '../database';
+import { backupConfig, BackupConfig } from '../config/backup';
+import logger from '../utils/logger';
+
+export interface BackupInfo {
+  name: string;
+  size: number; // bytes
+  created_at: string; // ISO timestamp (file mtime)
+  compressed: boolean;
+}
+
+export interface RestoreResult {
+  restored: boolean;
+  integrity: string; // 'ok' or the first integrity_check message
+  safetyBackup?: string; // backup of the database as it was before the restore
+}
+
+// backup-20250301-033000-123[-label].db[.gz]; anything else in the directory is ignored
+const BACKUP_NAME_RE = /^backup-\d{8}-\d{6}-\d{3}(?:-[a-z0-9-]+)?\.db(?:\.gz)?$/;
+
+function buildTimestamp(d = new Date()): string {
+  const p = (n: number, w = 2) => String(n).padStart(w, '0');
+  return `${d.getFullYear()}${p(d.getMonth() + 1)}${p(d.getDate())}-${p(d.getHours())}${p(d.getMinutes())}${p(d.getSeconds())}-${p(d.getMilliseconds(), 3)}`;
+}
+
+export class BackupService {
+  private readonly config: BackupConfig;
+
+  constructor(private readonly db: DatabaseConnection = getDatabaseConnection(), config: Partial<BackupConfig> = {}) {
+    this.config = { ...backupConfig, ...config };
+  }
+
+  /**
+   * Write a consistent copy of the live database, then rotate old backups.
+   * label is appended to the file name (e.g. "pre-restore").
+   */
+  async createBackup(options: { gzip?: boolean; label?: string } = {}): Promise<BackupInfo> {
+    const gzip = options.gzip ?? this.config.gzip;
+    const label = options.label ? `-${options.label.toLowerCase().replace(/[^a-z0-9-]+/g, '-')}` : '';
+    await fs.promises.mkdir(this.config.dir, { recursive: true });
+
+    const dbName = `backup-${buildTimestamp()}${label}.db`;
+    const dbFile = path.join(this.config.dir, dbName);
+
+    await this.db.initialize();
+    const result = await this.db.backupTo(dbFile);
+    if (!result.success) {
+      throw new Error(result.error || 'Backup failed');
+    }
+
+    let name = dbName;
+    if (gzip) {
+      name = `${dbName}.gz`;
+      await pipeline(fs.createReadStream(dbFile), zlib.createGzip(), fs.createWriteStream(path.join(this.config.dir, name)));
+      await fs.promises.unlink(dbFile);
+    }
+
+    const info = await this.describe(name);
+    logger.info('Database backup created', { name, size: info.size });
+
+    await this.rotate();
+    return info;
+  }
+
+  // Newest first
+  async listBackups(): Promise<BackupInfo[]> {
+    let entries: string[];
+    try {
+      entries = await fs.promises.readdir(this.config.dir);
+    } catch {
+      return [];
+    }
+    const backups = await Promise.all(entries.filter(n => BACKUP_NAME_RE.test(n)).map(n => this.describe(n)));
+    return backups.sort((a, b) => b.name.localeCompare(a.name));
+  }
+
+  /**
+   * Delete backups older than the retention window; the newest backup is always kept.
+   * Returns the names removed.
+   */
+  async rotate(retentionDays = this.config.retentionDays): Promise<string[]> {
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const [, ...older] = await this.listBackups();
+    const removed: string[] = [];
+    for (const b of older) {
+      if (Date.parse(b.created_at) >= cutoff) continue;
+      await fs.promises.unlink(path.join(this.config.dir, b.name));
+      removed.push(b.name);
+    }
+    if (removed.length) {
+      logger.info('Rotated database backups', { removed, retentionDays });
+    }
+    return removed;
+  }
+
+  /**
+   * Restore a backup by name. The backup is decompressed to a scratch file and must pass
+   * PRAGMA integrity_check before the live database is backed up and swapped out; no write can
+   * land between the safety backup and the swap. Returns null when no backup has that name.
+   */
+  async restoreBackup(name: string): Promise<RestoreResult | null> {
+    if (!BACKUP_NAME_RE.test(name)) return null;
+    const source = path.join(this.config.dir, name);
+    if (!fs.existsSync(source)) return null;
+
+    const scratch = path.join(this.config.dir, `.restore-${buildTimestamp()}.db`);
+    try {
+      if (name.endsWith('.gz')) {
+        await pipeline(fs.createReadStream(source), zlib.createGunzip(), fs.createWriteStream(scratch));
+      } else {
+        await fs.promises.copyFile(source, scratch);
+      }
+
+      const integrity = await this.checkIntegrity(scratch);
+      if (integrity !== 'ok') {
+        logger.warn('Backup failed integrity check; not restoring', { name, integrity });
+        return { restored: false, integrity };
+      }
+
+      const safety = await this.db.runExclusive(async () => {
+        const backup = await this.createBackup({ label: 'pre-restore' });
+        const swap = await this.db.restoreFrom(scratch);
+        if (!swap.success) {
+          throw new Error(swap.error || 'Restore failed');
+        }
+        return backup;
+      });
+
+      logger.info('Database restored from backup', { name, safetyBackup: safety.name });
+      return { restored: true, integrity, safetyBackup: safety.name };
+    } finally {
+      await fs.promises.rm(scratch, { force: true });
+    }
+  }
+
+  private async checkIntegrity(file: string): Promise<string> {
+    try {
+      const db = await open({ filename: file, driver: sqlite3.Database, mode: sqlite3.OPEN_READONLY });
+      try {
+        const rows = await db.all('PRAGMA integrity_check');
+        const messages = rows.map((r: any) => String(r.integrity_check));
+        return messages.length === 1 && messages[0] === 'ok' ? 'ok' : (messages[0] || 'no result');
+      } finally {
+        await db.close();
+      }
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Unknown integrity check error';
+    }
+  }
+
+  private async describe(name: string): Promise<BackupInfo> {
+    const stat = await fs.promises.stat(path.join(this.config.dir, name));
+    return {
+      name,
+      size: stat.size,
+      created_at: stat.mtime.toISOString(),
+      compressed: name.endsWith('.gz')
+    };
+  }
+}
+
+const backupService = new BackupService();
+export default backupService;
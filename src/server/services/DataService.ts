@@ -1,18 +1,76 @@
 import { 
   DatabaseConnection, 
   getDatabaseConnection, 
-  DatabaseUtils,
+  MigrationManager,
+  Repositories,
+  createRepositories,
+  FloorPlanChanges,
   Building,
+  Property,
+  CreatePropertyInput,
+  UpdatePropertyInput,
   CreateBuildingInput,
   CreateFloorPlanInput,
   FloorPlan,
   PriceHistory,
+  PriceHistoryDetail,
+  PriceObservation,
+  LatestPrice,
+  Alert,
+  Settings,
   FloorPlanQuery,
-  DatabaseResult
+  Unit,
+  UnitObservation,
+  UnitQuery,
+  LeaseTermPricing,
+  ObservationSource,
+  UpdateFloorPlanInput,
+  AuditContext,
+  AuditEntityType,
+  AuditLogEntry,
+  AuditLogQuery,
+  AuditRevertResult,
+  RetentionPolicy,
+  RetentionReport,
+  RecurringFee,
+  CreateRecurringFeeInput,
+  ScrapeHealthCheck,
+  SelectorConfig,
+  PageSnapshot,
+  BuildingSelectorSettings,
+  ScrapeRun,
+  ScrapeRunBuilding,
+  ScrapeRunDetail,
+  ScrapeRunQuery,
+  ScrapeRunStatus,
+  ScrapeTrigger,
+  CreateScrapeRunBuildingInput,
+  ScrapeJob,
+  ScrapeJobQuery,
+  ScrapeJobStatus,
+  UpdateScrapeJobInput,
+  PlanImage,
+  CreatePlanImageInput,
+  MetadataDecision,
+  MetadataField,
+  IngestToken,
+  CreatedIngestToken,
+  UpdateRecurringFeeInput,
+  DatabaseResult,
+  DatabaseHealth,
+  DatabaseStats,
+  WriteResult
 } from '../database';
+import crypto from 'crypto';
+import { migrations, MigrationStatus } from '../database/migrations';
 import logger from '../utils/logger';
-import type { ScrapedFloorPlan } from './ScraperService';
+import type { ScrapedFloorPlan, SecureCafeUnit, SecureCafeLeaseQuote } from './sources/SourceAdapter';
 import alertService from './AlertService';
+import { resolveScrapeTarget, PropertyScrapeTarget, scrapeHealthConfig, ScrapeHealthConfig } from '../config/scraper';
+import { DEFAULT_RETENTION_POLICY } from '../config/maintenance';
+import { parseConcession } from './parsers/concessionParser';
+import { cheapestQuote } from './parsers/leaseTermParser';
+import { measureScrape, averageBaseline, findDrift } from '../utils/scrapeHealth';
 
 // Helper to format YYYY-MM-DD
 function toDateOnly(d: Date | string): string {
@@ -23,14 +81,89 @@ function toDateOnly(d: Date | string): string {
   return `${y}-${m}-${day}`;
 }
 
+// "PLAN C1*" and "C1" both normalize to "C1" so SecureCafe units can be matched to floor plans
+function normalizePlanCode(name: string): string {
+  return String(name || '').toUpperCase().replace(/^PLAN\s+/, '').replace(/\*+$/, '').trim();
+}
+
+// "$2,345" -> 2345; anything without a positive amount -> null
+function parseRent(text: string): number | null {
+  const n = Number(String(text || '').replace(/[^\d.]/g, ''));
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+// Tokens are stored hashed; the plain token is only known to the device
+const hashIngestToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Floor plan columns the admin page edits; these plus bathrooms_estimated and archived_at are audited and revertible
+const EDITABLE_FLOOR_PLAN_FIELDS = ['name', 'bedrooms', 'bathrooms', 'has_den', 'square_footage'] as const;
+const AUDITED_FLOOR_PLAN_FIELDS = [...EDITABLE_FLOOR_PLAN_FIELDS, 'bathrooms_estimated', 'archived_at'] as const;
+type AuditedFloorPlanField = typeof AUDITED_FLOOR_PLAN_FIELDS[number];
+
+function isAuditedFloorPlanField(field: string): field is AuditedFloorPlanField {
+  return (AUDITED_FLOOR_PLAN_FIELDS as readonly string[]).includes(field);
+}
+
+// Fields metadata reconciliation keeps accepted values (decisions) for
+const METADATA_FIELDS = ['bedrooms', 'bathrooms', 'has_den'] as const;
+
+function isMetadataField(field: string): field is MetadataField {
+  return (METADATA_FIELDS as readonly string[]).includes(field);
+}
+
+// Recurring fee columns audited on edit; creating or deleting a fee logs the whole row as field 'record'
+const AUDITED_FEE_FIELDS = ['category', 'name', 'monthly_amount', 'include_in_total', 'notes'] as const;
+type AuditedFeeField = typeof AUDITED_FEE_FIELDS[number];
+
+function isAuditedFeeField(field: string): field is AuditedFeeField {
+  return (AUDITED_FEE_FIELDS as readonly string[]).includes(field);
+}
+
+// An audited fee field's logged text as the value to write back
+function feeChangeFromAudit(field: AuditedFeeField, value: string | null): UpdateRecurringFeeInput {
+  if (field === 'monthly_amount') return { monthly_amount: Number(value) };
+  if (field === 'include_in_total') return { include_in_total: value === '1' };
+  return { [field]: value } as UpdateRecurringFeeInput;
+}
+
+// Property columns audited on edit; creating or deleting a property logs the whole row as field 'record'
+const AUDITED_PROPERTY_FIELDS = ['name', 'slug', 'securecafe_url', 'wings', 'selectors', 'is_active'] as const;
+type AuditedPropertyField = typeof AUDITED_PROPERTY_FIELDS[number];
+
+function isAuditedPropertyField(field: string): field is AuditedPropertyField {
+  return (AUDITED_PROPERTY_FIELDS as readonly string[]).includes(field);
+}
+
+// A property field as it is stored: wings as "D,E", selectors as JSON
+function propertyAuditValue(property: Property, field: AuditedPropertyField): unknown {
+  if (field === 'wings') return property.wings.length ? property.wings.join(',') : null;
+  if (field === 'selectors') return property.selectors ? JSON.stringify(property.selectors) : null;
+  return property[field];
+}
+
+// An audited property field's logged text as the value to write back
+function propertyChangeFromAudit(field: AuditedPropertyField, value: string | null): UpdatePropertyInput {
+  if (field === 'wings') return { wings: value ? value.split(',') : [] };
+  if (field === 'selectors') return { selectors: value ? JSON.parse(value) : null };
+  if (field === 'is_active') return { is_active: value === '1' };
+  return { [field]: value } as UpdatePropertyInput;
+}
+
+// Audit values are stored as text, booleans as 0/1 like SQLite returns them
+function toAuditValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  return String(value);
+}
+
 export class DataService {
   private readonly db: DatabaseConnection;
-  private readonly utils: DatabaseUtils;
+  private readonly repos: Repositories;
   private initialized = false;
 
   constructor(db?: DatabaseConnection) {
     this.db = db ?? getDatabaseConnection();
-    this.utils = new DatabaseUtils(this.db);
+    this.repos = createRepositories(this.db);
   }
 
   async init(): Promise<void> {
@@ -45,88 +178,377 @@ export class DataService {
   // Upsert building by unique name
   async upsertBuilding(input: CreateBuildingInput): Promise<{ id: number }> {
     await this.init();
-    const insert = await this.db.executeUpdate(
-      'INSERT INTO buildings (name, url) VALUES (?, ?)',
-      [input.name, input.url]
+    const row = await this.repos.buildings.upsert(input);
+    if (!row.success) throw new Error(row.error || 'Unknown building upsert error');
+    if (!row.data) throw new Error(`Failed to fetch existing building id for ${input.name}`);
+    return { id: row.data.id };
+  }
+
+  // Read: a building by name, ignoring case (userscripts name buildings as the page shows them)
+  async getBuildingByName(name: string): Promise<DatabaseResult<Building | null>> {
+    await this.init();
+    const row = await this.repos.buildings.findByName(name.trim(), true);
+    if (!row.success) return { success: false, error: row.error };
+    return { success: true, data: row.data ?? null };
+  }
+
+  // Read: the wings a building's plans are kept for, resolved as for its property's scrape target
+  async getBuildingWings(building: Building): Promise<DatabaseResult<string[]>> {
+    if (!building.property_id) return { success: true, data: [] };
+    const property = await this.getPropertyById(building.property_id);
+    if (!property.success) return { success: false, error: property.error };
+    return { success: true, data: property.data ? resolveScrapeTarget(property.data).wings : [] };
+  }
+
+  // Read: properties with their buildings
+  async getProperties(activeOnly = false): Promise<DatabaseResult<Property[]>> {
+    await this.init();
+    const propsRes = await this.repos.properties.findAll(activeOnly);
+    if (!propsRes.success) return { success: false, error: propsRes.error };
+    const buildingsRes = await this.repos.buildings.findAll();
+    if (!buildingsRes.success) return { success: false, error: buildingsRes.error };
+    const buildings = buildingsRes.data || [];
+    const properties = (propsRes.data || []).map(property => ({
+      ...property,
+      buildings: buildings.filter(b => b.property_id === property.id)
+    }));
+    return { success: true, data: properties };
+  }
+
+  // Read: a single property with its buildings
+  async getPropertyById(id: number): Promise<DatabaseResult<Property | null>> {
+    const all = await this.getProperties();
+    if (!all.success) return { success: false, error: all.error };
+    const property = (all.data || []).find(p => p.id === id) || null;
+    return { success: true, data: property };
+  }
+
+  // Active properties resolved into what the scheduler and manual runs scrape
+  async getScrapeTargets(): Promise<PropertyScrapeTarget[]> {
+    const res = await this.getProperties(true);
+    if (!res.success) throw new Error(res.error || 'Failed to load properties');
+    const current = await this.getCurrentSelectorConfigs();
+    if (!current.success) throw new Error(current.error || 'Failed to load selector configs');
+    const byBuilding = new Map((current.data || []).map(c => [c.building_id, c.selectors]));
+    return (res.data || []).map(p => resolveScrapeTarget(p, byBuilding));
+  }
+
+  // Selector configs: every save is a new version of the building's selectors and the highest
+  // version applies. Restoring an old version saves a copy of it, so history only grows.
+  async getCurrentSelectorConfigs(): Promise<DatabaseResult<SelectorConfig[]>> {
+    await this.init();
+    return this.repos.selectorConfigs.findCurrent();
+  }
+
+  // null when the building doesn't exist
+  async getBuildingSelectorSettings(buildingId: number): Promise<DatabaseResult<BuildingSelectorSettings | null>> {
+    await this.init();
+    const building = await this.repos.buildings.findById(buildingId);
+    if (!building.success) return { success: false, error: building.error };
+    if (!building.data) return { success: true, data: null };
+
+    let propertySelectors: Record<string, string[]> | null = null;
+    if (building.data.property_id) {
+      const property = await this.getPropertyById(building.data.property_id);
+      if (!property.success) return { success: false, error: property.error };
+      propertySelectors = property.data?.selectors ?? null;
+    }
+
+    const versions = await this.repos.selectorConfigs.findForBuilding(buildingId);
+    if (!versions.success) return { success: false, error: versions.error };
+    const snapshot = await this.repos.selectorConfigs.findSnapshotInfo(buildingId);
+    if (!snapshot.success) return { success: false, error: snapshot.error };
+
+    return {
+      success: true,
+      data: {
+        building_id: buildingId,
+        building_name: building.data.name,
+        property_selectors: propertySelectors,
+        versions: versions.data || [],
+        snapshot: snapshot.data || null
+      }
+    };
+  }
+
+  async saveSelectorConfig(
+    buildingId: number,
+    input: { selectors: Record<string, string[]>; note?: string | null },
+    audit: AuditContext
+  ): Promise<DatabaseResult<SelectorConfig>> {
+    await this.init();
+    const ins = await this.repos.selectorConfigs.create(buildingId, {
+      selectors: input.selectors,
+      note: input.note ?? null,
+      created_by: audit.actor
+    });
+    if (!ins.success || !ins.data) return { success: false, error: ins.error };
+    const row = await this.repos.selectorConfigs.findById(ins.data.lastID);
+    if (!row.success || !row.data) return { success: false, error: row.error || 'Failed to read selector config' };
+    logger.info('Selector config saved', { buildingId, version: row.data.version, actor: audit.actor });
+    return { success: true, data: row.data };
+  }
+
+  // data is null when the building has no such version
+  async restoreSelectorConfig(buildingId: number, version: number, audit: AuditContext): Promise<DatabaseResult<SelectorConfig | null>> {
+    await this.init();
+    const old = await this.repos.selectorConfigs.findVersion(buildingId, version);
+    if (!old.success) return { success: false, error: old.error };
+    if (!old.data) return { success: true, data: null };
+    return this.saveSelectorConfig(
+      buildingId,
+      { selectors: old.data.selectors, note: `Restored version ${version}` },
+      audit
     );
-    if (insert.success) {
-      return { id: insert.data.lastID };
+  }
+
+  // Keep the page a building's plans were just scraped from, replacing the previous one
+  async savePageSnapshot(buildingName: string, url: string, html: string, capturedAt: Date = new Date()): Promise<DatabaseResult<WriteResult>> {
+    await this.init();
+    const building = await this.repos.buildings.findByName(buildingName);
+    if (!building.success || !building.data) {
+      return { success: false, error: building.error || `Building not found: ${buildingName}` };
     }
-    // Handle unique violation by updating URL and returning id
-    if (insert.error && insert.error.includes('UNIQUE')) {
-      await this.db.executeUpdate(
-        'UPDATE buildings SET url = ? WHERE name = ?',
-        [input.url, input.name]
-      );
-      const row = await this.db.executeQuerySingle('SELECT id FROM buildings WHERE name = ?', [input.name]);
-      if (row.success && row.data) return { id: row.data.id as number };
-      throw new Error(`Failed to fetch existing building id for ${input.name}`);
+    return this.repos.selectorConfigs.saveSnapshot(building.data.id, url, html, capturedAt.toISOString());
+  }
+
+  async getPageSnapshot(buildingId: number): Promise<DatabaseResult<PageSnapshot | undefined>> {
+    await this.init();
+    return this.repos.selectorConfigs.findSnapshot(buildingId);
+  }
+
+  async createProperty(input: CreatePropertyInput, audit?: AuditContext): Promise<DatabaseResult<WriteResult>> {
+    return this.auditedPropertyWrite(undefined, () => this.repos.properties.create(input), audit);
+  }
+
+  // Only the given fields change; data.changes is 0 when the property doesn't exist
+  async updateProperty(id: number, input: UpdatePropertyInput, audit?: AuditContext): Promise<DatabaseResult<WriteResult>> {
+    return this.auditedPropertyWrite(id, () => this.repos.properties.update(id, input), audit);
+  }
+
+  // Callers must move or remove the property's buildings first
+  async deleteProperty(id: number, audit?: AuditContext): Promise<DatabaseResult<WriteResult>> {
+    return this.auditedPropertyWrite(id, () => this.repos.properties.delete(id), audit);
+  }
+
+  // Move a building (with its floor plans and history) to another property, or detach it with null.
+  // Detached buildings are kept but no longer scraped
+  async moveBuilding(buildingId: number, propertyId: number | null, audit?: AuditContext): Promise<DatabaseResult<WriteResult>> {
+    return this.auditedBuildingWrite(buildingId, () => this.repos.buildings.setProperty(buildingId, propertyId), audit);
+  }
+
+  // Building names are unique across all properties (SecureCafe headers and plan matching key on them)
+  async addBuildingToProperty(propertyId: number, input: CreateBuildingInput, audit?: AuditContext): Promise<DatabaseResult<WriteResult>> {
+    return this.auditedBuildingWrite(undefined, () => this.repos.buildings.create({ ...input, property_id: propertyId }), audit);
+  }
+
+  // Run one write against a property (id undefined for an insert) and log it: each audited column
+  // that changed, or the whole row as 'record' when the property was created or deleted
+  private async auditedPropertyWrite(
+    id: number | undefined,
+    write: () => Promise<DatabaseResult<WriteResult>>,
+    audit?: AuditContext,
+    revertedEntryId?: number
+  ): Promise<DatabaseResult<WriteResult>> {
+    await this.init();
+    const read = async (propertyId: number) => {
+      const row = await this.repos.properties.findById(propertyId);
+      if (!row.success) throw new Error(row.error || 'Failed to read property');
+      return row.data ?? null;
+    };
+    const trx = await this.db.executeTransaction<WriteResult>(async () => {
+      const before = id === undefined ? null : await read(id);
+      const res = await write();
+      if (!res.success || !res.data) throw new Error(res.error || 'Failed to write property');
+      if (audit && res.data.changes) {
+        const propertyId = id ?? res.data.lastID;
+        const after = await read(propertyId);
+        if (before && after) {
+          for (const field of AUDITED_PROPERTY_FIELDS) {
+            const oldValue = propertyAuditValue(before, field);
+            const newValue = propertyAuditValue(after, field);
+            await this.writeAuditEntry(audit, 'property', propertyId, field, oldValue, newValue, revertedEntryId);
+          }
+        } else {
+          const snapshot = (property: Property | null) => (property ? JSON.stringify(property) : null);
+          await this.writeAuditEntry(audit, 'property', propertyId, 'record', snapshot(before), snapshot(after), revertedEntryId);
+        }
+      }
+      return res.data;
+    });
+    return trx.success ? { success: true, data: trx.data } : { success: false, error: trx.error };
+  }
+
+  // Run one write against a building (id undefined for an insert) and log it: a move as field
+  // 'property_id', or the whole row as 'record' when the building was added or removed
+  private async auditedBuildingWrite(
+    id: number | undefined,
+    write: () => Promise<DatabaseResult<WriteResult>>,
+    audit?: AuditContext,
+    revertedEntryId?: number
+  ): Promise<DatabaseResult<WriteResult>> {
+    await this.init();
+    const read = async (buildingId: number) => {
+      const row = await this.repos.buildings.findById(buildingId);
+      if (!row.success) throw new Error(row.error || 'Failed to read building');
+      return row.data ?? null;
+    };
+    const trx = await this.db.executeTransaction<WriteResult>(async () => {
+      const before = id === undefined ? null : await read(id);
+      const res = await write();
+      if (!res.success || !res.data) throw new Error(res.error || 'Failed to write building');
+      if (audit && res.data.changes) {
+        const buildingId = id ?? res.data.lastID;
+        const after = await read(buildingId);
+        if (before && after) {
+          await this.writeAuditEntry(audit, 'building', buildingId, 'property_id', before.property_id, after.property_id, revertedEntryId);
+        } else {
+          const snapshot = (building: Building | null) => (building ? JSON.stringify(building) : null);
+          await this.writeAuditEntry(audit, 'building', buildingId, 'record', snapshot(before), snapshot(after), revertedEntryId);
+        }
+      }
+      return res.data;
+    });
+    return trx.success ? { success: true, data: trx.data } : { success: false, error: trx.error };
+  }
+
+  // Recurring fee catalog; floor_plan_id filters to fees that apply to that plan (its own and building-wide)
+  async getRecurringFees(query: { building_id?: number; floor_plan_id?: number } = {}): Promise<DatabaseResult<RecurringFee[]>> {
+    await this.init();
+    return this.repos.recurringFees.findAll(query);
+  }
+
+  async getRecurringFeeById(id: number): Promise<DatabaseResult<RecurringFee | null>> {
+    await this.init();
+    const res = await this.repos.recurringFees.findById(id);
+    if (!res.success) return { success: false, error: res.error };
+    return { success: true, data: res.data ?? null };
+  }
+
+  // A plan-specific fee takes its building from the plan; data is null when the plan doesn't exist
+  // or doesn't belong to the given building
+  async createRecurringFee(input: CreateRecurringFeeInput, audit?: AuditContext): Promise<DatabaseResult<WriteResult | null>> {
+    await this.init();
+    let buildingId = input.building_id;
+    if (input.floor_plan_id != null) {
+      const plan = await this.repos.floorPlans.findById(input.floor_plan_id);
+      if (!plan.success) return { success: false, error: plan.error };
+      if (!plan.data || (buildingId !== undefined && plan.data.building_id !== buildingId)) return { success: true, data: null };
+      buildingId = plan.data.building_id;
     }
-    throw new Error(insert.error || 'Unknown building upsert error');
+    if (buildingId === undefined) return { success: true, data: null };
+    const fee = {
+      building_id: buildingId,
+      floor_plan_id: input.floor_plan_id ?? null,
+      category: input.category,
+      name: input.name,
+      monthly_amount: input.monthly_amount,
+      include_in_total: input.include_in_total !== false,
+      notes: input.notes ?? null
+    };
+    return this.auditedFeeWrite(undefined, () => this.repos.recurringFees.create(fee), audit);
+  }
+
+  // Only the given fields change; data.changes is 0 when the fee doesn't exist
+  async updateRecurringFee(id: number, input: UpdateRecurringFeeInput, audit?: AuditContext): Promise<DatabaseResult<WriteResult>> {
+    return this.auditedFeeWrite(id, () => this.repos.recurringFees.update(id, input), audit);
+  }
+
+  async deleteRecurringFee(id: number, audit?: AuditContext): Promise<DatabaseResult<WriteResult>> {
+    return this.auditedFeeWrite(id, () => this.repos.recurringFees.delete(id), audit);
+  }
+
+  // Run one write against a recurring fee (id undefined for an insert) and log it: each audited column
+  // that changed, or the whole row as 'record' when the fee was created or deleted
+  private async auditedFeeWrite(
+    id: number | undefined,
+    write: () => Promise<DatabaseResult<WriteResult>>,
+    audit?: AuditContext,
+    revertedEntryId?: number
+  ): Promise<DatabaseResult<WriteResult>> {
+    await this.init();
+    const read = async (feeId: number) => {
+      const row = await this.getRecurringFeeById(feeId);
+      if (!row.success) throw new Error(row.error || 'Failed to read fee');
+      return row.data ?? null;
+    };
+    const trx = await this.db.executeTransaction<WriteResult>(async () => {
+      const before = id === undefined ? null : await read(id);
+      const res = await write();
+      if (!res.success || !res.data) throw new Error(res.error || 'Failed to write fee');
+      if (audit && res.data.changes) {
+        const feeId = id ?? res.data.lastID;
+        const after = await read(feeId);
+        if (before && after) {
+          for (const field of AUDITED_FEE_FIELDS) {
+            await this.writeAuditEntry(audit, 'fee', feeId, field, before[field], after[field], revertedEntryId);
+          }
+        } else {
+          const snapshot = (fee: RecurringFee | null) => (fee ? JSON.stringify(fee) : null);
+          await this.writeAuditEntry(audit, 'fee', feeId, 'record', snapshot(before), snapshot(after), revertedEntryId);
+        }
+      }
+      return res.data;
+    });
+    return trx.success ? { success: true, data: trx.data } : { success: false, error: trx.error };
   }
 
   // Upsert floor plan by unique (building_id, name)
+  // An existing plan only gets its dynamic fields (square_footage, building_position, image_url) refreshed;
+  // static metadata (bedrooms, bathrooms, has_den) is never overwritten
   async upsertFloorPlan(input: CreateFloorPlanInput): Promise<{ id: number }> {
     await this.init();
-    const insert = await this.db.executeUpdate(
-      `INSERT INTO floor_plans 
-       (building_id, name, bedrooms, bathrooms, has_den, square_footage, building_position, image_url)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        input.building_id,
-        input.name,
-        input.bedrooms,
-        input.bathrooms,
-        input.has_den ?? false,
-        input.square_footage ?? null,
-        input.building_position ?? null,
-        input.image_url ?? null
-      ]
-    );
-    if (insert.success) {
-      return { id: insert.data.lastID };
-    }
-    if (insert.error && insert.error.includes('UNIQUE')) {
-      // Only update dynamic fields (square_footage, building_position, image_url)
-      // NEVER update static metadata (bedrooms, bathrooms, has_den)
-      await this.db.executeUpdate(
-        `UPDATE floor_plans 
-         SET square_footage = ?, building_position = ?, image_url = ?
-         WHERE building_id = ? AND name = ?`,
-        [
-          input.square_footage ?? null,
-          input.building_position ?? null,
-          input.image_url ?? null,
-          input.building_id,
-          input.name
-        ]
-      );
-      const row = await this.db.executeQuerySingle(
-        'SELECT id FROM floor_plans WHERE building_id = ? AND name = ?',
-        [input.building_id, input.name]
-      );
-      if (row.success && row.data) return { id: row.data.id as number };
-      throw new Error(`Failed to fetch existing floor plan id for ${input.name}`);
-    }
-    throw new Error(insert.error || 'Unknown floor plan upsert error');
+    const row = await this.repos.floorPlans.upsert(input);
+    if (!row.success) throw new Error(row.error || 'Unknown floor plan upsert error');
+    if (!row.data) throw new Error(`Failed to fetch existing floor plan id for ${input.name}`);
+    return { id: row.data.id };
   }
 
-  // Record lowest price for a floor plan for given day, preserving the minimum
-  async recordDailyPrice(input: { floor_plan_id: number; price: number; is_available: boolean; collection_date?: string | Date }): Promise<void> {
+  // Append one raw observation (every run, every source); the daily rollup is derived in recordDailyPrice
+  async recordPriceObservation(input: { floor_plan_id: number; price: number; is_available: boolean; source: ObservationSource; price_text?: string | null; observed_at?: string | Date }): Promise<void> {
+    await this.init();
+    const observedAt = typeof input.observed_at === 'string' ? input.observed_at : (input.observed_at ?? new Date()).toISOString();
+    const res = await this.repos.priceHistory.createObservation({
+      floor_plan_id: input.floor_plan_id,
+      price: input.price,
+      price_text: input.price_text ?? null,
+      is_available: input.is_available,
+      source: input.source,
+      observed_at: observedAt
+    });
+    if (!res.success) throw new Error(res.error || 'Failed to record price observation');
+  }
+
+  // Record an observation, then fold it into the lowest price for the given day (preserving the minimum)
+  async recordDailyPrice(input: {
+    floor_plan_id: number;
+    price: number;
+    is_available: boolean;
+    collection_date?: string | Date;
+    source?: ObservationSource;
+    price_text?: string | null;
+    observed_at?: string | Date;
+  }): Promise<void> {
     await this.init();
     const date = toDateOnly(input.collection_date ?? new Date());
-    const existing = await this.db.executeQuerySingle(
-      'SELECT id, price, is_available FROM price_history WHERE floor_plan_id = ? AND collection_date = ?',
-      [input.floor_plan_id, date]
-    );
+    // Backdated calls with only a YYYY-MM-DD date are observed at local midnight of that day
+    const observedAt = input.observed_at
+      ?? (typeof input.collection_date === 'string' ? new Date(`${date}T00:00:00`) : input.collection_date)
+      ?? new Date();
+    await this.recordPriceObservation({
+      floor_plan_id: input.floor_plan_id,
+      price: input.price,
+      is_available: input.is_available,
+      source: input.source ?? 'manual',
+      price_text: input.price_text,
+      observed_at: observedAt
+    });
+    const existing = await this.repos.priceHistory.findForDay(input.floor_plan_id, date);
     if (existing.success && existing.data) {
-      const row = existing.data as { id: number; price: number; is_available: number };
+      const row = existing.data;
       // If price improves, update both price and availability; else only availability (OR)
       if (input.price < Number(row.price)) {
-        await this.db.executeUpdate(
-          'UPDATE price_history SET price = ?, is_available = ?, created_at = CURRENT_TIMESTAMP WHERE id = ?',
-          [input.price, input.is_available ? 1 : 0, row.id]
-        );
+        await this.repos.priceHistory.updateDay(row.id, { price: input.price, is_available: input.is_available });
         // Trigger alerts on improved (lower) price
         await alertService.onPriceRecorded({
           floor_plan_id: input.floor_plan_id,
@@ -134,19 +556,17 @@ export class DataService {
           collection_date: date
         });
       } else {
-        const mergedAvailable = (row.is_available ? 1 : 0) || (input.is_available ? 1 : 0);
-        await this.db.executeUpdate(
-          'UPDATE price_history SET is_available = ?, created_at = CURRENT_TIMESTAMP WHERE id = ?',
-          [mergedAvailable, row.id]
-        );
+        await this.repos.priceHistory.updateDay(row.id, { is_available: !!row.is_available || input.is_available });
       }
       return;
     }
     // No existing record for the day — insert
-    await this.db.executeUpdate(
-      'INSERT INTO price_history (floor_plan_id, price, is_available, collection_date) VALUES (?, ?, ?, ?)',
-      [input.floor_plan_id, input.price, input.is_available ? 1 : 0, date]
-    );
+    await this.repos.priceHistory.create({
+      floor_plan_id: input.floor_plan_id,
+      price: input.price,
+      is_available: input.is_available,
+      collection_date: date
+    });
     // Trigger alerts on first record of the day (compares to historical prices)
     await alertService.onPriceRecorded({
       floor_plan_id: input.floor_plan_id,
@@ -155,139 +575,780 @@ export class DataService {
     });
   }
 
+  // Record the parsed leasing special for a floor plan for given day (latest text wins)
+  async recordDailyConcession(input: { floor_plan_id: number; concession_text?: string | null; collection_date?: string | Date }): Promise<boolean> {
+    await this.init();
+    const parsed = parseConcession(input.concession_text);
+    if (!parsed) return false;
+    const date = toDateOnly(input.collection_date ?? new Date());
+    const res = await this.repos.priceHistory.upsertConcession({
+      floor_plan_id: input.floor_plan_id,
+      collection_date: date,
+      raw_text: parsed.rawText,
+      weeks_free: parsed.weeksFree,
+      dollar_credit: parsed.dollarCredit,
+      lease_term_months: parsed.leaseTermMonths
+    });
+    if (!res.success) throw new Error(res.error || 'Failed to record concession');
+    return true;
+  }
+
+  // Record lowest quote for a floor plan and lease term for given day, preserving the minimum
+  async recordDailyQuote(input: { floor_plan_id: number; lease_term_months: number; price: number; collection_date?: string | Date }): Promise<void> {
+    await this.init();
+    const date = toDateOnly(input.collection_date ?? new Date());
+    const existing = await this.repos.priceHistory.findQuoteForDay(input.floor_plan_id, input.lease_term_months, date);
+    if (existing.success && existing.data) {
+      if (input.price >= Number(existing.data.price)) return;
+      const upd = await this.repos.priceHistory.updateQuotePrice(existing.data.id, input.price);
+      if (!upd.success) throw new Error(upd.error || 'Failed to update price quote');
+    } else {
+      const ins = await this.repos.priceHistory.createQuote({
+        floor_plan_id: input.floor_plan_id,
+        lease_term_months: input.lease_term_months,
+        price: input.price,
+        collection_date: date
+      });
+      if (!ins.success) throw new Error(ins.error || 'Failed to record price quote');
+    }
+    // Trigger alerts on a new or improved quote (only acts when this term is watched)
+    await alertService.onQuoteRecorded({
+      floor_plan_id: input.floor_plan_id,
+      lease_term_months: input.lease_term_months,
+      new_price: input.price,
+      collection_date: date
+    });
+  }
+
   // Read: get all floor plans with enriched fields, optionally filtered
-  async getAllFloorPlans(query: FloorPlanQuery = {}): Promise<DatabaseResult> {
+  async getAllFloorPlans(query: FloorPlanQuery = {}): Promise<DatabaseResult<FloorPlan[]>> {
     await this.init();
-    const all = await this.utils.getFloorPlansWithPricing();
+    const all = await this.repos.floorPlans.findAllWithPricing();
     if (!all.success) return all;
-    let rows = all.data as FloorPlan[];
+    let rows = all.data || [];
     if (query.building_id !== undefined) rows = rows.filter(r => r.building_id === query.building_id);
     if (query.bedrooms !== undefined) rows = rows.filter(r => r.bedrooms === query.bedrooms);
     if (query.bathrooms !== undefined) rows = rows.filter(r => Number(r.bathrooms) === Number(query.bathrooms));
     if (query.has_den !== undefined) rows = rows.filter(r => !!r.has_den === !!query.has_den);
     if (query.available_only) rows = rows.filter(r => !!r.is_available);
+    if (!query.include_archived) rows = rows.filter(r => !r.archived_at);
     return { success: true, data: rows };
   }
 
-  // Read: get a single floor plan with latest/lowest
-  async getFloorPlanById(id: number): Promise<DatabaseResult> {
-    const all = await this.getAllFloorPlans({});
-    if (!all.success) return all;
-    const fp = (all.data as FloorPlan[]).find(r => r.id === id) || null;
+  // Read: get a single floor plan with latest/lowest (archived plans included)
+  async getFloorPlanById(id: number): Promise<DatabaseResult<FloorPlan | null>> {
+    const all = await this.getAllFloorPlans({ include_archived: true });
+    if (!all.success) return { success: false, error: all.error };
+    const fp = (all.data || []).find(r => r.id === id) || null;
     return { success: true, data: fp };
   }
 
+  // Update admin-editable metadata; with an audit context every changed field is logged
+  async updateFloorPlan(id: number, changes: UpdateFloorPlanInput, audit?: AuditContext): Promise<DatabaseResult<WriteResult>> {
+    const columns: FloorPlanChanges = {};
+    for (const field of EDITABLE_FLOOR_PLAN_FIELDS) {
+      if (changes[field] !== undefined) Object.assign(columns, { [field]: changes[field] });
+    }
+    if (!Object.keys(columns).length) return { success: true, data: { lastID: 0, changes: 0 } };
+    // A bathroom count entered by hand is no longer an estimate
+    if (changes.bathrooms !== undefined) columns.bathrooms_estimated = false;
+    return this.auditedFloorPlanUpdate(id, () => this.repos.floorPlans.update(id, columns), audit);
+  }
+
+  // Metadata reconciliation: write bedrooms, bathrooms, has_den and bathrooms_estimated as given (unlike
+  // updateFloorPlan, an estimated bathroom count stays flagged). With a decision, the accepted value is
+  // recorded for the field in the same transaction.
+  async applyFloorPlanMetadata(
+    id: number,
+    changes: Pick<FloorPlanChanges, 'bedrooms' | 'bathrooms' | 'has_den' | 'bathrooms_estimated'>,
+    audit?: AuditContext,
+    decision?: Omit<MetadataDecision, 'floor_plan_id'>
+  ): Promise<DatabaseResult<WriteResult>> {
+    return this.auditedFloorPlanUpdate(id, async () => {
+      const upd = await this.repos.floorPlans.update(id, changes);
+      if (!upd.success || !decision) return upd;
+      const dec = await this.repos.floorPlans.saveMetadataDecision({ ...decision, floor_plan_id: id });
+      return dec.success ? upd : { success: false, error: dec.error };
+    }, audit);
+  }
+
+  async getMetadataDecisions(): Promise<DatabaseResult<MetadataDecision[]>> {
+    await this.init();
+    return this.repos.floorPlans.findMetadataDecisions();
+  }
+
+  // Soft delete: hide the plan but keep its price history and alerts
+  async archiveFloorPlan(id: number, audit?: AuditContext): Promise<DatabaseResult<WriteResult>> {
+    return this.auditedFloorPlanUpdate(id, () => this.repos.floorPlans.archive(id), audit);
+  }
+
+  async restoreFloorPlan(id: number, audit?: AuditContext): Promise<DatabaseResult<WriteResult>> {
+    return this.auditedFloorPlanUpdate(id, () => this.repos.floorPlans.update(id, { archived_at: null }), audit);
+  }
+
+  // Hard delete; cascades to price history, alerts and every other per-plan table.
+  // The audit entry keeps a snapshot of the row but cannot be reverted.
+  async purgeFloorPlan(id: number, audit?: AuditContext): Promise<DatabaseResult<WriteResult>> {
+    await this.init();
+    const trx = await this.db.executeTransaction(async () => {
+      const before = await this.repos.floorPlans.findById(id);
+      if (!before.success) throw new Error(before.error || 'Failed to read floor plan');
+      const del = await this.repos.floorPlans.delete(id);
+      if (!del.success) throw new Error(del.error || 'Failed to delete floor plan');
+      if (audit && before.data) {
+        await this.writeAuditEntry(audit, 'floor_plan', id, 'record', JSON.stringify(before.data), null);
+      }
+      return del.data;
+    });
+    return trx.success ? { success: true, data: trx.data } : { success: false, error: trx.error };
+  }
+
+  // Run one update against a floor plan and log each audited column whose value changed.
+  // revertedEntryId links the new entries to the audit entry being undone.
+  private async auditedFloorPlanUpdate(
+    id: number,
+    update: () => Promise<DatabaseResult<WriteResult>>,
+    audit?: AuditContext,
+    revertedEntryId?: number
+  ): Promise<DatabaseResult<WriteResult>> {
+    await this.init();
+    const trx = await this.db.executeTransaction<WriteResult>(async () => {
+      const before = await this.repos.floorPlans.findById(id);
+      if (!before.success) throw new Error(before.error || 'Failed to read floor plan');
+      if (!before.data) return { lastID: 0, changes: 0 };
+      const upd = await update();
+      if (!upd.success || !upd.data) throw new Error(upd.error || 'Failed to update floor plan');
+      if (audit) {
+        // Re-read so logged values are exactly what SQLite stored (CURRENT_TIMESTAMP, type affinity)
+        const after = await this.repos.floorPlans.findById(id);
+        if (!after.success || !after.data) throw new Error(after.error || 'Failed to read floor plan');
+        for (const field of AUDITED_FLOOR_PLAN_FIELDS) {
+          await this.writeAuditEntry(audit, 'floor_plan', id, field, before.data[field], after.data[field], revertedEntryId);
+        }
+      }
+      return upd.data;
+    });
+    return trx.success ? { success: true, data: trx.data } : { success: false, error: trx.error };
+  }
+
+  // Append an audit entry when the value actually changed
+  private async writeAuditEntry(
+    audit: AuditContext,
+    entityType: AuditEntityType,
+    entityId: number | string,
+    field: string,
+    oldValue: unknown,
+    newValue: unknown,
+    revertedEntryId?: number
+  ): Promise<void> {
+    const oldText = toAuditValue(oldValue);
+    const newText = toAuditValue(newValue);
+    if (oldText === newText) return;
+    const ins = await this.repos.auditLog.create({
+      actor: audit.actor,
+      entity_type: entityType,
+      entity_id: String(entityId),
+      field,
+      old_value: oldText,
+      new_value: newText,
+      source: audit.source,
+      reverted_entry_id: revertedEntryId ?? null
+    });
+    if (!ins.success) throw new Error(ins.error || 'Failed to write audit log');
+  }
+
+  // Read: audit entries, newest first
+  async getAuditLog(query: AuditLogQuery = {}): Promise<DatabaseResult<AuditLogEntry[]>> {
+    await this.init();
+    return this.repos.auditLog.findAll(query);
+  }
+
+  // Undo one audit entry by writing its old value back, logged as a new entry.
+  // data is null when the entry doesn't exist, { conflict } when it can't be applied
+  // (the field changed again since, or the change was a purge), otherwise { reverted }.
+  async revertAuditEntry(entryId: number, audit: AuditContext): Promise<DatabaseResult<AuditRevertResult | null>> {
+    await this.init();
+    const found = await this.repos.auditLog.findById(entryId);
+    if (!found.success) return { success: false, error: found.error };
+    if (!found.data) return { success: true, data: null };
+    const entry = found.data;
+
+    let current: string | null;
+    if (entry.entity_type === 'floor_plan' && isAuditedFloorPlanField(entry.field)) {
+      const row = await this.repos.floorPlans.findById(Number(entry.entity_id));
+      if (!row.success) return { success: false, error: row.error };
+      if (!row.data) return { success: true, data: { conflict: 'Floor plan no longer exists' } };
+      current = toAuditValue(row.data[entry.field]);
+    } else if (entry.entity_type === 'setting') {
+      const row = await this.repos.settings.get(entry.entity_id);
+      if (!row.success) return { success: false, error: row.error };
+      current = row.data ? toAuditValue(row.data.value) : null;
+    } else if (entry.entity_type === 'fee' && (entry.field === 'record' || isAuditedFeeField(entry.field))) {
+      const row = await this.getRecurringFeeById(Number(entry.entity_id));
+      if (!row.success) return { success: false, error: row.error };
+      if (entry.field === 'record') {
+        current = row.data ? JSON.stringify(row.data) : null;
+      } else {
+        if (!row.data) return { success: true, data: { conflict: 'Fee no longer exists' } };
+        current = toAuditValue(row.data[entry.field]);
+      }
+    } else if (entry.entity_type === 'property' && (entry.field === 'record' || isAuditedPropertyField(entry.field))) {
+      const row = await this.repos.properties.findById(Number(entry.entity_id));
+      if (!row.success) return { success: false, error: row.error };
+      if (entry.field === 'record') {
+        current = row.data ? JSON.stringify(row.data) : null;
+      } else {
+        if (!row.data) return { success: true, data: { conflict: 'Property no longer exists' } };
+        current = toAuditValue(propertyAuditValue(row.data, entry.field));
+      }
+    } else if (entry.entity_type === 'building' && (entry.field === 'record' || entry.field === 'property_id')) {
+      const row = await this.repos.buildings.findById(Number(entry.entity_id));
+      if (!row.success) return { success: false, error: row.error };
+      if (entry.field === 'record') {
+        current = row.data ? JSON.stringify(row.data) : null;
+      } else {
+        if (!row.data) return { success: true, data: { conflict: 'Building no longer exists' } };
+        current = toAuditValue(row.data.property_id);
+      }
+    } else {
+      return { success: true, data: { conflict: 'This change cannot be reverted' } };
+    }
+    if (current !== entry.new_value) {
+      return { success: true, data: { conflict: `${entry.field} has changed since; revert the newer change first` } };
+    }
+
+    let result: DatabaseResult<WriteResult>;
+    if (entry.entity_type === 'floor_plan') {
+      // Audit values are text; SQLite's column affinity turns them back into numbers
+      const floorPlanId = Number(entry.entity_id);
+      const revert = { [entry.field]: entry.old_value } as FloorPlanChanges;
+      result = await this.auditedFloorPlanUpdate(floorPlanId, async () => {
+        const upd = await this.repos.floorPlans.update(floorPlanId, revert);
+        if (!upd.success || !isMetadataField(entry.field)) return upd;
+        // An accepted metadata value no longer stands once reverted; reconciliation reports the field again
+        const dec = await this.repos.floorPlans.deleteMetadataDecision(floorPlanId, entry.field);
+        return dec.success ? upd : { success: false, error: dec.error };
+      }, audit, entry.id);
+    } else if (entry.entity_type === 'fee') {
+      const feeId = Number(entry.entity_id);
+      if (isAuditedFeeField(entry.field)) {
+        const revert = feeChangeFromAudit(entry.field, entry.old_value);
+        result = await this.auditedFeeWrite(feeId, () => this.repos.recurringFees.update(feeId, revert), audit, entry.id);
+      } else if (entry.old_value === null) {
+        // Undo a create
+        result = await this.auditedFeeWrite(feeId, () => this.repos.recurringFees.delete(feeId), audit, entry.id);
+      } else {
+        // Undo a delete: put the row back under its old id, if its building and plan still exist
+        const fee = JSON.parse(entry.old_value) as RecurringFee;
+        const building = await this.repos.buildings.findById(fee.building_id);
+        const plan = fee.floor_plan_id === null ? null : await this.repos.floorPlans.findById(fee.floor_plan_id);
+        if (!building.data || (plan && !plan.data)) {
+          return { success: true, data: { conflict: 'The building or floor plan this fee belonged to no longer exists' } };
+        }
+        result = await this.auditedFeeWrite(undefined, () => this.repos.recurringFees.create(fee), audit, entry.id);
+      }
+    } else if (entry.entity_type === 'property') {
+      const propertyId = Number(entry.entity_id);
+      if (isAuditedPropertyField(entry.field)) {
+        const revert = propertyChangeFromAudit(entry.field, entry.old_value);
+        result = await this.auditedPropertyWrite(propertyId, () => this.repos.properties.update(propertyId, revert), audit, entry.id);
+      } else if (entry.old_value === null) {
+        // Undo a create, once the property no longer owns buildings
+        const property = await this.getPropertyById(propertyId);
+        if (!property.success) return { success: false, error: property.error };
+        if (property.data?.buildings?.length) {
+          return { success: true, data: { conflict: 'Property still owns buildings; move or detach them first' } };
+        }
+        result = await this.auditedPropertyWrite(propertyId, () => this.repos.properties.delete(propertyId), audit, entry.id);
+      } else {
+        // Undo a delete: put the row back under its old id
+        const property = JSON.parse(entry.old_value) as Property;
+        result = await this.auditedPropertyWrite(undefined, () => this.repos.properties.create(property), audit, entry.id);
+      }
+    } else if (entry.entity_type === 'building') {
+      const buildingId = Number(entry.entity_id);
+      const building = entry.field === 'record' && entry.old_value !== null ? (JSON.parse(entry.old_value) as Building) : null;
+      const propertyId = entry.field === 'property_id' ? (entry.old_value === null ? null : Number(entry.old_value)) : building?.property_id ?? null;
+      if (propertyId !== null) {
+        const property = await this.repos.properties.findById(propertyId);
+        if (!property.success) return { success: false, error: property.error };
+        if (!property.data) return { success: true, data: { conflict: 'The property this building belonged to no longer exists' } };
+      }
+      if (entry.field === 'property_id') {
+        result = await this.auditedBuildingWrite(buildingId, () => this.repos.buildings.setProperty(buildingId, propertyId), audit, entry.id);
+      } else if (!building) {
+        // Undo an add; a building that has floor plans by now is kept
+        result = await this.auditedBuildingWrite(buildingId, () => this.repos.buildings.delete(buildingId), audit, entry.id);
+        if (result.success && !result.data?.changes) {
+          return { success: true, data: { conflict: 'Building has floor plans; move or detach it instead' } };
+        }
+      } else {
+        // Undo a removal: put the row back under its old id
+        const restore = { ...building, property_id: propertyId ?? undefined };
+        result = await this.auditedBuildingWrite(undefined, () => this.repos.buildings.create(restore), audit, entry.id);
+      }
+    } else {
+      result = await this.auditedSettingUpdate(entry.entity_id, entry.old_value, audit, entry.id);
+    }
+    if (!result.success) return { success: false, error: result.error };
+    return { success: true, data: { reverted: entry.id } };
+  }
+
   // Read: get price history for a floor plan with optional range and limit
-  async getPriceHistory(floorPlanId: number, startDate?: string, endDate?: string, limit?: number): Promise<DatabaseResult> {
+  async getPriceHistory(floorPlanId: number, startDate?: string, endDate?: string, limit?: number): Promise<DatabaseResult<PriceHistory[]>> {
+    await this.init();
+    return this.repos.priceHistory.findForFloorPlan(floorPlanId, startDate, endDate, limit);
+  }
+
+  // Read: raw intraday observations for a floor plan (newest first), optional range and limit
+  async getPriceObservations(floorPlanId: number, start?: string, end?: string, limit?: number): Promise<DatabaseResult<PriceObservation[]>> {
     await this.init();
-    const params: any[] = [floorPlanId];
-    let sql = 'SELECT * FROM price_history WHERE floor_plan_id = ?';
-    if (startDate) { sql += ' AND collection_date >= ?'; params.push(startDate); }
-    if (endDate) { sql += ' AND collection_date <= ?'; params.push(endDate); }
-    sql += ' ORDER BY collection_date DESC';
-    if (limit && limit > 0) { sql += ' LIMIT ?'; params.push(limit); }
-    return this.db.executeQuery(sql, params);
+    const iso = (value?: string) => (value ? new Date(value).toISOString() : undefined);
+    return this.repos.priceHistory.findObservations(floorPlanId, iso(start), iso(end), limit);
   }
 
   // Read: latest prices snapshot for all floor plans
-  async getLatestPrices(): Promise<DatabaseResult> {
+  async getLatestPrices(): Promise<DatabaseResult<{ prices: LatestPrice[]; lastUpdated: string }>> {
     await this.init();
     // Reuse the enriched view and project
-    const res = await this.utils.getFloorPlansWithPricing();
-    if (!res.success) return res;
+    const res = await this.repos.floorPlans.findAllWithPricing();
+    if (!res.success) return { success: false, error: res.error };
     const nowIso = new Date().toISOString();
-    const prices = (res.data as FloorPlan[]).map(fp => ({
+    const prices = (res.data || []).map((fp): LatestPrice => ({
       floor_plan_id: fp.id,
       floor_plan_name: fp.name,
       building_id: fp.building_id,
       building_name: fp.building_name,
       price: fp.current_price ?? null,
+      net_effective_rent: fp.net_effective_rent ?? null,
+      total_monthly_cost: fp.total_monthly_cost ?? null,
+      concession_text: fp.concession_text ?? null,
       is_available: fp.is_available ?? false
     }));
     return { success: true, data: { prices, lastUpdated: nowIso } };
   }
 
   // Cross-floor-plan price history with names (optional range/limit)
-  async getPriceHistoryRange(startDate?: string, endDate?: string, limit?: number): Promise<DatabaseResult> {
-    await this.init();
-    const params: any[] = [];
-    let sql = `
-      SELECT
-        ph.*,
-        fp.name AS floor_plan_name,
-        b.name AS building_name,
-        fp.square_footage AS square_footage
-      FROM price_history ph
-      JOIN floor_plans fp ON ph.floor_plan_id = fp.id
-      JOIN buildings b ON fp.building_id = b.id
-      WHERE 1=1
-    `;
-    if (startDate) {
-      sql += ' AND ph.collection_date >= ?';
-      params.push(startDate);
-    }
-    if (endDate) {
-      sql += ' AND ph.collection_date <= ?';
-      params.push(endDate);
-    }
-    sql += ' ORDER BY ph.collection_date DESC';
-    if (limit && limit > 0) {
-      sql += ' LIMIT ?';
-      params.push(limit);
-    }
-    return this.db.executeQuery(sql, params);
+  async getPriceHistoryRange(startDate?: string, endDate?: string, limit?: number): Promise<DatabaseResult<PriceHistoryDetail[]>> {
+    await this.init();
+    return this.repos.priceHistory.findRange(startDate, endDate, limit);
   }
 
   // Database health (connectivity & integrity)
-  async checkHealth(): Promise<DatabaseResult> {
+  async checkHealth(): Promise<DatabaseResult<DatabaseHealth>> {
     await this.init();
     return this.db.checkHealth();
   }
 
   // Database statistics (counts)
-  async getStatistics(): Promise<DatabaseResult> {
+  async getStatistics(): Promise<DatabaseResult<DatabaseStats>> {
+    await this.init();
+    return this.db.getStats();
+  }
+
+  // Applied vs defined migrations, with checksum mismatches
+  async getMigrationStatus(): Promise<DatabaseResult<MigrationStatus>> {
     await this.init();
-    return this.utils.getStatistics();
+    return new MigrationManager(this.db.getDatabase()).getStatus(migrations);
   }
 
   // Settings helpers
-  async getSetting(key: string): Promise<DatabaseResult> {
+  async getSetting(key: string): Promise<DatabaseResult<Settings | undefined>> {
     await this.init();
-    return this.utils.getSetting(key);
+    return this.repos.settings.get(key);
   }
 
-  async getAllSettings(): Promise<DatabaseResult> {
+  async getAllSettings(): Promise<DatabaseResult<Settings[]>> {
     await this.init();
-    return this.utils.getAllSettings();
+    return this.repos.settings.getAll();
   }
 
-  async updateSetting(key: string, value: string): Promise<DatabaseResult> {
+  // Internal bookkeeping (scheduler times, caches) passes no audit context and is not logged
+  async updateSetting(key: string, value: string, audit?: AuditContext): Promise<DatabaseResult<WriteResult>> {
     await this.init();
-    return this.utils.updateSetting(key, value);
+    if (!audit) return this.repos.settings.set(key, value);
+    return this.auditedSettingUpdate(key, value, audit);
   }
 
-  async updateAlertSettings(thresholdType: 'dollar' | 'percentage', thresholdValue: number): Promise<DatabaseResult> {
+  // value null deletes the setting (reverting a setting that didn't exist before)
+  private async auditedSettingUpdate(key: string, value: string | null, audit: AuditContext, revertedEntryId?: number): Promise<DatabaseResult<WriteResult>> {
     await this.init();
-    const r1 = await this.updateSetting('alert_threshold_type', thresholdType);
+    const trx = await this.db.executeTransaction<WriteResult | undefined>(async () => {
+      const before = await this.repos.settings.get(key);
+      if (!before.success) throw new Error(before.error || 'Failed to read setting');
+      const upd = value === null
+        ? await this.repos.settings.delete(key)
+        : await this.repos.settings.set(key, value);
+      if (!upd.success) throw new Error(upd.error || 'Failed to update setting');
+      await this.writeAuditEntry(audit, 'setting', key, 'value', before.data ? before.data.value : null, value, revertedEntryId);
+      return upd.data;
+    });
+    return trx.success ? { success: true, data: trx.data } : { success: false, error: trx.error };
+  }
+
+  // leaseTermMonths: undefined leaves the watched term unchanged, null watches the advertised price again
+  async updateAlertSettings(
+    thresholdType: 'dollar' | 'percentage',
+    thresholdValue: number,
+    leaseTermMonths?: number | null,
+    audit?: AuditContext
+  ): Promise<DatabaseResult<WriteResult>> {
+    await this.init();
+    const r1 = await this.updateSetting('alert_threshold_type', thresholdType, audit);
     if (!r1.success) return r1;
-    return this.updateSetting('alert_threshold_value', String(thresholdValue));
+    const r2 = await this.updateSetting('alert_threshold_value', String(thresholdValue), audit);
+    if (!r2.success || leaseTermMonths === undefined) return r2;
+    return this.updateSetting('alert_lease_term_months', leaseTermMonths === null ? '' : String(leaseTermMonths), audit);
+  }
+
+  // Retention policy: saved retention_<field> settings over DEFAULT_RETENTION_POLICY
+  async getRetentionPolicy(): Promise<DatabaseResult<RetentionPolicy>> {
+    await this.init();
+    const keys = Object.keys(DEFAULT_RETENTION_POLICY).map(field => `retention_${field}`);
+    const res = await this.repos.settings.getMany(keys);
+    if (!res.success) return { success: false, error: res.error };
+    const saved = new Map<string, string>((res.data || []).map(r => [r.key, r.value]));
+    const days = (field: keyof RetentionPolicy, fallback: number) => {
+      const v = parseInt(saved.get(`retention_${field}`) ?? '', 10);
+      return Number.isFinite(v) && v >= 0 ? v : fallback;
+    };
+    const keepAlertDays = saved.get('retention_keep_alert_days');
+    const policy: RetentionPolicy = {
+      daily_days: days('daily_days', DEFAULT_RETENTION_POLICY.daily_days),
+      weekly_days: days('weekly_days', DEFAULT_RETENTION_POLICY.weekly_days),
+      observation_days: days('observation_days', DEFAULT_RETENTION_POLICY.observation_days),
+      keep_alert_days: keepAlertDays === undefined ? DEFAULT_RETENTION_POLICY.keep_alert_days : keepAlertDays === 'true'
+    };
+    return { success: true, data: policy };
+  }
+
+  async updateRetentionPolicy(changes: Partial<RetentionPolicy>, audit?: AuditContext): Promise<DatabaseResult<RetentionPolicy>> {
+    await this.init();
+    for (const field of Object.keys(DEFAULT_RETENTION_POLICY) as Array<keyof RetentionPolicy>) {
+      if (changes[field] === undefined) continue;
+      const res = await this.updateSetting(`retention_${field}`, String(changes[field]), audit);
+      if (!res.success) return { success: false, error: res.error };
+    }
+    return this.getRetentionPolicy();
+  }
+
+  // Apply the saved policy (with overrides); dryRun reports what would be removed without removing it
+  async enforceRetentionPolicy(options: { dryRun?: boolean; policy?: Partial<RetentionPolicy>; now?: Date } = {}): Promise<DatabaseResult<RetentionReport>> {
+    await this.init();
+    const saved = await this.getRetentionPolicy();
+    if (!saved.success || !saved.data) return { success: false, error: saved.error };
+    const policy: RetentionPolicy = { ...saved.data, ...options.policy };
+    const dryRun = !!options.dryRun;
+
+    const now = options.now ?? new Date();
+    const daysAgo = (days: number) => {
+      const d = new Date(now);
+      d.setDate(d.getDate() - days);
+      return d;
+    };
+    // Daily points are kept forever unless daily_days is set, and weekly minima only start after them
+    const dailyCutoff = policy.daily_days > 0 ? toDateOnly(daysAgo(policy.daily_days)) : null;
+    const weeklyCutoff = dailyCutoff && policy.weekly_days > 0 ? toDateOnly(daysAgo(policy.daily_days + policy.weekly_days)) : null;
+    const observationCutoff = policy.observation_days > 0 ? daysAgo(policy.observation_days).toISOString() : null;
+
+    const res = await this.repos.priceHistory.cleanup(
+      { dailyCutoff, weeklyCutoff, observationCutoff, keepAlertDays: policy.keep_alert_days },
+      dryRun
+    );
+    if (!res.success || !res.data) return { success: false, error: res.error };
+
+    const { downsampled, expired, observations } = res.data;
+    const report: RetentionReport = {
+      dry_run: dryRun,
+      policy,
+      daily_cutoff: dailyCutoff,
+      weekly_cutoff: weeklyCutoff,
+      observation_cutoff: observationCutoff,
+      removed: { downsampled, expired, observations, total: downsampled + expired + observations }
+    };
+
+    if (!dryRun) {
+      await this.updateSetting('last_retention_run', JSON.stringify({ ran_at: now.toISOString(), removed: report.removed }));
+    }
+    return { success: true, data: report };
   }
 
   // Alerts
-  async getActiveAlerts(): Promise<DatabaseResult> {
+  async getActiveAlerts(): Promise<DatabaseResult<Alert[]>> {
+    await this.init();
+    return this.repos.alerts.findActive();
+  }
+
+  async dismissAlert(alertId: number): Promise<DatabaseResult<WriteResult>> {
+    await this.init();
+    return this.repos.alerts.dismiss(alertId);
+  }
+
+  // Scrape health: measure a building's scraped plans against the average of its recent runs.
+  // Flagged runs still count toward later baselines, so a legitimate change stops being flagged
+  // after a few runs; the scrape_health alert (one open per building) stays until dismissed.
+  async recordScrapeHealth(
+    buildingName: string,
+    plans: Array<Pick<ScrapedFloorPlan, 'price' | 'squareFootage'>>,
+    config: ScrapeHealthConfig = scrapeHealthConfig
+  ): Promise<DatabaseResult<ScrapeHealthCheck>> {
+    await this.init();
+    const building = await this.repos.buildings.findByName(buildingName);
+    if (!building.success || !building.data) {
+      return { success: false, error: building.error || `Building not found: ${buildingName}` };
+    }
+    const buildingId = building.data.id;
+
+    const recent = await this.repos.scrapeHealth.findRecentMetrics(buildingId, config.baselineRuns);
+    if (!recent.success) return { success: false, error: recent.error };
+
+    const metrics = measureScrape(plans);
+    const baseline = averageBaseline(recent.data || []);
+    const reasons = findDrift(metrics, baseline, config);
+
+    const ins = await this.repos.scrapeHealth.create({
+      building_id: buildingId,
+      ...metrics,
+      baseline_plan_count: baseline?.plan_count ?? null,
+      baseline_priced_share: baseline?.priced_share ?? null,
+      baseline_sqft_share: baseline?.sqft_share ?? null,
+      flagged: reasons.length > 0,
+      reasons
+    });
+    if (!ins.success || !ins.data) return { success: false, error: ins.error };
+
+    if (reasons.length) {
+      logger.warn('Scrape drift detected', { building: buildingName, reasons, metrics, baseline });
+      const open = await this.repos.alerts.findActiveForBuilding(buildingId, 'scrape_health');
+      if (open.success && !(open.data || []).length) {
+        await this.repos.alerts.create({
+          building_id: buildingId,
+          alert_type: 'scrape_health',
+          message: reasons.join('; ')
+        });
+      }
+    }
+
+    const row = await this.repos.scrapeHealth.findById(ins.data.lastID);
+    if (!row.success || !row.data) return { success: false, error: row.error || 'Failed to read scrape health check' };
+    return { success: true, data: row.data };
+  }
+
+  async getScrapeHealthChecks(options: { buildingId?: number; flaggedOnly?: boolean; limit?: number } = {}): Promise<DatabaseResult<ScrapeHealthCheck[]>> {
+    await this.init();
+    return this.repos.scrapeHealth.findAll(options);
+  }
+
+  // Scrape run history: a run row is opened when a scheduled or manual scrape starts, each building
+  // adds its diagnostics as it finishes, and finishScrapeRun sums them into the run's totals.
+  async startScrapeRun(trigger: ScrapeTrigger, startedAt: Date = new Date()): Promise<DatabaseResult<number>> {
+    await this.init();
+    const ins = await this.repos.scrapeRuns.create(trigger, startedAt.toISOString());
+    if (!ins.success || !ins.data) return { success: false, error: ins.error };
+    return { success: true, data: ins.data.lastID };
+  }
+
+  async recordScrapeRunBuilding(runId: number, input: CreateScrapeRunBuildingInput): Promise<DatabaseResult<WriteResult>> {
+    await this.init();
+    const building = await this.repos.buildings.findByName(input.building_name);
+    return this.repos.scrapeRuns.addBuilding(runId, building.data?.id ?? null, input);
+  }
+
+  // Close a run: totals and status come from its buildings; errors are the ones outside any building
+  async finishScrapeRun(
+    runId: number,
+    summary: { property_count: number; errors?: string[] },
+    finishedAt: Date = new Date()
+  ): Promise<DatabaseResult<ScrapeRunDetail | null>> {
+    await this.init();
+    const rows = await this.repos.scrapeRuns.findBuildings(runId);
+    if (!rows.success) return { success: false, error: rows.error };
+    const buildings = rows.data || [];
+    const runErrors = summary.errors || [];
+    const sum = (key: keyof Pick<ScrapeRunBuilding, 'plans_scraped' | 'plans_filtered' | 'plans_upserted' | 'plans_priced' | 'retry_count'>) =>
+      buildings.reduce((total, b) => total + (Number(b[key]) || 0), 0);
+    const succeeded = buildings.filter(b => b.success).length;
+
+    let status: ScrapeRunStatus;
+    if (buildings.length > 0 && succeeded === 0) status = 'failed';
+    else if (succeeded < buildings.length || runErrors.length > 0) status = 'partial';
+    else status = 'succeeded';
+
+    const upd = await this.repos.scrapeRuns.finish(runId, {
+      status,
+      finished_at: finishedAt.toISOString(),
+      property_count: summary.property_count,
+      building_count: buildings.length,
+      plans_scraped: sum('plans_scraped'),
+      plans_filtered: sum('plans_filtered'),
+      plans_upserted: sum('plans_upserted'),
+      plans_priced: sum('plans_priced'),
+      retry_count: sum('retry_count'),
+      error_count: runErrors.length + buildings.reduce((total, b) => total + b.errors.length, 0),
+      errors: runErrors
+    });
+    if (!upd.success) return { success: false, error: upd.error };
+    return this.getScrapeRun(runId);
+  }
+
+  // Newest first; total counts every run matching the filters, for paging
+  async getScrapeRuns(query: ScrapeRunQuery = {}): Promise<DatabaseResult<{ runs: ScrapeRun[]; total: number }>> {
+    await this.init();
+    return this.repos.scrapeRuns.findAll(query);
+  }
+
+  // null when the run doesn't exist; buildings in the order they were scraped
+  async getScrapeRun(runId: number): Promise<DatabaseResult<ScrapeRunDetail | null>> {
+    await this.init();
+    const run = await this.repos.scrapeRuns.findById(runId);
+    if (!run.success) return { success: false, error: run.error };
+    if (!run.data) return { success: true, data: null };
+    const buildings = await this.repos.scrapeRuns.findBuildings(runId);
+    if (!buildings.success) return { success: false, error: buildings.error };
+    return { success: true, data: { ...run.data, buildings: buildings.data || [] } };
+  }
+
+  // Scrape job queue: ScrapeJobRunner takes queued jobs oldest first and runs one at a time
+  async createScrapeJob(trigger: ScrapeTrigger, requestedBy: string | null = null, queuedAt: Date = new Date()): Promise<DatabaseResult<ScrapeJob>> {
+    await this.init();
+    const ins = await this.repos.scrapeJobs.create(trigger, requestedBy, queuedAt.toISOString());
+    if (!ins.success || !ins.data) return { success: false, error: ins.error };
+    const job = await this.getScrapeJob(ins.data.lastID);
+    if (!job.success || !job.data) return { success: false, error: job.error || 'Scrape job not created' };
+    return { success: true, data: job.data };
+  }
+
+  // null when the job doesn't exist
+  async getScrapeJob(jobId: number): Promise<DatabaseResult<ScrapeJob | null>> {
+    await this.init();
+    const res = await this.repos.scrapeJobs.findById(jobId);
+    if (!res.success) return { success: false, error: res.error };
+    return { success: true, data: res.data ?? null };
+  }
+
+  // Newest first; queued jobs are listed in the order they will run when filtered on status=queued
+  async getScrapeJobs(query: ScrapeJobQuery = {}): Promise<DatabaseResult<ScrapeJob[]>> {
     await this.init();
-    return this.utils.getActiveAlerts();
+    return this.repos.scrapeJobs.findAll(query);
   }
 
-  async dismissAlert(alertId: number): Promise<DatabaseResult> {
+  // With onlyIfStatus the job is changed only while it still has that status; the job is returned either way
+  async updateScrapeJob(
+    jobId: number,
+    input: UpdateScrapeJobInput,
+    onlyIfStatus?: ScrapeJobStatus
+  ): Promise<DatabaseResult<ScrapeJob | null>> {
     await this.init();
-    return this.utils.dismissAlert(alertId);
+    const upd = await this.repos.scrapeJobs.update(jobId, input, onlyIfStatus);
+    if (!upd.success) return { success: false, error: upd.error };
+    return this.getScrapeJob(jobId);
+  }
+
+  // Plan image manifest (services/PlanImageService stores the files); null when not found
+  async getPlanImageByHash(hash: string): Promise<DatabaseResult<PlanImage | null>> {
+    await this.init();
+    const res = await this.repos.planImages.findByHash(hash);
+    if (!res.success) return { success: false, error: res.error };
+    return { success: true, data: res.data ?? null };
+  }
+
+  async getPlanImageBySource(source: string): Promise<DatabaseResult<PlanImage | null>> {
+    await this.init();
+    const res = await this.repos.planImages.findBySource(source);
+    if (!res.success) return { success: false, error: res.error };
+    return { success: true, data: res.data ?? null };
+  }
+
+  // An image whose hash is already recorded is returned as it was stored
+  async createPlanImage(input: CreatePlanImageInput): Promise<DatabaseResult<PlanImage>> {
+    await this.init();
+    const ins = await this.repos.planImages.create(input);
+    if (!ins.success) return { success: false, error: ins.error };
+    const image = await this.getPlanImageByHash(input.hash);
+    if (!image.success || !image.data) return { success: false, error: image.error || 'Plan image not created' };
+    return { success: true, data: image.data };
+  }
+
+  async addPlanImageSource(source: string, planImageId: number, seenAt: Date = new Date()): Promise<DatabaseResult<WriteResult>> {
+    await this.init();
+    return this.repos.planImages.addSource(source, planImageId, seenAt.toISOString());
+  }
+
+  // A floor plan shows one image; linking another replaces it
+  async linkFloorPlanImage(floorPlanId: number, planImageId: number, linkedAt: Date = new Date()): Promise<DatabaseResult<WriteResult>> {
+    await this.init();
+    return this.repos.floorPlans.linkImage(floorPlanId, planImageId, linkedAt.toISOString());
+  }
+
+  // Newest first, with URLs, sources and how many floor plans show each image
+  async getPlanImages(): Promise<DatabaseResult<PlanImage[]>> {
+    await this.init();
+    return this.repos.planImages.findAll();
+  }
+
+  // Create a token for one device; the plain token is returned this once
+  async createIngestToken(device: string, audit?: AuditContext): Promise<DatabaseResult<CreatedIngestToken>> {
+    await this.init();
+    const token = crypto.randomBytes(24).toString('hex');
+    const trx = await this.db.executeTransaction<IngestToken>(async () => {
+      const ins = await this.repos.ingestTokens.create({
+        device,
+        token_hash: hashIngestToken(token),
+        token_prefix: token.slice(0, 8),
+        created_by: audit?.actor ?? null
+      });
+      if (!ins.success || !ins.data) throw new Error(ins.error || 'Failed to create ingest token');
+      const row = await this.repos.ingestTokens.findById(ins.data.lastID);
+      if (!row.success || !row.data) throw new Error(row.error || 'Failed to read ingest token');
+      if (audit) await this.writeAuditEntry(audit, 'ingest_token', row.data.id, 'record', null, JSON.stringify(row.data));
+      return row.data;
+    });
+    return trx.success ? { success: true, data: { ...trx.data!, token } } : { success: false, error: trx.error };
+  }
+
+  // Read: ingest tokens (without their hashes), newest first
+  async getIngestTokens(): Promise<DatabaseResult<IngestToken[]>> {
+    await this.init();
+    return this.repos.ingestTokens.findAll();
+  }
+
+  // Revoke a token; data is null when it doesn't exist. Revoking it again keeps the first revocation.
+  async revokeIngestToken(id: number, audit?: AuditContext): Promise<DatabaseResult<IngestToken | null>> {
+    await this.init();
+    const trx = await this.db.executeTransaction<IngestToken | null>(async () => {
+      const upd = await this.repos.ingestTokens.revoke(id, audit?.actor ?? null);
+      if (!upd.success) throw new Error(upd.error || 'Failed to revoke ingest token');
+      const row = await this.repos.ingestTokens.findById(id);
+      if (!row.success) throw new Error(row.error || 'Failed to read ingest token');
+      if (row.data && upd.data?.changes && audit) {
+        await this.writeAuditEntry(audit, 'ingest_token', id, 'revoked_at', null, row.data.revoked_at);
+      }
+      return row.data ?? null;
+    });
+    return trx.success ? { success: true, data: trx.data ?? null } : { success: false, error: trx.error };
+  }
+
+  // The unrevoked token matching a presented one (its use is recorded), or null
+  async verifyIngestToken(token: string): Promise<DatabaseResult<IngestToken | null>> {
+    await this.init();
+    const row = await this.repos.ingestTokens.findActiveByHash(hashIngestToken(token));
+    if (!row.success) return { success: false, error: row.error };
+    if (!row.data) return { success: true, data: null };
+    const used = new Date().toISOString();
+    await this.repos.ingestTokens.markUsed(row.data.id, used);
+    return { success: true, data: { ...row.data, last_used_at: used } };
   }
 
   // Persist a scraping result for a building
-  async persistScrapedFloorPlans(building: Pick<Building, 'name' | 'url'>, floorPlans: ScrapedFloorPlan[], collectedAt?: Date): Promise<{ buildingId: number; upserted: number; priced: number; }> {
+  async persistScrapedFloorPlans(
+    building: Pick<Building, 'name' | 'url'>,
+    floorPlans: ScrapedFloorPlan[],
+    collectedAt?: Date,
+    source: ObservationSource = 'scheduler'
+  ): Promise<{ buildingId: number; upserted: number; priced: number; }> {
     await this.init();
-    const date = toDateOnly(collectedAt ?? new Date());
+    const observedAt = collectedAt ?? new Date();
+    const date = toDateOnly(observedAt);
     const stats = { buildingId: 0, upserted: 0, priced: 0 };
     const trx = await this.db.executeTransaction(async (database) => {
       // Upsert building
@@ -307,11 +1368,23 @@ export class DataService {
             image_url: fp.imageUrl || undefined
           });
           stats.upserted++;
+          if (fp.planImageId) {
+            await this.linkFloorPlanImage(up.id, fp.planImageId, observedAt);
+          }
+          // Concession first so alerts triggered by the price compare net effective rents
+          await this.recordDailyConcession({
+            floor_plan_id: up.id,
+            concession_text: fp.concessionText,
+            collection_date: date
+          });
           await this.recordDailyPrice({
             floor_plan_id: up.id,
             price: fp.price,
             is_available: fp.isAvailable,
-            collection_date: date
+            collection_date: date,
+            source,
+            price_text: fp.priceText,
+            observed_at: observedAt
           });
           stats.priced++;
         } catch (err) {
@@ -326,13 +1399,14 @@ export class DataService {
     return trx.data!;
   }
 
-  // SecureCafe availability cache (JSON blob stored in settings)
-  async getSecureCafeAvailabilityCache(): Promise<{ data: any | null; time: string | null }> {
+  // SecureCafe availability cache (JSON blob stored in settings), one per property slug
+  async getSecureCafeAvailabilityCache(propertySlug?: string): Promise<{ data: any | null; time: string | null }> {
     await this.init();
-    const jsonRes = await this.getSetting('securecafe_availability_json');
-    const timeRes = await this.getSetting('securecafe_availability_time');
-    const json = jsonRes.success ? (jsonRes.data as any)?.value : null;
-    const time = timeRes.success ? String((timeRes.data as any)?.value || '') : null;
+    const suffix = propertySlug ? `:${propertySlug}` : '';
+    const jsonRes = await this.getSetting(`securecafe_availability_json${suffix}`);
+    const timeRes = await this.getSetting(`securecafe_availability_time${suffix}`);
+    const json = jsonRes.success ? jsonRes.data?.value : null;
+    const time = timeRes.success ? String(timeRes.data?.value || '') : null;
     let data: any | null = null;
     try {
       data = json ? JSON.parse(json) : null;
@@ -342,12 +1416,165 @@ export class DataService {
     return { data, time: time || null };
   }
 
-  async setSecureCafeAvailabilityCache(payload: any, when?: Date | string): Promise<void> {
+  async setSecureCafeAvailabilityCache(payload: any, when?: Date | string, propertySlug?: string): Promise<void> {
     await this.init();
+    const suffix = propertySlug ? `:${propertySlug}` : '';
     const serialized = JSON.stringify(payload ?? {});
     const ts = typeof when === 'string' ? when : new Date().toISOString();
-    await this.updateSetting('securecafe_availability_json', serialized);
-    await this.updateSetting('securecafe_availability_time', ts);
+    await this.updateSetting(`securecafe_availability_json${suffix}`, serialized);
+    await this.updateSetting(`securecafe_availability_time${suffix}`, ts);
+  }
+
+  // Persist SecureCafe units and append one observation per unit.
+  // Units of a refreshed building that are no longer listed are marked leased, unless the list
+  // may be partial (markMissingLeased false)
+  async persistSecureCafeUnits(
+    units: SecureCafeUnit[],
+    observedAt?: Date | string,
+    source: ObservationSource = 'scheduler',
+    markMissingLeased = true
+  ): Promise<{ upserted: number; leased: number; }> {
+    await this.init();
+    const ts = typeof observedAt === 'string' ? observedAt : (observedAt ?? new Date()).toISOString();
+    const stats = { upserted: 0, leased: 0 };
+    // An empty list usually means the scrape failed; don't mark every unit leased
+    if (!units.length) return stats;
+
+    const trx = await this.db.executeTransaction(async () => {
+      const buildingsRes = await this.repos.buildings.findAll();
+      const buildingIds = new Map<string, number>(
+        (buildingsRes.data || []).map(b => [b.name.toUpperCase(), b.id])
+      );
+      const plansRes = await this.repos.floorPlans.findAllWithBuilding();
+      const planIds = new Map<string, number>();
+      for (const fp of plansRes.data || []) {
+        planIds.set(`${fp.building_id}|${normalizePlanCode(fp.name)}`, fp.id);
+      }
+
+      const refreshedBuildings = new Set<number>();
+      for (const u of units) {
+        const buildingId = buildingIds.get(String(u.building || '').toUpperCase());
+        const unitNumber = String(u.unit || '').replace(/^#/, '').trim();
+        if (!buildingId || !/\d/.test(unitNumber)) continue;
+        refreshedBuildings.add(buildingId);
+
+        const floorPlanId = planIds.get(`${buildingId}|${normalizePlanCode(u.planCode)}`) ?? null;
+        const rent = parseRent(u.rent);
+        const listing = { floor_plan_id: floorPlanId, plan_code: u.planCode, current_rent: rent, move_in_date: u.moveInDate || null };
+        const existing = await this.repos.units.findByNumber(buildingId, unitNumber);
+        let unitId: number;
+        if (existing.success && existing.data) {
+          unitId = existing.data.id;
+          const upd = await this.repos.units.updateListing(unitId, listing, ts);
+          if (!upd.success) throw new Error(upd.error || `Failed to update unit ${unitNumber}`);
+        } else {
+          const ins = await this.repos.units.create(buildingId, unitNumber, listing, ts);
+          if (!ins.success) throw new Error(ins.error || `Failed to insert unit ${unitNumber}`);
+          unitId = ins.data!.lastID;
+        }
+
+        const obs = await this.repos.units.addObservation({
+          unit_id: unitId,
+          rent,
+          rent_text: u.rent || null,
+          move_in_date: u.moveInDate || null,
+          source,
+          observed_at: ts
+        });
+        if (!obs.success) throw new Error(obs.error || `Failed to record observation for unit ${unitNumber}`);
+        stats.upserted++;
+      }
+
+      for (const buildingId of markMissingLeased ? refreshedBuildings : []) {
+        const leased = await this.repos.units.markLeased(buildingId, ts);
+        if (leased.success) stats.leased += leased.data?.changes || 0;
+      }
+      return stats;
+    });
+    if (!trx.success) {
+      throw new Error(trx.error || 'Transaction failed');
+    }
+    return trx.data!;
+  }
+
+  // Persist the SecureCafe lease-term matrix, matching quotes to floor plans by building + plan code
+  async persistLeaseTermQuotes(quotes: SecureCafeLeaseQuote[], observedAt?: Date | string): Promise<{ recorded: number; unmatched: number; }> {
+    await this.init();
+    const date = toDateOnly(observedAt ?? new Date());
+    const stats = { recorded: 0, unmatched: 0 };
+    if (!quotes.length) return stats;
+
+    const plansRes = await this.repos.floorPlans.findAllWithBuilding();
+    const planIds = new Map<string, number>();
+    for (const fp of plansRes.data || []) {
+      planIds.set(`${String(fp.building_name).toUpperCase()}|${normalizePlanCode(fp.name)}`, fp.id);
+    }
+
+    const trx = await this.db.executeTransaction(async () => {
+      for (const q of quotes) {
+        const floorPlanId = planIds.get(`${String(q.building || '').toUpperCase()}|${normalizePlanCode(q.planCode)}`);
+        if (!floorPlanId) {
+          stats.unmatched++;
+          continue;
+        }
+        await this.recordDailyQuote({
+          floor_plan_id: floorPlanId,
+          lease_term_months: q.leaseTermMonths,
+          price: q.price,
+          collection_date: date
+        });
+        stats.recorded++;
+      }
+      return stats;
+    });
+    if (!trx.success) {
+      throw new Error(trx.error || 'Transaction failed');
+    }
+    return trx.data!;
+  }
+
+  // Read: latest day's lease-term quotes per floor plan with the cheapest term
+  async getLeaseTermPricing(floorPlanId?: number): Promise<DatabaseResult<LeaseTermPricing[]>> {
+    await this.init();
+    const res = await this.repos.priceHistory.findLatestQuotes(floorPlanId);
+    if (!res.success) return { success: false, error: res.error };
+
+    const byPlan = new Map<number, LeaseTermPricing>();
+    for (const r of res.data || []) {
+      let entry = byPlan.get(r.floor_plan_id);
+      if (!entry) {
+        entry = {
+          floor_plan_id: r.floor_plan_id,
+          floor_plan_name: r.floor_plan_name,
+          building_name: r.building_name,
+          collection_date: r.collection_date,
+          quotes: [],
+          cheapest: null
+        };
+        byPlan.set(r.floor_plan_id, entry);
+      }
+      entry.quotes.push({ lease_term_months: r.lease_term_months, price: Number(r.price) });
+    }
+    const rows = Array.from(byPlan.values()).map(e => ({ ...e, cheapest: cheapestQuote(e.quotes) }));
+    return { success: true, data: rows };
+  }
+
+  // Read: units with building/floor plan names, optionally filtered
+  async getUnits(query: UnitQuery = {}): Promise<DatabaseResult<Unit[]>> {
+    await this.init();
+    return this.repos.units.findAll(query);
+  }
+
+  // Read: a single unit
+  async getUnitById(id: number): Promise<DatabaseResult<Unit | undefined>> {
+    await this.init();
+    return this.repos.units.findById(id);
+  }
+
+  // Read: observation history for a unit, newest first
+  async getUnitHistory(unitId: number, limit?: number): Promise<DatabaseResult<UnitObservation[]>> {
+    await this.init();
+    return this.repos.units.findHistory(unitId, limit);
   }
 }
  
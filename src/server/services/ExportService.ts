@@ -1,5 +1,6 @@
 import { Response } from 'express';
 import dataService from './DataService';
+import { PriceHistoryDetail } from '../../shared/types/database';
 import logger from '../utils/logger';
 
 export interface PriceHistoryExportOptions {
@@ -8,6 +9,7 @@ export interface PriceHistoryExportOptions {
   limit?: number;
   filenamePrefix?: string; // default: price_history
   includeHeader?: boolean; // default: true
+  basis?: 'rent' | 'total'; // 'total' adds monthly_fees and total_monthly_cost columns; default: rent
 }
 
 function csvEscape(v: unknown): string {
@@ -37,8 +39,13 @@ export class ExportService {
    * - building
    * - date
    * - price
+   * - concession (advertised special text, if any)
+   * - net_effective_rent (price net of the concession amortized over its lease term)
    * - is_available
    * - sqft
+   * With basis 'total', also:
+   * - monthly_fees (recurring fees from the current fee catalog)
+   * - total_monthly_cost (price plus monthly_fees)
    */
   async streamPriceHistoryCSV(res: Response, opts: PriceHistoryExportOptions = {}): Promise<void> {
     const {
@@ -47,9 +54,11 @@ export class ExportService {
       limit,
       filenamePrefix = 'price_history',
       includeHeader = true,
+      basis = 'rent',
     } = opts;
+    const withTotals = basis === 'total';
 
-    logger.info('ExportService.streamPriceHistoryCSV start', { start, end, limit, includeHeader });
+    logger.info('ExportService.streamPriceHistoryCSV start', { start, end, limit, includeHeader, basis });
 
     const result = await dataService.getPriceHistoryRange(start, end, limit);
     if (!result.success) {
@@ -58,7 +67,7 @@ export class ExportService {
       throw new Error(errMsg);
     }
 
-    const rows: any[] = Array.isArray(result.data) ? result.data : [];
+    const rows: PriceHistoryDetail[] = Array.isArray(result.data) ? result.data : [];
     const filename = `${filenamePrefix}_${buildTimestamp()}.csv`;
 
     res.setHeader('Content-Type', 'text/csv; charset=utf-8');
@@ -66,7 +75,9 @@ export class ExportService {
 
     // header
     if (includeHeader) {
-      const header = ['floor_plan', 'building', 'date', 'price', 'is_available', 'sqft']
+      const columns = ['floor_plan', 'building', 'date', 'price', 'concession', 'net_effective_rent', 'is_available', 'sqft'];
+      if (withTotals) columns.push('monthly_fees', 'total_monthly_cost');
+      const header = columns
         .map(csvEscape)
         .join(',') + '\n';
       res.write(header);
@@ -74,14 +85,18 @@ export class ExportService {
 
     // rows
     for (const r of rows) {
-      const line = [
-        csvEscape(r.floor_plan_name),
-        csvEscape(r.building_name),
-        csvEscape(r.collection_date),
-        csvEscape(r.price),
-        csvEscape((r.is_available === true || r.is_available === 1) ? 'true' : 'false'),
-        csvEscape(r.square_footage ?? '')
-      ].join(',') + '\n';
+      const values = [
+        r.floor_plan_name,
+        r.building_name,
+        r.collection_date,
+        r.price,
+        r.concession_text ?? '',
+        r.net_effective_rent ?? r.price,
+        r.is_available ? 'true' : 'false',
+        r.square_footage ?? ''
+      ];
+      if (withTotals) values.push(r.monthly_fees ?? 0, r.total_monthly_cost ?? r.price);
+      const line = values.map(csvEscape).join(',') + '\n';
       res.write(line);
     }
 
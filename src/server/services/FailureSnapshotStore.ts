@@ -0,0 +1,173 @@
+// FailureSnapshotStore: what the page looked like when a scrape attempt failed — full-page screenshot,
+// HTML and console log — kept on disk in one directory per scrape run. Only the newest maxRuns
+// directories are kept.
+
+import fs from 'fs';
+import path from 'path';
+import logger from '../utils/logger';
+import { failureSnapshotConfig, FailureSnapshotConfig } from '../config/scraper';
+
+// Page state gathered by the scraper before the failed page was closed; null parts could not be read
+export interface FailureCapture {
+  url: string;
+  html: string | null;
+  screenshot: Buffer | null;
+  console: string[];
+}
+
+export interface FailureSnapshot {
+  run: string;       // directory: run-<scrape run id>, or adhoc-<timestamp> outside a scrape run
+  name: string;      // <building>-attempt<N>
+  building: string;
+  attempt: number;
+  error: string;
+  url: string | null;
+  captured_at: string;
+  files: {           // file names in the run directory; null when that part could not be captured
+    screenshot: string | null;
+    html: string | null;
+    console: string | null;
+  };
+}
+
+export interface FailureSnapshotRun {
+  run: string;
+  snapshots: FailureSnapshot[]; // in the order they were captured
+}
+
+const RUN_RE = /^(run-\d+|adhoc-\d{8}-\d{9})$/;
+const FILE_RE = /^[a-z0-9-]+-attempt\d+\.(png|html|console\.log|json)$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  html: 'text/html; charset=utf-8',
+  log: 'text/plain; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
+
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'building';
+
+/**
+ * Directory for a scrape run's snapshots; scrapes outside a run get their own timestamped directory
+ */
+export function failureRunDir(runId?: number | null, now: Date = new Date()): string {
+  if (runId) return `run-${runId}`;
+  const stamp = now.toISOString().replace(/[-:TZ.]/g, '');
+  return `adhoc-${stamp.slice(0, 8)}-${stamp.slice(8)}`;
+}
+
+export class FailureSnapshotStore {
+  constructor(private readonly config: FailureSnapshotConfig = failureSnapshotConfig) {}
+
+  get enabled(): boolean {
+    return this.config.maxRuns > 0;
+  }
+
+  /**
+   * Write one failed attempt's files and metadata, then drop the oldest run directories past maxRuns
+   */
+  async save(run: string, building: string, attempt: number, error: string, capture: FailureCapture | null): Promise<FailureSnapshot> {
+    if (!RUN_RE.test(run)) throw new Error(`Invalid failure snapshot run: ${run}`);
+    const dir = path.join(this.config.dir, run);
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    const name = `${slug(building)}-attempt${attempt}`;
+    const write = async (ext: string, body: string | Buffer | null | undefined): Promise<string | null> => {
+      if (body === null || body === undefined) return null;
+      await fs.promises.writeFile(path.join(dir, `${name}.${ext}`), body);
+      return `${name}.${ext}`;
+    };
+
+    const snapshot: FailureSnapshot = {
+      run,
+      name,
+      building,
+      attempt,
+      error,
+      url: capture?.url ?? null,
+      captured_at: new Date().toISOString(),
+      files: {
+        screenshot: await write('png', capture?.screenshot),
+        html: await write('html', capture?.html),
+        console: await write('console.log', capture ? capture.console.join('\n') : null)
+      }
+    };
+    await write('json', JSON.stringify(snapshot, null, 2));
+    logger.info('Failure snapshot saved', { run, name, files: snapshot.files });
+
+    await this.prune();
+    return snapshot;
+  }
+
+  /**
+   * Run directories newest first, or just the one named
+   */
+  async list(run?: string): Promise<FailureSnapshotRun[]> {
+    const runs = run ? (RUN_RE.test(run) ? [run] : []) : await this.runsNewestFirst();
+    const result: FailureSnapshotRun[] = [];
+    for (const r of runs) {
+      let entries: string[];
+      try {
+        entries = await fs.promises.readdir(path.join(this.config.dir, r));
+      } catch {
+        continue;
+      }
+      const snapshots: FailureSnapshot[] = [];
+      for (const file of entries.filter(f => FILE_RE.test(f) && f.endsWith('.json'))) {
+        try {
+          snapshots.push(JSON.parse(await fs.promises.readFile(path.join(this.config.dir, r, file), 'utf8')));
+        } catch {
+          // A half-written or hand-edited file; leave it out
+        }
+      }
+      snapshots.sort((a, b) => a.captured_at.localeCompare(b.captured_at));
+      result.push({ run: r, snapshots });
+    }
+    return result;
+  }
+
+  /**
+   * Absolute path and content type of one snapshot file; null for names outside the store or missing files
+   */
+  async file(run: string, file: string): Promise<{ path: string; contentType: string } | null> {
+    if (!RUN_RE.test(run) || !FILE_RE.test(file)) return null;
+    const full = path.resolve(this.config.dir, run, file);
+    try {
+      await fs.promises.access(full);
+    } catch {
+      return null;
+    }
+    return { path: full, contentType: CONTENT_TYPES[file.split('.').pop()!] };
+  }
+
+  /**
+   * Delete run directories past maxRuns, oldest first; returns the ones removed
+   */
+  async prune(maxRuns = this.config.maxRuns): Promise<string[]> {
+    const runs = await this.runsNewestFirst();
+    const removed = runs.slice(Math.max(0, maxRuns));
+    for (const r of removed) {
+      await fs.promises.rm(path.join(this.config.dir, r), { recursive: true, force: true });
+    }
+    if (removed.length) {
+      logger.info('Pruned failure snapshots', { removed, maxRuns });
+    }
+    return removed;
+  }
+
+  private async runsNewestFirst(): Promise<string[]> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(this.config.dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+    const runs = await Promise.all(entries
+      .filter(e => e.isDirectory() && RUN_RE.test(e.name))
+      .map(async e => ({ name: e.name, mtime: (await fs.promises.stat(path.join(this.config.dir, e.name))).mtimeMs })));
+    return runs.sort((a, b) => b.mtime - a.mtime || b.name.localeCompare(a.name)).map(r => r.name);
+  }
+}
+
+export const failureSnapshotStore = new FailureSnapshotStore();
+export default failureSnapshotStore;
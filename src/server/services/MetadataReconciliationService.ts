@@ -0,0 +1,279 @@
+// MetadataReconciliationService: bedrooms, bathrooms and den as reported by each metadata source
+// (floor-plan-metadata.json, the userscript download, updateFloorPlanMetadata.ts output), compared
+// with the stored floor plans. Produces a per-plan conflict report with provenance, records the value
+// an admin accepts per field, and keeps bathrooms_estimated in line with the sources.
+
+import fs from 'fs';
+import logger from '../utils/logger';
+import { metadataSourceConfig, MetadataSourceConfig } from '../config/scraper';
+import type {
+  AuditContext,
+  DatabaseResult,
+  FloorPlan,
+  MetadataCandidate,
+  MetadataDecision,
+  MetadataField,
+  MetadataFieldReport,
+  MetadataPlanReport,
+  MetadataReconciliationReport,
+  MetadataSource,
+  MetadataSourceStatus
+} from '../../shared/types/database';
+import dataService, { DataService } from './DataService';
+
+export const METADATA_FIELDS: MetadataField[] = ['bedrooms', 'bathrooms', 'has_den'];
+
+// Entry shape shared by every source file; bathrooms 0 means the source didn't know
+interface MetadataFileEntry {
+  bedrooms?: number;
+  bathrooms?: number;
+  hasDen?: boolean;
+  bathroomsEstimated?: boolean;
+}
+
+export type MetadataFile = Record<string, Record<string, MetadataFileEntry>>;
+
+interface LoadedSource {
+  status: MetadataSourceStatus;
+  entries: Array<{ building: string; plan: string; entry: MetadataFileEntry }>;
+}
+
+export interface MetadataChoice {
+  field: MetadataField;
+  value: number | boolean;
+  source: MetadataSource;
+  estimated: boolean;
+}
+
+export interface ApplyAgreedSummary {
+  plans_updated: number;
+  fields_updated: number;
+  flags_updated: number; // bathrooms_estimated corrected
+}
+
+/**
+ * Sources and floor plans name plans differently ("PLAN A1", "Plan A1*"); both reduce to building|A1
+ */
+export function metadataPlanKey(building: string, plan: string): string {
+  const code = String(plan || '').toUpperCase().replace(/\*/g, '').replace(/\s+/g, ' ').trim().replace(/^PLAN\s+/, '');
+  return `${String(building || '').trim().toLowerCase()}|${code}`;
+}
+
+const currentValue = (fp: FloorPlan, field: MetadataField): number | boolean =>
+  field === 'has_den' ? !!fp.has_den : Number(fp[field]);
+
+const candidateValue = (entry: MetadataFileEntry, field: MetadataField): number | boolean | undefined => {
+  if (field === 'has_den') return typeof entry.hasDen === 'boolean' ? entry.hasDen : undefined;
+  const value = field === 'bedrooms' ? entry.bedrooms : entry.bathrooms;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) return undefined;
+  return field === 'bathrooms' && value === 0 ? undefined : value;
+};
+
+// Confirmed values outrank estimates; a field only estimated everywhere is judged on the estimates
+const consideredCandidates = (candidates: MetadataCandidate[]): MetadataCandidate[] => {
+  const confirmed = candidates.filter(c => !c.estimated);
+  return confirmed.length ? confirmed : candidates;
+};
+
+export class MetadataReconciliationService {
+  constructor(
+    private readonly data: DataService = dataService,
+    private readonly config: MetadataSourceConfig = metadataSourceConfig
+  ) {}
+
+  /**
+   * Every floor plan the sources say something about, with each field's candidates and whether they conflict
+   */
+  async report(): Promise<DatabaseResult<MetadataReconciliationReport>> {
+    const plans = await this.data.getAllFloorPlans();
+    if (!plans.success) return { success: false, error: plans.error };
+    const decisions = await this.data.getMetadataDecisions();
+    if (!decisions.success) return { success: false, error: decisions.error };
+
+    const sources = await this.loadSources();
+    const candidatesByPlan = new Map<string, Array<{ source: LoadedSource; entry: MetadataFileEntry }>>();
+    for (const source of sources) {
+      for (const e of source.entries) {
+        const key = metadataPlanKey(e.building, e.plan);
+        candidatesByPlan.set(key, [...(candidatesByPlan.get(key) || []), { source, entry: e.entry }]);
+      }
+    }
+
+    const decisionsByPlan = new Map<number, MetadataDecision[]>();
+    for (const d of decisions.data || []) {
+      decisionsByPlan.set(d.floor_plan_id, [...(decisionsByPlan.get(d.floor_plan_id) || []), d]);
+    }
+
+    const matched = new Set<string>();
+    const reports: MetadataPlanReport[] = [];
+    for (const fp of plans.data || []) {
+      const key = metadataPlanKey(fp.building_name || '', fp.name);
+      const found = candidatesByPlan.get(key);
+      if (!found) continue;
+      matched.add(key);
+      reports.push(this.buildPlanReport(fp, found, decisionsByPlan.get(fp.id) || []));
+    }
+
+    return {
+      success: true,
+      data: {
+        generated_at: new Date().toISOString(),
+        sources: sources.map(s => s.status),
+        plans: reports,
+        unmatched: sources.flatMap(s => s.entries
+          .filter(e => !matched.has(metadataPlanKey(e.building, e.plan)))
+          .map(e => ({ source: s.status.source, building: e.building, plan: e.plan })))
+      }
+    };
+  }
+
+  /**
+   * One floor plan's report; null when the plan doesn't exist or no source mentions it
+   */
+  async planReport(floorPlanId: number): Promise<DatabaseResult<MetadataPlanReport | null>> {
+    const report = await this.report();
+    if (!report.success || !report.data) return { success: false, error: report.error };
+    return { success: true, data: report.data.plans.find(p => p.floor_plan_id === floorPlanId) || null };
+  }
+
+  /**
+   * Store the accepted value for one field and remember the decision; bathrooms_estimated follows the
+   * accepted bathroom count
+   */
+  async accept(floorPlanId: number, choice: MetadataChoice, audit: AuditContext): Promise<DatabaseResult<MetadataPlanReport | null>> {
+    const changes = choice.field === 'bathrooms'
+      ? { bathrooms: Number(choice.value), bathrooms_estimated: choice.estimated }
+      : { [choice.field]: choice.field === 'has_den' ? !!choice.value : Number(choice.value) };
+    const upd = await this.data.applyFloorPlanMetadata(floorPlanId, changes, audit, {
+      ...choice,
+      decided_by: audit.actor,
+      decided_at: new Date().toISOString()
+    });
+    if (!upd.success) return { success: false, error: upd.error };
+    logger.info('Floor plan metadata accepted', { floorPlanId, ...choice, actor: audit.actor });
+    return this.planReport(floorPlanId);
+  }
+
+  /**
+   * Apply every value the sources agree on that no admin has decided, and correct bathrooms_estimated.
+   * An estimate never replaces a bathroom count that isn't flagged as estimated.
+   */
+  async applyAgreed(audit: AuditContext): Promise<DatabaseResult<ApplyAgreedSummary>> {
+    const report = await this.report();
+    if (!report.success || !report.data) return { success: false, error: report.error };
+
+    const summary: ApplyAgreedSummary = { plans_updated: 0, fields_updated: 0, flags_updated: 0 };
+    for (const plan of report.data.plans) {
+      const changes: { bedrooms?: number; bathrooms?: number; has_den?: boolean; bathrooms_estimated?: boolean } = {};
+      let estimated = plan.bathrooms_estimated_expected;
+      for (const f of plan.fields) {
+        const considered = consideredCandidates(f.candidates);
+        const values = new Set(considered.map(c => c.value));
+        if (f.decision || values.size !== 1 || values.has(f.current)) continue;
+        const allEstimated = considered.every(c => c.estimated);
+        if (f.field === 'bathrooms') {
+          if (allEstimated && !plan.bathrooms_estimated) continue;
+          estimated = allEstimated;
+        }
+        Object.assign(changes, { [f.field]: considered[0].value });
+        summary.fields_updated++;
+      }
+      if (estimated !== plan.bathrooms_estimated) {
+        changes.bathrooms_estimated = estimated;
+        summary.flags_updated++;
+      }
+      if (!Object.keys(changes).length) continue;
+      const upd = await this.data.applyFloorPlanMetadata(plan.floor_plan_id, changes, audit);
+      if (!upd.success) return { success: false, error: upd.error };
+      summary.plans_updated++;
+    }
+    logger.info('Agreed floor plan metadata applied', { ...summary });
+    return { success: true, data: summary };
+  }
+
+  private buildPlanReport(
+    fp: FloorPlan,
+    found: Array<{ source: LoadedSource; entry: MetadataFileEntry }>,
+    decisions: MetadataDecision[]
+  ): MetadataPlanReport {
+    const fields = METADATA_FIELDS.map((field): MetadataFieldReport => {
+      const candidates: MetadataCandidate[] = [];
+      for (const { source, entry } of found) {
+        const value = candidateValue(entry, field);
+        if (value === undefined) continue;
+        candidates.push({
+          source: source.status.source,
+          value,
+          estimated: field === 'bathrooms' && !!entry.bathroomsEstimated,
+          file: source.status.file,
+          loaded_at: source.status.loaded_at
+        });
+      }
+      const current = currentValue(fp, field);
+      const decision = decisions.find(d => d.field === field) || null;
+      const considered = consideredCandidates(candidates);
+      const disagree = new Set([...considered.map(c => c.value), current]).size > 1;
+      // A decision settles the field until a source file changes to disagree with it again
+      const settled = !!decision && decision.value === current && !considered.some(c =>
+        c.value !== decision.value && !!c.loaded_at && c.loaded_at > decision.decided_at);
+      return { field, current, candidates, conflict: disagree && !settled, decision };
+    });
+
+    const bathrooms = fields.find(f => f.field === 'bathrooms')!;
+    const flagged = !!fp.bathrooms_estimated;
+    let expected = flagged;
+    if (bathrooms.decision && bathrooms.decision.value === bathrooms.current) {
+      expected = bathrooms.decision.estimated;
+    } else if (bathrooms.candidates.some(c => !c.estimated && c.value === bathrooms.current)) {
+      expected = false;
+    } else if (bathrooms.candidates.some(c => c.estimated && c.value === bathrooms.current)) {
+      expected = true;
+    }
+
+    return {
+      floor_plan_id: fp.id,
+      building_name: fp.building_name || '',
+      plan_name: fp.name,
+      fields,
+      conflicts: fields.filter(f => f.conflict).length,
+      bathrooms_estimated: flagged,
+      bathrooms_estimated_expected: expected
+    };
+  }
+
+  private async loadSources(): Promise<LoadedSource[]> {
+    const files: Array<[MetadataSource, string]> = [
+      ['json', this.config.jsonFile],
+      ['userscript', this.config.userscriptFile],
+      ['scraper', this.config.scraperFile]
+    ];
+    const loaded: LoadedSource[] = [];
+    for (const [source, file] of files) {
+      const status: MetadataSourceStatus = { source, file, loaded: false, plans: 0, loaded_at: null, error: null };
+      const entries: LoadedSource['entries'] = [];
+      try {
+        const stat = await fs.promises.stat(file);
+        const parsed: unknown = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('Expected an object keyed by building');
+        for (const [building, plans] of Object.entries(parsed as MetadataFile)) {
+          if (!plans || typeof plans !== 'object') continue;
+          for (const [plan, entry] of Object.entries(plans)) {
+            if (entry && typeof entry === 'object') entries.push({ building, plan, entry });
+          }
+        }
+        Object.assign(status, { loaded: true, plans: entries.length, loaded_at: stat.mtime.toISOString() });
+      } catch (error) {
+        // A source that hasn't been produced yet is simply absent
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          status.error = error instanceof Error ? error.message : String(error);
+          logger.warn('Metadata source unreadable', { source, file, error: status.error });
+        }
+      }
+      loaded.push({ status, entries });
+    }
+    return loaded;
+  }
+}
+
+export const metadataReconciliationService = new MetadataReconciliationService();
+export default metadataReconciliationService;
@@ -0,0 +1,330 @@
+// PlanImageService: floor plan layout images, stored once per content hash under PLAN_IMAGE_DIR with a
+// thumbnail and recorded in the plan_images manifest, so the API returns exact image URLs. Images come
+// from the URLs found while scraping (ScraperService) or from a local folder (scripts/ingestPlanImages.ts).
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Browser } from 'puppeteer';
+import logger from '../utils/logger';
+import { planImageConfig, PlanImageConfig, scraperConfig } from '../config/scraper';
+import type { PlanImage, Property } from '../../shared/types/database';
+import dataService, { DataService } from './DataService';
+import robotsService, { RobotsService } from './RobotsService';
+import type { ScrapedFloorPlan } from './sources/SourceAdapter';
+
+export interface ImageInfo {
+  mimeType: string;
+  ext: string;
+  width: number;
+  height: number;
+}
+
+// Renders image at the given width; returns WebP
+export type Thumbnailer = (image: Buffer, info: ImageInfo, width: number) => Promise<Buffer>;
+
+// Fails rather than read more than maxBytes of body
+export type ImageFetcher = (url: string, maxBytes: number) => Promise<{ status: number; contentType: string | null; body: Buffer }>;
+
+export interface FolderIngestReport {
+  ingested: number;      // image files read
+  created: number;       // new manifest rows; the rest matched an image already stored
+  linked: number;        // floor plans given an image by file name
+  unmatched: string[];   // files that name no known floor plan
+  failed: Array<{ file: string; error: string }>;
+}
+
+const IMAGE_EXT_RE = /\.(png|jpe?g|webp|gif)$/i;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Type and pixel size from the file header; null for anything but PNG, JPEG, WebP and GIF
+ */
+export function readImageInfo(buf: Buffer): ImageInfo | null {
+  if (buf.length >= 24 && buf.subarray(0, 8).equals(PNG_SIGNATURE) && buf.toString('ascii', 12, 16) === 'IHDR') {
+    return { mimeType: 'image/png', ext: 'png', width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+  }
+  if (buf.length >= 10 && buf.toString('ascii', 0, 4) === 'GIF8') {
+    return { mimeType: 'image/gif', ext: 'gif', width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+  }
+  if (buf.length >= 30 && buf.toString('ascii', 0, 4) === 'RIFF' && buf.toString('ascii', 8, 12) === 'WEBP') {
+    const webp = (width: number, height: number): ImageInfo => ({ mimeType: 'image/webp', ext: 'webp', width, height });
+    switch (buf.toString('ascii', 12, 16)) {
+      case 'VP8 ':
+        return webp(buf.readUInt16LE(26) & 0x3fff, buf.readUInt16LE(28) & 0x3fff);
+      case 'VP8L': {
+        const [b0, b1, b2, b3] = [buf[21], buf[22], buf[23], buf[24]];
+        return webp(1 + (((b1 & 0x3f) << 8) | b0), 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)));
+      }
+      case 'VP8X':
+        return webp(1 + buf.readUIntLE(24, 3), 1 + buf.readUIntLE(27, 3));
+      default:
+        return null;
+    }
+  }
+  if (buf.length >= 4 && buf[0] === 0xff && buf[1] === 0xd8) {
+    // Walk the segments to the first start-of-frame marker
+    let i = 2;
+    while (i + 9 < buf.length) {
+      if (buf[i] !== 0xff) return null;
+      const marker = buf[i + 1];
+      if (marker === 0xff) { i++; continue; }
+      if ((marker >= 0xd0 && marker <= 0xd9) || marker === 0x01) { i += 2; continue; }
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { mimeType: 'image/jpeg', ext: 'jpg', width: buf.readUInt16BE(i + 7), height: buf.readUInt16BE(i + 5) };
+      }
+      i += 2 + buf.readUInt16BE(i + 2);
+    }
+  }
+  return null;
+}
+
+/**
+ * File name stem the cached plan images used before the manifest: <image code>-plan_a1 for "Plan A1"
+ */
+export function legacyPlanImageStem(imageCode: string, planName: string): string {
+  const name = String(planName || '')
+    .toLowerCase()
+    .replace(/\*/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^plan\s+/, 'plan_')
+    .replace(/\s+/g, '_');
+  return `${imageCode.toLowerCase()}-${name}`;
+}
+
+/**
+ * Thumbnails rendered by headless Chrome, which the scraper already runs, so no image library is needed
+ */
+export function browserThumbnailer(getBrowser: () => Promise<Browser>): Thumbnailer {
+  return async (image, info, width) => {
+    const browser = await getBrowser();
+    const page = await browser.newPage();
+    try {
+      const height = Math.max(1, Math.round(info.height * width / info.width));
+      await page.setViewport({ width, height });
+      await page.setContent(
+        `<html><body style="margin:0;background:transparent"><img style="display:block;width:100%;height:auto" src="data:${info.mimeType};base64,${image.toString('base64')}"></body></html>`,
+        { waitUntil: 'load', timeout: scraperConfig.timeoutMs }
+      );
+      return Buffer.from(await page.screenshot({ type: 'webp', quality: 80, omitBackground: true }));
+    } finally {
+      await page.close().catch(() => undefined);
+    }
+  };
+}
+
+/**
+ * GET an image, refusing one whose Content-Length is over maxBytes and cancelling the download once
+ * the body passes it
+ */
+export const fetchHttpImage: ImageFetcher = async (url, maxBytes) => {
+  const response = await fetch(url, {
+    headers: { 'User-Agent': scraperConfig.userAgent, Accept: 'image/*' },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(scraperConfig.timeoutMs)
+  });
+  const tooLarge = () => new Error(`Image larger than ${maxBytes} bytes: ${url}`);
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw tooLarge();
+      }
+      chunks.push(Buffer.from(value));
+    }
+  }
+  return { status: response.status, contentType: response.headers.get('content-type'), body: Buffer.concat(chunks) };
+};
+
+export class PlanImageService {
+  private readonly lastFetchAt = new Map<string, number>(); // by origin, for robots.txt Crawl-delay
+
+  // thumbnailer: without one, images are stored without thumbnails and the API serves the full image.
+  // robots: image hosts are held to robots.txt like the pages (unless SCRAPER_RESPECT_ROBOTS=false)
+  constructor(
+    private readonly data: DataService = dataService,
+    private readonly config: PlanImageConfig = planImageConfig,
+    private readonly thumbnailer: Thumbnailer | null = null,
+    private readonly fetchImage: ImageFetcher = fetchHttpImage,
+    private readonly robots: RobotsService = robotsService
+  ) {}
+
+  /**
+   * Store an image under its content hash and record where it came from; an image already in the
+   * manifest only gains the source
+   */
+  async ingestBuffer(body: Buffer, source: string): Promise<{ image: PlanImage; created: boolean }> {
+    const info = readImageInfo(body);
+    if (!info) throw new Error(`Not a PNG, JPEG, WebP or GIF image: ${source}`);
+    if (body.length > this.config.maxBytes) throw new Error(`Image larger than ${this.config.maxBytes} bytes: ${source}`);
+
+    const hash = crypto.createHash('sha256').update(body).digest('hex');
+    const existing = await this.data.getPlanImageByHash(hash);
+    if (!existing.success) throw new Error(existing.error || 'Failed to read plan images');
+
+    let image = existing.data;
+    const created = !image;
+    if (!image) {
+      const file = `${hash}.${info.ext}`;
+      await fs.promises.mkdir(this.config.dir, { recursive: true });
+      await fs.promises.writeFile(path.join(this.config.dir, file), body);
+      const stored = await this.data.createPlanImage({
+        hash,
+        file,
+        thumbnail_file: await this.writeThumbnail(hash, body, info),
+        mime_type: info.mimeType,
+        width: info.width,
+        height: info.height,
+        bytes: body.length
+      });
+      if (!stored.success || !stored.data) throw new Error(stored.error || 'Failed to record plan image');
+      image = stored.data;
+      logger.info('Plan image stored', { source, file, thumbnail: image.thumbnail_file });
+    }
+
+    const linked = await this.data.addPlanImageSource(source, image.id);
+    if (!linked.success) throw new Error(linked.error || 'Failed to record plan image source');
+    return { image, created };
+  }
+
+  /**
+   * Download and store an image; a URL already in the manifest whose file is still on disk is not fetched again
+   */
+  async ingestUrl(url: string): Promise<PlanImage> {
+    const known = await this.data.getPlanImageBySource(url);
+    if (known.success && known.data && await this.exists(known.data.file)) {
+      return known.data;
+    }
+    const response = await this.politeFetch(url);
+    if (response.status !== 200) throw new Error(`HTTP ${response.status} for ${url}`);
+    if (response.contentType && !/^image\//i.test(response.contentType)) {
+      throw new Error(`Expected an image, got ${response.contentType} for ${url}`);
+    }
+    return (await this.ingestBuffer(response.body, url)).image;
+  }
+
+  /**
+   * Give each scraped plan with an image URL its stored copy (planImageId). A URL that can't be stored
+   * leaves the plan without one and is reported in errors; the scrape itself carries on.
+   */
+  async attachToPlans(plans: ScrapedFloorPlan[]): Promise<{ plans: ScrapedFloorPlan[]; errors: string[] }> {
+    const errors: string[] = [];
+    const byUrl = new Map<string, number | undefined>();
+    const result: ScrapedFloorPlan[] = [];
+    for (const plan of plans) {
+      const url = plan.imageUrl;
+      if (!url || !/^https?:\/\//i.test(url)) {
+        result.push(plan);
+        continue;
+      }
+      if (!byUrl.has(url)) {
+        try {
+          byUrl.set(url, (await this.ingestUrl(url)).id);
+        } catch (error) {
+          byUrl.set(url, undefined);
+          errors.push(`Plan image for ${plan.name} not stored: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      const planImageId = byUrl.get(url);
+      result.push(planImageId ? { ...plan, planImageId } : plan);
+    }
+    return { plans: result, errors };
+  }
+
+  /**
+   * Store every image in a folder. Files named like the old cache (<image code>-plan_a1.png) are linked
+   * to that building's floor plan.
+   */
+  async ingestFolder(dir: string): Promise<FolderIngestReport> {
+    const report: FolderIngestReport = { ingested: 0, created: 0, linked: 0, unmatched: [], failed: [] };
+    const plans = await this.data.getAllFloorPlans({ include_archived: true });
+    const properties = await this.data.getProperties();
+    if (!plans.success || !properties.success) throw new Error(plans.error || properties.error || 'Failed to read floor plans');
+
+    // Buildings without an image code go by their name, as the old cache did
+    const buildings = (properties.data as Property[]).flatMap(p => p.buildings || []);
+    const codes = new Map(buildings.map(b => [
+      b.id,
+      b.image_code || b.name.toLowerCase().replace(/[^a-z0-9]+/g, '_')
+    ]));
+    const planByStem = new Map<string, number>();
+    for (const fp of plans.data || []) {
+      const code = codes.get(fp.building_id);
+      if (code) planByStem.set(legacyPlanImageStem(code, fp.name), fp.id);
+    }
+
+    const files = (await fs.promises.readdir(dir)).filter(f => IMAGE_EXT_RE.test(f)).sort();
+    for (const file of files) {
+      try {
+        const { image, created } = await this.ingestBuffer(await fs.promises.readFile(path.join(dir, file)), `file:${file}`);
+        report.ingested++;
+        if (created) report.created++;
+        const floorPlanId = planByStem.get(file.replace(IMAGE_EXT_RE, '').toLowerCase());
+        if (!floorPlanId) {
+          // Already-ingested copies (<hash>.<ext>) are expected not to name a plan
+          if (!file.startsWith(image.hash)) report.unmatched.push(file);
+          continue;
+        }
+        const linked = await this.data.linkFloorPlanImage(floorPlanId, image.id);
+        if (!linked.success) throw new Error(linked.error || 'Failed to link floor plan image');
+        report.linked++;
+      } catch (error) {
+        report.failed.push({ file, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return report;
+  }
+
+  // Disallowed URLs are not fetched; a host's Crawl-delay is kept between its image downloads
+  private async politeFetch(url: string): ReturnType<ImageFetcher> {
+    if (scraperConfig.respectRobotsTxt) {
+      const { allowed } = await this.robots.check(url);
+      if (!allowed) throw new Error(`Blocked by robots.txt: ${url}`);
+      const origin = new URL(url).origin;
+      const last = this.lastFetchAt.get(origin);
+      const wait = last === undefined ? 0 : last + (this.robots.getCrawlDelayMs(url) ?? 0) - Date.now();
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+      this.lastFetchAt.set(origin, Date.now());
+    }
+    return await this.fetchImage(url, this.config.maxBytes);
+  }
+
+  private async writeThumbnail(hash: string, body: Buffer, info: ImageInfo): Promise<string | null> {
+    if (!this.thumbnailer || info.width <= this.config.thumbnailWidth) return null;
+    try {
+      const file = `thumbs/${hash}.webp`;
+      const thumbnail = await this.thumbnailer(body, info, this.config.thumbnailWidth);
+      await fs.promises.mkdir(path.join(this.config.dir, 'thumbs'), { recursive: true });
+      await fs.promises.writeFile(path.join(this.config.dir, file), thumbnail);
+      return file;
+    } catch (error) {
+      // The full image still serves as its own thumbnail
+      logger.warn('Plan image thumbnail failed', { hash, error: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  }
+
+  private async exists(file: string): Promise<boolean> {
+    try {
+      await fs.promises.access(path.join(this.config.dir, file));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export const planImageService = new PlanImageService();
+export default planImageService;
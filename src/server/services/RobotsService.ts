@@ -0,0 +1,129 @@
+// RobotsService: fetches robots.txt once per host, caches the parsed policy and answers whether
+// the scraper may load a URL and how long to wait between requests to that host.
+
+import { scraperConfig } from '../config/scraper';
+import logger from '../utils/logger';
+import { ALLOW_ALL, DISALLOW_ALL, RobotsPolicy, RobotsRule, findMatchingRule, parseRobotsTxt } from './parsers/robotsParser';
+
+export type HttpFetcher = (url: string) => Promise<{ status: number; body: string }>;
+export type RobotsFetcher = HttpFetcher;
+
+export interface HostRobotsPolicy {
+  origin: string;
+  robotsUrl: string;
+  fetchedAt: string;
+  httpStatus: number | null; // null when the fetch itself failed
+  // ok: parsed; missing: 4xx, nothing is disallowed; unreachable: 5xx or network error, everything is
+  state: 'ok' | 'missing' | 'unreachable';
+  policy: RobotsPolicy;
+}
+
+export interface RobotsCheck {
+  allowed: boolean;
+  rule: RobotsRule | null; // rule that decided it; null when none matched
+  host: HostRobotsPolicy;
+}
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+// Unreachable robots.txt blocks the whole host, so ask again sooner
+const UNREACHABLE_TTL_MS = 10 * 60 * 1000;
+
+export const fetchRobotsTxt: RobotsFetcher = async (url) => {
+  const response = await fetch(url, {
+    headers: { 'User-Agent': scraperConfig.userAgent },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(scraperConfig.timeoutMs)
+  });
+  return { status: response.status, body: response.status < 400 ? await response.text() : '' };
+};
+
+export class RobotsService {
+  private readonly cache = new Map<string, HostRobotsPolicy>();
+  private readonly pending = new Map<string, Promise<HostRobotsPolicy>>();
+
+  constructor(
+    private readonly fetcher: RobotsFetcher = fetchRobotsTxt,
+    private readonly userAgent: string = scraperConfig.userAgent
+  ) {}
+
+  /**
+   * Policy for the URL's host, fetched on first use and refreshed once the cache entry expires
+   */
+  async getPolicy(url: string): Promise<HostRobotsPolicy> {
+    const origin = new URL(url).origin;
+    const cached = this.cache.get(origin);
+    if (cached && !this.isExpired(cached)) return cached;
+
+    // Concurrent scrapes of one host share a single fetch
+    let pending = this.pending.get(origin);
+    if (!pending) {
+      pending = this.fetchPolicy(origin).finally(() => this.pending.delete(origin));
+      this.pending.set(origin, pending);
+    }
+    return await pending;
+  }
+
+  /**
+   * Whether robots.txt lets us load the URL
+   */
+  async check(url: string): Promise<RobotsCheck> {
+    const host = await this.getPolicy(url);
+    const u = new URL(url);
+    const rule = findMatchingRule(host.policy, `${u.pathname}${u.search}`);
+    return { allowed: rule?.type !== 'disallow', rule, host };
+  }
+
+  /**
+   * Crawl-delay for the URL's host in milliseconds, from the cached policy; null when none is set
+   */
+  getCrawlDelayMs(url: string): number | null {
+    let origin: string;
+    try {
+      origin = new URL(url).origin;
+    } catch {
+      return null;
+    }
+    const seconds = this.cache.get(origin)?.policy.crawlDelaySeconds;
+    return seconds == null ? null : Math.round(seconds * 1000);
+  }
+
+  /**
+   * Cached policies, for status reporting
+   */
+  getPolicies(): HostRobotsPolicy[] {
+    return Array.from(this.cache.values()).sort((a, b) => a.origin.localeCompare(b.origin));
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private isExpired(entry: HostRobotsPolicy): boolean {
+    const ttl = entry.state === 'unreachable' ? UNREACHABLE_TTL_MS : CACHE_TTL_MS;
+    return Date.now() - Date.parse(entry.fetchedAt) > ttl;
+  }
+
+  private async fetchPolicy(origin: string): Promise<HostRobotsPolicy> {
+    const robotsUrl = `${origin}/robots.txt`;
+    let entry: HostRobotsPolicy;
+    try {
+      const { status, body } = await this.fetcher(robotsUrl);
+      if (status >= 200 && status < 300) {
+        entry = { origin, robotsUrl, fetchedAt: new Date().toISOString(), httpStatus: status, state: 'ok', policy: parseRobotsTxt(body, this.userAgent) };
+      } else if (status >= 400 && status < 500) {
+        entry = { origin, robotsUrl, fetchedAt: new Date().toISOString(), httpStatus: status, state: 'missing', policy: ALLOW_ALL };
+      } else {
+        entry = { origin, robotsUrl, fetchedAt: new Date().toISOString(), httpStatus: status, state: 'unreachable', policy: DISALLOW_ALL };
+      }
+    } catch (error) {
+      logger.warn('robots.txt fetch failed', { robotsUrl, error: error instanceof Error ? error.message : String(error) });
+      entry = { origin, robotsUrl, fetchedAt: new Date().toISOString(), httpStatus: null, state: 'unreachable', policy: DISALLOW_ALL };
+    }
+    logger.info('robots.txt loaded', { robotsUrl, state: entry.state, agent: entry.policy.agent, rules: entry.policy.rules.length, crawlDelaySeconds: entry.policy.crawlDelaySeconds });
+    this.cache.set(origin, entry);
+    return entry;
+  }
+}
+
+const robotsService = new RobotsService();
+export default robotsService;
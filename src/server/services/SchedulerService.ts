@@ -1,27 +1,35 @@
 import cron from 'node-cron';
 import type { ScheduledTask } from 'node-cron';
 import logger from '../utils/logger';
-import { getEnabledBuildings, scraperConfig, secureCafeUrl } from '../config/scraper';
-import { ScraperService } from './ScraperService';
 import dataService from './DataService';
+import scrapeJobRunner from './ScrapeJobRunner';
+import backupService from './BackupService';
+import { backupConfig } from '../config/backup';
+import { maintenanceConfig } from '../config/maintenance';
 
 type ISODate = string;
 
 export interface SchedulerRunSummary {
+  jobId?: number;        // scrape_jobs row; see GET /api/jobs/:id
+  runId?: number | null; // scrape_runs row; see GET /api/scraper/runs/:id
   startedAt: ISODate;
   finishedAt?: ISODate;
+  propertyCount: number;
   buildingCount: number;
   upserted: number;
   priced: number;
+  driftFlagged: string[]; // buildings whose scrape drifted from their baseline (see scrape_health alerts)
   errors: string[];
 }
 
 export interface SchedulerStatus {
-  running: boolean;
+  running: boolean; // a scrape job is running, whatever triggered it
   lastRun?: SchedulerRunSummary | null;
   nextRun?: ISODate | null;
   timezone: string;
   schedules: string[]; // cron expressions
+  backupSchedule: string | null; // cron expression for database backups; null = disabled
+  maintenanceSchedule: string | null; // cron expression for the retention job; null = disabled
 }
 
 function toIso(d: Date): ISODate {
@@ -42,10 +50,8 @@ function nextOccurrenceLocal(hour: number, minute: number, now = new Date()): Da
 
 export class SchedulerService {
   private tasks: ScheduledTask[] = [];
-  private running = false;
   private lastRun: SchedulerRunSummary | null = null;
   private nextRun: ISODate | null = null;
-  private readonly scraper = new ScraperService();
   private readonly tz: string;
 
   private readonly schedules = [
@@ -60,16 +66,20 @@ export class SchedulerService {
 
   public getStatus(): SchedulerStatus {
     return {
-      running: this.running,
+      running: scrapeJobRunner.isRunning(),
       lastRun: this.lastRun,
       nextRun: this.nextRun,
       timezone: this.tz,
       schedules: this.schedules.slice(),
+      backupSchedule: backupConfig.schedule || null,
+      maintenanceSchedule: maintenanceConfig.schedule || null,
     };
   }
 
   public async start(): Promise<void> {
     if (this.tasks.length) return; // already scheduled
+    // Jobs queued before a restart still run; ones it interrupted are marked failed
+    await scrapeJobRunner.resume();
     // Precompute next run (earliest upcoming among schedules)
     await this.updateNextRun();
 
@@ -85,7 +95,42 @@ export class SchedulerService {
       );
       this.tasks.push(task);
     }
-    logger.info('SchedulerService started', { schedules: this.schedules, timezone: this.tz });
+
+    // Daily online database backup, rotated by retention days
+    if (backupConfig.schedule) {
+      const task = cron.schedule(
+        backupConfig.schedule,
+        async () => {
+          await backupService.createBackup().catch((err) => {
+            logger.error('Scheduled backup failed', { error: err instanceof Error ? err.message : err });
+          });
+        },
+        { timezone: this.tz }
+      );
+      this.tasks.push(task);
+    }
+    // Nightly price history retention per the policy in settings; its transaction queues behind a scrape's
+    if (maintenanceConfig.schedule) {
+      const task = cron.schedule(
+        maintenanceConfig.schedule,
+        async () => {
+          const result = await dataService.enforceRetentionPolicy();
+          if (result.success) {
+            logger.info('Scheduled retention maintenance completed', { removed: result.data?.removed });
+          } else {
+            logger.error('Scheduled retention maintenance failed', { error: result.error });
+          }
+        },
+        { timezone: this.tz }
+      );
+      this.tasks.push(task);
+    }
+    logger.info('SchedulerService started', {
+      schedules: this.schedules,
+      backupSchedule: backupConfig.schedule || null,
+      maintenanceSchedule: maintenanceConfig.schedule || null,
+      timezone: this.tz
+    });
   }
 
   public async stop(): Promise<void> {
@@ -100,86 +145,46 @@ export class SchedulerService {
     return this.runOnce();
   }
 
+  // Scrapes go through the job runner's queue; a run requested while another is going waits its turn
   private async runOnce(): Promise<SchedulerRunSummary> {
-    if (this.running) {
-      logger.warn('SchedulerService run requested while already running');
-      return this.lastRun || {
-        startedAt: toIso(new Date()),
-        buildingCount: 0,
-        upserted: 0,
-        priced: 0,
-        errors: ['Already running'],
-      };
-    }
-
     await dataService.init(); // ensure DB ready
 
-    this.running = true;
-    const started = new Date();
+    const result = await scrapeJobRunner.run('scheduler');
+    const { job } = result;
     const summary: SchedulerRunSummary = {
-      startedAt: toIso(started),
-      buildingCount: 0,
-      upserted: 0,
-      priced: 0,
-      errors: [],
+      jobId: job.id,
+      runId: result.runId,
+      startedAt: toIso(new Date(job.started_at || job.queued_at)),
+      finishedAt: toIso(new Date(job.finished_at || Date.now())),
+      propertyCount: result.propertyCount,
+      buildingCount: result.buildings.length,
+      upserted: result.buildings.reduce((total, b) => total + (b.persisted?.upserted || 0), 0),
+      priced: result.buildings.reduce((total, b) => total + (b.persisted?.priced || 0), 0),
+      driftFlagged: result.buildings.filter(b => b.driftFlagged).map(b => b.name),
+      errors: [
+        ...result.buildings.filter(b => !b.success).map(b => `Scrape failed for ${b.name}: ${b.errors.join('; ')}`),
+        ...result.errors
+      ],
     };
+    this.lastRun = summary;
 
+    // Update settings for last/next collection times
     try {
-      const buildings = getEnabledBuildings().filter(b => !!b.url);
-      summary.buildingCount = buildings.length;
-
-      for (const b of buildings) {
-        try {
-          const { result, persist } = await this.scraper.scrapeAndPersist({ id: 0 as any, name: b.name, url: b.url } as any);
-          if (persist) {
-            summary.upserted += persist.upserted;
-            summary.priced += persist.priced;
-          }
-          if (!result.success) {
-            summary.errors.push(`Scrape failed for ${b.name}: ${result.errors.join('; ')}`);
-          }
-        } catch (err) {
-          const msg = err instanceof Error ? err.message : String(err);
-          summary.errors.push(`Error processing ${b.name}: ${msg}`);
-          logger.error('SchedulerService building run error', { building: b.name, error: msg });
-        }
-      }
-
-      // Refresh SecureCafe availability cache once per scheduled run
-      try {
-        const wings = scraperConfig.defaultWings;
-        const scData = await this.scraper.scrapeSecureCafeAvailability(secureCafeUrl, wings);
-        await dataService.setSecureCafeAvailabilityCache(
-          scData,
-          scData?.scrapedAt || new Date().toISOString()
-        );
-        logger.info('Scheduler refreshed SecureCafe availability cache', {
-          nextMonth: (scData?.availableNextMonth || []).length,
-          availableSoonUnits: (scData?.availableSoonUnits || []).length
-        });
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        logger.warn('Scheduler SecureCafe cache refresh failed', { error: msg });
-      }
-    } finally {
-      const finished = new Date();
-      summary.finishedAt = toIso(finished);
-      this.running = false;
-      this.lastRun = summary;
-
-      // Update settings for last/next collection times
-      try {
-        await dataService.updateSetting('last_collection_time', summary.finishedAt || summary.startedAt);
-        await this.updateNextRun(); // recompute and persist
-      } catch (err) {
-        logger.error('Failed to update scheduler settings', { error: err instanceof Error ? err.message : err });
-      }
+      await dataService.updateSetting('last_collection_time', summary.finishedAt || summary.startedAt);
+      await this.updateNextRun(); // recompute and persist
+    } catch (err) {
+      logger.error('Failed to update scheduler settings', { error: err instanceof Error ? err.message : err });
     }
 
     logger.info('SchedulerService run completed', {
+      jobId: summary.jobId,
+      runId: summary.runId,
+      status: job.status,
+      propertyCount: summary.propertyCount,
       buildingCount: summary.buildingCount,
       upserted: summary.upserted,
       priced: summary.priced,
+      driftFlagged: summary.driftFlagged,
       errors: summary.errors.length,
     });
 
@@ -0,0 +1,172 @@
+// ScrapeFixtureStore: records pages and XHR responses fetched while scraping and serves them back
+// through Puppeteer request interception, so scrapes can run offline and repeatably (dev and jest).
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { HTTPRequest, HTTPResponse } from 'puppeteer';
+import logger from '../utils/logger';
+import { redactUrl } from '../utils/redact';
+import type { HttpFetcher } from './RobotsService';
+
+// Resource types worth keeping: the page itself, the scripts that render it and the data they fetch
+export const RECORDED_RESOURCE_TYPES = ['document', 'script', 'xhr', 'fetch'];
+
+// The recorded body is already decoded, so these would no longer describe it
+const DROPPED_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'set-cookie']);
+
+export interface ScrapeFixture {
+  method: string;
+  url: string;
+  postData?: string;
+  resourceType: string;
+  status: number;
+  headers: Record<string, string>;
+  bodyFile: string | null; // sibling file holding the body; null for redirects
+  recordedAt: string;
+}
+
+function normalizeUrl(url: string): string {
+  const hash = url.indexOf('#');
+  return hash === -1 ? url : url.slice(0, hash);
+}
+
+function bodyExtension(contentType: string | undefined): string {
+  const ct = (contentType || '').toLowerCase();
+  if (ct.includes('html')) return '.html';
+  if (ct.includes('json')) return '.json';
+  if (ct.includes('javascript')) return '.js';
+  if (ct.includes('css')) return '.css';
+  if (ct.startsWith('text/')) return '.txt';
+  return '.bin';
+}
+
+export class ScrapeFixtureStore {
+  constructor(private readonly dir: string) {}
+
+  /**
+   * File name (without extension) for a request: readable host/path prefix plus a hash of method, URL and body.
+   * Secret parameters are redacted first, so the key matches the recorded metadata and holds no secret
+   */
+  keyFor(method: string, url: string, postData?: string): string {
+    const normalized = redactUrl(normalizeUrl(url));
+    const hash = crypto.createHash('sha1')
+      .update(`${method.toUpperCase()} ${normalized}\n${postData ? redactUrl(postData) : ''}`)
+      .digest('hex')
+      .slice(0, 12);
+    let prefix = normalized;
+    try {
+      const u = new URL(normalized);
+      prefix = `${u.hostname}${u.pathname}`;
+    } catch {}
+    prefix = prefix.replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').slice(0, 60).toLowerCase();
+    return `${prefix || 'request'}-${hash}`;
+  }
+
+  /**
+   * Look up the fixture recorded for a request; null when none was recorded
+   */
+  async load(method: string, url: string, postData?: string): Promise<{ fixture: ScrapeFixture; body: Buffer } | null> {
+    const metaFile = path.join(this.dir, `${this.keyFor(method, url, postData)}.meta.json`);
+    let fixture: ScrapeFixture;
+    try {
+      fixture = JSON.parse(await fs.promises.readFile(metaFile, 'utf8'));
+    } catch {
+      return null;
+    }
+    const body = fixture.bodyFile ? await fs.promises.readFile(path.join(this.dir, fixture.bodyFile)) : Buffer.alloc(0);
+    return { fixture, body };
+  }
+
+  /**
+   * Write a fixture's metadata and body, replacing an earlier recording of the same request. The
+   * metadata keeps its URL and body with secret parameters redacted, as the key does.
+   */
+  async save(fixture: Omit<ScrapeFixture, 'bodyFile' | 'recordedAt'>, body: Buffer | null): Promise<ScrapeFixture> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const key = this.keyFor(fixture.method, fixture.url, fixture.postData);
+    const bodyFile = body ? `${key}${bodyExtension(fixture.headers['content-type'])}` : null;
+    const saved: ScrapeFixture = {
+      ...fixture,
+      url: redactUrl(normalizeUrl(fixture.url)),
+      postData: fixture.postData && redactUrl(fixture.postData),
+      bodyFile,
+      recordedAt: new Date().toISOString()
+    };
+    if (body && bodyFile) await fs.promises.writeFile(path.join(this.dir, bodyFile), body);
+    await fs.promises.writeFile(path.join(this.dir, `${key}.meta.json`), JSON.stringify(saved, null, 2));
+    return saved;
+  }
+
+  /**
+   * Record a response seen by the page; other resource types and failed body reads are skipped
+   */
+  async record(response: HTTPResponse): Promise<ScrapeFixture | null> {
+    const request = response.request();
+    if (!RECORDED_RESOURCE_TYPES.includes(request.resourceType())) return null;
+
+    const status = response.status();
+    const redirect = status >= 300 && status < 400;
+    let body: Buffer | null = null;
+    if (!redirect) {
+      try {
+        body = await response.buffer();
+      } catch (err) {
+        // Bodies can be gone once the page navigates away
+        logger.warn('Scrape fixture body unavailable', { url: response.url(), error: err instanceof Error ? err.message : String(err) });
+        return null;
+      }
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(response.headers())) {
+      if (!DROPPED_HEADERS.has(name.toLowerCase())) headers[name.toLowerCase()] = value;
+    }
+    return await this.save({
+      method: request.method(),
+      url: request.url(),
+      postData: request.postData(),
+      resourceType: request.resourceType(),
+      status,
+      headers
+    }, body);
+  }
+
+  /**
+   * Answer an intercepted request from the fixtures. Requests with no recording are aborted rather
+   * than sent, so a replayed scrape never reaches the network. Returns whether a fixture was served.
+   */
+  async replay(request: HTTPRequest): Promise<boolean> {
+    const hit = await this.load(request.method(), request.url(), request.postData());
+    if (!hit) {
+      logger.warn('No scrape fixture for request; blocking it', { method: request.method(), url: request.url(), resourceType: request.resourceType() });
+      await request.abort('internetdisconnected');
+      return false;
+    }
+    await request.respond({
+      status: hit.fixture.status,
+      headers: hit.fixture.headers,
+      contentType: hit.fixture.headers['content-type'],
+      body: hit.body
+    });
+    return true;
+  }
+
+  /**
+   * robots.txt and JSON sources are fetched outside the page, so wrap those fetchers to record or
+   * replay them too. Replaying a URL that was never recorded answers 404 (for robots.txt: nothing disallowed).
+   */
+  wrapFetcher(mode: 'record' | 'replay', live: HttpFetcher, contentType = 'text/plain'): HttpFetcher {
+    if (mode === 'replay') {
+      return async (url) => {
+        const hit = await this.load('GET', url);
+        return hit ? { status: hit.fixture.status, body: hit.body.toString('utf8') } : { status: 404, body: '' };
+      };
+    }
+    return async (url) => {
+      const res = await live(url);
+      await this.save({ method: 'GET', url, resourceType: 'other', status: res.status, headers: { 'content-type': contentType } }, Buffer.from(res.body));
+      return res;
+    };
+  }
+}
@@ -0,0 +1,421 @@
+// ScrapeJobRunner: the one pipeline scheduled and manual scrapes go through. Jobs queue in scrape_jobs
+// and run one at a time, oldest first; a job scrapes every active property's buildings, persists what
+// they list and refreshes the property's availability cache, recording the run in scrape_runs.
+// Its writes queue behind other requests' on the connection's write lock, so they can't interleave.
+
+import { EventEmitter } from 'events';
+import logger from '../utils/logger';
+import { ScraperService } from './ScraperService';
+import defaultDataService, { DataService } from './DataService';
+import { applyFloorPlanRules } from './sources/SourceAdapter';
+import type { PropertyScrapeTarget } from '../config/scraper';
+import type { Building } from '../../shared/types';
+import type { DatabaseResult, ScrapeJob, ScrapeJobStatus, ScrapeTrigger } from '../../shared/types/database';
+
+// What one building of a job yielded
+export interface ScrapeJobBuildingResult {
+  property: string;
+  name: string;
+  url: string;
+  success: boolean;
+  scraped: number;  // plans read off the page
+  filtered: number; // plans left after the property's wing filter
+  persisted: { buildingId: number; upserted: number; priced: number } | null;
+  driftFlagged: boolean;
+  errors: string[];
+}
+
+export interface ScrapeJobResult {
+  job: ScrapeJob;         // as it finished
+  runId: number | null;   // scrape_runs row; null when the job never started
+  propertyCount: number;
+  buildings: ScrapeJobBuildingResult[];
+  errors: string[];       // errors outside any one building
+}
+
+// Emitted as 'progress' after each building; 'job' is emitted with the job whenever its status changes
+export interface ScrapeJobProgress {
+  jobId: number;
+  buildingsDone: number;
+  buildingsTotal: number;
+  building: ScrapeJobBuildingResult;
+}
+
+export const FINISHED_JOB_STATUSES: ScrapeJobStatus[] = ['succeeded', 'partial', 'failed', 'cancelled'];
+
+type JobScraper = Pick<ScraperService, 'scrapeBuilding' | 'scrapeAvailability'>;
+
+const message = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+export class ScrapeJobRunner extends EventEmitter {
+  private activeJobId: number | null = null;
+  private cancelledBy: string | null = null; // set while the active job is being cancelled
+  private draining: Promise<void> | null = null;
+  private wake = false;
+  private resumed = false;
+  private readonly waiters = new Map<number, Array<(result: ScrapeJobResult) => void>>();
+
+  constructor(
+    private readonly scraper: JobScraper = new ScraperService(),
+    private readonly data: DataService = defaultDataService
+  ) {
+    super();
+  }
+
+  public isRunning(): boolean {
+    return this.activeJobId !== null;
+  }
+
+  public getActiveJobId(): number | null {
+    return this.activeJobId;
+  }
+
+  /** Whether a job is running or waiting in the queue */
+  public async isBusy(): Promise<DatabaseResult<boolean>> {
+    if (this.activeJobId !== null) return { success: true, data: true };
+    const queued = await this.data.getScrapeJobs({ status: 'queued', limit: 1 });
+    if (!queued.success) return { success: false, error: queued.error };
+    return { success: true, data: (queued.data || []).length > 0 };
+  }
+
+  /**
+   * Queue a scrape. A job already waiting in the queue is returned instead of adding a second one,
+   * so triggers that arrive while a scrape is running share the next run.
+   */
+  public async enqueue(trigger: ScrapeTrigger, requestedBy: string | null = null): Promise<DatabaseResult<ScrapeJob>> {
+    return this.queue(trigger, requestedBy);
+  }
+
+  /** Queue a scrape and resolve once the job it joined has finished */
+  public async run(trigger: ScrapeTrigger, requestedBy: string | null = null): Promise<ScrapeJobResult> {
+    let finished: (result: ScrapeJobResult) => void = () => undefined;
+    const done = new Promise<ScrapeJobResult>(resolve => { finished = resolve; });
+    const queued = await this.queue(trigger, requestedBy, finished);
+    if (!queued.success) throw new Error(queued.error || 'Failed to queue scrape job');
+    return done;
+  }
+
+  /**
+   * Cancel a queued job, or stop the running one after the building it is on. Finished jobs are
+   * returned unchanged (cancel_requested stays false); null when the job doesn't exist.
+   */
+  public async cancel(jobId: number, actor: string): Promise<DatabaseResult<ScrapeJob | null>> {
+    const current = await this.data.getScrapeJob(jobId);
+    if (!current.success || !current.data) return current;
+
+    if (current.data.status === 'queued') {
+      // The status guard leaves the job alone if the runner picked it up meanwhile
+      const cancelled = await this.data.updateScrapeJob(
+        jobId,
+        { status: 'cancelled', cancel_requested: true, cancelled_by: actor, finished_at: new Date().toISOString() },
+        'queued'
+      );
+      if (!cancelled.success) return cancelled;
+      if (cancelled.data?.status === 'cancelled') {
+        logger.info('Scrape job cancelled before it started', { jobId, actor });
+        this.emit('job', cancelled.data);
+        this.settle({ job: cancelled.data, runId: null, propertyCount: 0, buildings: [], errors: [`Cancelled by ${actor}`] });
+        return cancelled;
+      }
+    }
+
+    if (this.activeJobId !== jobId) return this.data.getScrapeJob(jobId);
+    this.cancelledBy = this.cancelledBy || actor;
+    logger.info('Scrape job cancellation requested', { jobId, actor });
+    return this.data.updateScrapeJob(jobId, { cancel_requested: true, cancelled_by: this.cancelledBy });
+  }
+
+  /**
+   * Once per process: fail jobs a restart left running, then run whatever is still queued
+   */
+  public async resume(): Promise<void> {
+    if (this.resumed) return;
+    this.resumed = true;
+    await this.failInterrupted('Interrupted by a restart');
+    this.drain();
+  }
+
+  /**
+   * Mark jobs recorded as running, other than the one this process runs, failed with error:
+   * left over by a restart, or copied in with a restored database
+   */
+  public async failInterrupted(error: string): Promise<void> {
+    const running = await this.data.getScrapeJobs({ status: 'running', limit: 100 });
+    if (!running.success) {
+      logger.error('Scrape job recovery failed', { error: running.error });
+    }
+    for (const job of running.data || []) {
+      if (job.id === this.activeJobId) continue;
+      if (job.run_id) {
+        await this.data.finishScrapeRun(job.run_id, { property_count: 0, errors: [error] });
+      }
+      await this.data.updateScrapeJob(job.id, { status: 'failed', error, current_building: null, finished_at: new Date().toISOString() });
+      logger.warn('Interrupted scrape job marked failed', { jobId: job.id, runId: job.run_id, error });
+    }
+  }
+
+  /** Resolves when the queue is empty and nothing is running */
+  public async idle(): Promise<void> {
+    while (this.draining) await this.draining;
+  }
+
+  private async queue(
+    trigger: ScrapeTrigger,
+    requestedBy: string | null,
+    onFinish?: (result: ScrapeJobResult) => void
+  ): Promise<DatabaseResult<ScrapeJob>> {
+    await this.resume();
+    const queued = await this.data.getScrapeJobs({ status: 'queued', limit: 1 });
+    if (!queued.success) return { success: false, error: queued.error };
+
+    let job = queued.data?.[0];
+    if (!job) {
+      const created = await this.data.createScrapeJob(trigger, requestedBy);
+      if (!created.success || !created.data) return { success: false, error: created.error };
+      job = created.data;
+      logger.info('Scrape job queued', { jobId: job.id, trigger, requestedBy });
+      this.emit('job', job);
+    }
+    if (onFinish) {
+      this.waiters.set(job.id, [...(this.waiters.get(job.id) || []), onFinish]);
+    }
+    this.drain();
+    return { success: true, data: job };
+  }
+
+  private drain(): void {
+    if (this.draining) {
+      this.wake = true;
+      return;
+    }
+    this.draining = (async () => {
+      let lastJobId: number | null = null;
+      try {
+        for (;;) {
+          this.wake = false;
+          const next = await this.data.getScrapeJobs({ status: 'queued', limit: 1 });
+          if (!next.success) {
+            logger.error('Scrape job queue could not be read', { error: next.error });
+            break;
+          }
+          const job = next.data?.[0];
+          if (job && job.id === lastJobId) {
+            // Its status could not be written; retrying would spin on the same job
+            logger.error('Scrape job left queued after running; queue stopped', { jobId: job.id });
+            break;
+          }
+          if (job) {
+            lastJobId = job.id;
+            await this.runJob(job);
+          } else if (!this.wake) {
+            break;
+          }
+        }
+      } finally {
+        this.draining = null;
+      }
+    })();
+  }
+
+  private async runJob(queued: ScrapeJob): Promise<void> {
+    this.activeJobId = queued.id;
+    this.cancelledBy = null;
+    const startedAt = new Date();
+    const result: ScrapeJobResult = { job: queued, runId: null, propertyCount: 0, buildings: [], errors: [] };
+    let failure: string | null = null;
+
+    try {
+      // Only a job still queued starts; one cancelled meanwhile is left as it is
+      const started = await this.data.updateScrapeJob(queued.id, { status: 'running', started_at: startedAt.toISOString() }, 'queued');
+      if (!started.success) throw new Error(started.error || 'Failed to start scrape job');
+      if (started.data?.status !== 'running') return;
+
+      const run = await this.data.startScrapeRun(queued.trigger_type, startedAt);
+      if (!run.success) throw new Error(run.error || 'Failed to record scrape run');
+      result.runId = run.data!;
+
+      const targets = await this.data.getScrapeTargets();
+      const buildingsTotal = targets.reduce((total, t) => total + t.buildings.length, 0);
+      result.propertyCount = targets.length;
+      const running = await this.data.updateScrapeJob(queued.id, { run_id: result.runId, buildings_total: buildingsTotal });
+      if (running.data) this.emit('job', running.data);
+      logger.info('Scrape job started', { jobId: queued.id, runId: result.runId, trigger: queued.trigger_type, buildings: buildingsTotal });
+
+      for (const target of targets) {
+        for (const b of target.buildings) {
+          if (this.cancelledBy) break;
+          await this.data.updateScrapeJob(queued.id, { current_building: b.name });
+          const building = await this.scrapeBuilding(queued, result.runId, target, b);
+          result.buildings.push(building);
+          await this.data.updateScrapeJob(queued.id, { buildings_done: result.buildings.length });
+          this.emit('progress', { jobId: queued.id, buildingsDone: result.buildings.length, buildingsTotal, building });
+        }
+        if (this.cancelledBy) break;
+        const error = await this.refreshAvailability(target);
+        if (error) result.errors.push(error);
+      }
+    } catch (err) {
+      failure = message(err);
+      result.errors.push(failure);
+      logger.error('Scrape job failed', { jobId: queued.id, error: failure });
+    } finally {
+      if (result.runId || failure) {
+        await this.finishJob(queued, result, failure);
+      }
+      this.activeJobId = null;
+      this.cancelledBy = null;
+    }
+  }
+
+  private async finishJob(queued: ScrapeJob, result: ScrapeJobResult, failure: string | null): Promise<void> {
+    const cancelledBy = this.cancelledBy;
+    if (cancelledBy) result.errors.push(`Cancelled by ${cancelledBy}`);
+
+    let status: ScrapeJobStatus = failure ? 'failed' : 'succeeded';
+    if (result.runId) {
+      const run = await this.data.finishScrapeRun(result.runId, { property_count: result.propertyCount, errors: result.errors });
+      if (!run.success) {
+        logger.warn('Scrape job run history not finalized', { jobId: queued.id, runId: result.runId, error: run.error });
+      } else if (run.data && !failure) {
+        status = run.data.status as ScrapeJobStatus;
+      }
+    }
+    if (cancelledBy) status = 'cancelled';
+
+    const finished = await this.data.updateScrapeJob(queued.id, {
+      status,
+      error: failure,
+      current_building: null,
+      finished_at: new Date().toISOString()
+    });
+    result.job = finished.data || { ...queued, status };
+    logger.info('Scrape job finished', {
+      jobId: queued.id,
+      runId: result.runId,
+      status,
+      buildings: result.buildings.length,
+      upserted: result.buildings.reduce((total, b) => total + (b.persisted?.upserted || 0), 0),
+      errors: result.errors.length
+    });
+    this.emit('job', result.job);
+    this.settle(result);
+  }
+
+  private settle(result: ScrapeJobResult): void {
+    const waiters = this.waiters.get(result.job.id) || [];
+    this.waiters.delete(result.job.id);
+    waiters.forEach(resolve => resolve(result));
+  }
+
+  // Scrape one building, persist the plans in the property's wings and record its diagnostics
+  private async scrapeBuilding(
+    job: ScrapeJob,
+    runId: number,
+    target: PropertyScrapeTarget,
+    b: PropertyScrapeTarget['buildings'][number]
+  ): Promise<ScrapeJobBuildingResult> {
+    const startedAt = new Date().toISOString();
+    const outcome: ScrapeJobBuildingResult = {
+      property: target.propertyName,
+      name: b.name,
+      url: b.url,
+      success: false,
+      scraped: 0,
+      filtered: 0,
+      persisted: null,
+      driftFlagged: false,
+      errors: []
+    };
+    let retries = 0;
+
+    try {
+      const result = await this.scraper.scrapeBuilding(
+        { name: b.name, url: b.url } as Building,
+        { selectors: target.selectors, buildingSelectors: b.selectors, source: b.source, runId }
+      );
+      retries = result.retries;
+      outcome.success = result.success;
+      outcome.errors = result.errors.slice();
+
+      const { plans, kept: filtered } = applyFloorPlanRules(result.floorPlans, target.wings);
+      outcome.scraped = plans.length;
+      outcome.filtered = filtered.length;
+
+      if (filtered.length) {
+        outcome.persisted = await this.data.persistScrapedFloorPlans(
+          { name: b.name, url: b.url },
+          filtered,
+          result.timestamp,
+          job.trigger_type
+        );
+      }
+
+      // Drift is measured on everything the page yielded, before the wing filter
+      if (result.success) {
+        const check = await this.data.recordScrapeHealth(b.name, plans);
+        if (check.success && check.data) {
+          outcome.driftFlagged = check.data.flagged;
+        } else {
+          logger.warn('Scrape job: scrape health not recorded', { building: b.name, error: check.error });
+        }
+      }
+    } catch (err) {
+      outcome.success = false;
+      outcome.errors.push(message(err));
+      logger.error('Scrape job building error', { jobId: job.id, property: target.slug, building: b.name, error: message(err) });
+    }
+
+    await this.data.recordScrapeRunBuilding(runId, {
+      building_name: b.name,
+      property_name: target.propertyName,
+      source: b.source,
+      url: b.url,
+      success: outcome.success,
+      started_at: startedAt,
+      plans_scraped: outcome.scraped,
+      plans_filtered: outcome.filtered,
+      plans_upserted: outcome.persisted?.upserted ?? 0,
+      plans_priced: outcome.persisted?.priced ?? 0,
+      retry_count: retries,
+      drift_flagged: outcome.driftFlagged,
+      errors: outcome.errors
+    });
+
+    logger.info('Scrape job: building complete', {
+      jobId: job.id,
+      property: target.slug,
+      building: b.name,
+      scraped: outcome.scraped,
+      filtered: outcome.filtered,
+      persisted: outcome.persisted
+    });
+    return outcome;
+  }
+
+  // Refresh the property's availability cache (SecureCafe and JSON sources); the error, if any
+  private async refreshAvailability(target: PropertyScrapeTarget): Promise<string | null> {
+    try {
+      const scData = await this.scraper.scrapeAvailability(target, target.wings);
+      if (!scData) return null;
+      await this.data.setSecureCafeAvailabilityCache(scData, scData.scrapedAt || new Date().toISOString(), target.slug);
+      const units = await this.data.persistSecureCafeUnits(scData.availableSoonUnits || [], scData.scrapedAt);
+      const quotes = await this.data.persistLeaseTermQuotes(scData.leaseTermQuotes || [], scData.scrapedAt);
+      logger.info('Scrape job refreshed availability cache', {
+        property: target.slug,
+        method: scData.method,
+        nextMonth: (scData.availableNextMonth || []).length,
+        availableSoonUnits: (scData.availableSoonUnits || []).length,
+        units,
+        quotes
+      });
+      return null;
+    } catch (err) {
+      logger.warn('Scrape job availability refresh failed', { property: target.slug, error: message(err) });
+      return `Availability refresh failed for ${target.propertyName}: ${message(err)}`;
+    }
+  }
+}
+
+// Singleton
+export const scrapeJobRunner = new ScrapeJobRunner();
+export default scrapeJobRunner;
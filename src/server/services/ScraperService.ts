@@ -1,37 +1,88 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
 import fs from 'fs';
-import path from 'path';
 import { Building, FloorPlan } from '../../shared/types';
+import type { BuildingSource } from '../../shared/types/database';
 import logger from '../utils/logger';
-import { scraperConfig, getBuildingSelectors } from '../config/scraper';
+import { redactUrl } from '../utils/redact';
+import { scraperConfig, scrapeFixtureConfig, ScrapeFixtureConfig, getEnabledBuildings, PropertyScrapeTarget, planImageConfig } from '../config/scraper';
 import dataService from './DataService';
-
-export interface ScrapedFloorPlan {
-  name: string;
-  bedrooms: number;
-  bathrooms: number;
-  hasDen: boolean;
-  squareFootage: number;
-  buildingPosition: string;
-  price: number;
-  isAvailable: boolean;
-  imageUrl?: string;
-}
+import { ScrapeFixtureStore } from './ScrapeFixtureStore';
+import failureSnapshotStore, { FailureCapture, FailureSnapshotStore, failureRunDir } from './FailureSnapshotStore';
+import { PlanImageService, browserThumbnailer } from './PlanImageService';
+import robotsService, { HttpFetcher, RobotsService, fetchRobotsTxt } from './RobotsService';
+import { AvailabilityMethod, AvailabilityResult, BuildingScrapeOptions, ScrapedFloorPlan, SourceAdapter, SourceContext } from './sources/SourceAdapter';
+import { OnnisluAdapter } from './sources/OnnisluAdapter';
+import { RentCafeAdapter } from './sources/RentCafeAdapter';
 
 export interface ScrapingResult {
   success: boolean;
   floorPlans: ScrapedFloorPlan[];
   errors: string[];
   timestamp: Date;
+  retries: number; // attempts after the first
 }
 
+// Live GET for JSON sources; fixtures wrap it in record/replay mode
+const fetchHttp: HttpFetcher = async (url) => {
+  const response = await fetch(url, {
+    headers: { 'User-Agent': scraperConfig.userAgent, Accept: 'application/json' },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(scraperConfig.timeoutMs)
+  });
+  return { status: response.status, body: await response.text() };
+};
+
+// Console lines kept per page for failure snapshots
+const MAX_CONSOLE_LINES = 500;
+
 export class ScraperService {
   private browser: Browser | null = null;
   private readonly requestDelay = scraperConfig.crawlDelayMs;
   private readonly timeout = scraperConfig.timeoutMs;
   private readonly maxRetries = scraperConfig.maxRetries;
-
-  constructor() {
+  private readonly fixtureMode: ScrapeFixtureConfig['mode'];
+  private readonly fixtures: ScrapeFixtureStore | null;
+  private readonly robots: RobotsService;
+  private readonly http: HttpFetcher;
+  private readonly adapters: Record<BuildingSource, SourceAdapter>;
+  private readonly snapshots: FailureSnapshotStore;
+  private readonly planImages: PlanImageService;
+  private readonly consoleLogs = new WeakMap<Page, string[]>();
+  private readonly failureCaptures = new Map<string, FailureCapture>(); // by building name, until the attempt's snapshot is saved
+  private fixtureMisses: string[] = []; // requests replay couldn't answer during the current attempt
+
+  // fixtures defaults to SCRAPER_FIXTURES / SCRAPER_FIXTURES_DIR; tests pass a mode and directory
+  // robots defaults to the shared per-host cache (reported by /api/status)
+  // snapshots defaults to FAILURE_SNAPSHOT_DIR / FAILURE_SNAPSHOT_MAX_RUNS
+  // planImages defaults to PLAN_IMAGE_DIR, with thumbnails rendered in this scraper's browser
+  constructor(
+    fixtures: Partial<ScrapeFixtureConfig> = {},
+    robots?: RobotsService,
+    snapshots: FailureSnapshotStore = failureSnapshotStore,
+    planImages?: PlanImageService
+  ) {
+    const config = { ...scrapeFixtureConfig, ...fixtures };
+    this.fixtureMode = config.mode;
+    this.fixtures = config.mode === 'off' ? null : new ScrapeFixtureStore(config.dir);
+    if (this.fixtures) {
+      logger.info('Scraper fixtures enabled', { mode: config.mode, dir: config.dir });
+    }
+    this.robots = robots
+      || (this.fixtures && config.mode !== 'off' ? new RobotsService(this.fixtures.wrapFetcher(config.mode, fetchRobotsTxt)) : robotsService);
+    this.http = this.fixtures && config.mode !== 'off' ? this.fixtures.wrapFetcher(config.mode, fetchHttp, 'application/json') : fetchHttp;
+
+    const ctx: SourceContext = {
+      createPage: () => this.createPage(),
+      closePage: (page, context) => this.safeClosePage(page, context),
+      checkRobots: (url) => this.checkRobots(url),
+      delay: (url) => this.delay(url),
+      fetchJson: (url) => this.fetchJson(url),
+      saveSnapshot: (building, html) => this.saveSnapshot(building, html),
+      captureFailure: (building, page) => this.captureFailure(building, page)
+    };
+    this.snapshots = snapshots;
+    this.planImages = planImages || new PlanImageService(dataService, planImageConfig, browserThumbnailer(() => this.initBrowser()), undefined, this.robots);
+    this.adapters = { onnislu: new OnnisluAdapter(ctx), rentcafe: new RentCafeAdapter(ctx) };
     this.setupGracefulShutdown();
   }
 
@@ -205,12 +256,41 @@ if (executablePath) {
         // Only block heavy assets; allow stylesheets, XHR/fetch, scripts, and 'other' to avoid breaking dynamic content
         if (rt === 'image' || rt === 'font' || rt === 'media') {
           req.abort();
+        } else if (this.fixtures && this.fixtureMode === 'replay') {
+          // Offline: answer from recorded fixtures, never the network. A request left unanswered
+          // would hang the page until the timeout, so a failed replay aborts it.
+          this.fixtures.replay(req)
+            .then(found => {
+              if (!found) this.fixtureMisses.push(`${req.method()} ${req.url()}`);
+            })
+            .catch(err => {
+              logger.error('Scrape fixture replay failed', { url: req.url(), error: err instanceof Error ? err.message : String(err) });
+              this.fixtureMisses.push(`${req.method()} ${req.url()}`);
+              req.abort('failed').catch(() => {});
+            });
         } else {
           req.continue();
         }
       });
     } catch {}
 
+    if (this.fixtures && this.fixtureMode === 'record') {
+      const store = this.fixtures;
+      page.on('response', (res) => {
+        store.record(res).catch(err => logger.warn('Scrape fixture record failed', { url: res.url(), error: err instanceof Error ? err.message : String(err) }));
+      });
+    }
+
+    // Kept for failure snapshots
+    const consoleLog: string[] = [];
+    this.consoleLogs.set(page, consoleLog);
+    const logLine = (line: string) => {
+      if (consoleLog.length < MAX_CONSOLE_LINES) consoleLog.push(`${new Date().toISOString()} ${line}`);
+    };
+    page.on('console', (msg) => logLine(`[${msg.type()}] ${msg.text()}`));
+    page.on('pageerror', (err) => logLine(`[pageerror] ${err instanceof Error ? err.message : String(err)}`));
+    page.on('requestfailed', (req) => logLine(`[requestfailed] ${req.url()} ${req.failure()?.errorText || ''}`.trim()));
+
     // Set timeouts
     page.setDefaultTimeout(this.timeout);
     page.setDefaultNavigationTimeout(Math.max(this.timeout * 2, 60000));
@@ -219,700 +299,236 @@ if (executablePath) {
   }
 
   /**
-   * Navigate to a URL with resilience against transient navigation issues
-   * like "Navigating frame was detached" or "Execution context was destroyed".
-   * Tries a few times with domcontentloaded, then validates DOM readiness.
+   * Error message when robots.txt disallows the URL for our user agent; null when it may be scraped
+   * (or SCRAPER_RESPECT_ROBOTS=false)
    */
-  private async navigateStable(page: Page, url: string): Promise<void> {
-    const timeBudget = Math.max(this.timeout * 2, 60000);
-    const attempts = 3;
-    for (let i = 0; i < attempts; i++) {
-      try {
-        await page.goto(url, { waitUntil: 'domcontentloaded', timeout: timeBudget });
-        await page.waitForSelector('body', { timeout: 30000 });
-        // Ensure document is ready enough for queries
-        await page.waitForFunction(
-          () => {
-            const d: any = (globalThis as any).document;
-            return d && (d.readyState === 'interactive' || d.readyState === 'complete');
-          },
-          { timeout: 15000 }
-        );
-        // Small settle delay for SPAs replacing frames
-        await page.waitForTimeout(500);
-        return;
-      } catch (err: any) {
-        const msg = String(err?.message || err);
-        const transient = /frame was detached|Execution context was destroyed|ERR_ABORTED/i.test(msg);
-        logger.warn('navigateStable navigation error', { attempt: i + 1, transient, error: msg });
-        if (i === attempts - 1) throw err;
-        await page.waitForTimeout(1000 * (i + 1));
-      }
-    }
+  private async checkRobots(url: string): Promise<string | null> {
+    if (!scraperConfig.respectRobotsTxt) return null;
+    const { allowed, rule, host } = await this.robots.check(url);
+    if (allowed) return null;
+    const reason = host.state === 'unreachable'
+      ? `${host.robotsUrl} could not be fetched (${host.httpStatus ?? 'network error'}), so the host is treated as disallowed`
+      : `${host.robotsUrl} has "Disallow: ${rule?.path}" for user-agent "${host.policy.agent}"`;
+    const message = `Blocked by robots.txt: ${url} (${reason})`;
+    logger.warn(message);
+    return message;
   }
 
   /**
-   * Implement respectful scraping delay
+   * Implement respectful scraping delay; a robots.txt Crawl-delay for the host overrides crawlDelayMs
    */
-  private async delay(): Promise<void> {
-    await new Promise(resolve => setTimeout(resolve, this.requestDelay));
+  private async delay(url?: string): Promise<void> {
+    // Replayed pages come from disk; there is no site to be polite to
+    if (this.fixtureMode === 'replay') return;
+    const robotsDelay = url && scraperConfig.respectRobotsTxt ? this.robots.getCrawlDelayMs(url) : null;
+    await new Promise(resolve => setTimeout(resolve, robotsDelay ?? this.requestDelay));
   }
 
-  // Scroll down to trigger lazy-loaded content (images/lists) before extraction
-  private async autoScroll(page: Page): Promise<void> {
+
+  /**
+   * GET a JSON document for an adapter: robots.txt is checked and fixtures recorded or replayed
+   */
+  private async fetchJson(url: string): Promise<unknown> {
+    const blocked = await this.checkRobots(url);
+    if (blocked) throw new Error(blocked);
+    const { status, body } = await this.http(url);
+    if (status < 200 || status >= 300) {
+      throw new Error(`HTTP ${status} from ${redactUrl(url)}`);
+    }
     try {
-      await page.evaluate(async () => {
-        await new Promise<void>((resolve) => {
-          const doc: any = (globalThis as any).document;
-          const win: any = (globalThis as any);
-          let totalHeight = 0;
-          const distance = 400;
-
-          const getScrollHeight = () => {
-            if (!doc) return 0;
-            const body = doc.body || {};
-            const de = doc.documentElement || {};
-            return Math.max(body.scrollHeight || 0, de.scrollHeight || 0);
-          };
-
-          const timer = setInterval(() => {
-            const scrollHeight = getScrollHeight();
-            if (win && typeof win.scrollBy === 'function') {
-              win.scrollBy(0, distance);
-            }
-            totalHeight += distance;
-            const innerH = win && win.innerHeight ? win.innerHeight : 0;
-            if (totalHeight >= scrollHeight - innerH - 100) {
-              clearInterval(timer);
-              resolve();
-            }
-          }, 200);
-        });
-      });
+      return JSON.parse(body);
     } catch {
-      // Non-fatal
+      throw new Error(`Invalid JSON from ${redactUrl(url)}`);
     }
   }
-// Wait for any selector to appear to ensure listings are present
-private async waitForAnySelector(page: Page, selectors: string[], timeoutMs: number): Promise<void> {
-  try {
-    await page.waitForFunction(
-      (sels: string[]) => {
-        const doc: any = (globalThis as any).document;
-        if (!doc) return false;
-        return sels.some((s) => !!doc.querySelector(s));
-      },
-      { timeout: timeoutMs },
-      selectors
-    );
-  } catch {
-    // Non-fatal; proceed best-effort
+
+  // The snapshot only serves selector testing, so failing to store it never fails the scrape
+  private async saveSnapshot(building: Building, html: string): Promise<void> {
+    try {
+      const saved = await dataService.savePageSnapshot(building.name, building.url, html);
+      if (!saved.success) {
+        logger.warn('Page snapshot not saved', { building: building.name, error: saved.error });
+      }
+    } catch (error) {
+      logger.warn('Page snapshot not saved', { building: building.name, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Read the failed page while it is still open; the retry loop files it with the attempt's error
+  private async captureFailure(building: Building, page: Page): Promise<void> {
+    if (!this.snapshots.enabled) return;
+    const capture: FailureCapture = { url: building.url, html: null, screenshot: null, console: this.consoleLogs.get(page) || [] };
+    // A page that broke may not answer; give each read the scrape timeout
+    const withTimeout = async <T>(work: Promise<T>): Promise<T | null> => {
+      let timer: NodeJS.Timeout | undefined;
+      try {
+        return await Promise.race([
+          work.catch(() => null),
+          new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), this.timeout); })
+        ]);
+      } finally {
+        clearTimeout(timer);
+      }
+    };
+    try {
+      capture.url = page.url() || building.url;
+    } catch {}
+    capture.html = await withTimeout(page.content());
+    const screenshot = await withTimeout(page.screenshot({ fullPage: true, type: 'png' }));
+    capture.screenshot = screenshot ? Buffer.from(screenshot) : null;
+    this.failureCaptures.set(building.name, capture);
+  }
+
+  // Snapshots only serve diagnosis, so failing to write one never fails the scrape
+  private async saveFailureSnapshot(building: Building, run: string, attempt: number, error: string): Promise<void> {
+    const capture = this.failureCaptures.get(building.name) || null;
+    this.failureCaptures.delete(building.name);
+    if (!this.snapshots.enabled) return;
+    try {
+      await this.snapshots.save(run, building.name, attempt, error, capture);
+    } catch (err) {
+      logger.warn('Failure snapshot not saved', { building: building.name, attempt, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  private adapterFor(source: BuildingSource = 'onnislu'): SourceAdapter {
+    return this.adapters[source];
   }
-}
 
   /**
-   * Scrape floor plan data from a building's website
+   * Scrape floor plan data from a building's website, using the adapter for options.source
    */
-  public async scrapeBuilding(building: Building): Promise<ScrapingResult> {
+  public async scrapeBuilding(building: Building, options: BuildingScrapeOptions = {}): Promise<ScrapingResult> {
     const result: ScrapingResult = {
       success: false,
       floorPlans: [],
       errors: [],
-      timestamp: new Date()
+      timestamp: new Date(),
+      retries: 0
     };
 
-    let page: Page | null = null;
+    const adapter = this.adapterFor(options.source);
+    const snapshotRun = failureRunDir(options.runId);
     let retryCount = 0;
 
+    // Not retried: the answer won't change until the robots.txt cache expires
+    const blocked = await this.checkRobots(building.url);
+    if (blocked) {
+      result.errors.push(blocked);
+      return result;
+    }
+
     while (retryCount < this.maxRetries) {
       try {
-        logger.info(`Scraping ${building.name} (attempt ${retryCount + 1}/${this.maxRetries})`);
-        
-        page = await this.createPage();
-        
-        // Navigate to the building's floor plans page (stable navigation with retries)
-        await this.navigateStable(page, building.url);
-
-                                // Wait for content to load
-                                await page.waitForSelector('body', { timeout: 30000 });
-                                // Use building-specific selectors from config, with broad fallback
-                                const sel = getBuildingSelectors(building.name);
-                                const fpSelectors = (sel.item && sel.item.length) ? sel.item : [
-                                  '[data-testid*="floor"]',
-                                  '[class*="floor"]',
-                                  '[class*="plan"]',
-                                  '[data-testid*="plan"]',
-                                  '[data-qa*="floor"]',
-                                  '[data-qa*="unit"]',
-                                  '[data-qa*="plan"]',
-                                  '.floorplan',
-                                  '.FloorPlan',
-                                  '[data-component*="FloorPlan"]',
-                                  '.unit',
-                                  '.unitcard',
-                                  '.unit-card',
-                                  '.apartment',
-                                  '.apartment-card',
-                                  '.card',
-                                  '.listing',
-                                  '.row',
-                                  'article',
-                                  'section',
-                                  'li'
-                                ];
-                                await this.waitForAnySelector(page, fpSelectors, 10000);
-                                await this.autoScroll(page);
-                                await this.delay();
-
-        // Extract floor plan data based on building
-        const floorPlansRaw = await this.extractFloorPlans(page, building);
-        let floorPlans = this.adaptForBuilding(building, floorPlansRaw);
-        // Download and cache plan layout images once, rewrite to local static path
-        floorPlans = await this.ensurePlanImages(building, floorPlans);
-        
+        logger.info(`Scraping ${building.name} via ${adapter.source} (attempt ${retryCount + 1}/${this.maxRetries})`);
+        this.fixtureMisses = [];
+
+        let floorPlans = await adapter.discoverPlans(building, options);
+        try {
+          floorPlans = await adapter.fetchPrices(building, floorPlans);
+        } catch (error) {
+          // Keep the listed plans and their advertised prices
+          const message = `Prices unavailable for ${building.name}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          logger.warn(message);
+          result.errors.push(message);
+        }
+
+        floorPlans = this.adaptForBuilding(building, floorPlans);
+        floorPlans = await this.storePlanImages(floorPlans);
+
         result.floorPlans = floorPlans;
         result.success = true;
-        
+
         logger.info(`Successfully scraped ${floorPlans.length} floor plans from ${building.name}`);
         break;
 
       } catch (error) {
         retryCount++;
-        const errorMessage = `Attempt ${retryCount} failed for ${building.name}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        // In replay mode a page usually fails because a request was never recorded; say which
+        const missing = this.fixtureMisses.length ? ` (no scrape fixture for ${this.fixtureMisses.join(', ')})` : '';
+        const errorMessage = `Attempt ${retryCount} failed for ${building.name}: ${error instanceof Error ? error.message : 'Unknown error'}${missing}`;
         logger.error(errorMessage);
         result.errors.push(errorMessage);
+        await this.saveFailureSnapshot(building, snapshotRun, retryCount, errorMessage);
 
         if (retryCount < this.maxRetries) {
+          result.retries = retryCount;
           // Exponential backoff
           const backoffDelay = Math.pow(2, retryCount) * 1000;
           logger.info(`Retrying in ${backoffDelay}ms...`);
           await new Promise(resolve => setTimeout(resolve, backoffDelay));
         }
-      } finally {
-        await this.safeClosePage(page, 'scrapeBuilding');
       }
     }
 
     // Implement respectful delay between building scrapes
-    await this.delay();
+    await this.delay(building.url);
 
     return result;
   }
 
   /**
-   * Extract floor plan data from the page
-   * TODO: Implement site-specific parsing with DOM evaluation and selectors.
-   */
-  private async extractFloorPlans(page: Page, building: Building): Promise<ScrapedFloorPlan[]> {
-    try {
-      const selConf = getBuildingSelectors(building.name);
-      const raw = await page.evaluate((selConf) => {
-        const doc: any = (globalThis as any).document;
-        if (!doc) return [] as any[];
-
-        const itemSelectors = (selConf?.item || []).join(', ');
-
-        const nameSelectors: string[] = selConf?.name || [];
-        const priceSelectors: string[] = selConf?.price || [];
-        const sqftSelectors: string[] = selConf?.sqft || [];
-        const imageSelectors: string[] = selConf?.image || [];
-        const include: string[] = (selConf?.availabilityInclude || []).map((s: string) => s.toLowerCase());
-        const exclude: string[] = (selConf?.availabilityExclude || []).map((s: string) => s.toLowerCase());
-
-        const toAbs = (src?: string | null): string | undefined => {
-          if (!src) return undefined;
-          try {
-            return new URL(src, doc.baseURI).toString();
-          } catch {
-            return undefined;
-          }
-        };
-
-        const nodes = Array.from(doc.querySelectorAll(itemSelectors)) as any[];
-
-        const priceRegex = /(?:from|starting at|start at|as low as)?\s*\$?\s*([\d,]+)(?:\.\d{2})?(?:\s*[-–]\s*\$?\s*([\d,]+)(?:\.\d{2})?)?/i;
-        const sqftRegex = /(\d{3,4})\s*(?:sq\.?\s*ft|sf|square\s*feet)/i;
-        const bedRegex = /(studio)|(\d+)\s*bed/i;
-        const bathRegex = /(\d+(?:\.\d+)?)\s*bath/i;
-
-        const items: any[] = [];
-
-        for (const el of nodes as any[]) {
-          const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
-          if (!text) continue;
-
-          // Name via selectors, with fallbacks
-          let name = '';
-          for (const ns of nameSelectors) {
-            const n = el.querySelector(ns) as any;
-            const val = (n?.innerText || n?.textContent || '').trim();
-            if (val) { name = val; break; }
-          }
-          if (!name) {
-            name =
-              (el.querySelector('h1,h2,h3,h4,[data-testid*="name"],[class*="name"]') as any)?.innerText?.trim() ||
-              (el.querySelector('[aria-label]') as any)?.getAttribute('aria-label') ||
-              (el.querySelector('img') as any)?.alt ||
-              '';
-          }
-          if (!name) {
-            const pc = text.match(/(?:plan|floor\s*plan)\s*([A-Z]?\d+[A-Z]?)/i);
-            if (pc) name = `Plan ${pc[1]}`.trim();
-          }
-          if (!name) {
-            const m = text.match(/([A-Za-z][A-Za-z0-9\-\s]{2,})/);
-            if (m) name = m[1].trim();
-          }
-          name = String(name).replace(/\s+/g, ' ').trim();
-
-          // Bedrooms
-          let bedrooms = 0;
-          const bed = text.match(bedRegex);
-          if (bed) bedrooms = bed[1] ? 0 : parseInt(bed[2] || '0', 10);
-          else if (/studio/i.test(text)) bedrooms = 0;
-
-          // Bathrooms
-          let bathrooms = 1;
-          const bath = text.match(bathRegex);
-          if (bath) bathrooms = parseFloat(bath[1]);
-
-          // Den
-          const hasDen = /\bden\b/i.test(text);
-
-          // Square footage: targeted then fallback
-          let squareFootage = 0;
-          for (const ss of sqftSelectors) {
-            const sEl = el.querySelector(ss) as any;
-            const st = (sEl?.innerText || sEl?.textContent || '').trim();
-            const m = st.match(sqftRegex);
-            if (m) { squareFootage = parseInt(m[1], 10); break; }
-          }
-          if (!squareFootage) {
-            const sqft = text.match(sqftRegex);
-            if (sqft) squareFootage = parseInt(sqft[1], 10);
-          }
-
-          // Fallback name if missing: derive from beds/baths/sqft
-          if (!name) {
-            const bathLabel = Number.isFinite(bathrooms) ? (bathrooms as number) : 1;
-            const bedLabel = bedrooms === 0 ? 'Studio' : `${bedrooms}x${bathLabel}`;
-            const sqftLabel = squareFootage ? ` ${squareFootage} sf` : '';
-            name = `${bedLabel}${sqftLabel}`.trim();
-          }
-
-          // Position/view
-          let buildingPosition = '';
-          const pos = text.match(/\b(north|south|east|west)\b.*?(?:view|facing)|\bcorner\b|\blake\b|\bcity\b/gi);
-          if (pos && pos.length) buildingPosition = pos[0];
-
-          // Price: targeted then fallback to broad search
-          let price = 0;
-          let priceText = '';
-          for (const ps of priceSelectors) {
-            const pEl = el.querySelector(ps) as any;
-            const pt = (pEl?.innerText || pEl?.textContent || '').trim();
-            if (pt) { priceText = pt; break; }
-          }
-          if (!priceText) {
-            const priceEl = el.querySelector('[class*="price"],[data-testid*="price"],.rent,.amount') as any;
-            priceText = (priceEl?.innerText || '').trim();
-          }
-          const pm = priceText.match(priceRegex);
-          if (pm) {
-            const a = pm[1] ? Number(pm[1].replace(/,/g, '')) : Number.POSITIVE_INFINITY;
-            const b = pm[2] ? Number(pm[2].replace(/,/g, '')) : Number.POSITIVE_INFINITY;
-            const cand = Math.min(a, b);
-            if (Number.isFinite(cand)) price = cand;
-          }
-
-          // Availability: explicit "Fully Leased" (or similar) overrides to unavailable
-          const lt = text.toLowerCase();
-          let isAvailable = true;
-          if (/fully\s*leased/i.test(text) || /waitlist|unavailable|sold\s*out/i.test(text)) {
-            isAvailable = false;
-          } else if (include.length) {
-            isAvailable = include.some(k => lt.includes(k)) && !exclude.some(k => lt.includes(k));
-          } else {
-            isAvailable = /available|apply|select/i.test(text);
-          }
-
-          // Image via selectors then fallback
-          let imageUrl: string | undefined;
-          for (const is of imageSelectors) {
-            const imgEl = el.querySelector(is) as any;
-            const src = imgEl?.getAttribute('src') || imgEl?.getAttribute('data-src');
-            const abs = toAbs(src);
-            if (abs) { imageUrl = abs; break; }
-          }
-          if (!imageUrl) {
-            const img = el.querySelector('img') as any;
-            imageUrl = toAbs(img?.getAttribute('src') || img?.getAttribute('data-src'));
-          }
-
-          // Try to use the explicit "FLOOR PLAN" link if it points to an image
-          try {
-            const anchors = Array.from(el.querySelectorAll('a')) as any[];
-            for (const a of anchors) {
-              const label = (a?.innerText || a?.textContent || '').trim();
-              const href = a?.getAttribute('href') || a?.getAttribute('data-href');
-              if (href && /floor\s*plan/i.test(label)) {
-                const abs = toAbs(href);
-                if (abs && /\.(png|jpe?g|webp|svg)$/i.test(abs)) {
-                  imageUrl = abs;
-                }
-                break;
-              }
-            }
-          } catch {}
-          
-          // Minimal signal: either price or sqft
-          if (!price && !squareFootage) continue;
-
-          items.push({
-            name,
-            bedrooms,
-            bathrooms,
-            hasDen,
-            squareFootage,
-            buildingPosition,
-            price,
-            isAvailable,
-            imageUrl
-          });
-        }
-
-        // Deduplicate by name; keep lowest price observed
-        const map = new Map<string, any>();
-        for (const it of items) {
-          const key = String(it.name).toUpperCase();
-          const prev = map.get(key);
-          if (!prev || (it.price && (!prev.price || it.price < prev.price))) {
-            map.set(key, it);
-          }
-        }
-        return Array.from(map.values());
-      }, selConf);
-
-      // Final sanitize/coerce on Node side
-      // - Clamp small/accidental numbers (e.g., from "D2") to 0
-      // - Availability: preserve explicit unavailability, and require normalized price
-      return (raw as any[]).map((r) => {
-        const priceNum = Number.isFinite(r.price) ? Number(r.price) : 0;
-        const normalizedPrice = priceNum >= 1000 ? priceNum : 0;
-        const explicitAvail = !!r.isAvailable; // from DOM rules (e.g., not "Fully Leased")
-        const isAvail = explicitAvail && normalizedPrice > 0;
-        return {
-          name: String(r.name),
-          bedrooms: Number.isFinite(r.bedrooms) ? r.bedrooms : 0,
-          bathrooms: Number.isFinite(r.bathrooms) ? r.bathrooms : 1,
-          hasDen: !!r.hasDen,
-          squareFootage: Number.isFinite(r.squareFootage) ? r.squareFootage : 0,
-          buildingPosition: String(r.buildingPosition || ''),
-          price: normalizedPrice,
-          isAvailable: isAvail,
-          imageUrl: r.imageUrl || undefined
-        };
-      });
-    } catch (error) {
-      logger.error('extractFloorPlans error', { building: building.name, url: building.url, error });
-      return [];
-    }
-  }
-
-  /**
-   * Filter items by wing code(s) based on unit name text.
-   * If wings array is empty, returns all items.
-   */
-  private filterByWings<T extends { name: string }>(items: T[], wings: string[]): T[] {
-    if (!wings || wings.length === 0) return items;
-    const wingSet = new Set(wings.map(w => w.trim().toUpperCase()));
-    return items.filter(item => {
-      // Heuristic: look for unit tokens like "D123" or "E-45" at word boundaries
-      const match = item.name.toUpperCase().match(/\b([A-Z])[ -]?\d+\b/);
-      const wing = match ? match[1] : undefined;
-      return wing ? wingSet.has(wing) : false;
-    });
-  }
-
-  /**
-   * Scrape SecureCafe apartments page for availability.
+   * Scrape SecureCafe apartments page for availability and the lease-term price matrix.
    * Filters by specified wings, or returns all if wings array is empty.
+   * buildingNames are the property's buildings as they appear in SecureCafe floor plan headers.
    */
   public async scrapeSecureCafeAvailability(
     url: string,
-    wings: string[] = scraperConfig.defaultWings
-  ): Promise<{
-    availableNow: { name: string; moveInDate?: string }[];
-    availableNextMonth: { name: string; moveInDate: string }[];
-    availableSoonUnits: { planCode: string; building: string; unit: string; rent: string; moveInDate: string }[];
-    scrapedAt: string;
-    source: string;
-  }> {
-    let page: Page | null = null;
-    try {
-      page = await this.createPage();
-      await page.goto(url, { waitUntil: 'networkidle2', timeout: Math.max(this.timeout * 2, 60000) });
-      await page.waitForSelector('body', { timeout: 30000 });
-
-      // Ensure some content is present and scroll to load
-      const unitSelectors = [
-        '[class*="unit"]',
-        '[class*="Unit"]',
-        '[data-testid*="unit"]',
-        '.apartment',
-        '.availability',
-        '.unitcard',
-        '.floorplan',
-        'li',
-        '.row',
-        'table'
-      ];
-      await this.waitForAnySelector(page, unitSelectors, 10000);
-      await this.autoScroll(page);
-      await this.delay();
-
-      // 1) Loose unit extraction (names with move-in dates) for "now" and month bucketing (fallback)
-      const rawUnits = await page.evaluate(() => {
-        const doc: any = (globalThis as any).document;
-        if (!doc) return [] as { name: string; moveInText: string }[];
-
-        const selectors = [
-          '[class*="unit"]',
-          '[class*="Unit"]',
-          '[data-testid*="unit"]',
-          '.apartment',
-          '.availability',
-          '.unitcard',
-          '.floorplan',
-          'li',
-          '.row'
-        ].join(', ');
-
-        const candidates = Array.from(doc.querySelectorAll(selectors)) as any[];
-        const results: { name: string; moveInText: string }[] = [];
-        const seen = new Set<string>();
-
-        for (const el of candidates) {
-          const text: string = (el.textContent || '').replace(/\s+/g, ' ').trim();
-          if (!text) continue;
-
-          const nameMatch = text.match(/\b([A-Z])[-\s]?(\d{2,4})\b/);
-          if (!nameMatch) continue;
-          const unitName = `${nameMatch[1].toUpperCase()}${nameMatch[2]}`;
-          if (seen.has(unitName)) continue;
-          seen.add(unitName);
-
-          const isNow = /available\s*now|move[-\s]?in\s*now|immediate/i.test(text);
-          const dateMatch = text.match(
-            /(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\s+\d{1,2}|\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/i
-          );
-
-          const moveInText = isNow ? 'now' : (dateMatch ? dateMatch[0] : '');
-          results.push({ name: unitName, moveInText });
-        }
-
-        return results;
-      });
-
-      type RawUnit = { name: string; moveInText: string };
-      const parsed = (rawUnits as RawUnit[]) || [];
-      const filteredUnits = this.filterByWings(parsed, wings);
-
-      const now = new Date();
-      const nextMonth = (now.getMonth() + 1) % 12;
-      const nextMonthYear = now.getMonth() === 11 ? now.getFullYear() + 1 : now.getFullYear();
-
-      const toDate = (s?: string): Date | undefined => {
-        if (!s) return undefined;
-        const t = s.toLowerCase();
-        if (t === 'now') return now;
-
-        const d1 = new Date(s);
-        if (!isNaN(d1.getTime())) return d1;
-
-        const m = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
-        if (m) {
-          const mm = parseInt(m[1], 10) - 1;
-          const dd = parseInt(m[2], 10);
-          let yyyy = parseInt(m[3], 10);
-          if (yyyy < 100) yyyy += 2000;
-          const d = new Date(yyyy, mm, dd);
-          if (!isNaN(d.getTime())) return d;
-        }
-        return undefined;
-      };
-
-      const availableNow = filteredUnits
-        .filter(u => (u.moveInText || '').toLowerCase() === 'now')
-        .map(u => ({ name: u.name, moveInDate: undefined }));
-
-      const availableNextMonth = filteredUnits
-        .map(u => ({ name: u.name, date: toDate(u.moveInText) }))
-        .filter(x => !!x.date && x.date!.getMonth() === nextMonth && x.date!.getFullYear() === nextMonthYear)
-        .map(x => ({ name: x.name, moveInDate: x.date!.toISOString().slice(0, 10) }));
-
-      // 2) Structured "Available Soon" table extraction from headers + tables (preferred)
-      const structured = await page.evaluate(() => {
-        const doc: any = (globalThis as any).document;
-        const outRows: Array<{ header: string; rowText: string; unit?: string; rent?: string; date?: string }> = [];
-
-        const getText = (el: any) => (el?.innerText || el?.textContent || '').replace(/\s+/g, ' ').trim();
-
-        // Collect all tables and derive nearest prior "Floor Plan :" header
-        const tables = Array.from(doc.querySelectorAll('table')) as any[];
-        for (const tb of tables) {
-          // Find nearest previous header-like element up the DOM tree or previous siblings
-          let headerText = '';
-          let cur: any = tb;
-          for (let hops = 0; hops < 15 && cur; hops++) {
-            let prev = cur.previousElementSibling;
-            while (prev && !headerText) {
-              const t = getText(prev);
-              if (/floor\s*plan\s*:?\s*/i.test(t)) {
-                headerText = t;
-                break;
-              }
-              prev = prev.previousElementSibling;
-            }
-            if (headerText) break;
-            cur = cur.parentElement;
-          }
-          if (!headerText) {
-            // try a generic preceding text node container
-            const container = tb.closest('section,div') || tb.parentElement;
-            const t = getText(container);
-            const m = t.match(/floor\s*plan\s*:?\s*([A-Za-z0-9\-\s]+)/i);
-            if (m) headerText = m[0];
-          }
-          if (!headerText) continue;
-
-          // Parse tbody rows
-          const body = tb.tBodies && tb.tBodies[0] ? tb.tBodies[0] : tb;
-          const rows = Array.from(body.querySelectorAll('tr')) as any[];
-          for (const tr of rows) {
-            const cells = Array.from(tr.querySelectorAll('td,th')) as any[];
-            if (!cells.length) continue;
-            const rowText = cells.map(getText).join(' | ').trim();
-            if (!rowText) continue;
-
-            // Extract key pieces from row
-            const unitMatch = rowText.match(/#?\s?(\d{3,4})\b/);
-            const rentMatch = rowText.match(/\$\s?[\d,]+/);
-            const dateMatch =
-              rowText.match(/(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\s+\d{1,2}/i) ||
-              rowText.match(/\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/);
-
-            if (dateMatch) {
-              outRows.push({
-                header: headerText,
-                rowText,
-                unit: unitMatch ? `#${unitMatch[1]}` : undefined,
-                rent: rentMatch ? rentMatch[0] : undefined,
-                date: dateMatch[0]
-              });
-            }
-          }
-        }
-
-        return outRows;
-      });
-
-      const availableSoonUnits: { planCode: string; building: string; unit: string; rent: string; moveInDate: string }[] = [];
-
-      const wingSet = new Set((wings || []).map(w => String(w || '').toUpperCase()));
-      const parsePlanFromHeader = (text: string) => {
-        const m = String(text || '').match(/\b([A-Z])\s*-?\s*(\d{1,2})\b/i);
-        return m ? `${m[1].toUpperCase()}${parseInt(m[2], 10)}` : '';
-      };
-      const parseTower = (text: string) => {
-        const s = String(text || '');
-        if (/boren/i.test(s)) return 'Boren';
-        if (/fairview/i.test(s)) return 'Fairview';
-        return '';
-      };
-
-      for (const r of (structured || [])) {
-        const planCode = parsePlanFromHeader(r.header);
-        if (!planCode) continue;
-        const wing = planCode.charAt(0);
-        if (wingSet.size > 0 && !wingSet.has(wing)) continue;
-
-        const building = parseTower(r.header);
-        const unit = r.unit || '#—';
-        const rent = r.rent || '';
-        const date = r.date || '';
-        if (!date || !building) continue;
-
-        availableSoonUnits.push({ planCode, building, unit, rent, moveInDate: date });
-      }
+    wings: string[] = scraperConfig.defaultWings,
+    buildingNames: string[] = getEnabledBuildings().map(b => b.name)
+  ): Promise<AvailabilityResult> {
+    return await this.adapters.onnislu.fetchUnits({ url, wings, buildingNames });
+  }
 
-      return {
-        availableNow,
-        availableNextMonth,
-        availableSoonUnits,
-        scrapedAt: new Date().toISOString(),
-        source: url
-      };
-    } catch (error) {
-      logger.error('scrapeSecureCafeAvailability error', { error });
-      return {
-        availableNow: [],
-        availableNextMonth: [],
-        availableSoonUnits: [],
-        scrapedAt: new Date().toISOString(),
-        source: url
-      };
-    } finally {
-      await this.safeClosePage(page, 'scrapeSecureCafeAvailability');
-      await this.delay();
+  /**
+   * Units for a whole property: its SecureCafe page plus each building on a JSON source, merged
+   * into one result. null when the property has nowhere to read units from.
+   */
+  public async scrapeAvailability(target: PropertyScrapeTarget, wings: string[] = target.wings): Promise<AvailabilityResult | null> {
+    const results: AvailabilityResult[] = [];
+    if (target.secureCafeUrl) {
+      results.push(await this.scrapeSecureCafeAvailability(
+        target.secureCafeUrl,
+        wings,
+        target.buildings.filter(b => b.source === 'onnislu').map(b => b.name)
+      ));
+    }
+    for (const b of target.buildings) {
+      if (b.source === 'onnislu') continue;
+      results.push(await this.adapterFor(b.source).fetchUnits({ url: b.url, wings, buildingNames: [b.name] }));
     }
+    if (!results.length) return null;
+    const methods = new Set(results.map(r => r.method).filter((m): m is AvailabilityMethod => m !== null));
+    return {
+      availableNow: results.flatMap(r => r.availableNow),
+      availableNextMonth: results.flatMap(r => r.availableNextMonth),
+      availableSoonUnits: results.flatMap(r => r.availableSoonUnits),
+      leaseTermQuotes: results.flatMap(r => r.leaseTermQuotes),
+      scrapedAt: results[0].scrapedAt,
+      source: results.map(r => redactUrl(r.source)).join(' '),
+      method: methods.size > 1 ? 'mixed' : (methods.values().next().value ?? null),
+      errors: results.flatMap(r => r.errors)
+    };
   }
 
-  // Resolve plan images to existing local files; never download or fetch remotely
-  private async ensurePlanImages(building: Building, plans: ScrapedFloorPlan[]): Promise<ScrapedFloorPlan[]> {
-    const outDir = path.join(process.cwd(), 'public', 'plan-images');
-    try { await fs.promises.mkdir(outDir, { recursive: true }); } catch {}
-    const bname = (building.name || '').toLowerCase();
-    const tCode = bname.includes('boren') ? 't2' : 't1';
-
-    const results: ScrapedFloorPlan[] = [];
-    for (const p of plans) {
-      let local: string | undefined = undefined;
-      try {
-        const nameNorm = String(p.name || '')
-          .toLowerCase()
-          .replace(/\*/g, '')
-          .replace(/\s+/g, ' ')
-          .trim()
-          .replace(/^plan\s+/, 'plan_')
-          .replace(/\s+/g, '_');
-
-        // Only use local static files if they already exist
-        for (const tryExt of ['png','jpg','jpeg','webp']) {
-          const fileBase = `${tCode}-${nameNorm}.${tryExt}`;
-          const filePath = path.join(outDir, fileBase);
-          try {
-            await fs.promises.access(filePath, fs.constants.F_OK);
-            local = `/static/plan-images/${fileBase}`;
-            break;
-          } catch {}
-        }
-      } catch {}
-      results.push({ ...p, imageUrl: local });
-    }
-    return results;
+  // Store each plan's image (downloaded once per URL, deduplicated by content); a failed image only logs
+  // a warning. Fixture replay blocks the network, so replayed plans keep their image URLs unstored.
+  private async storePlanImages(plans: ScrapedFloorPlan[]): Promise<ScrapedFloorPlan[]> {
+    if (this.fixtureMode === 'replay') return plans;
+    const stored = await this.planImages.attachToPlans(plans);
+    for (const error of stored.errors) logger.warn(error);
+    return stored.plans;
   }
 
   // Normalize and adapt scraped plans per building-specific rules
   private adaptForBuilding(building: Building, plans: ScrapedFloorPlan[]): ScrapedFloorPlan[] {
-    const bname = (building.name || '').toLowerCase();
+    // Plan names sometimes carry a "- <building>" suffix
+    const bname = String(building.name || '').trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const suffixRe = bname ? new RegExp(`\\s*-\\s*${bname}`, 'i') : null;
     return plans.map(p => {
       let name = String(p.name || '').trim();
-      if (bname.includes('fairview')) {
-        name = name.replace(/\s*-\s*fairview/i, '').trim();
-      }
-      if (bname.includes('boren')) {
-        name = name.replace(/\s*-\s*boren/i, '').trim();
+      if (suffixRe) {
+        name = name.replace(suffixRe, '').trim();
       }
       return {
         ...p,
@@ -924,25 +540,4 @@ private async waitForAnySelector(page: Page, selectors: string[], timeoutMs: num
       };
     });
   }
-
-  // Scrape and persist in a single call
-  public async scrapeAndPersist(building: Building): Promise<{
-    result: ScrapingResult;
-    persist: { buildingId: number; upserted: number; priced: number } | null;
-  }> {
-    const result = await this.scrapeBuilding(building);
-    let persist: { buildingId: number; upserted: number; priced: number } | null = null;
-    if (result.success && result.floorPlans.length) {
-      try {
-        persist = await dataService.persistScrapedFloorPlans(
-          { name: building.name, url: building.url },
-          result.floorPlans,
-          result.timestamp
-        );
-      } catch (err) {
-        logger.error('scrapeAndPersist persist failed', { building: building.name, error: err });
-      }
-    }
-    return { result, persist };
-  }
 }
\ No newline at end of file
@@ -0,0 +1,99 @@
+// Pure parsing of leasing specials ("6 weeks free on 13-month leases") into structured concessions.
+// Also computes net effective rent so alerts, APIs and exports share one formula.
+
+export interface ParsedConcession {
+  rawText: string;
+  weeksFree: number;
+  dollarCredit: number;
+  leaseTermMonths: number | null; // lease length the special is conditional on, if stated
+}
+
+export type ConcessionTerms = Pick<ParsedConcession, 'weeksFree' | 'dollarCredit' | 'leaseTermMonths'>;
+
+// Lease length used to amortize a concession when the special does not state one
+export const DEFAULT_LEASE_TERM_MONTHS = 12;
+
+const WEEKS_PER_MONTH = 52 / 12;
+
+const WORD_NUMBERS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12
+};
+
+const NUM = '(\\d+(?:\\.\\d+)?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)';
+const WEEKS_FREE_RE = new RegExp(`${NUM}\\s*(?:full\\s+)?weeks?\\s*(?:of\\s+)?(?:free|rent\\s+free|off)`, 'i');
+const MONTHS_FREE_RE = new RegExp(`${NUM}\\s*(?:full\\s+)?months?\\s*(?:of\\s+)?(?:free|rent\\s+free|off)`, 'i');
+const CREDIT_RE = /\$\s?([\d,]+(?:\.\d{2})?)\s*(?:off|credit|(?:look\s*(?:&|and)\s*lease|move[-\s]?in|leasing)\s+(?:credit|special|bonus)|towards?\s+rent)/i;
+const TERM_RE = /(\d{1,2})\s*\+?\s*[-\s]?(?:month|mo)\.?\s*(?:or\s+longer\s+)?leases?/i;
+
+// Text snippet extraction for scraped cards, aligned with ScraperService page.evaluate implementation
+export const CONCESSION_TEXT_RE = /[^.|\n]*?(?:\b\w+\s+(?:full\s+)?(?:weeks?|months?)\s+(?:of\s+)?(?:rent\s+)?(?:free|off)|\$\s?[\d,]+\s*(?:off|credit|look\s*(?:&|and)\s*lease))[^.|\n]*/i;
+
+const toNumber = (token: string): number => {
+  const lower = token.toLowerCase();
+  return WORD_NUMBERS[lower] ?? Number(lower);
+};
+
+/**
+ * Parse free-text leasing special into structured terms. Returns null when no
+ * recognizable concession (weeks/months free or dollar credit) is present.
+ */
+export function parseConcession(text?: string | null): ParsedConcession | null {
+  const rawText = String(text || '').replace(/\s+/g, ' ').trim();
+  if (!rawText) return null;
+
+  let weeksFree = 0;
+  const weeks = rawText.match(WEEKS_FREE_RE);
+  if (weeks) weeksFree = toNumber(weeks[1]);
+  const months = rawText.match(MONTHS_FREE_RE);
+  if (months) weeksFree += toNumber(months[1]) * WEEKS_PER_MONTH;
+
+  let dollarCredit = 0;
+  const credit = rawText.match(CREDIT_RE);
+  if (credit) dollarCredit = Number(credit[1].replace(/,/g, ''));
+
+  if (!(weeksFree > 0) && !(dollarCredit > 0)) return null;
+
+  const term = rawText.match(TERM_RE);
+  const leaseTermMonths = term ? parseInt(term[1], 10) : null;
+
+  return {
+    rawText,
+    weeksFree: Number(weeksFree.toFixed(2)),
+    dollarCredit,
+    leaseTermMonths: leaseTermMonths && leaseTermMonths > 0 ? leaseTermMonths : null
+  };
+}
+
+/**
+ * Net effective monthly rent: advertised rent minus the concession value
+ * amortized over the lease term. Without a concession the rent is returned as-is.
+ */
+export function netEffectiveRent(rent: number, concession?: Partial<ConcessionTerms> | null): number {
+  const price = Number(rent);
+  if (!Number.isFinite(price) || price <= 0 || !concession) return price;
+  const term = Number(concession.leaseTermMonths) > 0 ? Number(concession.leaseTermMonths) : DEFAULT_LEASE_TERM_MONTHS;
+  const weeksFree = Number(concession.weeksFree) || 0;
+  const credit = Number(concession.dollarCredit) || 0;
+  const weeklyRent = (price * 12) / 52;
+  const totalValue = weeksFree * weeklyRent + credit;
+  const net = price - totalValue / term;
+  return Number(Math.max(0, net).toFixed(2));
+}
+
+export interface ConcessionColumns {
+  concession_text?: string | null;
+  concession_weeks_free?: number | null;
+  concession_dollar_credit?: number | null;
+  concession_lease_term_months?: number | null;
+}
+
+// Concession columns joined onto a floor plan/price row -> terms (null when no concession that day)
+export function concessionTermsFromRow(row: ConcessionColumns): ConcessionTerms | null {
+  if (!row.concession_text) return null;
+  return {
+    weeksFree: Number(row.concession_weeks_free) || 0,
+    dollarCredit: Number(row.concession_dollar_credit) || 0,
+    leaseTermMonths: row.concession_lease_term_months != null ? Number(row.concession_lease_term_months) : null
+  };
+}
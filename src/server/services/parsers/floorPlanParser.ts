@@ -2,7 +2,8 @@
 // Selectors come from config; no DOM lib types used to keep server TS config compatible.
 
 import type { BuildingSelectorConfig } from '../../config/scraper';
-import type { ScrapedFloorPlan } from '../ScraperService';
+import type { ScrapedFloorPlan } from '../sources/SourceAdapter';
+import { CONCESSION_TEXT_RE } from './concessionParser';
 
 // Regexes aligned with ScraperService page.evaluate implementation
 const PRICE_RE = /(?:from|starting at|start at|as low as)?\s*\$?\s*([\d,]+)(?:\.\d{2})?(?:\s*[-–]\s*\$?\s*([\d,]+)(?:\.\d{2})?)?/i;
@@ -66,6 +67,7 @@ export function parseFloorPlansFromHtml(
   const priceSelectors: string[] = selConf?.price || [];
   const sqftSelectors: string[] = selConf?.sqft || [];
   const imageSelectors: string[] = selConf?.image || [];
+  const concessionSelectors: string[] = selConf?.concession || [];
   const include: string[] = (selConf?.availabilityInclude || []).map((s) => s.toLowerCase());
   const exclude: string[] = (selConf?.availabilityExclude || []).map((s) => s.toLowerCase());
 
@@ -159,6 +161,20 @@ export function parseFloorPlansFromHtml(
       const cand = Math.min(a, b);
       if (Number.isFinite(cand)) price = cand;
     }
+    // Keep only the matched snippet when the price came from the whole card text
+    const rawPriceText = (priceText === text ? (pm ? pm[0] : '') : priceText).replace(/\s+/g, ' ').trim();
+
+    // Concession/special text: targeted then fallback
+    let concessionText = '';
+    for (const cs of concessionSelectors) {
+      const cEl = el.querySelector ? el.querySelector(cs) : null;
+      const ct = textOf(cEl).replace(/\s+/g, ' ');
+      if (ct) { concessionText = ct; break; }
+    }
+    if (!concessionText) {
+      const cm = text.match(CONCESSION_TEXT_RE);
+      if (cm) concessionText = cm[0].trim();
+    }
 
     // Availability using configured keywords
     const lt = text.toLowerCase();
@@ -190,8 +206,10 @@ export function parseFloorPlansFromHtml(
       squareFootage,
       buildingPosition,
       price,
+      priceText: rawPriceText || undefined,
       isAvailable,
-      imageUrl
+      imageUrl,
+      concessionText: concessionText || undefined
     });
   }
 
@@ -0,0 +1,46 @@
+// Pure parsing of SecureCafe lease-term quotes ("12 Months - $2,450") into a term/price matrix.
+
+export interface LeaseTermQuote {
+  leaseTermMonths: number;
+  price: number;
+}
+
+// Shortest/longest lease terms SecureCafe offers; anything outside is noise (e.g. "1 month free")
+export const MIN_LEASE_TERM_MONTHS = 2;
+export const MAX_LEASE_TERM_MONTHS = 24;
+
+const TERM_PRICE_RE = /(\d{1,2})\s*-?\s*(?:months?|mos?\.?)(?![a-z])[^$\d]{0,24}\$\s?([\d,]+(?:\.\d{2})?)/gi;
+
+// Text snippet test for scraped rows/options, aligned with ScraperService page.evaluate implementation
+export const LEASE_TERM_TEXT_RE = /\d{1,2}\s*-?\s*(?:months?|mos?\.?)(?![a-z])[^$\d]{0,24}\$\s?[\d,]+/i;
+
+/**
+ * Extract every term/price pair from free text. When a term appears more than
+ * once (e.g. across units of the same plan) the lowest price wins. Sorted by term.
+ */
+export function parseLeaseTermQuotes(text?: string | null): LeaseTermQuote[] {
+  const src = String(text || '').replace(/\s+/g, ' ');
+  const byTerm = new Map<number, number>();
+  for (const m of src.matchAll(TERM_PRICE_RE)) {
+    const term = parseInt(m[1], 10);
+    const price = Number(m[2].replace(/,/g, ''));
+    if (term < MIN_LEASE_TERM_MONTHS || term > MAX_LEASE_TERM_MONTHS) continue;
+    if (!Number.isFinite(price) || price <= 0) continue;
+    const prev = byTerm.get(term);
+    if (prev === undefined || price < prev) byTerm.set(term, price);
+  }
+  return Array.from(byTerm.entries())
+    .map(([leaseTermMonths, price]) => ({ leaseTermMonths, price }))
+    .sort((a, b) => a.leaseTermMonths - b.leaseTermMonths);
+}
+
+/**
+ * Cheapest quote; ties keep the earlier entry (the shorter term when sorted). Null for an empty matrix.
+ */
+export function cheapestQuote<T extends { price: number }>(quotes: T[]): T | null {
+  let best: T | null = null;
+  for (const q of quotes) {
+    if (!best || Number(q.price) < Number(best.price)) best = q;
+  }
+  return best;
+}
@@ -0,0 +1,125 @@
+// Pure parsing of the RentCafe/Yardi JSON API (rentcafeapi.aspx): the floorplan and
+// apartmentavailability request types, whose records carry every value as a string.
+
+import type { ScrapedFloorPlan } from '../sources/SourceAdapter';
+
+export type RentCafeRequestType = 'floorplan' | 'apartmentavailability';
+
+export interface RentCafeUnit {
+  planName: string;
+  unit: string;
+  bedrooms: number;
+  bathrooms: number;
+  squareFootage: number;
+  rent: number; // 0 when the API lists none
+  moveInDate: string | null; // YYYY-MM-DD; null when no date is listed
+}
+
+type RentCafeRecord = Record<string, unknown>;
+
+const num = (v: unknown): number => {
+  const n = Number(String(v ?? '').replace(/[$,\s]/g, ''));
+  return Number.isFinite(n) ? n : 0;
+};
+
+// The API answers -1 (or 0) where a rent is unpublished
+const rent = (v: unknown): number => Math.max(0, num(v));
+
+const str = (v: unknown): string => String(v ?? '').replace(/\s+/g, ' ').trim();
+
+const dollars = (n: number): string => `$${n.toLocaleString('en-US')}`;
+
+/**
+ * The same endpoint with requestType switched; the building's url may point at either request type
+ */
+export function rentCafeRequestUrl(url: string, requestType: RentCafeRequestType): string {
+  const u = new URL(url);
+  u.searchParams.set('requestType', requestType);
+  return u.toString();
+}
+
+/**
+ * Records of a response; the API reports failures as a 200 with [{ "Error": "<code>" }]
+ */
+function records(json: unknown): RentCafeRecord[] {
+  if (!Array.isArray(json)) throw new Error('RentCafe response is not a list');
+  const error = json.find((r: RentCafeRecord) => r && typeof r === 'object' && 'Error' in r) as RentCafeRecord | undefined;
+  if (error) {
+    // 1020: no records; anything else is a bad token, property code or request
+    if (str(error.Error) === '1020') return [];
+    throw new Error(`RentCafe API error ${str(error.Error)}`);
+  }
+  return json.filter((r): r is RentCafeRecord => !!r && typeof r === 'object');
+}
+
+/**
+ * YYYY-MM-DD from the API's M/D/YYYY date; null for blanks and unparseable values
+ */
+export function parseRentCafeDate(value: unknown): string | null {
+  const m = str(value).match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (!m) return null;
+  return `${m[3]}-${m[1].padStart(2, '0')}-${m[2].padStart(2, '0')}`;
+}
+
+/**
+ * Floor plans from a floorplan response. The price is the advertised minimum rent; plans with no
+ * available units (or no rent) are unavailable.
+ */
+export function parseRentCafeFloorplans(json: unknown): ScrapedFloorPlan[] {
+  return records(json)
+    .filter(r => str(r.FloorplanName))
+    .map(r => {
+      const price = rent(r.MinimumRent);
+      const maxPrice = rent(r.MaximumRent);
+      const name = str(r.FloorplanName);
+      return {
+        name,
+        bedrooms: num(r.Beds),
+        bathrooms: num(r.Baths) || 1,
+        hasDen: /\bden\b/i.test(name),
+        squareFootage: Math.round(num(r.MinimumSQFT) || num(r.MaximumSQFT)),
+        buildingPosition: '',
+        price,
+        priceText: price ? (maxPrice > price ? `${dollars(price)} - ${dollars(maxPrice)}` : dollars(price)) : undefined,
+        isAvailable: price > 0 && num(r.AvailableUnitsCount) > 0,
+        imageUrl: str(r.FloorplanImageURL).split(',')[0].trim() || undefined
+      };
+    });
+}
+
+/**
+ * Units from an apartmentavailability response
+ */
+export function parseRentCafeUnits(json: unknown): RentCafeUnit[] {
+  return records(json)
+    .filter(r => str(r.ApartmentName))
+    .map(r => ({
+      planName: str(r.FloorplanName),
+      unit: str(r.ApartmentName),
+      bedrooms: num(r.Beds),
+      bathrooms: num(r.Baths),
+      squareFootage: Math.round(num(r.SQFT)),
+      rent: rent(r.MinimumRent),
+      moveInDate: parseRentCafeDate(r.AvailableDate)
+    }));
+}
+
+/**
+ * Price each plan at its cheapest available unit. Plans with no available unit keep the advertised
+ * price but are marked unavailable.
+ */
+export function applyUnitPrices(plans: ScrapedFloorPlan[], units: RentCafeUnit[]): ScrapedFloorPlan[] {
+  const lowest = new Map<string, number>();
+  for (const u of units) {
+    if (!u.rent) continue;
+    const key = u.planName.toUpperCase();
+    const prev = lowest.get(key);
+    if (prev === undefined || u.rent < prev) lowest.set(key, u.rent);
+  }
+  return plans.map(p => {
+    const unitRent = lowest.get(p.name.toUpperCase());
+    return unitRent
+      ? { ...p, price: unitRent, priceText: dollars(unitRent), isAvailable: true }
+      : { ...p, isAvailable: false };
+  });
+}
@@ -0,0 +1,114 @@
+// Pure robots.txt parsing (RFC 9309): picks the group for our user agent and matches URL paths
+// against its Allow/Disallow rules. Fetching and caching live in services/RobotsService.
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  path: string; // pattern as written; supports * and a trailing $
+}
+
+export interface RobotsPolicy {
+  agent: string; // user-agent line of the group that applies ('*' when none names us)
+  rules: RobotsRule[];
+  crawlDelaySeconds: number | null;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds: number | null;
+}
+
+// Nothing applies: no robots.txt, or one without a group for us
+export const ALLOW_ALL: RobotsPolicy = { agent: '*', rules: [], crawlDelaySeconds: null };
+
+// Unreachable robots.txt (5xx, network failure): RFC 9309 says assume everything is disallowed
+export const DISALLOW_ALL: RobotsPolicy = { agent: '*', rules: [{ type: 'disallow', path: '/' }], crawlDelaySeconds: null };
+
+function parseGroups(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const sep = line.indexOf(':');
+    if (sep === -1) continue;
+    const field = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelaySeconds: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!current) continue; // rules before any user-agent line apply to nobody
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ type: field, path: value });
+    } else if (field === 'crawl-delay') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelaySeconds = seconds;
+    }
+  }
+  return groups;
+}
+
+/**
+ * Parse robots.txt and return the policy for userAgent: groups whose user-agent token appears in
+ * our user agent win (the longest token if several do, merged if repeated), otherwise the * group.
+ */
+export function parseRobotsTxt(text: string | null | undefined, userAgent: string): RobotsPolicy {
+  const groups = parseGroups(text || '');
+  const ua = userAgent.toLowerCase();
+
+  let agent = '';
+  for (const g of groups) {
+    for (const a of g.agents) {
+      if (a !== '*' && ua.includes(a) && a.length > agent.length) agent = a;
+    }
+  }
+  if (!agent) agent = '*';
+
+  const matched = groups.filter(g => g.agents.includes(agent));
+  if (!matched.length) return ALLOW_ALL;
+  const delays = matched.map(g => g.crawlDelaySeconds).filter((d): d is number => d !== null);
+  return {
+    agent,
+    rules: matched.flatMap(g => g.rules),
+    crawlDelaySeconds: delays.length ? Math.max(...delays) : null
+  };
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * The rule deciding a path (path plus query string): the longest matching pattern, with Allow
+ * winning ties. null means no rule matches, i.e. the path is allowed.
+ */
+export function findMatchingRule(policy: RobotsPolicy, pathAndQuery: string): RobotsRule | null {
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!patternToRegExp(rule.path).test(pathAndQuery)) continue;
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.type === 'allow')) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+export function isPathAllowed(policy: RobotsPolicy, pathAndQuery: string): boolean {
+  return findMatchingRule(policy, pathAndQuery)?.type !== 'disallow';
+}
@@ -0,0 +1,212 @@
+// Pure parsing of the JSON SecureCafe loads over XHR while rendering its apartments page. Field names
+// vary between SecureCafe versions, so records are recognized by shape rather than by endpoint.
+
+import type { SecureCafeLeaseQuote, SecureCafeUnit } from '../sources/SourceAdapter';
+import { MAX_LEASE_TERM_MONTHS, MIN_LEASE_TERM_MONTHS, LeaseTermQuote } from './leaseTermParser';
+
+export interface SecureCafeXhrUnit {
+  unit: string;              // apartment name as listed ("D-1204", "1204")
+  planCode: string;          // normalized like the DOM headers ("D2"); raw plan name when it has no such code
+  building: string;          // building name from the record; '' when it carries none
+  rent: number;              // 0 when unlisted
+  moveInDate: string | null; // YYYY-MM-DD
+  availableNow: boolean;
+  leaseTerms: LeaseTermQuote[];
+  text: string;              // the record's string values, for matching building names
+}
+
+type XhrRecord = Record<string, unknown>;
+
+const UNIT_KEYS = ['apartmentname', 'unitname', 'unitnumber', 'apartmentnumber', 'unitcode', 'unit', 'apartment'];
+const PLAN_KEYS = ['floorplanname', 'floorplancode', 'floorplan', 'planname', 'plancode', 'unittype'];
+const RENT_KEYS = ['minimumrent', 'rent', 'marketrent', 'effectiverent', 'baserent', 'minrent', 'price'];
+const DATE_KEYS = ['availabledate', 'availabilitydate', 'dateavailable', 'moveindate', 'availablefrom', 'availableon'];
+const BUILDING_KEYS = ['buildingname', 'building', 'buildingcode', 'tower'];
+const TERM_LIST_KEYS = ['leaseterms', 'leasetermrents', 'terms', 'termrents'];
+const TERM_KEYS = ['leaseterm', 'termmonths', 'term', 'months'];
+const MAX_DEPTH = 8;
+
+const keyOf = (k: string) => k.toLowerCase().replace(/[^a-z]/g, '');
+
+function field(record: XhrRecord, keys: string[]): unknown {
+  const byKey = new Map(Object.entries(record).map(([k, v]) => [keyOf(k), v]));
+  for (const k of keys) {
+    const v = byKey.get(k);
+    if (v !== undefined && v !== null && v !== '') return v;
+  }
+  return undefined;
+}
+
+const str = (v: unknown): string => (typeof v === 'string' || typeof v === 'number' ? String(v).replace(/\s+/g, ' ').trim() : '');
+
+const money = (v: unknown): number => {
+  const n = Number(str(v).replace(/[$,\s]/g, '').replace(/\.\d+$/, ''));
+  return Number.isFinite(n) && n > 0 ? n : 0;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * YYYY-MM-DD from the date formats SecureCafe serializes: M/D/YYYY, ISO and ASP.NET "/Date(ms)/"
+ */
+export function parseXhrDate(value: unknown): string | null {
+  const s = str(value);
+  const ms = s.match(/^\/Date\((-?\d+)/);
+  if (ms) {
+    const d = new Date(Number(ms[1]));
+    return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+  }
+  const iso = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const us = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
+  if (us) {
+    const year = us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]);
+    return `${year}-${pad(Number(us[1]))}-${pad(Number(us[2]))}`;
+  }
+  return null;
+}
+
+/**
+ * "D2" from "Plan D2", "D-2" or "Floor Plan : D2 - Fairview"; the trimmed name when no code is found
+ */
+export function normalizePlanCode(name: string): string {
+  const m = name.match(/\b([A-Z])\s*-?\s*(\d{1,2})\b/i);
+  return m ? `${m[1].toUpperCase()}${parseInt(m[2], 10)}` : name.trim();
+}
+
+function leaseTermsOf(record: XhrRecord): LeaseTermQuote[] {
+  const list = field(record, TERM_LIST_KEYS);
+  if (!Array.isArray(list)) return [];
+  const byTerm = new Map<number, number>();
+  for (const t of list) {
+    if (!t || typeof t !== 'object') continue;
+    const term = parseInt(str(field(t as XhrRecord, TERM_KEYS)), 10);
+    const price = money(field(t as XhrRecord, RENT_KEYS));
+    if (!price || !(term >= MIN_LEASE_TERM_MONTHS && term <= MAX_LEASE_TERM_MONTHS)) continue;
+    const prev = byTerm.get(term);
+    if (prev === undefined || price < prev) byTerm.set(term, price);
+  }
+  return Array.from(byTerm.entries())
+    .map(([leaseTermMonths, price]) => ({ leaseTermMonths, price }))
+    .sort((a, b) => a.leaseTermMonths - b.leaseTermMonths);
+}
+
+function toUnit(record: XhrRecord): SecureCafeXhrUnit | null {
+  const unit = str(field(record, UNIT_KEYS));
+  if (!/\d/.test(unit)) return null;
+  const plan = str(field(record, PLAN_KEYS));
+  const rawDate = field(record, DATE_KEYS);
+  const moveInDate = parseXhrDate(rawDate);
+  // A unit record names its plan or says when or for how much it is available
+  if (!plan && !rawDate && field(record, RENT_KEYS) === undefined) return null;
+
+  const text = Object.values(record).map(str).filter(Boolean).join(' | ');
+  return {
+    unit,
+    planCode: plan ? normalizePlanCode(plan) : '',
+    building: str(field(record, BUILDING_KEYS)),
+    rent: money(field(record, RENT_KEYS)),
+    moveInDate,
+    availableNow: !moveInDate && /available\s*now|immediate|move[-\s]?in\s*now/i.test(`${str(rawDate)} | ${text}`),
+    leaseTerms: leaseTermsOf(record),
+    text
+  };
+}
+
+/**
+ * Unit records found anywhere in one XHR response body. ASP.NET's { "d": "<json>" } wrapping is unwrapped.
+ */
+export function parseSecureCafeXhr(json: unknown): SecureCafeXhrUnit[] {
+  const units: SecureCafeXhrUnit[] = [];
+  const walk = (node: unknown, depth: number): void => {
+    if (depth > MAX_DEPTH || node === null || node === undefined) return;
+    if (typeof node === 'string') {
+      const t = node.trim();
+      if (t.startsWith('[') || t.startsWith('{')) {
+        try { walk(JSON.parse(t), depth + 1); } catch {}
+      }
+      return;
+    }
+    if (Array.isArray(node)) {
+      for (const item of node) walk(item, depth + 1);
+      return;
+    }
+    if (typeof node !== 'object') return;
+    const unit = toUnit(node as XhrRecord);
+    if (unit) {
+      units.push(unit);
+      return;
+    }
+    for (const v of Object.values(node as XhrRecord)) walk(v, depth + 1);
+  };
+  walk(json, 0);
+  return units;
+}
+
+export interface UnitAvailability {
+  availableNow: { name: string; moveInDate?: string }[];
+  availableNextMonth: { name: string; moveInDate: string }[];
+  availableSoonUnits: SecureCafeUnit[];
+  leaseTermQuotes: SecureCafeLeaseQuote[];
+}
+
+/**
+ * Bucket XHR units the way the DOM scrape does: wings filter on the plan code's letter, units whose
+ * building can't be matched to buildingNames are left out of the building-keyed lists.
+ */
+export function availabilityFromXhr(
+  units: SecureCafeXhrUnit[],
+  wings: string[],
+  buildingNames: string[],
+  now: Date = new Date()
+): UnitAvailability {
+  const wingSet = new Set(wings.map(w => w.trim().toUpperCase()).filter(Boolean));
+  const today = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  const next = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  const nextMonth = `${next.getFullYear()}-${pad(next.getMonth() + 1)}`;
+  const buildingOf = (u: SecureCafeXhrUnit) => {
+    const haystack = `${u.building} | ${u.text}`.toLowerCase();
+    return buildingNames.find(name => name && haystack.includes(name.toLowerCase())) || '';
+  };
+
+  // The same unit often appears in more than one response (list and detail calls)
+  const seen = new Set<string>();
+  const kept = units.filter(u => {
+    const key = `${u.unit}|${u.planCode}`.toUpperCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return wingSet.size === 0 || wingSet.has((u.planCode || u.unit).charAt(0).toUpperCase());
+  });
+
+  const result: UnitAvailability = { availableNow: [], availableNextMonth: [], availableSoonUnits: [], leaseTermQuotes: [] };
+  const quoteMap = new Map<string, SecureCafeLeaseQuote>();
+  for (const u of kept) {
+    if (u.availableNow || (u.moveInDate && u.moveInDate <= today)) {
+      result.availableNow.push({ name: u.unit, moveInDate: u.moveInDate || undefined });
+    }
+    if (u.moveInDate?.startsWith(nextMonth)) {
+      result.availableNextMonth.push({ name: u.unit, moveInDate: u.moveInDate });
+    }
+
+    const building = buildingOf(u);
+    if (!building || !u.planCode) continue;
+    if (u.moveInDate) {
+      result.availableSoonUnits.push({
+        planCode: u.planCode,
+        building,
+        unit: u.unit.startsWith('#') ? u.unit : `#${u.unit}`,
+        rent: u.rent ? `$${u.rent.toLocaleString('en-US')}` : '',
+        moveInDate: u.moveInDate
+      });
+    }
+    for (const q of u.leaseTerms) {
+      const key = `${building}|${u.planCode}|${q.leaseTermMonths}`;
+      const prev = quoteMap.get(key);
+      if (!prev || q.price < prev.price) {
+        quoteMap.set(key, { planCode: u.planCode, building, leaseTermMonths: q.leaseTermMonths, price: q.price });
+      }
+    }
+  }
+  result.leaseTermQuotes = Array.from(quoteMap.values());
+  return result;
+}
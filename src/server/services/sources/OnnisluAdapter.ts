@@ -0,0 +1,761 @@
+// OnnisluAdapter: the ONNISLU floor plan pages (one per building, plan cards in the DOM) and the
+// property's SecureCafe apartments page (units, move-in dates and lease-term prices).
+
+import type { Page } from 'puppeteer';
+import type { Building } from '../../../shared/types';
+import logger from '../../utils/logger';
+import { scraperConfig, getBuildingSelectors, BuildingSelectorConfig } from '../../config/scraper';
+import { CONCESSION_TEXT_RE } from '../parsers/concessionParser';
+import { LEASE_TERM_TEXT_RE, parseLeaseTermQuotes } from '../parsers/leaseTermParser';
+import { UnitAvailability, availabilityFromXhr, parseSecureCafeXhr } from '../parsers/secureCafeXhrParser';
+import {
+  AvailabilityResult,
+  BuildingScrapeOptions,
+  ScrapedFloorPlan,
+  SecureCafeLeaseQuote,
+  SecureCafeUnit,
+  SourceAdapter,
+  SourceContext,
+  UnitsRequest,
+  filterByWings
+} from './SourceAdapter';
+
+// The server compiles without the DOM lib, so the page.evaluate callbacks type the parts of the page
+// they read with these
+interface PageNode {
+  innerText?: string;
+  textContent: string | null;
+  alt?: string;
+  scrollHeight?: number;
+  tBodies?: ArrayLike<PageNode>;
+  parentElement: PageNode | null;
+  previousElementSibling: PageNode | null;
+  closest(selector: string): PageNode | null;
+  querySelector(selector: string): PageNode | null;
+  querySelectorAll(selector: string): ArrayLike<PageNode>;
+  getAttribute(name: string): string | null;
+}
+
+interface PageDocument {
+  baseURI: string;
+  readyState: string;
+  body: PageNode | null;
+  documentElement: PageNode | null;
+  querySelector(selector: string): PageNode | null;
+  querySelectorAll(selector: string): ArrayLike<PageNode>;
+}
+
+interface PageWindow {
+  document?: PageDocument;
+  innerHeight?: number;
+  scrollBy?(x: number, y: number): void;
+}
+
+// A plan card as read off the page, before the Node-side clean-up in extractFloorPlans
+interface RawPlanCard {
+  name: string;
+  bedrooms: number;
+  bathrooms: number;
+  hasDen: boolean;
+  squareFootage: number;
+  buildingPosition: string;
+  price: number;
+  priceText: string;
+  isAvailable: boolean;
+  imageUrl?: string;
+  concessionText: string;
+}
+
+export class OnnisluAdapter implements SourceAdapter {
+  readonly source = 'onnislu' as const;
+  private readonly timeout = scraperConfig.timeoutMs;
+
+  constructor(private readonly ctx: SourceContext) {}
+
+  async discoverPlans(building: Building, options: BuildingScrapeOptions): Promise<ScrapedFloorPlan[]> {
+    let page: Page | null = null;
+    try {
+      page = await this.ctx.createPage();
+
+      // Navigate to the building's floor plans page (stable navigation with retries)
+      await this.navigateStable(page, building.url);
+
+      // Wait for content to load
+      await page.waitForSelector('body', { timeout: 30000 });
+      // Use the building's saved selectors, then the property's, with broad fallback
+      const sel = getBuildingSelectors(options.selectors, options.buildingSelectors);
+      const fpSelectors = (sel.item && sel.item.length) ? sel.item : [
+        '[data-testid*="floor"]',
+        '[class*="floor"]',
+        '[class*="plan"]',
+        '[data-testid*="plan"]',
+        '[data-qa*="floor"]',
+        '[data-qa*="unit"]',
+        '[data-qa*="plan"]',
+        '.floorplan',
+        '.FloorPlan',
+        '[data-component*="FloorPlan"]',
+        '.unit',
+        '.unitcard',
+        '.unit-card',
+        '.apartment',
+        '.apartment-card',
+        '.card',
+        '.listing',
+        '.row',
+        'article',
+        'section',
+        'li'
+      ];
+      await this.waitForAnySelector(page, fpSelectors, 10000);
+      await this.autoScroll(page);
+      await this.ctx.delay(building.url);
+
+      await this.ctx.saveSnapshot(building, await page.content());
+      return await this.extractFloorPlans(page, building, sel);
+    } catch (error) {
+      if (page) await this.ctx.captureFailure(building, page);
+      throw error;
+    } finally {
+      await this.ctx.closePage(page, 'discoverPlans');
+    }
+  }
+
+  /**
+   * Prices are read off the same plan cards during discovery, so there is nothing more to fetch
+   */
+  async fetchPrices(_building: Building, plans: ScrapedFloorPlan[]): Promise<ScrapedFloorPlan[]> {
+    return plans;
+  }
+
+  /**
+   * Scrape the SecureCafe apartments page for availability and the lease-term price matrix.
+   * Units come from the JSON SecureCafe fetches over XHR while rendering; when none of it holds
+   * unit records, they are read off the rendered page instead. method records which was used.
+   * Filters by the requested wings, or returns all if wings is empty.
+   * buildingNames are the property's buildings as they appear in SecureCafe floor plan headers.
+   */
+  async fetchUnits({ url, wings, buildingNames }: UnitsRequest): Promise<AvailabilityResult> {
+    let page: Page | null = null;
+    try {
+      const blocked = await this.ctx.checkRobots(url);
+      if (blocked) throw new Error(blocked);
+
+      page = await this.ctx.createPage();
+      const xhrBodies = this.captureXhrJson(page);
+      await page.goto(url, { waitUntil: 'networkidle2', timeout: Math.max(this.timeout * 2, 60000) });
+      await page.waitForSelector('body', { timeout: 30000 });
+
+      // Ensure some content is present and scroll to load
+      const unitSelectors = [
+        '[class*="unit"]',
+        '[class*="Unit"]',
+        '[data-testid*="unit"]',
+        '.apartment',
+        '.availability',
+        '.unitcard',
+        '.floorplan',
+        'li',
+        '.row',
+        'table'
+      ];
+      await this.waitForAnySelector(page, unitSelectors, 10000);
+      await this.autoScroll(page);
+      await this.ctx.delay(url);
+
+      const bodies = (await Promise.allSettled(xhrBodies))
+        .flatMap(r => (r.status === 'fulfilled' && r.value !== undefined ? [r.value] : []));
+      const fromXhr = availabilityFromXhr(bodies.flatMap(parseSecureCafeXhr), wings, buildingNames);
+      const useXhr = fromXhr.availableNow.length + fromXhr.availableNextMonth.length + fromXhr.availableSoonUnits.length > 0;
+      // The lease-term matrix is still read off the page when the XHR records carry none
+      const fromDom = useXhr && fromXhr.leaseTermQuotes.length ? null : await this.readUnitsFromDom(page, wings, buildingNames);
+      const units = useXhr ? fromXhr : fromDom!;
+
+      logger.info('SecureCafe availability read', { url, method: useXhr ? 'xhr' : 'dom', xhrResponses: bodies.length, availableSoonUnits: units.availableSoonUnits.length });
+      return {
+        availableNow: units.availableNow,
+        availableNextMonth: units.availableNextMonth,
+        availableSoonUnits: units.availableSoonUnits,
+        leaseTermQuotes: fromXhr.leaseTermQuotes.length ? fromXhr.leaseTermQuotes : fromDom!.leaseTermQuotes,
+        scrapedAt: new Date().toISOString(),
+        source: url,
+        method: useXhr ? 'xhr' : 'dom',
+        errors: []
+      };
+    } catch (error) {
+      logger.error('SecureCafe availability scrape error', { error });
+      return {
+        availableNow: [],
+        availableNextMonth: [],
+        availableSoonUnits: [],
+        leaseTermQuotes: [],
+        scrapedAt: new Date().toISOString(),
+        source: url,
+        method: null,
+        errors: [error instanceof Error ? error.message : String(error)]
+      };
+    } finally {
+      await this.ctx.closePage(page, 'fetchUnits');
+      await this.ctx.delay(url);
+    }
+  }
+
+  /**
+   * Parsed bodies of the JSON responses to the page's XHR/fetch calls, one promise per response
+   */
+  private captureXhrJson(page: Page): Promise<unknown>[] {
+    const bodies: Promise<unknown>[] = [];
+    page.on('response', (res) => {
+      const type = res.request().resourceType();
+      if (type !== 'xhr' && type !== 'fetch') return;
+      if (res.status() < 200 || res.status() >= 300) return;
+      if (!/json|javascript|text\/plain/i.test(res.headers()['content-type'] || '')) return;
+      bodies.push(res.text().then(text => JSON.parse(text)).catch(() => undefined));
+    });
+    return bodies;
+  }
+
+  /**
+   * Fallback: units and lease-term quotes from the rendered page text
+   */
+  private async readUnitsFromDom(page: Page, wings: string[], buildingNames: string[]): Promise<UnitAvailability> {
+    // 1) Loose unit extraction (names with move-in dates) for "now" and month bucketing (fallback)
+    const rawUnits = await page.evaluate(() => {
+      const doc = (globalThis as unknown as PageWindow).document;
+      if (!doc) return [] as { name: string; moveInText: string }[];
+
+      const selectors = [
+        '[class*="unit"]',
+        '[class*="Unit"]',
+        '[data-testid*="unit"]',
+        '.apartment',
+        '.availability',
+        '.unitcard',
+        '.floorplan',
+        'li',
+        '.row'
+      ].join(', ');
+
+      const candidates = Array.from(doc.querySelectorAll(selectors));
+      const results: { name: string; moveInText: string }[] = [];
+      const seen = new Set<string>();
+
+      for (const el of candidates) {
+        const text: string = (el.textContent || '').replace(/\s+/g, ' ').trim();
+        if (!text) continue;
+
+        const nameMatch = text.match(/\b([A-Z])[-\s]?(\d{2,4})\b/);
+        if (!nameMatch) continue;
+        const unitName = `${nameMatch[1].toUpperCase()}${nameMatch[2]}`;
+        if (seen.has(unitName)) continue;
+        seen.add(unitName);
+
+        const isNow = /available\s*now|move[-\s]?in\s*now|immediate/i.test(text);
+        const dateMatch = text.match(
+          /(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\s+\d{1,2}|\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/i
+        );
+
+        const moveInText = isNow ? 'now' : (dateMatch ? dateMatch[0] : '');
+        results.push({ name: unitName, moveInText });
+      }
+
+      return results;
+    });
+
+    type RawUnit = { name: string; moveInText: string };
+    const parsed = (rawUnits as RawUnit[]) || [];
+    const filteredUnits = filterByWings(parsed, wings);
+
+    const now = new Date();
+    const nextMonth = (now.getMonth() + 1) % 12;
+    const nextMonthYear = now.getMonth() === 11 ? now.getFullYear() + 1 : now.getFullYear();
+
+    const toDate = (s?: string): Date | undefined => {
+      if (!s) return undefined;
+      const t = s.toLowerCase();
+      if (t === 'now') return now;
+
+      const d1 = new Date(s);
+      if (!isNaN(d1.getTime())) return d1;
+
+      const m = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+      if (m) {
+        const mm = parseInt(m[1], 10) - 1;
+        const dd = parseInt(m[2], 10);
+        let yyyy = parseInt(m[3], 10);
+        if (yyyy < 100) yyyy += 2000;
+        const d = new Date(yyyy, mm, dd);
+        if (!isNaN(d.getTime())) return d;
+      }
+      return undefined;
+    };
+
+    const availableNow = filteredUnits
+      .filter(u => (u.moveInText || '').toLowerCase() === 'now')
+      .map(u => ({ name: u.name, moveInDate: undefined }));
+
+    const availableNextMonth = filteredUnits
+      .map(u => ({ name: u.name, date: toDate(u.moveInText) }))
+      .filter(x => !!x.date && x.date!.getMonth() === nextMonth && x.date!.getFullYear() === nextMonthYear)
+      .map(x => ({ name: x.name, moveInDate: x.date!.toISOString().slice(0, 10) }));
+
+    // 2) Structured "Available Soon" table extraction from headers + tables (preferred),
+    //    plus lease-term quote text (term dropdowns or "12 Months | $2,450" rows) under the same headers
+    const structured = await page.evaluate((leaseTermSource: string) => {
+      const doc = (globalThis as unknown as PageWindow).document;
+      const outRows: Array<{ header: string; rowText: string; unit?: string; rent?: string; date?: string }> = [];
+      const termTexts: Array<{ header: string; text: string }> = [];
+      const leaseTermRegex = new RegExp(leaseTermSource, 'i');
+      if (!doc) return { rows: outRows, termTexts };
+
+      const getText = (el: PageNode | null) => (el?.innerText || el?.textContent || '').replace(/\s+/g, ' ').trim();
+
+      // Find nearest previous "Floor Plan :" header-like element up the DOM tree or previous siblings
+      const findHeader = (el: PageNode): string => {
+        let headerText = '';
+        let cur: PageNode | null = el;
+        for (let hops = 0; hops < 15 && cur; hops++) {
+          let prev = cur.previousElementSibling;
+          while (prev && !headerText) {
+            const t = getText(prev);
+            if (/floor\s*plan\s*:?\s*/i.test(t)) {
+              headerText = t;
+              break;
+            }
+            prev = prev.previousElementSibling;
+          }
+          if (headerText) break;
+          cur = cur.parentElement;
+        }
+        if (!headerText) {
+          // try a generic preceding text node container
+          const container = el.closest('section,div') || el.parentElement;
+          const t = getText(container);
+          const m = t.match(/floor\s*plan\s*:?\s*([A-Za-z0-9\-\s]+)/i);
+          if (m) headerText = m[0];
+        }
+        return headerText;
+      };
+
+      // Lease-term dropdowns: each option reads like "12 Months - $2,450"
+      const selects = Array.from(doc.querySelectorAll('select'));
+      for (const sel of selects) {
+        const options = Array.from(sel.querySelectorAll('option')).map(getText).filter((t: string) => leaseTermRegex.test(t));
+        if (!options.length) continue;
+        const headerText = findHeader(sel);
+        if (headerText) termTexts.push({ header: headerText, text: options.join(' | ') });
+      }
+
+      // Collect all tables under their floor plan header
+      const tables = Array.from(doc.querySelectorAll('table'));
+      for (const tb of tables) {
+        const headerText = findHeader(tb);
+        if (!headerText) continue;
+
+        // Parse tbody rows
+        const body = tb.tBodies && tb.tBodies[0] ? tb.tBodies[0] : tb;
+        const rows = Array.from(body.querySelectorAll('tr'));
+        for (const tr of rows) {
+          const cells = Array.from(tr.querySelectorAll('td,th'));
+          if (!cells.length) continue;
+          const rowText = cells.map(getText).join(' | ').trim();
+          if (!rowText) continue;
+
+          if (leaseTermRegex.test(rowText)) {
+            termTexts.push({ header: headerText, text: rowText });
+          }
+
+          // Extract key pieces from row
+          const unitMatch = rowText.match(/#?\s?(\d{3,4})\b/);
+          const rentMatch = rowText.match(/\$\s?[\d,]+/);
+          const dateMatch =
+            rowText.match(/(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\s+\d{1,2}/i) ||
+            rowText.match(/\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/);
+
+          if (dateMatch) {
+            outRows.push({
+              header: headerText,
+              rowText,
+              unit: unitMatch ? `#${unitMatch[1]}` : undefined,
+              rent: rentMatch ? rentMatch[0] : undefined,
+              date: dateMatch[0]
+            });
+          }
+        }
+      }
+
+      return { rows: outRows, termTexts };
+    }, LEASE_TERM_TEXT_RE.source);
+
+    const availableSoonUnits: SecureCafeUnit[] = [];
+
+    const wingSet = new Set((wings || []).map(w => String(w || '').toUpperCase()));
+    const parsePlanFromHeader = (text: string) => {
+      const m = String(text || '').match(/\b([A-Z])\s*-?\s*(\d{1,2})\b/i);
+      return m ? `${m[1].toUpperCase()}${parseInt(m[2], 10)}` : '';
+    };
+    const parseTower = (text: string) => {
+      const s = String(text || '').toLowerCase();
+      return buildingNames.find(name => name && s.includes(name.toLowerCase())) || '';
+    };
+
+    for (const r of (structured?.rows || [])) {
+      const planCode = parsePlanFromHeader(r.header);
+      if (!planCode) continue;
+      const wing = planCode.charAt(0);
+      if (wingSet.size > 0 && !wingSet.has(wing)) continue;
+
+      const building = parseTower(r.header);
+      const unit = r.unit || '#—';
+      const rent = r.rent || '';
+      const date = r.date || '';
+      if (!date || !building) continue;
+
+      availableSoonUnits.push({ planCode, building, unit, rent, moveInDate: date });
+    }
+
+    // Lease-term matrix: lowest quote per plan and term across all matched snippets
+    const quoteMap = new Map<string, SecureCafeLeaseQuote>();
+    for (const t of (structured?.termTexts || [])) {
+      const planCode = parsePlanFromHeader(t.header);
+      const building = parseTower(t.header);
+      if (!planCode || !building) continue;
+      if (wingSet.size > 0 && !wingSet.has(planCode.charAt(0))) continue;
+      for (const q of parseLeaseTermQuotes(t.text)) {
+        const key = `${building}|${planCode}|${q.leaseTermMonths}`;
+        const prev = quoteMap.get(key);
+        if (!prev || q.price < prev.price) {
+          quoteMap.set(key, { planCode, building, leaseTermMonths: q.leaseTermMonths, price: q.price });
+        }
+      }
+    }
+    const leaseTermQuotes = Array.from(quoteMap.values());
+
+    return { availableNow, availableNextMonth, availableSoonUnits, leaseTermQuotes };
+  }
+
+
+  /**
+   * Navigate to a URL with resilience against transient navigation issues
+   * like "Navigating frame was detached" or "Execution context was destroyed".
+   * Tries a few times with domcontentloaded, then validates DOM readiness.
+   */
+  private async navigateStable(page: Page, url: string): Promise<void> {
+    const timeBudget = Math.max(this.timeout * 2, 60000);
+    const attempts = 3;
+    for (let i = 0; i < attempts; i++) {
+      try {
+        await page.goto(url, { waitUntil: 'domcontentloaded', timeout: timeBudget });
+        await page.waitForSelector('body', { timeout: 30000 });
+        // Ensure document is ready enough for queries
+        await page.waitForFunction(
+          () => {
+            const d = (globalThis as unknown as PageWindow).document;
+            return d && (d.readyState === 'interactive' || d.readyState === 'complete');
+          },
+          { timeout: 15000 }
+        );
+        // Small settle delay for SPAs replacing frames
+        await page.waitForTimeout(500);
+        return;
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        const transient = /frame was detached|Execution context was destroyed|ERR_ABORTED/i.test(msg);
+        logger.warn('navigateStable navigation error', { attempt: i + 1, transient, error: msg });
+        if (i === attempts - 1) throw err;
+        await page.waitForTimeout(1000 * (i + 1));
+      }
+    }
+  }
+
+  // Scroll down to trigger lazy-loaded content (images/lists) before extraction
+  private async autoScroll(page: Page): Promise<void> {
+    try {
+      await page.evaluate(async () => {
+        await new Promise<void>((resolve) => {
+          const doc = (globalThis as unknown as PageWindow).document;
+          const win = globalThis as unknown as PageWindow;
+          let totalHeight = 0;
+          const distance = 400;
+
+          const getScrollHeight = () => {
+            if (!doc) return 0;
+            return Math.max(doc.body?.scrollHeight || 0, doc.documentElement?.scrollHeight || 0);
+          };
+
+          const timer = setInterval(() => {
+            const scrollHeight = getScrollHeight();
+            if (win && typeof win.scrollBy === 'function') {
+              win.scrollBy(0, distance);
+            }
+            totalHeight += distance;
+            const innerH = win && win.innerHeight ? win.innerHeight : 0;
+            if (totalHeight >= scrollHeight - innerH - 100) {
+              clearInterval(timer);
+              resolve();
+            }
+          }, 200);
+        });
+      });
+    } catch {
+      // Non-fatal
+    }
+  }
+  // Wait for any selector to appear to ensure listings are present
+  private async waitForAnySelector(page: Page, selectors: string[], timeoutMs: number): Promise<void> {
+    try {
+      await page.waitForFunction(
+        (sels: string[]) => {
+          const doc = (globalThis as unknown as PageWindow).document;
+          if (!doc) return false;
+          return sels.some((s) => !!doc.querySelector(s));
+        },
+        { timeout: timeoutMs },
+        selectors
+      );
+    } catch {
+      // Non-fatal; proceed best-effort
+    }
+  }
+
+
+  /**
+   * Extract floor plan data from the page
+   */
+  private async extractFloorPlans(
+    page: Page,
+    building: Building,
+    selConf: BuildingSelectorConfig
+  ): Promise<ScrapedFloorPlan[]> {
+    try {
+      const raw = await page.evaluate((selConf, concessionSource) => {
+        const doc = (globalThis as unknown as PageWindow).document;
+        if (!doc) return [] as RawPlanCard[];
+
+        const itemSelectors = (selConf?.item || []).join(', ');
+
+        const nameSelectors: string[] = selConf?.name || [];
+        const priceSelectors: string[] = selConf?.price || [];
+        const sqftSelectors: string[] = selConf?.sqft || [];
+        const imageSelectors: string[] = selConf?.image || [];
+        const concessionSelectors: string[] = selConf?.concession || [];
+        const include: string[] = (selConf?.availabilityInclude || []).map((s: string) => s.toLowerCase());
+        const exclude: string[] = (selConf?.availabilityExclude || []).map((s: string) => s.toLowerCase());
+
+        const toAbs = (src?: string | null): string | undefined => {
+          if (!src) return undefined;
+          try {
+            return new URL(src, doc.baseURI).toString();
+          } catch {
+            return undefined;
+          }
+        };
+
+        const nodes = Array.from(doc.querySelectorAll(itemSelectors));
+
+        const priceRegex = /(?:from|starting at|start at|as low as)?\s*\$?\s*([\d,]+)(?:\.\d{2})?(?:\s*[-–]\s*\$?\s*([\d,]+)(?:\.\d{2})?)?/i;
+        const sqftRegex = /(\d{3,4})\s*(?:sq\.?\s*ft|sf|square\s*feet)/i;
+        const bedRegex = /(studio)|(\d+)\s*bed/i;
+        const bathRegex = /(\d+(?:\.\d+)?)\s*bath/i;
+        const concessionRegex = new RegExp(concessionSource, 'i');
+
+        const items: RawPlanCard[] = [];
+
+        for (const el of nodes) {
+          const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+          if (!text) continue;
+
+          // Name via selectors, with fallbacks
+          let name = '';
+          for (const ns of nameSelectors) {
+            const n = el.querySelector(ns);
+            const val = (n?.innerText || n?.textContent || '').trim();
+            if (val) { name = val; break; }
+          }
+          if (!name) {
+            name =
+              el.querySelector('h1,h2,h3,h4,[data-testid*="name"],[class*="name"]')?.innerText?.trim() ||
+              el.querySelector('[aria-label]')?.getAttribute('aria-label') ||
+              el.querySelector('img')?.alt ||
+              '';
+          }
+          if (!name) {
+            const pc = text.match(/(?:plan|floor\s*plan)\s*([A-Z]?\d+[A-Z]?)/i);
+            if (pc) name = `Plan ${pc[1]}`.trim();
+          }
+          if (!name) {
+            const m = text.match(/([A-Za-z][A-Za-z0-9\-\s]{2,})/);
+            if (m) name = m[1].trim();
+          }
+          name = String(name).replace(/\s+/g, ' ').trim();
+
+          // Bedrooms
+          let bedrooms = 0;
+          const bed = text.match(bedRegex);
+          if (bed) bedrooms = bed[1] ? 0 : parseInt(bed[2] || '0', 10);
+          else if (/studio/i.test(text)) bedrooms = 0;
+
+          // Bathrooms
+          let bathrooms = 1;
+          const bath = text.match(bathRegex);
+          if (bath) bathrooms = parseFloat(bath[1]);
+
+          // Den
+          const hasDen = /\bden\b/i.test(text);
+
+          // Square footage: targeted then fallback
+          let squareFootage = 0;
+          for (const ss of sqftSelectors) {
+            const sEl = el.querySelector(ss);
+            const st = (sEl?.innerText || sEl?.textContent || '').trim();
+            const m = st.match(sqftRegex);
+            if (m) { squareFootage = parseInt(m[1], 10); break; }
+          }
+          if (!squareFootage) {
+            const sqft = text.match(sqftRegex);
+            if (sqft) squareFootage = parseInt(sqft[1], 10);
+          }
+
+          // Fallback name if missing: derive from beds/baths/sqft
+          if (!name) {
+            const bathLabel = Number.isFinite(bathrooms) ? (bathrooms as number) : 1;
+            const bedLabel = bedrooms === 0 ? 'Studio' : `${bedrooms}x${bathLabel}`;
+            const sqftLabel = squareFootage ? ` ${squareFootage} sf` : '';
+            name = `${bedLabel}${sqftLabel}`.trim();
+          }
+
+          // Position/view
+          let buildingPosition = '';
+          const pos = text.match(/\b(north|south|east|west)\b.*?(?:view|facing)|\bcorner\b|\blake\b|\bcity\b/gi);
+          if (pos && pos.length) buildingPosition = pos[0];
+
+          // Price: targeted then fallback to broad search
+          let price = 0;
+          let priceText = '';
+          for (const ps of priceSelectors) {
+            const pEl = el.querySelector(ps);
+            const pt = (pEl?.innerText || pEl?.textContent || '').trim();
+            if (pt) { priceText = pt; break; }
+          }
+          if (!priceText) {
+            const priceEl = el.querySelector('[class*="price"],[data-testid*="price"],.rent,.amount');
+            priceText = (priceEl?.innerText || '').trim();
+          }
+          const pm = priceText.match(priceRegex);
+          if (pm) {
+            const a = pm[1] ? Number(pm[1].replace(/,/g, '')) : Number.POSITIVE_INFINITY;
+            const b = pm[2] ? Number(pm[2].replace(/,/g, '')) : Number.POSITIVE_INFINITY;
+            const cand = Math.min(a, b);
+            if (Number.isFinite(cand)) price = cand;
+          }
+
+          // Concession/special text: targeted then fallback to sentence search
+          let concessionText = '';
+          for (const cs of concessionSelectors) {
+            const cEl = el.querySelector(cs);
+            const ct = (cEl?.innerText || cEl?.textContent || '').replace(/\s+/g, ' ').trim();
+            if (ct) { concessionText = ct; break; }
+          }
+          if (!concessionText) {
+            const cm = text.match(concessionRegex);
+            if (cm) concessionText = cm[0].trim();
+          }
+
+          // Availability: explicit "Fully Leased" (or similar) overrides to unavailable
+          const lt = text.toLowerCase();
+          let isAvailable = true;
+          if (/fully\s*leased/i.test(text) || /waitlist|unavailable|sold\s*out/i.test(text)) {
+            isAvailable = false;
+          } else if (include.length) {
+            isAvailable = include.some(k => lt.includes(k)) && !exclude.some(k => lt.includes(k));
+          } else {
+            isAvailable = /available|apply|select/i.test(text);
+          }
+
+          // Image via selectors then fallback
+          let imageUrl: string | undefined;
+          for (const is of imageSelectors) {
+            const imgEl = el.querySelector(is);
+            const src = imgEl?.getAttribute('src') || imgEl?.getAttribute('data-src');
+            const abs = toAbs(src);
+            if (abs) { imageUrl = abs; break; }
+          }
+          if (!imageUrl) {
+            const img = el.querySelector('img');
+            imageUrl = toAbs(img?.getAttribute('src') || img?.getAttribute('data-src'));
+          }
+
+          // Try to use the explicit "FLOOR PLAN" link if it points to an image
+          try {
+            const anchors = Array.from(el.querySelectorAll('a'));
+            for (const a of anchors) {
+              const label = (a?.innerText || a?.textContent || '').trim();
+              const href = a?.getAttribute('href') || a?.getAttribute('data-href');
+              if (href && /floor\s*plan/i.test(label)) {
+                const abs = toAbs(href);
+                if (abs && /\.(png|jpe?g|webp|svg)$/i.test(abs)) {
+                  imageUrl = abs;
+                }
+                break;
+              }
+            }
+          } catch {}
+          
+          // Minimal signal: either price or sqft
+          if (!price && !squareFootage) continue;
+
+          items.push({
+            name,
+            bedrooms,
+            bathrooms,
+            hasDen,
+            squareFootage,
+            buildingPosition,
+            price,
+            priceText: priceText.replace(/\s+/g, ' ').trim(),
+            isAvailable,
+            imageUrl,
+            concessionText
+          });
+        }
+
+        // Deduplicate by name; keep lowest price observed
+        const map = new Map<string, RawPlanCard>();
+        for (const it of items) {
+          const key = String(it.name).toUpperCase();
+          const prev = map.get(key);
+          if (!prev || (it.price && (!prev.price || it.price < prev.price))) {
+            map.set(key, it);
+          }
+        }
+        return Array.from(map.values());
+      }, selConf, CONCESSION_TEXT_RE.source);
+
+      // Final sanitize/coerce on Node side
+      // - Clamp small/accidental numbers (e.g., from "D2") to 0
+      // - Availability: preserve explicit unavailability, and require normalized price
+      return raw.map((r) => {
+        const priceNum = Number.isFinite(r.price) ? Number(r.price) : 0;
+        const normalizedPrice = priceNum >= 1000 ? priceNum : 0;
+        const explicitAvail = !!r.isAvailable; // from DOM rules (e.g., not "Fully Leased")
+        const isAvail = explicitAvail && normalizedPrice > 0;
+        return {
+          name: String(r.name),
+          bedrooms: Number.isFinite(r.bedrooms) ? r.bedrooms : 0,
+          bathrooms: Number.isFinite(r.bathrooms) ? r.bathrooms : 1,
+          hasDen: !!r.hasDen,
+          squareFootage: Number.isFinite(r.squareFootage) ? r.squareFootage : 0,
+          buildingPosition: String(r.buildingPosition || ''),
+          price: normalizedPrice,
+          priceText: r.priceText ? String(r.priceText) : undefined,
+          isAvailable: isAvail,
+          imageUrl: r.imageUrl || undefined,
+          concessionText: r.concessionText ? String(r.concessionText) : undefined
+        };
+      });
+    } catch (error) {
+      logger.error('extractFloorPlans error', { building: building.name, url: building.url, error });
+      return [];
+    }
+  }
+}
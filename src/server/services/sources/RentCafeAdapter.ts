@@ -0,0 +1,91 @@
+// RentCafeAdapter: buildings on a RentCafe/Yardi JSON API (rentcafeapi.aspx?apiToken=...&propertyCode=...).
+// The building's url is the endpoint; plans come from requestType=floorplan, prices and units from
+// requestType=apartmentavailability. No browser is involved.
+
+import type { Building } from '../../../shared/types';
+import logger from '../../utils/logger';
+import { applyUnitPrices, parseRentCafeFloorplans, parseRentCafeUnits, rentCafeRequestUrl } from '../parsers/rentCafeParser';
+import {
+  AvailabilityResult,
+  ScrapedFloorPlan,
+  SecureCafeUnit,
+  SourceAdapter,
+  SourceContext,
+  UnitsRequest
+} from './SourceAdapter';
+
+export class RentCafeAdapter implements SourceAdapter {
+  readonly source = 'rentcafe' as const;
+
+  constructor(private readonly ctx: SourceContext) {}
+
+  async discoverPlans(building: Building): Promise<ScrapedFloorPlan[]> {
+    const json = await this.ctx.fetchJson(rentCafeRequestUrl(building.url, 'floorplan'));
+    return parseRentCafeFloorplans(json);
+  }
+
+  async fetchPrices(building: Building, plans: ScrapedFloorPlan[]): Promise<ScrapedFloorPlan[]> {
+    await this.ctx.delay(building.url);
+    const json = await this.ctx.fetchJson(rentCafeRequestUrl(building.url, 'apartmentavailability'));
+    return applyUnitPrices(plans, parseRentCafeUnits(json));
+  }
+
+  /**
+   * Units from the availability endpoint. One endpoint serves one building, so units are assigned to
+   * the first of buildingNames; wings filter on the plan code's letter as they do for SecureCafe.
+   */
+  async fetchUnits({ url, wings, buildingNames }: UnitsRequest): Promise<AvailabilityResult> {
+    const scrapedAt = new Date().toISOString();
+    try {
+      const json = await this.ctx.fetchJson(rentCafeRequestUrl(url, 'apartmentavailability'));
+      const wingSet = new Set(wings.map(w => w.trim().toUpperCase()));
+      const building = buildingNames[0] || '';
+      const units = parseRentCafeUnits(json)
+        .filter(u => wingSet.size === 0 || wingSet.has(u.planName.charAt(0).toUpperCase()));
+
+      const today = scrapedAt.slice(0, 10);
+      const now = new Date();
+      const nextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+      const nextMonthPrefix = `${nextMonth.getFullYear()}-${String(nextMonth.getMonth() + 1).padStart(2, '0')}`;
+
+      const availableSoonUnits: SecureCafeUnit[] = units
+        .filter(u => !!u.moveInDate)
+        .map(u => ({
+          planCode: u.planName,
+          building,
+          unit: u.unit,
+          rent: u.rent ? `$${u.rent.toLocaleString('en-US')}` : '',
+          moveInDate: u.moveInDate!
+        }));
+
+      return {
+        availableNow: units
+          .filter(u => !u.moveInDate || u.moveInDate <= today)
+          .map(u => ({ name: u.unit, moveInDate: u.moveInDate || undefined })),
+        availableNextMonth: units
+          .filter(u => u.moveInDate?.startsWith(nextMonthPrefix))
+          .map(u => ({ name: u.unit, moveInDate: u.moveInDate! })),
+        availableSoonUnits,
+        leaseTermQuotes: [],
+        scrapedAt,
+        source: url,
+        method: 'api',
+        errors: []
+      };
+    } catch (error) {
+      logger.error('RentCafe availability fetch error', { url, error: error instanceof Error ? error.message : String(error) });
+      return {
+        availableNow: [],
+        availableNextMonth: [],
+        availableSoonUnits: [],
+        leaseTermQuotes: [],
+        scrapedAt,
+        source: url,
+        method: null,
+        errors: [error instanceof Error ? error.message : String(error)]
+      };
+    } finally {
+      await this.ctx.delay(url);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+// Source adapters: one per rental platform. ScraperService owns the browser, robots.txt checks,
+// fixtures and retries; an adapter only knows how to read plans, prices and units off its platform.
+
+import type { Page } from 'puppeteer';
+import type { Building } from '../../../shared/types';
+import type { BuildingSource } from '../../../shared/types/database';
+import type { BuildingSelectorConfig } from '../../config/scraper';
+
+export interface ScrapedFloorPlan {
+  name: string;
+  bedrooms: number;
+  bathrooms: number;
+  hasDen: boolean;
+  squareFootage: number;
+  buildingPosition: string;
+  price: number;
+  priceText?: string; // raw text the price was parsed from
+  isAvailable: boolean;
+  imageUrl?: string;
+  planImageId?: number; // stored copy of imageUrl (plan_images), set by ScraperService
+  concessionText?: string;
+}
+
+export interface SecureCafeUnit {
+  planCode: string;
+  building: string;
+  unit: string;
+  rent: string;
+  moveInDate: string;
+}
+
+export interface SecureCafeLeaseQuote {
+  planCode: string;
+  building: string;
+  leaseTermMonths: number;
+  price: number;
+}
+
+// How units were read: captured SecureCafe XHR JSON, the rendered DOM (fallback), a JSON API, or several
+export type AvailabilityMethod = 'xhr' | 'dom' | 'api' | 'mixed';
+
+// Units available now and soon, plus lease-term prices where the source lists them
+export interface AvailabilityResult {
+  availableNow: { name: string; moveInDate?: string }[];
+  availableNextMonth: { name: string; moveInDate: string }[];
+  availableSoonUnits: SecureCafeUnit[];
+  leaseTermQuotes: SecureCafeLeaseQuote[];
+  scrapedAt: string;
+  source: string; // URL the units were read from
+  method: AvailabilityMethod | null; // null when nothing could be read
+  errors: string[];
+}
+
+// Per-property settings for scraping one building
+export interface BuildingScrapeOptions {
+  selectors?: Partial<BuildingSelectorConfig> | null;         // the property's selectors
+  buildingSelectors?: Partial<BuildingSelectorConfig> | null; // the building's saved selectors; win over the property's
+  source?: BuildingSource;   // adapter to use; defaults to onnislu
+  runId?: number | null;     // scrape_runs row failure snapshots are filed under
+}
+
+export interface UnitsRequest {
+  url: string;             // the property's availability page or endpoint
+  wings: string[];         // empty = all wings
+  buildingNames: string[]; // buildings the units may belong to
+}
+
+// What ScraperService lends an adapter; every page and request goes through it
+export interface SourceContext {
+  createPage(): Promise<Page>;
+  closePage(page: Page | null, context: string): Promise<void>;
+  /** Error message when robots.txt disallows the URL; null when it may be scraped */
+  checkRobots(url: string): Promise<string | null>;
+  /** Polite pause before the next request to the URL's host */
+  delay(url?: string): Promise<void>;
+  /** GET a JSON document (robots.txt checked, fixtures recorded or replayed); throws on a non-2xx status */
+  fetchJson(url: string): Promise<unknown>;
+  /** Keep the HTML plans were read from, for testing selector changes against; never throws */
+  saveSnapshot(building: Building, html: string): Promise<void>;
+  /** Keep a page's screenshot, HTML and console log when reading it failed; call before closing it, never throws */
+  captureFailure(building: Building, page: Page): Promise<void>;
+}
+
+export interface SourceAdapter {
+  readonly source: BuildingSource;
+  /** Floor plans the building lists; throws when the listing could not be loaded */
+  discoverPlans(building: Building, options: BuildingScrapeOptions): Promise<ScrapedFloorPlan[]>;
+  /** Current prices and availability for the discovered plans */
+  fetchPrices(building: Building, plans: ScrapedFloorPlan[]): Promise<ScrapedFloorPlan[]>;
+  /** Available units; failures are reported in errors rather than thrown */
+  fetchUnits(request: UnitsRequest): Promise<AvailabilityResult>;
+}
+
+/**
+ * Keep items whose unit name carries one of the wing codes ("D123", "E-45"); empty wings keeps all
+ */
+export function filterByWings<T extends { name: string }>(items: T[], wings: string[]): T[] {
+  if (!wings || wings.length === 0) return items;
+  const wingSet = new Set(wings.map(w => w.trim().toUpperCase()));
+  return items.filter(item => {
+    // Heuristic: look for unit tokens like "D123" or "E-45" at word boundaries
+    const match = item.name.toUpperCase().match(/\b([A-Z])[ -]?\d+\b/);
+    const wing = match ? match[1] : undefined;
+    return wing ? wingSet.has(wing) : false;
+  });
+}
+
+/**
+ * Rules every floor plan source shares before persisting: a plan without a price is not available,
+ * and only plans in the property's wings are kept. `plans` is everything read, `kept` what to store.
+ */
+export function applyFloorPlanRules(
+  floorPlans: ScrapedFloorPlan[],
+  wings: string[]
+): { plans: ScrapedFloorPlan[]; kept: ScrapedFloorPlan[] } {
+  const plans = floorPlans.map(p => ({ ...p, isAvailable: Number(p.price) > 0 }));
+  return { plans, kept: filterByWings(plans, wings) };
+}
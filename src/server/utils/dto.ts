@@ -0,0 +1,64 @@
+// DTO mapping between snake_case database rows (shared/types/database) and the camelCase
+// API types (shared/types). Routes map rows here; ?format=legacy returns the rows unchanged.
+import { Request } from 'express';
+import * as db from '../../shared/types/database';
+import * as api from '../../shared/types';
+
+export type CamelCase<S extends string> = S extends `${infer Head}_${infer Tail}`
+  ? `${Head}${Capitalize<CamelCase<Tail>>}`
+  : S;
+
+export type SnakeCase<S extends string> = S extends `${infer Head}${infer Tail}`
+  ? `${Head extends Lowercase<Head> ? Head : `_${Lowercase<Head>}`}${SnakeCase<Tail>}`
+  : S;
+
+export type Camelized<T> = { [K in keyof T as K extends string ? CamelCase<K> : K]: T[K] };
+export type Snakified<T> = { [K in keyof T as K extends string ? SnakeCase<K> : K]: T[K] };
+
+export function toCamelCase(key: string): string {
+  return key.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+export function toSnakeCase(key: string): string {
+  return key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+}
+
+// Top-level keys only: nested values (JSON settings, selector maps) keep their own keys
+export function camelizeKeys<T extends object>(row: T): Camelized<T> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) out[toCamelCase(key)] = value;
+  return out as Camelized<T>;
+}
+
+export function snakifyKeys<T extends object>(dto: T): Snakified<T> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(dto)) out[toSnakeCase(key)] = value;
+  return out as Snakified<T>;
+}
+
+// SQLite hands booleans back as 0/1 (and NULL from outer joins)
+export function toFloorPlanDto(row: db.FloorPlan): api.FloorPlan {
+  return {
+    ...camelizeKeys(row),
+    hasDen: !!row.has_den,
+    bathroomsEstimated: !!row.bathrooms_estimated,
+    isAvailable: !!row.is_available
+  };
+}
+
+export function toPriceHistoryDto(row: db.PriceHistory): api.PriceHistory {
+  return { ...camelizeKeys(row), isAvailable: !!row.is_available };
+}
+
+export function toAlertDto(row: db.Alert): api.Alert {
+  return { ...camelizeKeys(row), isDismissed: !!row.is_dismissed };
+}
+
+// ?format=legacy keeps the snake_case rows for clients that haven't moved to the API types yet
+export function isLegacyFormat(req: Request): boolean {
+  return req.query.format === 'legacy';
+}
+
+export function formatRows<Row, Dto>(req: Request, rows: Row[], toDto: (row: Row) => Dto): Array<Row | Dto> {
+  return isLegacyFormat(req) ? rows : rows.map(toDto);
+}
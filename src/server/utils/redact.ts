@@ -0,0 +1,5 @@
+// Secret query parameters (API tokens and keys) in URLs and form bodies; their values are kept out
+// of errors, logs and recorded scrape fixtures.
+const SECRET_PARAM_RE = /(^|[?&])((?:api_?token|api_?key|access_?token|token|key|secret|password)=)[^&#]*/gi;
+
+export const redactUrl = (url: string): string => url.replace(SECRET_PARAM_RE, '$1$2***');
@@ -0,0 +1,61 @@
+// Scrape drift detection: measure a building's scraped plans and compare them with a baseline
+// of its recent runs, so markup changes show up as a flagged run instead of quiet gaps. Flagged
+// runs are part of that baseline, so a lasting change stops being flagged after a few runs.
+
+import type { ScrapeHealthMetrics } from '../../shared/types/database';
+import type { ScrapeHealthConfig } from '../config/scraper';
+
+type MeasuredPlan = { price: number; squareFootage: number };
+
+export function measureScrape(plans: MeasuredPlan[]): ScrapeHealthMetrics {
+  const count = plans.length;
+  const share = (n: number) => (count ? n / count : 0);
+  return {
+    plan_count: count,
+    priced_share: share(plans.filter(p => Number(p.price) > 0).length),
+    sqft_share: share(plans.filter(p => Number(p.squareFootage) > 0).length)
+  };
+}
+
+/**
+ * Average of the given runs; null when there are none yet
+ */
+export function averageBaseline(runs: ScrapeHealthMetrics[]): ScrapeHealthMetrics | null {
+  if (!runs.length) return null;
+  const avg = (pick: (r: ScrapeHealthMetrics) => number) => runs.reduce((sum, r) => sum + pick(r), 0) / runs.length;
+  return {
+    plan_count: avg(r => r.plan_count),
+    priced_share: avg(r => r.priced_share),
+    sqft_share: avg(r => r.sqft_share)
+  };
+}
+
+const pct = (share: number) => `${Math.round(share * 100)}%`;
+
+/**
+ * Reasons the run drifted from the baseline; empty when it is within the thresholds
+ */
+export function findDrift(
+  metrics: ScrapeHealthMetrics,
+  baseline: ScrapeHealthMetrics | null,
+  config: Pick<ScrapeHealthConfig, 'maxPlanDropPct' | 'maxShareDropPct'>
+): string[] {
+  if (!baseline) return [];
+  const reasons: string[] = [];
+
+  if (baseline.plan_count > 0) {
+    const dropPct = ((baseline.plan_count - metrics.plan_count) / baseline.plan_count) * 100;
+    if (metrics.plan_count === 0 || dropPct > config.maxPlanDropPct) {
+      reasons.push(`Found ${metrics.plan_count} floor plans, down from about ${Math.round(baseline.plan_count)}`);
+    }
+  }
+
+  const maxDrop = config.maxShareDropPct / 100;
+  if (metrics.plan_count > 0 && baseline.priced_share - metrics.priced_share > maxDrop) {
+    reasons.push(`${pct(metrics.priced_share)} of plans had a price, down from ${pct(baseline.priced_share)}`);
+  }
+  if (metrics.plan_count > 0 && baseline.sqft_share - metrics.sqft_share > maxDrop) {
+    reasons.push(`${pct(metrics.sqft_share)} of plans had square footage, down from ${pct(baseline.sqft_share)}`);
+  }
+  return reasons;
+}
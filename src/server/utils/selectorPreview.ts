@@ -0,0 +1,45 @@
+// Selector testing for the Admin page: run the floor plan parser over a building's saved page
+// snapshot, so a selector change can be checked before the next scrape uses it.
+
+import { JSDOM } from 'jsdom';
+import type { BuildingSelectorConfig } from '../config/scraper';
+import { parseFloorPlansFromHtml } from '../services/parsers/floorPlanParser';
+import type { ScrapedFloorPlan } from '../services/sources/SourceAdapter';
+
+// These groups hold keywords matched against card text, not CSS selectors
+const KEYWORD_GROUPS = new Set(['availabilityInclude', 'availabilityExclude']);
+
+/**
+ * Selectors that aren't valid CSS, as "group: selector"
+ */
+export function findInvalidSelectors(selectors: Record<string, string[]>): string[] {
+  const dom = new JSDOM('');
+  try {
+    const invalid: string[] = [];
+    for (const [group, list] of Object.entries(selectors)) {
+      if (KEYWORD_GROUPS.has(group)) continue;
+      for (const selector of list) {
+        try {
+          dom.window.document.querySelector(selector);
+        } catch {
+          invalid.push(`${group}: ${selector}`);
+        }
+      }
+    }
+    return invalid;
+  } finally {
+    dom.window.close();
+  }
+}
+
+/**
+ * Floor plans the selectors find in the HTML; scripts in the snapshot are not run
+ */
+export function previewFloorPlans(html: string, selectors: BuildingSelectorConfig, url: string): ScrapedFloorPlan[] {
+  const dom = new JSDOM(html, { url });
+  try {
+    return parseFloorPlansFromHtml(html, selectors, url, dom.window.document);
+  } finally {
+    dom.window.close();
+  }
+}
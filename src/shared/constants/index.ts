@@ -1,5 +1,6 @@
 // Shared constants for both frontend and backend
 
+// Buildings of the seeded default property; other properties and their buildings are managed via /api/properties
 export const BUILDINGS = {
   FAIRVIEW: {
     name: 'Fairview',
@@ -13,7 +14,13 @@ export const BUILDINGS = {
 
 export const ALERT_TYPES = {
   PRICE_DROP: 'price_drop',
-  LOWEST_PRICE: 'lowest_price'
+  LOWEST_PRICE: 'lowest_price',
+  SCRAPE_HEALTH: 'scrape_health'
+} as const;
+
+export const BUILDING_SOURCES = {
+  ONNISLU: 'onnislu',
+  RENTCAFE: 'rentcafe'
 } as const;
 
 export const COLLECTION_SCHEDULE = {
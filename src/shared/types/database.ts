@@ -1,9 +1,28 @@
 // Database model interfaces for ONNISLU Price Tracker
 
+export interface Property {
+  id: number;
+  name: string;
+  slug: string;
+  securecafe_url: string | null;
+  wings: string[]; // Empty = all wings
+  selectors: Record<string, string[]> | null; // Overrides for the scraper's default selectors
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+  buildings?: Building[]; // Populated by property reads
+}
+
+// Source adapter that scrapes a building: onnislu (ONNISLU pages + SecureCafe) or rentcafe (RentCafe/Yardi JSON API)
+export type BuildingSource = 'onnislu' | 'rentcafe';
+
 export interface Building {
   id: number;
   name: string;
   url: string;
+  property_id?: number | null;
+  image_code?: string | null; // Plan image file prefix (t1, t2, ...)
+  source?: BuildingSource;
   created_at?: string;
 }
 
@@ -14,16 +33,45 @@ export interface FloorPlan {
   name: string;
   bedrooms: number;
   bathrooms: number;
+  bathrooms_estimated?: boolean; // Inferred by the scraper rather than entered or confirmed
   has_den: boolean;
   square_footage?: number;
   building_position?: string;
-  image_url?: string;
+  image_url?: string; // Scraped source of the plan image; the pricing view returns the stored image instead
+  thumbnail_url?: string | null; // Populated by the pricing view from plan_images
   created_at?: string;
+  archived_at?: string | null; // Soft delete; archived plans are hidden by default
   // Computed fields from price history
   current_price?: number;
   is_available?: boolean;
   lowest_price?: number;
   lowest_price_date?: string;
+  // Latest leasing special and the rent net of it
+  concession_text?: string | null;
+  concession_weeks_free?: number | null;
+  concession_dollar_credit?: number | null;
+  concession_lease_term_months?: number | null;
+  net_effective_rent?: number;
+  // Recurring fees counted in the budget, and current price plus those fees
+  monthly_fees?: number;
+  total_monthly_cost?: number;
+}
+
+export type FeeCategory = 'parking' | 'pet' | 'storage' | 'utilities' | 'amenity' | 'other';
+
+export interface RecurringFee {
+  id: number;
+  building_id: number;
+  building_name?: string; // Populated via JOIN
+  floor_plan_id: number | null; // null = every plan in the building
+  floor_plan_name?: string | null; // Populated via JOIN
+  category: FeeCategory;
+  name: string;
+  monthly_amount: number;
+  include_in_total: boolean; // counted in total_monthly_cost
+  notes?: string | null;
+  created_at?: string;
+  updated_at?: string;
 }
 
 export interface PriceHistory {
@@ -35,19 +83,143 @@ export interface PriceHistory {
   created_at?: string;
 }
 
-export interface Alert {
+// A price history row with names, that day's concession and today's fees (exports, charts)
+export interface PriceHistoryDetail extends PriceHistory {
+  floor_plan_name: string;
+  building_name: string;
+  square_footage?: number | null;
+  concession_text?: string | null;
+  concession_weeks_free?: number | null;
+  concession_dollar_credit?: number | null;
+  concession_lease_term_months?: number | null;
+  net_effective_rent: number;
+  monthly_fees: number;
+  total_monthly_cost: number;
+}
+
+// One floor plan's entry in the latest prices snapshot
+export interface LatestPrice {
+  floor_plan_id: number;
+  floor_plan_name: string;
+  building_id: number;
+  building_name?: string;
+  price: number | null;
+  net_effective_rent: number | null;
+  total_monthly_cost: number | null;
+  concession_text: string | null;
+  is_available: boolean;
+}
+
+// Where a price observation came from
+export type ObservationSource = 'scheduler' | 'manual' | 'ingest';
+
+export interface PriceObservation {
   id: number;
   floor_plan_id: number;
-  floor_plan_name?: string; // Populated via JOIN
+  price: number;
+  price_text?: string | null; // Raw text the price was parsed from
+  is_available: boolean;
+  source: ObservationSource;
+  observed_at: string; // ISO timestamp
+  created_at?: string;
+}
+
+export type AlertType = 'price_drop' | 'lowest_price' | 'scrape_health';
+
+// Price alerts belong to a floor plan; scrape_health alerts to a building, with no prices
+export interface Alert {
+  id: number;
+  floor_plan_id: number | null;
+  building_id?: number | null;
+  floor_plan_name?: string | null; // Populated via JOIN
   building_name?: string; // Populated via JOIN
-  alert_type: 'price_drop' | 'lowest_price';
+  alert_type: AlertType;
   old_price?: number;
-  new_price: number;
+  new_price: number | null;
   percentage_change?: number;
+  lease_term_months?: number | null; // Set when raised for a watched lease term
+  message?: string | null;
   is_dismissed: boolean;
   created_at?: string;
 }
 
+export interface PriceQuote {
+  id: number;
+  floor_plan_id: number;
+  lease_term_months: number;
+  price: number;
+  collection_date: string; // ISO date string (YYYY-MM-DD)
+  created_at?: string;
+}
+
+export interface LeaseTermPricing {
+  floor_plan_id: number;
+  floor_plan_name?: string; // Populated via JOIN
+  building_name?: string; // Populated via JOIN
+  collection_date: string;
+  quotes: Array<Pick<PriceQuote, 'lease_term_months' | 'price'>>;
+  cheapest: Pick<PriceQuote, 'lease_term_months' | 'price'> | null;
+}
+
+export interface Concession {
+  id: number;
+  floor_plan_id: number;
+  collection_date: string; // ISO date string (YYYY-MM-DD)
+  raw_text: string;
+  weeks_free: number;
+  dollar_credit: number;
+  lease_term_months?: number | null; // Lease length the special requires, if stated
+  created_at?: string;
+}
+
+export interface Unit {
+  id: number;
+  building_id: number;
+  building_name?: string; // Populated via JOIN
+  floor_plan_id?: number | null;
+  floor_plan_name?: string | null; // Populated via JOIN
+  unit_number: string;
+  plan_code?: string | null;
+  current_rent?: number | null;
+  move_in_date?: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  leased_at?: string | null; // Set when the unit stops being listed
+  created_at?: string;
+}
+
+export interface UnitObservation {
+  id: number;
+  unit_id: number;
+  rent?: number | null;
+  rent_text?: string | null;
+  move_in_date?: string | null;
+  source: ObservationSource;
+  observed_at: string;
+}
+
+// Field-level change history for admin and settings mutations
+export type AuditEntityType = 'floor_plan' | 'setting' | 'fee' | 'ingest_token' | 'property' | 'building';
+
+export interface AuditLogEntry {
+  id: number;
+  actor: string;
+  entity_type: AuditEntityType;
+  entity_id: string; // floor plan, fee, ingest token, property or building id, or a setting key
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  source: string; // e.g. "PUT /api/admin/floorplans/3"
+  reverted_entry_id?: number | null; // Set when this change undid an earlier entry
+  created_at: string;
+}
+
+// Reverting an audit entry either undoes it (reverted: the entry's id) or explains why it can't
+export interface AuditRevertResult {
+  reverted?: number;
+  conflict?: string;
+}
+
 export interface AlertSettings {
   threshold_type: 'dollar' | 'percentage';
   threshold_value: number;
@@ -60,10 +232,265 @@ export interface Settings {
   updated_at?: string;
 }
 
+// Price history retention, stored in settings as retention_<field>
+export interface RetentionPolicy {
+  daily_days: number; // keep every daily point newer than this; 0 = forever (nothing is removed)
+  weekly_days: number; // then keep each plan's weekly minimum for this many more days; 0 = forever
+  observation_days: number; // raw intraday observations; 0 = forever
+  keep_alert_days: boolean; // never remove a plan's point from a day it raised an alert
+}
+
+export interface RetentionReport {
+  dry_run: boolean;
+  policy: RetentionPolicy;
+  daily_cutoff: string | null; // points before this date are downsampled
+  weekly_cutoff: string | null; // points before this date are removed
+  observation_cutoff: string | null;
+  removed: {
+    downsampled: number;
+    expired: number;
+    observations: number;
+    total: number;
+  };
+}
+
+// Share of a building's scraped plans with a price / with square footage, 0..1
+export interface ScrapeHealthMetrics {
+  plan_count: number;
+  priced_share: number;
+  sqft_share: number;
+}
+
+// One building's scrape compared with the average of its recent runs
+export interface ScrapeHealthCheck extends ScrapeHealthMetrics {
+  id: number;
+  building_id: number;
+  building_name?: string; // Populated via JOIN
+  baseline_plan_count: number | null; // null on the building's first run
+  baseline_priced_share: number | null;
+  baseline_sqft_share: number | null;
+  flagged: boolean;
+  reasons: string[]; // why the run was flagged; stored as JSON
+  created_at: string;
+}
+
+export type ScrapeTrigger = 'scheduler' | 'manual';
+
+// running until finished; partial when some buildings failed, failed when none succeeded
+export type ScrapeRunStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+// Plan counts of a run or one of its buildings: scraped off the page, left after the wing filter,
+// written to floor_plans, and given a price point
+export interface ScrapeRunCounts {
+  plans_scraped: number;
+  plans_filtered: number;
+  plans_upserted: number;
+  plans_priced: number;
+  retry_count: number;
+}
+
+export interface ScrapeRun extends ScrapeRunCounts {
+  id: number;
+  trigger_type: ScrapeTrigger;
+  status: ScrapeRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  property_count: number;
+  building_count: number;
+  error_count: number; // run-level errors plus every building's
+  errors: string[]; // errors outside any one building; stored as JSON
+}
+
+export interface ScrapeRunBuilding extends ScrapeRunCounts {
+  id: number;
+  run_id: number;
+  building_id: number | null; // null once the building is deleted
+  building_name: string;
+  property_name: string | null;
+  source: string | null;
+  url: string | null;
+  success: boolean;
+  started_at: string;
+  finished_at: string;
+  drift_flagged: boolean;
+  errors: string[]; // stored as JSON
+}
+
+export interface ScrapeRunDetail extends ScrapeRun {
+  buildings: ScrapeRunBuilding[];
+}
+
+// queued until the runner picks it up; finished jobs take their scrape run's status, or cancelled
+export type ScrapeJobStatus = 'queued' | 'running' | 'succeeded' | 'partial' | 'failed' | 'cancelled';
+
+// A scheduled or manual scrape waiting in or taken from the job queue
+export interface ScrapeJob {
+  id: number;
+  trigger_type: ScrapeTrigger;
+  status: ScrapeJobStatus;
+  requested_by: string | null;
+  run_id: number | null; // set once the job starts
+  buildings_total: number;
+  buildings_done: number;
+  current_building: string | null; // building being scraped while running
+  cancel_requested: boolean;
+  cancelled_by: string | null;
+  error: string | null;
+  queued_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+// A stored plan image, deduplicated by content hash; file and thumbnail_file are relative to PLAN_IMAGE_DIR
+export interface PlanImage {
+  id: number;
+  hash: string; // sha256 of the file contents
+  file: string;
+  thumbnail_file: string | null; // null when the image is no wider than a thumbnail
+  mime_type: string;
+  width: number;
+  height: number;
+  bytes: number;
+  created_at: string;
+  url?: string;           // Populated by the manifest listing
+  thumbnail_url?: string;
+  sources?: string[];
+  floor_plan_count?: number;
+}
+
+// Floor plan fields the metadata sources (services/MetadataReconciliationService) report on
+export type MetadataField = 'bedrooms' | 'bathrooms' | 'has_den';
+
+// json: floor-plan-metadata.json; userscript: tampermonkey-scraper.js download; scraper:
+// updateFloorPlanMetadata.ts output; manual: a value an admin typed in
+export type MetadataSource = 'json' | 'userscript' | 'scraper' | 'manual';
+
+// One source's value for a field; has_den values are booleans
+export interface MetadataCandidate {
+  source: MetadataSource;
+  value: number | boolean;
+  estimated: boolean;         // the source guessed it (bathrooms only)
+  file: string;
+  loaded_at: string | null;   // the file's modification time
+}
+
+export interface MetadataDecision {
+  floor_plan_id: number;
+  field: MetadataField;
+  value: number | boolean;
+  source: MetadataSource;
+  estimated: boolean;
+  decided_by: string | null;
+  decided_at: string;
+}
+
+export interface MetadataFieldReport {
+  field: MetadataField;
+  current: number | boolean;
+  candidates: MetadataCandidate[];
+  conflict: boolean;          // the sources, or the sources and the stored value, disagree
+  decision: MetadataDecision | null;
+}
+
+export interface MetadataPlanReport {
+  floor_plan_id: number;
+  building_name: string;
+  plan_name: string;
+  fields: MetadataFieldReport[];
+  conflicts: number;
+  bathrooms_estimated: boolean;
+  bathrooms_estimated_expected: boolean; // what the sources say the flag should be
+}
+
+export interface MetadataSourceStatus {
+  source: MetadataSource;
+  file: string;
+  loaded: boolean;
+  plans: number;
+  loaded_at: string | null;
+  error: string | null; // null when the file is missing or read cleanly
+}
+
+export interface MetadataReconciliationReport {
+  generated_at: string;
+  sources: MetadataSourceStatus[];
+  plans: MetadataPlanReport[];
+  unmatched: Array<{ source: MetadataSource; building: string; plan: string }>; // source plans no floor plan matches
+}
+
+// A device allowed to post userscript data to /api/ingest; the token itself is only returned on creation
+export interface IngestToken {
+  id: number;
+  device: string;
+  token_prefix: string; // first characters of the token, to tell tokens apart
+  created_by?: string | null;
+  created_at: string;
+  last_used_at?: string | null;
+  revoked_at?: string | null;
+  revoked_by?: string | null;
+}
+
+export interface CreatedIngestToken extends IngestToken {
+  token: string;
+}
+
+// One saved version of a building's scraper selectors (selector group -> CSS selectors)
+export interface SelectorConfig {
+  id: number;
+  building_id: number;
+  version: number;
+  selectors: Record<string, string[]>; // stored as JSON
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// The page a building's floor plans were last scraped from; html is left out of listings
+export interface PageSnapshot {
+  building_id: number;
+  url: string;
+  html: string;
+  captured_at: string;
+}
+
+export interface BuildingSelectorSettings {
+  building_id: number;
+  building_name: string;
+  property_selectors: Record<string, string[]> | null;
+  versions: SelectorConfig[]; // newest first; the first one applies
+  snapshot: Omit<PageSnapshot, 'html'> & { size: number } | null;
+}
+
 // Input types for database operations
+export interface CreateRecurringFeeInput {
+  building_id?: number; // may be omitted when floor_plan_id is given
+  floor_plan_id?: number | null;
+  category: FeeCategory;
+  name: string;
+  monthly_amount: number;
+  include_in_total?: boolean;
+  notes?: string | null;
+}
+
+export type UpdateRecurringFeeInput = Partial<Omit<CreateRecurringFeeInput, 'building_id' | 'floor_plan_id'>>;
+
+export interface CreatePropertyInput {
+  name: string;
+  slug: string;
+  securecafe_url?: string | null;
+  wings?: string[];
+  selectors?: Record<string, string[]> | null;
+  is_active?: boolean;
+}
+
+export type UpdatePropertyInput = Partial<CreatePropertyInput>;
+
 export interface CreateBuildingInput {
   name: string;
   url: string;
+  property_id?: number;
+  image_code?: string | null;
+  source?: BuildingSource;
 }
 
 export interface CreateFloorPlanInput {
@@ -77,6 +504,24 @@ export interface CreateFloorPlanInput {
   image_url?: string;
 }
 
+export type CreateScrapeRunBuildingInput = Partial<ScrapeRunCounts> & {
+  building_name: string;
+  property_name?: string | null;
+  source?: string | null;
+  url?: string | null;
+  success: boolean;
+  started_at: string;
+  finished_at?: string; // defaults to now
+  drift_flagged?: boolean;
+  errors?: string[];
+};
+
+export type CreatePlanImageInput = Omit<PlanImage, 'id' | 'created_at' | 'url' | 'thumbnail_url' | 'sources' | 'floor_plan_count'>;
+
+export type UpdateScrapeJobInput = Partial<Pick<ScrapeJob,
+  'status' | 'run_id' | 'buildings_total' | 'buildings_done' | 'current_building' | 'cancel_requested' |
+  'cancelled_by' | 'error' | 'started_at' | 'finished_at'>>;
+
 export interface CreatePriceHistoryInput {
   floor_plan_id: number;
   price: number;
@@ -84,12 +529,19 @@ export interface CreatePriceHistoryInput {
   collection_date: string;
 }
 
+export type CreatePriceObservationInput = Omit<PriceObservation, 'id' | 'created_at'>;
+
+export type CreateConcessionInput = Omit<Concession, 'id' | 'created_at'>;
+
 export interface CreateAlertInput {
-  floor_plan_id: number;
-  alert_type: 'price_drop' | 'lowest_price';
+  floor_plan_id?: number | null;
+  building_id?: number | null;
+  alert_type: AlertType;
   old_price?: number;
-  new_price: number;
+  new_price?: number | null;
   percentage_change?: number;
+  lease_term_months?: number | null;
+  message?: string | null;
 }
 
 export interface UpdateFloorPlanInput {
@@ -97,7 +549,7 @@ export interface UpdateFloorPlanInput {
   bedrooms?: number;
   bathrooms?: number;
   has_den?: boolean;
-  square_footage?: number;
+  square_footage?: number | null;
   building_position?: string;
   image_url?: string;
 }
@@ -107,11 +559,37 @@ export interface UpdateSettingsInput {
   value: string;
 }
 
+// Who made a change and through which request; recorded with every audited mutation
+export interface AuditContext {
+  actor: string;
+  source: string;
+}
+
 // Database operation result types
-export interface DatabaseResult {
+export interface DatabaseResult<T = any> {
   success: boolean;
   error?: string;
-  data?: any;
+  data?: T;
+}
+
+// data of an INSERT/UPDATE/DELETE
+// Connectivity and PRAGMA integrity_check result
+export interface DatabaseHealth {
+  connected: boolean;
+  integrity: 'ok' | 'corrupted';
+}
+
+// Row counts shown on the status page
+export interface DatabaseStats {
+  buildings: number;
+  floor_plans: number;
+  price_records: number;
+  active_alerts: number;
+}
+
+export interface WriteResult {
+  lastID: number;
+  changes: number;
 }
 
 export interface TransactionResult<T = any> {
@@ -134,4 +612,29 @@ export interface FloorPlanQuery {
   bathrooms?: number;
   has_den?: boolean;
   available_only?: boolean;
-}
\ No newline at end of file
+  include_archived?: boolean;
+}
+
+export interface UnitQuery {
+  building_id?: number;
+  floor_plan_id?: number;
+  status?: 'active' | 'leased' | 'all';
+}
+
+export interface ScrapeJobQuery {
+  status?: ScrapeJobStatus;
+  limit?: number;
+}
+
+export interface ScrapeRunQuery {
+  trigger_type?: ScrapeTrigger;
+  status?: ScrapeRunStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditLogQuery {
+  entity_type?: AuditEntityType;
+  entity_id?: string | number;
+  limit?: number;
+}
@@ -7,23 +7,33 @@ export interface Building {
   createdAt?: string;
 }
 
+// API shapes: camelCase views of the rows in ./database (the server maps them in utils/dto.ts)
 export interface FloorPlan {
   id: number;
   buildingId: number;
-  buildingName: string;
+  buildingName?: string;
   name: string;
   bedrooms: number;
   bathrooms: number;
-  bathroomsEstimated?: boolean;
+  bathroomsEstimated: boolean;
   hasDen: boolean;
-  squareFootage: number;
-  buildingPosition: string;
-  imageUrl?: string;
-  currentPrice?: number;
-  isAvailable: boolean;
-  lowestPrice?: number;
-  lowestPriceDate?: string;
+  squareFootage?: number | null;
+  buildingPosition?: string | null;
+  imageUrl?: string | null;
+  thumbnailUrl?: string | null;
   createdAt?: string;
+  archivedAt?: string | null;
+  currentPrice?: number | null;
+  isAvailable: boolean;
+  lowestPrice?: number | null;
+  lowestPriceDate?: string | null;
+  concessionText?: string | null;
+  concessionWeeksFree?: number | null;
+  concessionDollarCredit?: number | null;
+  concessionLeaseTermMonths?: number | null;
+  netEffectiveRent?: number;
+  monthlyFees?: number;
+  totalMonthlyCost?: number;
 }
 
 export interface PriceHistory {
@@ -35,22 +45,27 @@ export interface PriceHistory {
   createdAt?: string;
 }
 
+// scrape_health alerts are raised for a building (no floor plan or prices) and carry a message
 export interface Alert {
   id: number;
-  floorPlanId: number;
-  floorPlanName: string;
-  buildingName: string;
-  alertType: 'price_drop' | 'lowest_price';
-  oldPrice: number;
-  newPrice: number;
-  percentageChange: number;
+  floorPlanId: number | null;
+  buildingId?: number | null;
+  floorPlanName?: string | null;
+  buildingName?: string;
+  alertType: 'price_drop' | 'lowest_price' | 'scrape_health';
+  oldPrice?: number | null;
+  newPrice: number | null;
+  percentageChange?: number | null;
+  leaseTermMonths?: number | null;
+  message?: string | null;
   isDismissed: boolean;
-  createdAt: string;
+  createdAt?: string;
 }
 
 export interface AlertSettings {
   thresholdType: 'dollar' | 'percentage';
   thresholdValue: number;
+  leaseTermMonths?: number | null; // Only alert on quotes for this lease term
 }
 
 export interface SystemStatus {
@@ -0,0 +1,199 @@
+// ==UserScript==
+// @name         ONNISLU Price Tracker Ingest
+// @namespace    http://tampermonkey.net/
+// @version      1.0
+// @description  Post floor plans and SecureCafe units from the ONNISLU websites to the price tracker
+// @author       You
+// @match        https://onnislu.com/floorplans/fairview
+// @match        https://onnislu.com/floorplans/boren
+// @match        https://onnislu.securecafe.com/onlineleasing/south-lake-union/oleapplication.aspx*
+// @grant        GM_setValue
+// @grant        GM_getValue
+// @grant        GM_registerMenuCommand
+// @grant        GM_xmlhttpRequest
+// @connect      *
+// ==/UserScript==
+
+// Set the tracker URL and this device's token (Admin → Ingest devices) from the Tampermonkey menu.
+// Floor plan pages post to /api/ingest/floorplans, the SecureCafe page to /api/ingest/units.
+
+(function() {
+    'use strict';
+
+    const settings = () => ({
+        serverUrl: String(GM_getValue('serverUrl', 'http://localhost:3001')).replace(/\/+$/, ''),
+        token: GM_getValue('ingestToken', '')
+    });
+
+    GM_registerMenuCommand('Set tracker URL', () => {
+        const value = prompt('Price tracker URL', settings().serverUrl);
+        if (value) GM_setValue('serverUrl', value.trim());
+    });
+
+    GM_registerMenuCommand('Set ingest token', () => {
+        const value = prompt('Ingest token for this device (Admin → Ingest devices)', '');
+        if (value) GM_setValue('ingestToken', value.trim());
+    });
+
+    // Small status badge instead of alerts, so a page can be reloaded without clicking through
+    function showStatus(message, ok) {
+        const badge = document.createElement('div');
+        badge.textContent = message;
+        badge.style.cssText = `
+            position: fixed;
+            top: 10px;
+            right: 10px;
+            z-index: 10000;
+            padding: 12px 20px;
+            background: ${ok ? '#4CAF50' : '#f44336'};
+            color: white;
+            border-radius: 5px;
+            font-size: 14px;
+            font-weight: bold;
+            box-shadow: 0 2px 5px rgba(0,0,0,0.3);
+        `;
+        document.body.appendChild(badge);
+        setTimeout(() => badge.remove(), 8000);
+    }
+
+    function post(path, payload) {
+        const { serverUrl, token } = settings();
+        if (!token) {
+            showStatus('Ingest token not set (Tampermonkey menu → Set ingest token)', false);
+            return;
+        }
+
+        GM_xmlhttpRequest({
+            method: 'POST',
+            url: `${serverUrl}${path}`,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${token}`
+            },
+            data: JSON.stringify(payload),
+            onload: (response) => {
+                let body = {};
+                try {
+                    body = JSON.parse(response.responseText);
+                } catch (e) {
+                    // Non-JSON error page
+                }
+                if (response.status === 200 && body.success) {
+                    console.log(`Posted to ${path}:`, body.data);
+                    showStatus(`✓ Sent to tracker: ${JSON.stringify(body.data)}`, true);
+                } else {
+                    const error = body.error?.details || body.error?.message || body.error || `HTTP ${response.status}`;
+                    console.error(`Posting to ${path} failed:`, error);
+                    showStatus(`✗ Tracker rejected data: ${error}`, false);
+                }
+            },
+            onerror: () => showStatus(`✗ Could not reach ${serverUrl}`, false)
+        });
+    }
+
+    const text = (el) => (el?.innerText || el?.textContent || '').replace(/\s+/g, ' ').trim();
+
+    // Parse bedroom count from plan type text ("1 BR", "1 BR + DEN", "URBAN 1 BR")
+    function parseBedroomInfo(planType) {
+        const type = planType.toUpperCase();
+        // Urban 1 BR is actually a studio (0 bedrooms)
+        if (type.includes('URBAN')) return { bedrooms: 0, hasDen: false };
+        const match = type.match(/(\d+)\s*BR/);
+        return { bedrooms: match ? parseInt(match[1]) : 0, hasDen: type.includes('DEN') };
+    }
+
+    // ONNISLU floor plan page (Fairview or Boren): one entry per plan card, named as the page shows it
+    function scrapeOnnisluPage() {
+        const building = window.location.href.includes('fairview') ? 'Fairview' : 'Boren';
+        const floorPlans = [];
+
+        document.querySelectorAll('.yard__card').forEach(card => {
+            const name = text(card.querySelector('.content--yard h2'));
+            if (!/plan\s+[A-Z0-9]/i.test(name)) return;
+
+            const cardText = text(card);
+            const { bedrooms, hasDen } = parseBedroomInfo(text(card.querySelector('.content--yard p')));
+            const bath = cardText.match(/(\d+(?:\.\d)?)\s*(?:BA|bath)/i);
+            const sqft = cardText.match(/(\d[\d,]*)\s*(?:sq\.?\s*ft|sf)\b/i);
+            const price = cardText.match(/\$\s?([\d,]+)/);
+
+            floorPlans.push({
+                name,
+                bedrooms,
+                bathrooms: bath ? parseFloat(bath[1]) : 0, // stored plans keep their bathroom count
+                hasDen,
+                squareFootage: sqft ? parseInt(sqft[1].replace(/,/g, '')) : 0,
+                price: price ? Number(price[1].replace(/,/g, '')) : 0,
+                priceText: price ? price[0] : '',
+                isAvailable: !/fully\s*leased|waitlist|unavailable|sold\s*out/i.test(cardText) && /available|apply|select/i.test(cardText)
+            });
+        });
+
+        console.log(`Found ${floorPlans.length} ${building} floor plans`, floorPlans);
+        if (!floorPlans.length) return;
+        post('/api/ingest/floorplans', { building, collectedAt: new Date().toISOString(), floorPlans });
+    }
+
+    // SecureCafe availability page: unit rows grouped under "Floor Plan : <Building> <Plan>" headers
+    function scrapeSecureCafe() {
+        const units = [];
+
+        document.querySelectorAll('table').forEach(table => {
+            // Nearest preceding floor plan header
+            let header = null;
+            for (let el = table; el && !header; el = el.parentElement) {
+                for (let prev = el.previousElementSibling; prev; prev = prev.previousElementSibling) {
+                    const match = text(prev).match(/Floor Plan\s*:\s*(Boren|Fairview)\s+([A-Z0-9\*\-]+)/i);
+                    if (match) {
+                        header = match;
+                        break;
+                    }
+                }
+            }
+            if (!header) return;
+
+            table.querySelectorAll('tbody tr').forEach(row => {
+                const rowText = Array.from(row.querySelectorAll('td,th')).map(text).join(' | ');
+                const unit = rowText.match(/#?\s?(\d{3,4})\b/);
+                const rent = rowText.match(/\$\s?[\d,]+/);
+                const date = rowText.match(/(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\s+\d{1,2}/i) ||
+                    rowText.match(/\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/);
+                if (!unit) return;
+                units.push({
+                    building: header[1],
+                    planCode: header[2].toUpperCase(),
+                    unit: unit[1],
+                    rent: rent ? rent[0] : '',
+                    moveInDate: date ? date[0] : ''
+                });
+            });
+        });
+
+        console.log(`Found ${units.length} SecureCafe units`, units);
+        if (!units.length) return;
+        // The page lists every available unit, so the server may mark the missing ones leased
+        post('/api/ingest/units', { collectedAt: new Date().toISOString(), complete: true, units });
+    }
+
+    // Main execution
+    function init() {
+        const url = window.location.href;
+
+        if (url.includes('onnislu.com/floorplans/')) {
+            // Wait for the plan cards to render
+            setTimeout(() => {
+                if (document.querySelectorAll('.yard__card').length > 0) {
+                    scrapeOnnisluPage();
+                }
+            }, 1000);
+        } else if (url.includes('securecafe.com')) {
+            setTimeout(scrapeSecureCafe, 2000);
+        }
+    }
+
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', init);
+    } else {
+        init();
+    }
+})();
@@ -1,7 +1,7 @@
 // ==UserScript==
 // @name         ONNISLU Floor Plan Metadata Scraper
 // @namespace    http://tampermonkey.net/
-// @version      1.0
+// @version      1.1
 // @description  Scrape floor plan metadata from ONNISLU websites
 // @author       You
 // @match        https://onnislu.com/floorplans/fairview
@@ -112,6 +112,7 @@
         bathroomData.forEach(data => {
             if (floorPlanData[data.building] && floorPlanData[data.building][data.planName]) {
                 floorPlanData[data.building][data.planName].bathrooms = data.bathrooms;
+                floorPlanData[data.building][data.planName].bathroomsEstimated = false;
                 console.log(`Updated ${data.building} ${data.planName}: ${data.bathrooms} BA`);
             }
         });
@@ -124,11 +125,11 @@
 
     // Estimate missing bathrooms
     function estimateBathrooms(planName, bedrooms, buildingPlans) {
-        // Rule 1: If similar plan exists (same letter), use that bathroom count
+        // Rule 1: If similar plan exists (same letter), use that plan's bathroom count from SecureCafe
         const planLetter = planName.match(/PLAN ([A-Z])/)?.[1];
         if (planLetter) {
             for (const [otherPlan, meta] of Object.entries(buildingPlans)) {
-                if (otherPlan.startsWith(`PLAN ${planLetter}`) && meta.bathrooms > 0) {
+                if (otherPlan.startsWith(`PLAN ${planLetter}`) && meta.bathrooms > 0 && !meta.bathroomsEstimated) {
                     return meta.bathrooms;
                 }
             }
@@ -166,11 +167,12 @@
                 return;
             }
 
-            // Estimate missing bathrooms
+            // Estimate missing bathrooms; the server's metadata reconciliation ranks estimates below confirmed counts
             for (const [building, plans] of Object.entries(floorPlanData)) {
                 for (const [planName, meta] of Object.entries(plans)) {
-                    if (meta.bathrooms === 0) {
+                    if (meta.bathrooms === 0 || meta.bathroomsEstimated) {
                         meta.bathrooms = estimateBathrooms(planName, meta.bedrooms, plans);
+                        meta.bathroomsEstimated = true;
                     }
                 }
             }
@@ -181,14 +183,14 @@
             const url = URL.createObjectURL(blob);
             const a = document.createElement('a');
             a.href = url;
-            a.download = 'floor-plan-metadata.json';
+            a.download = 'userscript.json';
             document.body.appendChild(a);
             a.click();
             document.body.removeChild(a);
             URL.revokeObjectURL(url);
 
             console.log('Downloaded:', floorPlanData);
-            alert('✓ JSON file downloaded!\n\nSave it to: src/server/data/floor-plan-metadata.json');
+            alert('✓ JSON file downloaded!\n\nSave it to data/metadata/userscript.json, then review conflicts under Admin → Metadata.');
         });
 
         button.addEventListener('mouseenter', () => {